@@ -0,0 +1,7 @@
+-- AlterTable
+ALTER TABLE "Card" ADD COLUMN "noteId" TEXT;
+ALTER TABLE "Card" ADD COLUMN "ordinal" INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE "Card" ADD COLUMN "type" TEXT NOT NULL DEFAULT 'BASIC';
+
+-- CreateIndex
+CREATE INDEX "Card_noteId_idx" ON "Card"("noteId");
@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE "Card" ADD COLUMN "correctOptionIndex" INTEGER;
+ALTER TABLE "Card" ADD COLUMN "options" TEXT;
+
+-- AlterTable
+ALTER TABLE "IngestionDraftCard" ADD COLUMN "correctOptionIndex" INTEGER;
+ALTER TABLE "IngestionDraftCard" ADD COLUMN "options" TEXT;
+ALTER TABLE "IngestionDraftCard" ADD COLUMN "type" TEXT NOT NULL DEFAULT 'BASIC';
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "Card" ADD COLUMN "format" TEXT NOT NULL DEFAULT 'PLAIN';
+
+-- AlterTable
+ALTER TABLE "IngestionDraftCard" ADD COLUMN "format" TEXT NOT NULL DEFAULT 'PLAIN';
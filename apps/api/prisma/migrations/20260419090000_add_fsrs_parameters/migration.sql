@@ -0,0 +1,17 @@
+-- AlterTable
+ALTER TABLE "Review" ADD COLUMN "elapsedDays" REAL;
+
+-- CreateTable
+CREATE TABLE "FsrsParameters" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "userId" TEXT NOT NULL,
+    "weights" TEXT NOT NULL,
+    "reviewCount" INTEGER NOT NULL,
+    "logLossBefore" REAL NOT NULL,
+    "logLossAfter" REAL NOT NULL,
+    "optimizedAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "FsrsParameters_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "FsrsParameters_userId_key" ON "FsrsParameters"("userId");
@@ -0,0 +1,42 @@
+-- CreateTable
+CREATE TABLE "SchedulingPreset" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "name" TEXT NOT NULL,
+    "desiredRetention" REAL NOT NULL DEFAULT 0.9,
+    "maximumInterval" INTEGER NOT NULL DEFAULT 36500,
+    "learningSteps" TEXT NOT NULL,
+    "relearningSteps" TEXT NOT NULL,
+    "enableFuzz" BOOLEAN NOT NULL DEFAULT false,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    "userId" TEXT NOT NULL,
+    CONSTRAINT "SchedulingPreset_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "SchedulingPreset_userId_name_key" ON "SchedulingPreset"("userId", "name");
+
+-- RedefineTables
+PRAGMA defer_foreign_keys=ON;
+PRAGMA foreign_keys=OFF;
+CREATE TABLE "new_Deck" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "title" TEXT NOT NULL,
+    "description" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    "userId" TEXT NOT NULL,
+    "parentId" TEXT,
+    "presetId" TEXT,
+    CONSTRAINT "Deck_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "Deck_parentId_fkey" FOREIGN KEY ("parentId") REFERENCES "Deck" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "Deck_presetId_fkey" FOREIGN KEY ("presetId") REFERENCES "SchedulingPreset" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+INSERT INTO "new_Deck" ("createdAt", "description", "id", "parentId", "title", "updatedAt", "userId") SELECT "createdAt", "description", "id", "parentId", "title", "updatedAt", "userId" FROM "Deck";
+DROP TABLE "Deck";
+ALTER TABLE "new_Deck" RENAME TO "Deck";
+CREATE INDEX "Deck_userId_idx" ON "Deck"("userId");
+CREATE INDEX "Deck_parentId_idx" ON "Deck"("parentId");
+CREATE INDEX "Deck_presetId_idx" ON "Deck"("presetId");
+PRAGMA foreign_keys=ON;
+PRAGMA defer_foreign_keys=OFF;
@@ -0,0 +1,7 @@
+-- AlterTable
+ALTER TABLE "User" ADD COLUMN "dayStartHour" INTEGER NOT NULL DEFAULT 4;
+ALTER TABLE "User" ADD COLUMN "timeZone" TEXT NOT NULL DEFAULT 'UTC';
+
+-- AlterTable
+ALTER TABLE "Deck" ADD COLUMN "newCardsPerDay" INTEGER NOT NULL DEFAULT 20;
+ALTER TABLE "Deck" ADD COLUMN "reviewsPerDay" INTEGER NOT NULL DEFAULT 200;
@@ -0,0 +1,4 @@
+-- AlterTable
+ALTER TABLE "Card" ADD COLUMN "suspended" BOOLEAN NOT NULL DEFAULT false;
+ALTER TABLE "Card" ADD COLUMN "buriedUntil" DATETIME;
+ALTER TABLE "Card" ADD COLUMN "flag" TEXT;
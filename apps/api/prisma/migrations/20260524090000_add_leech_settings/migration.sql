@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "Deck" ADD COLUMN "leechThreshold" INTEGER NOT NULL DEFAULT 8;
+ALTER TABLE "Deck" ADD COLUMN "leechAction" TEXT NOT NULL DEFAULT 'TAG';
@@ -0,0 +1,21 @@
+-- CreateTable
+CREATE TABLE "StudyFilter" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "name" TEXT NOT NULL,
+    "deckIds" TEXT NOT NULL,
+    "includeSubdecks" BOOLEAN NOT NULL DEFAULT true,
+    "tags" TEXT,
+    "flag" TEXT,
+    "lapsedWithinDays" INTEGER,
+    "minDifficulty" REAL,
+    "maxDifficulty" REAL,
+    "reschedule" BOOLEAN NOT NULL DEFAULT false,
+    "cardLimit" INTEGER NOT NULL DEFAULT 100,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    "userId" TEXT NOT NULL,
+    CONSTRAINT "StudyFilter_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "StudyFilter_userId_name_key" ON "StudyFilter"("userId", "name");
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "Deck" ADD COLUMN "studyPriority" INTEGER NOT NULL DEFAULT 0;
@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "Deck" ADD COLUMN "examDate" DATETIME;
+ALTER TABLE "Deck" ADD COLUMN "examMinReviews" INTEGER NOT NULL DEFAULT 2;
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "SchedulingPreset" ADD COLUMN "enableLoadBalance" BOOLEAN NOT NULL DEFAULT false;
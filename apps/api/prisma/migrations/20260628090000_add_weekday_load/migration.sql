@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "User" ADD COLUMN "weekdayLoad" TEXT NOT NULL DEFAULT '[1,1,1,1,1,1,1]';
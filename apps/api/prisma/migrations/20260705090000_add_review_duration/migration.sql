@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "Review" ADD COLUMN "durationMs" INTEGER;
+
+-- AlterTable
+ALTER TABLE "Deck" ADD COLUMN "slowRecallSeconds" INTEGER;
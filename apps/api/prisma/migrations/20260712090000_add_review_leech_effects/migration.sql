@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "Review" ADD COLUMN "leechTagged" BOOLEAN NOT NULL DEFAULT false;
+ALTER TABLE "Review" ADD COLUMN "leechSuspended" BOOLEAN NOT NULL DEFAULT false;
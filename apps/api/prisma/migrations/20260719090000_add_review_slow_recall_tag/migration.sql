@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "Review" ADD COLUMN "slowRecallTagged" BOOLEAN NOT NULL DEFAULT false;
@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "User" ADD COLUMN "vacationStartDate" DATETIME;
+ALTER TABLE "User" ADD COLUMN "vacationEndDate" DATETIME;
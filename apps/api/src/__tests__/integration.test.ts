@@ -1,7 +1,10 @@
 import request from "supertest";
+import initSqlJs from "sql.js";
+import { strToU8, zipSync } from "fflate";
 import { beforeAll, beforeEach, afterAll, describe, expect, it, vi } from "vitest";
 import type { Express } from "express";
 import type { PrismaClient } from "@prisma/client";
+import { readApkg } from "../anki/apkg.js";
 import { clearRateLimitBuckets } from "../middleware/rate-limit.js";
 
 vi.mock("../auth/google-oauth.js", async () => {
@@ -77,6 +80,64 @@ async function setPlan(email: string, plan: "FREE" | "PRO") {
   expect(response.status).toBe(200);
 }
 
+async function buildAnkiPackage(): Promise<Buffer> {
+  const SQL = await initSqlJs();
+  const db = new SQL.Database();
+  const nowSeconds = Math.floor(Date.now() / 1000);
+  const createdSeconds = nowSeconds - 100 * 86400;
+  const deckId = 1700000000001;
+  const modelId = 1700000000002;
+
+  db.run(`
+    CREATE TABLE col (id integer primary key, crt integer not null, mod integer not null, scm integer not null, ver integer not null, dty integer not null, usn integer not null, ls integer not null, conf text not null, models text not null, decks text not null, dconf text not null, tags text not null);
+    CREATE TABLE notes (id integer primary key, guid text not null, mid integer not null, mod integer not null, usn integer not null, tags text not null, flds text not null, sfld integer not null, csum integer not null, flags integer not null, data text not null);
+    CREATE TABLE cards (id integer primary key, nid integer not null, did integer not null, ord integer not null, mod integer not null, usn integer not null, type integer not null, queue integer not null, due integer not null, ivl integer not null, factor integer not null, reps integer not null, lapses integer not null, left integer not null, odue integer not null, odid integer not null, flags integer not null, data text not null);
+    CREATE TABLE revlog (id integer primary key, cid integer not null, usn integer not null, ease integer not null, ivl integer not null, lastIvl integer not null, factor integer not null, time integer not null, type integer not null);
+  `);
+  db.run("INSERT INTO col VALUES (1, ?, ?, ?, 11, 0, 0, 0, '{}', ?, ?, '{}', '{}')", [
+    createdSeconds,
+    nowSeconds,
+    nowSeconds,
+    JSON.stringify({ [modelId]: { id: modelId, name: "Basic", type: 0 } }),
+    JSON.stringify({ [deckId]: { id: deckId, name: "Biology::Cells" } })
+  ]);
+
+  const reviewedAtMs = (nowSeconds - 5 * 86400) * 1000;
+  db.run("INSERT INTO notes VALUES (?, 'guid-1', ?, 0, 0, '', ?, '', 0, 0, '')", [
+    1600000000001,
+    modelId,
+    "What is the <b>powerhouse</b> of the cell?\x1fThe mitochondria"
+  ]);
+  db.run("INSERT INTO notes VALUES (?, 'guid-2', ?, 0, 0, '', ?, '', 0, 0, '')", [
+    1600000000002,
+    modelId,
+    "What does DNA stand for?\x1fDeoxyribonucleic acid"
+  ]);
+  db.run("INSERT INTO cards VALUES (?, ?, ?, 0, 0, 0, 2, 2, ?, 15, 2500, 2, 0, 0, 0, 0, 0, ?)", [
+    1600000000101,
+    1600000000001,
+    deckId,
+    110,
+    JSON.stringify({ s: 14.2, d: 4.3 })
+  ]);
+  db.run("INSERT INTO cards VALUES (?, ?, ?, 0, 0, 0, 0, 0, 1, 0, 0, 0, 0, 0, 0, 0, 0, '{}')", [
+    1600000000102,
+    1600000000002,
+    deckId
+  ]);
+  db.run("INSERT INTO revlog VALUES (?, ?, 0, 3, -600, 0, 0, 4000, 0)", [reviewedAtMs - 86400 * 1000, 1600000000101]);
+  db.run("INSERT INTO revlog VALUES (?, ?, 0, 3, 15, 1, 2500, 6000, 1)", [reviewedAtMs, 1600000000101]);
+
+  const collection = db.export();
+  db.close();
+  return Buffer.from(
+    zipSync({
+      "collection.anki2": collection,
+      media: strToU8("{}")
+    })
+  );
+}
+
 describe("API integration", () => {
   it("rejects protected routes without access token", async () => {
     const response = await request(app).get("/decks");
@@ -551,4 +612,2090 @@ describe("API integration", () => {
     expect(settings.status).toBe(200);
     expect((settings.body as { usage: { chatTurns: number } }).usage.chatTurns).toBe(2);
   });
+
+  it("imports Anki packages with scheduling state and review history", async () => {
+    const login = await loginUser("anki-import@test.local");
+
+    const rejected = await request(app)
+      .post("/decks/import")
+      .set("Authorization", `Bearer ${login.accessToken}`)
+      .attach("file", Buffer.from("not a zip"), {
+        filename: "broken.apkg",
+        contentType: "application/octet-stream"
+      });
+    expect(rejected.status).toBe(400);
+
+    const imported = await request(app)
+      .post("/decks/import")
+      .query({ format: "apkg" })
+      .set("Authorization", `Bearer ${login.accessToken}`)
+      .attach("file", await buildAnkiPackage(), {
+        filename: "biology.apkg",
+        contentType: "application/octet-stream"
+      });
+    expect(imported.status).toBe(201);
+    const importBody = imported.body as {
+      decks: Array<{ id: string; title: string; cardCount: number }>;
+      importedCards: number;
+      importedReviews: number;
+    };
+    expect(importBody.decks).toHaveLength(1);
+    expect(importBody.decks[0].title).toBe("Biology::Cells");
+    expect(importBody.importedCards).toBe(2);
+    expect(importBody.importedReviews).toBe(2);
+    const deckId = importBody.decks[0].id;
+
+    const cards = await request(app).get(`/decks/${deckId}/cards`).set("Authorization", `Bearer ${login.accessToken}`);
+    expect(cards.status).toBe(200);
+    expect((cards.body as Array<{ question: string }>)[0].question).toBe("What is the powerhouse of the cell?");
+
+    const session = await request(app)
+      .get(`/study/decks/${deckId}/session`)
+      .set("Authorization", `Bearer ${login.accessToken}`);
+    expect(session.status).toBe(200);
+    const sessionBody = session.body as {
+      dueNowCount: number;
+      nextDueAt: string | null;
+      cards: Array<{ question: string }>;
+    };
+    expect(sessionBody.dueNowCount).toBe(1);
+    expect(sessionBody.cards[0].question).toBe("What does DNA stand for?");
+    expect(sessionBody.nextDueAt).toBeTruthy();
+
+    const reviewedCard = await prisma.card.findFirst({
+      where: { deckId, question: "What is the powerhouse of the cell?" },
+      include: { scheduleState: true }
+    });
+    expect(reviewedCard?.scheduleState?.fsrsState).toBe(2);
+    expect(reviewedCard?.scheduleState?.fsrsStability).toBeCloseTo(14.2);
+    expect(reviewedCard?.scheduleState?.fsrsDifficulty).toBeCloseTo(4.3);
+    expect(reviewedCard?.scheduleState?.fsrsScheduledDays).toBe(15);
+    const importedReviews = await prisma.review.findMany({
+      where: { cardId: reviewedCard?.id },
+      orderBy: { createdAt: "asc" },
+      select: { durationMs: true }
+    });
+    expect(importedReviews).toEqual([{ durationMs: 4000 }, { durationMs: 6000 }]);
+  });
+
+  it("exports decks as Anki packages that re-import without losing scheduling", async () => {
+    const login = await loginUser("anki-export@test.local");
+    const preset = await request(app)
+      .post("/presets")
+      .set("Authorization", `Bearer ${login.accessToken}`)
+      .send({ name: "Relaxed", desiredRetention: 0.85 });
+
+    const deckResponse = await request(app)
+      .post("/decks")
+      .set("Authorization", `Bearer ${login.accessToken}`)
+      .send({
+        title: "Export Deck",
+        presetId: (preset.body as { id: string }).id
+      });
+    expect(deckResponse.status).toBe(201);
+    const deckId = (deckResponse.body as { id: string }).id;
+
+    const cardResponse = await request(app)
+      .post(`/decks/${deckId}/cards`)
+      .set("Authorization", `Bearer ${login.accessToken}`)
+      .send({
+        question: "Capital of France?",
+        answer: "Paris"
+      });
+    expect(cardResponse.status).toBe(201);
+    const cardId = (cardResponse.body as { id: string }).id;
+
+    await request(app)
+      .post(`/decks/${deckId}/cards`)
+      .set("Authorization", `Bearer ${login.accessToken}`)
+      .send({
+        question: "Capital of Spain?",
+        answer: "Madrid"
+      });
+
+    const review = await request(app)
+      .post("/study/review")
+      .set("Authorization", `Bearer ${login.accessToken}`)
+      .send({
+        cardId,
+        rating: "GOOD",
+        durationMs: 7000
+      });
+    expect(review.status).toBe(201);
+
+    const missingFormat = await request(app)
+      .get(`/decks/${deckId}/export`)
+      .set("Authorization", `Bearer ${login.accessToken}`);
+    expect(missingFormat.status).toBe(400);
+
+    const exported = await request(app)
+      .get(`/decks/${deckId}/export`)
+      .query({ format: "apkg" })
+      .set("Authorization", `Bearer ${login.accessToken}`)
+      .buffer(true)
+      .parse((res, callback) => {
+        const chunks: Buffer[] = [];
+        res.on("data", (chunk: Buffer) => chunks.push(chunk));
+        res.on("end", () => callback(null, Buffer.concat(chunks)));
+      });
+    expect(exported.status).toBe(200);
+    expect(exported.headers["content-disposition"]).toContain("export-deck.apkg");
+    const exportedCollection = await readApkg(exported.body as Buffer);
+    expect(exportedCollection.cards.map((card) => card.data.dr)).toContain(0.85);
+
+    const imported = await request(app)
+      .post("/decks/import")
+      .set("Authorization", `Bearer ${login.accessToken}`)
+      .attach("file", exported.body as Buffer, {
+        filename: "export-deck.apkg",
+        contentType: "application/octet-stream"
+      });
+    expect(imported.status).toBe(201);
+    const importBody = imported.body as {
+      decks: Array<{ id: string; title: string; cardCount: number }>;
+      importedReviews: number;
+    };
+    expect(importBody.decks[0].title).toBe("Export Deck");
+    expect(importBody.decks[0].cardCount).toBe(2);
+    expect(importBody.importedReviews).toBe(1);
+
+    const original = await prisma.scheduleState.findUnique({ where: { cardId } });
+    const roundTripped = await prisma.card.findFirst({
+      where: { deckId: importBody.decks[0].id, question: "Capital of France?" },
+      include: { scheduleState: true }
+    });
+    expect(roundTripped?.scheduleState?.fsrsState).toBe(original?.fsrsState);
+    expect(roundTripped?.scheduleState?.fsrsStability).toBeCloseTo(original?.fsrsStability ?? 0);
+    expect(roundTripped?.scheduleState?.fsrsDifficulty).toBeCloseTo(original?.fsrsDifficulty ?? 0);
+    expect(roundTripped?.scheduleState?.repetitions).toBe(original?.repetitions);
+    expect(await prisma.review.findMany({ where: { cardId: roundTripped?.id }, select: { durationMs: true } })).toEqual([
+      { durationMs: 7000 }
+    ]);
+    expect(
+      Math.abs((roundTripped?.scheduleState?.dueAt.getTime() ?? 0) - (original?.dueAt.getTime() ?? 0))
+    ).toBeLessThan(1000);
+  });
+
+  it("imports CSV cards with column mapping and dry-run validation, then exports them", async () => {
+    const login = await loginUser("csv-import@test.local");
+
+    const deckResponse = await request(app)
+      .post("/decks")
+      .set("Authorization", `Bearer ${login.accessToken}`)
+      .send({
+        title: "Spreadsheet Deck"
+      });
+    expect(deckResponse.status).toBe(201);
+    const deckId = (deckResponse.body as { id: string }).id;
+
+    const csv = [
+      "Notes,Term,Definition,Due",
+      "",
+      'ignored,"Mitochondria","Powerhouse of the cell, makes ""ATP""",2026-03-01',
+      'ignored,,"Missing',
+      'term",',
+      `ignored,Too long,${"a".repeat(5001)},`,
+      "ignored,Ribosome,Builds proteins,next week"
+    ].join("\n");
+
+    const dryRun = await request(app)
+      .post(`/decks/${deckId}/import`)
+      .query({ format: "csv" })
+      .set("Authorization", `Bearer ${login.accessToken}`)
+      .field("dryRun", "true")
+      .attach("file", Buffer.from(csv), {
+        filename: "cards.csv",
+        contentType: "text/csv"
+      });
+    expect(dryRun.status).toBe(200);
+    const dryRunBody = dryRun.body as {
+      columns: string[];
+      mapping: { question: number; answer: number; dueDate: number | null; tags: number | null };
+      validRows: number;
+      invalidRows: number;
+      importedCards: number;
+      errors: Array<{ row: number; field: string }>;
+    };
+    expect(dryRunBody.columns).toEqual(["Notes", "Term", "Definition", "Due"]);
+    expect(dryRunBody.mapping).toEqual({ question: 1, answer: 2, dueDate: 3, tags: null });
+    expect(dryRunBody.validRows).toBe(1);
+    expect(dryRunBody.invalidRows).toBe(3);
+    expect(dryRunBody.importedCards).toBe(0);
+    expect(dryRunBody.errors.map((error) => [error.row, error.field])).toEqual([
+      [4, "question"],
+      [6, "answer"],
+      [7, "dueDate"]
+    ]);
+    expect(await prisma.card.count({ where: { deckId } })).toBe(0);
+
+    const imported = await request(app)
+      .post(`/decks/${deckId}/import`)
+      .query({ format: "csv" })
+      .set("Authorization", `Bearer ${login.accessToken}`)
+      .field("questionColumn", "1")
+      .field("answerColumn", "2")
+      .field("dueDateColumn", "none")
+      .attach("file", Buffer.from(csv), {
+        filename: "cards.csv",
+        contentType: "text/csv"
+      });
+    expect(imported.status).toBe(201);
+    expect((imported.body as { importedCards: number }).importedCards).toBe(2);
+
+    const cards = await prisma.card.findMany({
+      where: { deckId },
+      orderBy: { question: "asc" },
+      include: { scheduleState: true }
+    });
+    expect(cards.map((card) => card.question)).toEqual(["Mitochondria", "Ribosome"]);
+    expect(cards[0].answer).toBe('Powerhouse of the cell, makes "ATP"');
+    expect(cards[0].scheduleState).toBeNull();
+
+    await request(app)
+      .post(`/decks/${deckId}/cards`)
+      .set("Authorization", `Bearer ${login.accessToken}`)
+      .send({ question: "=HYPERLINK(\"http://example.com\")", answer: "-1" });
+
+    const exported = await request(app)
+      .get(`/decks/${deckId}/export`)
+      .query({ format: "tsv" })
+      .set("Authorization", `Bearer ${login.accessToken}`);
+    expect(exported.status).toBe(200);
+    expect(exported.headers["content-type"]).toContain("text/tab-separated-values");
+    expect(exported.headers["content-disposition"]).toContain("spreadsheet-deck.tsv");
+    expect(exported.text.split("\r\n")[0]).toBe("question\tanswer\tdueDate\ttags");
+    expect(exported.text).toContain('Mitochondria\t"Powerhouse of the cell, makes ""ATP"""\t');
+    expect(exported.text).toContain(`"'=HYPERLINK(""http://example.com"")"\t'-1\t`);
+
+    const reimported = await request(app)
+      .post(`/decks/${deckId}/import`)
+      .query({ format: "tsv" })
+      .set("Authorization", `Bearer ${login.accessToken}`)
+      .field("dryRun", "true")
+      .attach("file", Buffer.from(exported.text), {
+        filename: "spreadsheet-deck.tsv",
+        contentType: "text/tab-separated-values"
+      });
+    expect((reimported.body as { preview: Array<{ question: string; answer: string }> }).preview).toContainEqual(
+      expect.objectContaining({ question: '=HYPERLINK("http://example.com")', answer: "-1" })
+    );
+  });
+
+  it("creates cloze notes with one independently scheduled card per deletion", async () => {
+    const login = await loginUser("cloze@test.local");
+
+    const deckResponse = await request(app)
+      .post("/decks")
+      .set("Authorization", `Bearer ${login.accessToken}`)
+      .send({
+        title: "Cloze Deck"
+      });
+    const deckId = (deckResponse.body as { id: string }).id;
+
+    const invalid = await request(app)
+      .post(`/decks/${deckId}/cards`)
+      .set("Authorization", `Bearer ${login.accessToken}`)
+      .send({
+        type: "CLOZE",
+        question: "No deletions here"
+      });
+    expect(invalid.status).toBe(400);
+
+    const created = await request(app)
+      .post(`/decks/${deckId}/cards`)
+      .set("Authorization", `Bearer ${login.accessToken}`)
+      .send({
+        type: "CLOZE",
+        question: "The {{c1::mitochondria}} is the {{c2::powerhouse::metaphor}} of the cell",
+        answer: "Biology 101"
+      });
+    expect(created.status).toBe(201);
+    const noteId = (created.body as { noteId: string }).noteId;
+    expect(noteId).toBeTruthy();
+
+    const session = await request(app)
+      .get(`/study/decks/${deckId}/session`)
+      .set("Authorization", `Bearer ${login.accessToken}`);
+    expect(session.status).toBe(200);
+    const sessionCards = (session.body as {
+      cards: Array<{ id: string; type: string; ordinal: number; question: string; answer: string }>;
+    }).cards;
+    expect(sessionCards.map((card) => [card.ordinal, card.question])).toEqual([
+      [1, "The [...] is the powerhouse of the cell"],
+      [2, "The mitochondria is the [metaphor] of the cell"]
+    ]);
+    expect(sessionCards[0].type).toBe("CLOZE");
+    expect(sessionCards[0].answer).toBe("The mitochondria is the powerhouse of the cell\n\nBiology 101");
+
+    const review = await request(app)
+      .post("/study/review")
+      .set("Authorization", `Bearer ${login.accessToken}`)
+      .send({
+        cardId: sessionCards[0].id,
+        rating: "GOOD"
+      });
+    expect(review.status).toBe(201);
+    expect(await prisma.scheduleState.count({ where: { card: { noteId } } })).toBe(1);
+
+    const updated = await request(app)
+      .patch(`/cards/${sessionCards[0].id}`)
+      .set("Authorization", `Bearer ${login.accessToken}`)
+      .send({
+        question: "The {{c1::mitochondria}} makes {{c3::ATP}}"
+      });
+    expect(updated.status).toBe(200);
+
+    const siblings = await prisma.card.findMany({
+      where: { noteId },
+      orderBy: { ordinal: "asc" },
+      include: { scheduleState: true }
+    });
+    expect(siblings.map((card) => card.ordinal)).toEqual([1, 3]);
+    expect(siblings[0].id).toBe(sessionCards[0].id);
+    expect(siblings[0].scheduleState).not.toBeNull();
+    expect(siblings.every((card) => card.question === "The {{c1::mitochondria}} makes {{c3::ATP}}")).toBe(true);
+
+    const deleted = await request(app)
+      .delete(`/cards/${siblings[1].id}`)
+      .set("Authorization", `Bearer ${login.accessToken}`);
+    expect(deleted.status).toBe(204);
+    expect(await prisma.card.count({ where: { deckId } })).toBe(0);
+  });
+
+  it("serves reversible cards in both directions with separate schedules", async () => {
+    const login = await loginUser("reverse@test.local");
+
+    const deckResponse = await request(app)
+      .post("/decks")
+      .set("Authorization", `Bearer ${login.accessToken}`)
+      .send({
+        title: "Vocabulary"
+      });
+    const deckId = (deckResponse.body as { id: string }).id;
+
+    const created = await request(app)
+      .post(`/decks/${deckId}/cards`)
+      .set("Authorization", `Bearer ${login.accessToken}`)
+      .send({
+        question: "perro",
+        answer: "dog",
+        reverse: true
+      });
+    expect(created.status).toBe(201);
+    const forwardId = (created.body as { id: string }).id;
+
+    const session = await request(app)
+      .get(`/study/decks/${deckId}/session`)
+      .set("Authorization", `Bearer ${login.accessToken}`);
+    const sessionCards = (session.body as {
+      cards: Array<{ id: string; reversed: boolean; question: string; answer: string }>;
+    }).cards;
+    expect(sessionCards.map((card) => [card.reversed, card.question, card.answer])).toEqual([
+      [false, "perro", "dog"],
+      [true, "dog", "perro"]
+    ]);
+    const reverseId = sessionCards[1].id;
+
+    const review = await request(app)
+      .post("/study/review")
+      .set("Authorization", `Bearer ${login.accessToken}`)
+      .send({
+        cardId: forwardId,
+        rating: "EASY"
+      });
+    expect(review.status).toBe(201);
+    expect(await prisma.scheduleState.findUnique({ where: { cardId: reverseId } })).toBeNull();
+
+    const edited = await request(app)
+      .patch(`/cards/${reverseId}`)
+      .set("Authorization", `Bearer ${login.accessToken}`)
+      .send({
+        answer: "dog (animal)"
+      });
+    expect(edited.status).toBe(200);
+    const siblings = await prisma.card.findMany({ where: { deckId }, orderBy: { ordinal: "asc" } });
+    expect(siblings.map((card) => card.answer)).toEqual(["dog (animal)", "dog (animal)"]);
+
+    const disabled = await request(app)
+      .patch(`/cards/${forwardId}`)
+      .set("Authorization", `Bearer ${login.accessToken}`)
+      .send({
+        reverse: false
+      });
+    expect(disabled.status).toBe(200);
+    expect((disabled.body as { id: string; noteId: string | null }).noteId).toBeNull();
+    const remaining = await prisma.card.findMany({ where: { deckId }, include: { scheduleState: true } });
+    expect(remaining.map((card) => card.id)).toEqual([forwardId]);
+    expect(remaining[0].scheduleState).not.toBeNull();
+
+    const clozeReverse = await request(app)
+      .post(`/decks/${deckId}/cards`)
+      .set("Authorization", `Bearer ${login.accessToken}`)
+      .send({
+        type: "CLOZE",
+        question: "{{c1::Hola}} means hello",
+        reverse: true
+      });
+    expect(clozeReverse.status).toBe(400);
+  });
+
+  it("grades multiple-choice cards deterministically and generates them from documents", async () => {
+    const login = await loginUser("choice@test.local");
+
+    const deckResponse = await request(app)
+      .post("/decks")
+      .set("Authorization", `Bearer ${login.accessToken}`)
+      .send({
+        title: "Capitals"
+      });
+    const deckId = (deckResponse.body as { id: string }).id;
+
+    const invalid = await request(app)
+      .post(`/decks/${deckId}/cards`)
+      .set("Authorization", `Bearer ${login.accessToken}`)
+      .send({
+        type: "MULTIPLE_CHOICE",
+        question: "Capital of France?",
+        options: ["Paris", "paris"],
+        correctOptionIndex: 0
+      });
+    expect(invalid.status).toBe(400);
+
+    const created = await request(app)
+      .post(`/decks/${deckId}/cards`)
+      .set("Authorization", `Bearer ${login.accessToken}`)
+      .send({
+        type: "MULTIPLE_CHOICE",
+        question: "Capital of France?",
+        options: ["Lyon", "Paris", "Marseille"],
+        correctOptionIndex: 1
+      });
+    expect(created.status).toBe(201);
+    const card = created.body as { id: string; answer: string; options: string[] };
+    expect(card.answer).toBe("Paris");
+    expect(card.options).toEqual(["Lyon", "Paris", "Marseille"]);
+
+    const session = await request(app)
+      .get(`/study/decks/${deckId}/session`)
+      .set("Authorization", `Bearer ${login.accessToken}`);
+    const sessionCard = (session.body as { cards: Array<Record<string, unknown>> }).cards[0];
+    expect(sessionCard.options).toEqual(["Lyon", "Paris", "Marseille"]);
+    expect(sessionCard).not.toHaveProperty("correctOptionIndex");
+    expect(sessionCard.answer).toBe("");
+
+    const selfRated = await request(app)
+      .post("/study/review")
+      .set("Authorization", `Bearer ${login.accessToken}`)
+      .send({ cardId: card.id, rating: "EASY" });
+    expect(selfRated.status).toBe(400);
+
+    const wrong = await request(app)
+      .post("/study/choice")
+      .set("Authorization", `Bearer ${login.accessToken}`)
+      .send({
+        cardId: card.id,
+        optionIndex: 0
+      });
+    expect(wrong.status).toBe(201);
+    expect(wrong.body).toMatchObject({ correct: false, correctOptionIndex: 1, answer: "Paris", rating: "AGAIN" });
+
+    const right = await request(app)
+      .post("/study/choice")
+      .set("Authorization", `Bearer ${login.accessToken}`)
+      .send({
+        cardId: card.id,
+        optionIndex: 1
+      });
+    expect(right.body).toMatchObject({ correct: true, rating: "GOOD" });
+    expect(await prisma.review.count({ where: { cardId: card.id } })).toBe(2);
+
+    const edited = await request(app)
+      .patch(`/cards/${card.id}`)
+      .set("Authorization", `Bearer ${login.accessToken}`)
+      .send({
+        correctOptionIndex: 5
+      });
+    expect(edited.status).toBe(400);
+
+    const ingest = await request(app)
+      .post("/ingest/generate-preview")
+      .set("Authorization", `Bearer ${login.accessToken}`)
+      .field("deckId", deckId)
+      .field("targetCards", "4")
+      .field("multipleChoice", "true")
+      .attach("file", Buffer.from("pdf"), {
+        filename: "geography.pdf",
+        contentType: "application/pdf"
+      });
+    expect(ingest.status).toBe(201);
+    const preview = (ingest.body as {
+      preview: {
+        id: string;
+        cards: Array<{ id: string; type: string; question: string; answer: string; options: string[] | null }>;
+      };
+    }).preview;
+    const choiceDrafts = preview.cards.filter((draft) => draft.type === "MULTIPLE_CHOICE");
+    expect(choiceDrafts).toHaveLength(2);
+    expect(choiceDrafts.every((draft) => draft.options?.includes(draft.answer))).toBe(true);
+
+    const commit = await request(app)
+      .post(`/ingest/previews/${preview.id}/commit`)
+      .set("Authorization", `Bearer ${login.accessToken}`)
+      .send({
+        cards: preview.cards.map((draft) => ({
+          id: draft.id,
+          keep: true,
+          question: draft.question,
+          answer: draft.answer
+        }))
+      });
+    expect(commit.status).toBe(201);
+    expect(await prisma.card.count({ where: { deckId, type: "MULTIPLE_CHOICE" } })).toBe(3);
+  });
+
+  it("tags cards and filters card lists and study sessions by tag expression", async () => {
+    const login = await loginUser("tags@test.local");
+
+    const deckResponse = await request(app)
+      .post("/decks")
+      .set("Authorization", `Bearer ${login.accessToken}`)
+      .send({
+        title: "Biology"
+      });
+    const deckId = (deckResponse.body as { id: string }).id;
+
+    const cell = await request(app)
+      .post(`/decks/${deckId}/cards`)
+      .set("Authorization", `Bearer ${login.accessToken}`)
+      .send({
+        question: "Powerhouse of the cell?",
+        answer: "Mitochondria",
+        tags: ["Chapter1", "cells"]
+      });
+    expect(cell.status).toBe(201);
+    expect((cell.body as { tags: string[] }).tags).toEqual(["cells", "chapter1"]);
+
+    const cloze = await request(app)
+      .post(`/decks/${deckId}/cards`)
+      .set("Authorization", `Bearer ${login.accessToken}`)
+      .send({
+        type: "CLOZE",
+        question: "{{c1::DNA}} is copied into {{c2::RNA}}",
+        tags: ["chapter2", "hard"]
+      });
+    expect(cloze.status).toBe(201);
+
+    await request(app)
+      .post(`/decks/${deckId}/cards`)
+      .set("Authorization", `Bearer ${login.accessToken}`)
+      .send({
+        question: "Untagged?",
+        answer: "Yes"
+      });
+
+    const invalidTag = await request(app)
+      .post(`/decks/${deckId}/cards`)
+      .set("Authorization", `Bearer ${login.accessToken}`)
+      .send({
+        question: "Bad tag?",
+        answer: "Yes",
+        tags: ["two words"]
+      });
+    expect(invalidTag.status).toBe(400);
+
+    const filtered = await request(app)
+      .get(`/decks/${deckId}/cards`)
+      .query({ tags: "chapter1|chapter2 -hard" })
+      .set("Authorization", `Bearer ${login.accessToken}`);
+    expect(filtered.status).toBe(200);
+    expect((filtered.body as Array<{ question: string }>).map((card) => card.question)).toEqual([
+      "Powerhouse of the cell?"
+    ]);
+
+    const clozeCards = await request(app)
+      .get(`/decks/${deckId}/cards`)
+      .query({ tags: "chapter2" })
+      .set("Authorization", `Bearer ${login.accessToken}`);
+    expect((clozeCards.body as unknown[]).length).toBe(2);
+
+    const session = await request(app)
+      .get(`/study/decks/${deckId}/session`)
+      .query({ tags: "hard" })
+      .set("Authorization", `Bearer ${login.accessToken}`);
+    expect(session.status).toBe(200);
+    const sessionBody = session.body as { dueNowCount: number; cards: Array<{ type: string }> };
+    expect(sessionBody.dueNowCount).toBe(2);
+    expect(sessionBody.cards.every((card) => card.type === "CLOZE")).toBe(true);
+
+    const retagged = await request(app)
+      .patch(`/cards/${(cell.body as { id: string }).id}`)
+      .set("Authorization", `Bearer ${login.accessToken}`)
+      .send({
+        tags: ["chapter3"]
+      });
+    expect(retagged.status).toBe(200);
+    expect((retagged.body as { tags: string[] }).tags).toEqual(["chapter3"]);
+
+    const tags = await request(app).get("/tags").set("Authorization", `Bearer ${login.accessToken}`);
+    expect(tags.status).toBe(200);
+    const tagList = tags.body as Array<{ id: string; name: string; cardCount: number }>;
+    expect(tagList.map((tag) => [tag.name, tag.cardCount])).toEqual([
+      ["cells", 0],
+      ["chapter1", 0],
+      ["chapter2", 2],
+      ["chapter3", 1],
+      ["hard", 2]
+    ]);
+
+    const duplicate = await request(app)
+      .post("/tags")
+      .set("Authorization", `Bearer ${login.accessToken}`)
+      .send({ name: "Hard" });
+    expect(duplicate.status).toBe(409);
+
+    const hardTag = tagList.find((tag) => tag.name === "hard");
+    const renamed = await request(app)
+      .patch(`/tags/${hardTag?.id}`)
+      .set("Authorization", `Bearer ${login.accessToken}`)
+      .send({ name: "difficult" });
+    expect(renamed.status).toBe(200);
+
+    const deleted = await request(app)
+      .delete(`/tags/${hardTag?.id}`)
+      .set("Authorization", `Bearer ${login.accessToken}`);
+    expect(deleted.status).toBe(204);
+    expect(await prisma.card.count({ where: { deckId } })).toBe(4);
+
+    const otherUser = await loginUser("tags-other@test.local");
+    const foreignTag = await request(app)
+      .delete(`/tags/${tagList[0].id}`)
+      .set("Authorization", `Bearer ${otherUser.accessToken}`);
+    expect(foreignTag.status).toBe(404);
+  });
+
+  it("nests decks and aggregates counts and study sessions across sub-decks", async () => {
+    const login = await loginUser("subdecks@test.local");
+
+    const createDeck = async (title: string, parentId?: string) => {
+      const response = await request(app)
+        .post("/decks")
+        .set("Authorization", `Bearer ${login.accessToken}`)
+        .send({ title, parentId });
+      expect(response.status).toBe(201);
+      return (response.body as { id: string }).id;
+    };
+    const addCard = async (deckId: string, question: string) => {
+      const response = await request(app)
+        .post(`/decks/${deckId}/cards`)
+        .set("Authorization", `Bearer ${login.accessToken}`)
+        .send({ question, answer: "Answer" });
+      expect(response.status).toBe(201);
+    };
+
+    const courseId = await createDeck("Course");
+    const chapterOneId = await createDeck("Chapter 1", courseId);
+    const chapterTwoId = await createDeck("Chapter 2", courseId);
+    const sectionId = await createDeck("Section 1.1", chapterOneId);
+    await addCard(courseId, "Course question?");
+    await addCard(chapterOneId, "Chapter 1 question?");
+    await addCard(sectionId, "Section question?");
+    await addCard(chapterTwoId, "Chapter 2 question?");
+
+    const tree = await request(app).get("/decks").set("Authorization", `Bearer ${login.accessToken}`);
+    expect(tree.status).toBe(200);
+    type TreeNode = { id: string; cardCount: number; totalCardCount: number; totalDueCount: number; children: TreeNode[] };
+    const roots = tree.body as TreeNode[];
+    expect(roots).toHaveLength(1);
+    expect(roots[0]).toMatchObject({ id: courseId, cardCount: 1, totalCardCount: 4, totalDueCount: 4 });
+    const chapterOne = roots[0].children.find((child) => child.id === chapterOneId);
+    expect(chapterOne).toMatchObject({ cardCount: 1, totalCardCount: 2, totalDueCount: 2 });
+    expect(chapterOne?.children.map((child) => child.id)).toEqual([sectionId]);
+
+    const cycle = await request(app)
+      .patch(`/decks/${courseId}`)
+      .set("Authorization", `Bearer ${login.accessToken}`)
+      .send({ parentId: sectionId });
+    expect(cycle.status).toBe(400);
+
+    const otherUser = await loginUser("subdecks-other@test.local");
+    const foreignParent = await request(app)
+      .post("/decks")
+      .set("Authorization", `Bearer ${otherUser.accessToken}`)
+      .send({ title: "Intruder", parentId: courseId });
+    expect(foreignParent.status).toBe(404);
+
+    const deckOnly = await request(app)
+      .get(`/study/decks/${courseId}/session`)
+      .set("Authorization", `Bearer ${login.accessToken}`);
+    expect((deckOnly.body as { dueNowCount: number }).dueNowCount).toBe(1);
+
+    const withSubdecks = await request(app)
+      .get(`/study/decks/${courseId}/session`)
+      .query({ includeSubdecks: "true" })
+      .set("Authorization", `Bearer ${login.accessToken}`);
+    expect(withSubdecks.status).toBe(200);
+    const sessionBody = withSubdecks.body as { dueNowCount: number; cards: Array<{ deckId: string }> };
+    expect(sessionBody.dueNowCount).toBe(4);
+    expect(new Set(sessionBody.cards.map((card) => card.deckId))).toEqual(
+      new Set([courseId, chapterOneId, chapterTwoId, sectionId])
+    );
+
+    const moved = await request(app)
+      .patch(`/decks/${sectionId}`)
+      .set("Authorization", `Bearer ${login.accessToken}`)
+      .send({ parentId: null });
+    expect(moved.status).toBe(200);
+    expect((moved.body as { parentId: string | null }).parentId).toBeNull();
+
+    const deleted = await request(app)
+      .delete(`/decks/${courseId}`)
+      .set("Authorization", `Bearer ${login.accessToken}`);
+    expect(deleted.status).toBe(204);
+    expect(await prisma.deck.findMany({ where: { userId: login.user.id }, select: { id: true } })).toEqual([
+      { id: sectionId }
+    ]);
+  });
+
+  it("stores markdown cards with sanitized content and plain cards verbatim", async () => {
+    const login = await loginUser("markdown@test.local");
+
+    const deckResponse = await request(app)
+      .post("/decks")
+      .set("Authorization", `Bearer ${login.accessToken}`)
+      .send({ title: "Algorithms" });
+    const deckId = (deckResponse.body as { id: string }).id;
+
+    const markdown = await request(app)
+      .post(`/decks/${deckId}/cards`)
+      .set("Authorization", `Bearer ${login.accessToken}`)
+      .send({
+        format: "MARKDOWN",
+        question: "<script>alert(1)</script>**Big-O** of $a<b$ and `x<y>`?",
+        answer: "[docs](javascript:alert(1))\n\n```ts\nconst ok = a <b> c;\n```"
+      });
+    expect(markdown.status).toBe(201);
+    expect(markdown.body).toMatchObject({
+      format: "MARKDOWN",
+      question: "alert(1)**Big-O** of $a<b$ and `x<y>`?",
+      answer: "[docs](#)\n\n```ts\nconst ok = a <b> c;\n```"
+    });
+
+    const htmlOnly = await request(app)
+      .post(`/decks/${deckId}/cards`)
+      .set("Authorization", `Bearer ${login.accessToken}`)
+      .send({ format: "MARKDOWN", question: "<img src=x onerror=alert(1)>", answer: "Answer" });
+    expect(htmlOnly.status).toBe(400);
+
+    const plain = await request(app)
+      .post(`/decks/${deckId}/cards`)
+      .set("Authorization", `Bearer ${login.accessToken}`)
+      .send({ question: "Is <b> a tag?", answer: "Yes" });
+    expect(plain.status).toBe(201);
+    expect(plain.body).toMatchObject({ format: "PLAIN", question: "Is <b> a tag?" });
+
+    const converted = await request(app)
+      .patch(`/cards/${(plain.body as { id: string }).id}`)
+      .set("Authorization", `Bearer ${login.accessToken}`)
+      .send({ format: "MARKDOWN" });
+    expect(converted.status).toBe(200);
+    expect(converted.body).toMatchObject({ format: "MARKDOWN", question: "Is  a tag?" });
+
+    const session = await request(app)
+      .get(`/study/decks/${deckId}/session`)
+      .set("Authorization", `Bearer ${login.accessToken}`);
+    const sessionCards = (session.body as { cards: Array<{ format: string }> }).cards;
+    expect(sessionCards.map((card) => card.format)).toEqual(["MARKDOWN", "MARKDOWN"]);
+  });
+
+  it("uploads media within quota and lets cards reference owned attachments", async () => {
+    const login = await loginUser("media@test.local");
+    const imageBuffer = Buffer.from("89504e470d0a1a0a0000000d49484452", "hex");
+
+    const rejected = await request(app)
+      .post("/media")
+      .set("Authorization", `Bearer ${login.accessToken}`)
+      .attach("file", Buffer.from("<svg onload=alert(1)>"), {
+        filename: "diagram.svg",
+        contentType: "image/svg+xml"
+      });
+    expect(rejected.status).toBe(400);
+
+    const uploaded = await request(app)
+      .post("/media")
+      .set("Authorization", `Bearer ${login.accessToken}`)
+      .attach("file", imageBuffer, {
+        filename: "heart.png",
+        contentType: "image/png"
+      });
+    expect(uploaded.status).toBe(201);
+    const media = uploaded.body as { id: string; mimeType: string; sizeBytes: number };
+    expect(media).toMatchObject({ mimeType: "image/png", sizeBytes: imageBuffer.length });
+
+    const list = await request(app).get("/media").set("Authorization", `Bearer ${login.accessToken}`);
+    expect(list.status).toBe(200);
+    expect(list.body).toMatchObject({
+      media: [{ id: media.id, filename: "heart.png" }],
+      usage: { usedBytes: imageBuffer.length, limitBytes: 50 * 1024 * 1024 }
+    });
+
+    const content = await request(app)
+      .get(`/media/${media.id}/content`)
+      .set("Authorization", `Bearer ${login.accessToken}`);
+    expect(content.status).toBe(200);
+    expect(content.headers["content-type"]).toBe("image/png");
+    expect(Buffer.from(content.body as Buffer).equals(imageBuffer)).toBe(true);
+
+    const deckResponse = await request(app)
+      .post("/decks")
+      .set("Authorization", `Bearer ${login.accessToken}`)
+      .send({ title: "Anatomy" });
+    const deckId = (deckResponse.body as { id: string }).id;
+
+    const card = await request(app)
+      .post(`/decks/${deckId}/cards`)
+      .set("Authorization", `Bearer ${login.accessToken}`)
+      .send({ question: `Name this organ [media:${media.id}]`, answer: "Heart" });
+    expect(card.status).toBe(201);
+
+    const inUse = await request(app)
+      .delete(`/media/${media.id}`)
+      .set("Authorization", `Bearer ${login.accessToken}`);
+    expect(inUse.status).toBe(409);
+
+    const otherUser = await loginUser("media-other@test.local");
+    const otherDeck = await request(app)
+      .post("/decks")
+      .set("Authorization", `Bearer ${otherUser.accessToken}`)
+      .send({ title: "Borrowed" });
+    const foreignReference = await request(app)
+      .post(`/decks/${(otherDeck.body as { id: string }).id}/cards`)
+      .set("Authorization", `Bearer ${otherUser.accessToken}`)
+      .send({ question: `Whose picture? [media:${media.id}]`, answer: "Not mine" });
+    expect(foreignReference.status).toBe(400);
+
+    const foreignContent = await request(app)
+      .get(`/media/${media.id}/content`)
+      .set("Authorization", `Bearer ${otherUser.accessToken}`);
+    expect(foreignContent.status).toBe(404);
+
+    await request(app)
+      .delete(`/cards/${(card.body as { id: string }).id}`)
+      .set("Authorization", `Bearer ${login.accessToken}`);
+    const deleted = await request(app)
+      .delete(`/media/${media.id}`)
+      .set("Authorization", `Bearer ${login.accessToken}`);
+    expect(deleted.status).toBe(204);
+    expect(await prisma.mediaAsset.count({ where: { userId: login.user.id } })).toBe(0);
+  });
+
+  it("creates image occlusion notes with one scheduled card per mask group", async () => {
+    const login = await loginUser("occlusion@test.local");
+
+    const uploaded = await request(app)
+      .post("/media")
+      .set("Authorization", `Bearer ${login.accessToken}`)
+      .attach("file", Buffer.from("89504e470d0a1a0a0000000d49484452", "hex"), {
+        filename: "heart.png",
+        contentType: "image/png"
+      });
+    const mediaId = (uploaded.body as { id: string }).id;
+
+    const deckResponse = await request(app)
+      .post("/decks")
+      .set("Authorization", `Bearer ${login.accessToken}`)
+      .send({ title: "Heart Diagram" });
+    const deckId = (deckResponse.body as { id: string }).id;
+
+    const outsideImage = await request(app)
+      .post(`/decks/${deckId}/cards`)
+      .set("Authorization", `Bearer ${login.accessToken}`)
+      .send({
+        type: "IMAGE_OCCLUSION",
+        question: "Name the chamber",
+        occlusion: { mediaId, masks: [{ ordinal: 1, x: 0.8, y: 0.1, width: 0.5, height: 0.1 }] }
+      });
+    expect(outsideImage.status).toBe(400);
+
+    const created = await request(app)
+      .post(`/decks/${deckId}/cards`)
+      .set("Authorization", `Bearer ${login.accessToken}`)
+      .send({
+        type: "IMAGE_OCCLUSION",
+        question: "Name the chamber",
+        answer: "Heart anatomy",
+        occlusion: {
+          mediaId,
+          masks: [
+            { ordinal: 1, x: 0.1, y: 0.1, width: 0.2, height: 0.1, label: "Left atrium" },
+            { ordinal: 2, x: 0.6, y: 0.1, width: 0.2, height: 0.1, label: "Right atrium" },
+            { ordinal: 2, x: 0.6, y: 0.5, width: 0.2, height: 0.1, label: "Right ventricle" }
+          ]
+        }
+      });
+    expect(created.status).toBe(201);
+    const noteId = (created.body as { noteId: string }).noteId;
+
+    const session = await request(app)
+      .get(`/study/decks/${deckId}/session`)
+      .set("Authorization", `Bearer ${login.accessToken}`);
+    const sessionCards = (session.body as {
+      cards: Array<{ id: string; ordinal: number; answer: string; occlusion: { mediaId: string } | null }>;
+    }).cards;
+    expect(sessionCards.map((card) => [card.ordinal, card.answer])).toEqual([
+      [1, "Left atrium\n\nHeart anatomy"],
+      [2, "Right atrium, Right ventricle\n\nHeart anatomy"]
+    ]);
+    expect(sessionCards[0].occlusion?.mediaId).toBe(mediaId);
+
+    const inUse = await request(app).delete(`/media/${mediaId}`).set("Authorization", `Bearer ${login.accessToken}`);
+    expect(inUse.status).toBe(409);
+
+    const updated = await request(app)
+      .patch(`/cards/${sessionCards[0].id}`)
+      .set("Authorization", `Bearer ${login.accessToken}`)
+      .send({
+        occlusion: { mediaId, masks: [{ ordinal: 1, x: 0.1, y: 0.1, width: 0.2, height: 0.1, label: "Left atrium" }] }
+      });
+    expect(updated.status).toBe(200);
+    const siblings = await prisma.card.findMany({ where: { noteId } });
+    expect(siblings.map((card) => card.id)).toEqual([sessionCards[0].id]);
+
+    const basicCard = await request(app)
+      .post(`/decks/${deckId}/cards`)
+      .set("Authorization", `Bearer ${login.accessToken}`)
+      .send({ question: "Pumps blood?", answer: "Heart" });
+    const misplacedMasks = await request(app)
+      .patch(`/cards/${(basicCard.body as { id: string }).id}`)
+      .set("Authorization", `Bearer ${login.accessToken}`)
+      .send({ occlusion: { mediaId, masks: [{ ordinal: 1, x: 0, y: 0, width: 0.5, height: 0.5 }] } });
+    expect(misplacedMasks.status).toBe(400);
+  });
+
+  it("fits FSRS parameters to a user's review log and schedules with them", async () => {
+    const login = await loginUser("optimizer@test.local");
+
+    const deckResponse = await request(app)
+      .post("/decks")
+      .set("Authorization", `Bearer ${login.accessToken}`)
+      .send({ title: "Optimizer Deck" });
+    const deckId = (deckResponse.body as { id: string }).id;
+
+    const tooFewReviews = await request(app)
+      .post("/study/parameters/optimize")
+      .set("Authorization", `Bearer ${login.accessToken}`);
+    expect(tooFewReviews.status).toBe(400);
+
+    const start = new Date("2026-01-01T09:00:00.000Z");
+    for (let index = 0; index < 20; index += 1) {
+      const card = await prisma.card.create({
+        data: { deckId, question: `Q${index}`, answer: `A${index}` }
+      });
+      const elapsedDays = [null, 2, 4, 8, 16];
+      let reviewedAt = start.getTime();
+      await prisma.review.createMany({
+        data: elapsedDays.map((elapsed, reviewIndex) => {
+          reviewedAt += (elapsed ?? 0) * 24 * 60 * 60 * 1000;
+          return {
+            userId: login.user.id,
+            deckId,
+            cardId: card.id,
+            rating: reviewIndex > 0 && (index + reviewIndex) % 3 === 0 ? "AGAIN" : "GOOD",
+            scheduledDueAt: new Date(reviewedAt),
+            previousInterval: 0,
+            nextInterval: 0,
+            elapsedDays: elapsed,
+            createdAt: new Date(reviewedAt)
+          };
+        })
+      });
+    }
+
+    const defaults = await request(app).get("/study/parameters").set("Authorization", `Bearer ${login.accessToken}`);
+    expect(defaults.status).toBe(200);
+    expect(defaults.body).toMatchObject({ isDefault: true, logLossBefore: null });
+
+    const optimized = await request(app)
+      .post("/study/parameters/optimize")
+      .set("Authorization", `Bearer ${login.accessToken}`);
+    expect(optimized.status).toBe(201);
+    const result = optimized.body as { weights: number[]; reviewCount: number; logLossBefore: number; logLossAfter: number };
+    expect(result.reviewCount).toBe(80);
+    expect(result.weights).toHaveLength(21);
+    expect(result.logLossAfter).toBeLessThanOrEqual(result.logLossBefore);
+
+    const stored = await request(app).get("/study/parameters").set("Authorization", `Bearer ${login.accessToken}`);
+    expect(stored.body).toMatchObject({ isDefault: false, weights: result.weights, logLossAfter: result.logLossAfter });
+
+    const card = await request(app)
+      .post(`/decks/${deckId}/cards`)
+      .set("Authorization", `Bearer ${login.accessToken}`)
+      .send({ question: "Fresh", answer: "Card" });
+    const cardId = (card.body as { id: string }).id;
+    for (const rating of ["AGAIN", "GOOD"]) {
+      const review = await request(app)
+        .post("/study/review")
+        .set("Authorization", `Bearer ${login.accessToken}`)
+        .send({ cardId, rating });
+      expect(review.status).toBe(201);
+    }
+    const loggedReviews = await prisma.review.findMany({ where: { cardId }, orderBy: { createdAt: "asc" } });
+    expect(loggedReviews[0].elapsedDays).toBeNull();
+    expect(loggedReviews[1].elapsedDays).toBeGreaterThanOrEqual(0);
+  });
+
+  it("schedules reviews with the deck's shared scheduling preset", async () => {
+    const login = await loginUser("presets@test.local");
+
+    const invalidPreset = await request(app)
+      .post("/presets")
+      .set("Authorization", `Bearer ${login.accessToken}`)
+      .send({ name: "Broken", learningSteps: ["10x"] });
+    expect(invalidPreset.status).toBe(400);
+
+    const created = await request(app)
+      .post("/presets")
+      .set("Authorization", `Bearer ${login.accessToken}`)
+      .send({ name: "Exam cram", desiredRetention: 0.95, maximumInterval: 30, learningSteps: ["30m", "2h"] });
+    expect(created.status).toBe(201);
+    const preset = created.body as { id: string; relearningSteps: string[]; enableFuzz: boolean };
+    expect(preset).toMatchObject({ relearningSteps: ["10m"], enableFuzz: false });
+
+    const duplicate = await request(app)
+      .post("/presets")
+      .set("Authorization", `Bearer ${login.accessToken}`)
+      .send({ name: "Exam cram" });
+    expect(duplicate.status).toBe(409);
+
+    const deckResponse = await request(app)
+      .post("/decks")
+      .set("Authorization", `Bearer ${login.accessToken}`)
+      .send({ title: "Finals", presetId: preset.id });
+    expect(deckResponse.status).toBe(201);
+    const deckId = (deckResponse.body as { id: string }).id;
+
+    const card = await request(app)
+      .post(`/decks/${deckId}/cards`)
+      .set("Authorization", `Bearer ${login.accessToken}`)
+      .send({ question: "Q", answer: "A" });
+    const review = await request(app)
+      .post("/study/review")
+      .set("Authorization", `Bearer ${login.accessToken}`)
+      .send({ cardId: (card.body as { id: string }).id, rating: "GOOD" });
+    expect(review.status).toBe(201);
+    expect((review.body as { scheduleState: { intervalMinutes: number } }).scheduleState.intervalMinutes).toBe(120);
+
+    const list = await request(app).get("/presets").set("Authorization", `Bearer ${login.accessToken}`);
+    expect(list.body).toMatchObject([{ id: preset.id, deckCount: 1 }]);
+
+    const otherUser = await loginUser("presets-other@test.local");
+    const otherDeck = await request(app)
+      .post("/decks")
+      .set("Authorization", `Bearer ${otherUser.accessToken}`)
+      .send({ title: "Not yours", presetId: preset.id });
+    expect(otherDeck.status).toBe(404);
+
+    const deleted = await request(app)
+      .delete(`/presets/${preset.id}`)
+      .set("Authorization", `Bearer ${login.accessToken}`);
+    expect(deleted.status).toBe(204);
+    const deck = await request(app).get(`/decks/${deckId}`).set("Authorization", `Bearer ${login.accessToken}`);
+    expect(deck.body).toMatchObject({ presetId: null, preset: null });
+  });
+
+  it("caps new cards per study day and rolls over at the configured hour", async () => {
+    const login = await loginUser("limits@test.local");
+
+    const invalidSettings = await request(app)
+      .patch("/study/settings")
+      .set("Authorization", `Bearer ${login.accessToken}`)
+      .send({ timeZone: "Mars/Olympus" });
+    expect(invalidSettings.status).toBe(400);
+
+    const settings = await request(app)
+      .patch("/study/settings")
+      .set("Authorization", `Bearer ${login.accessToken}`)
+      .send({ dayStartHour: 0, timeZone: "Europe/Berlin" });
+    expect(settings.status).toBe(200);
+    expect(settings.body).toEqual({ dayStartHour: 0, timeZone: "Europe/Berlin", weekdayLoad: [1, 1, 1, 1, 1, 1, 1] });
+
+    const deckResponse = await request(app)
+      .post("/decks")
+      .set("Authorization", `Bearer ${login.accessToken}`)
+      .send({ title: "Slow and steady", newCardsPerDay: 1 });
+    expect(deckResponse.status).toBe(201);
+    const deckId = (deckResponse.body as { id: string }).id;
+
+    for (const question of ["One", "Two", "Three"]) {
+      await request(app)
+        .post(`/decks/${deckId}/cards`)
+        .set("Authorization", `Bearer ${login.accessToken}`)
+        .send({ question, answer: "A" });
+    }
+
+    const session = await request(app)
+      .get(`/study/decks/${deckId}/session`)
+      .set("Authorization", `Bearer ${login.accessToken}`);
+    expect(session.status).toBe(200);
+    const sessionBody = session.body as { dueNowCount: number; cards: Array<{ id: string }> };
+    expect(sessionBody.dueNowCount).toBe(1);
+    expect(sessionBody.cards).toHaveLength(1);
+    expect(session.body).toMatchObject({
+      dailyLimits: {
+        newCards: { limit: 1, done: 0, remaining: 1 },
+        reviews: { limit: 200, done: 0, remaining: 200 }
+      }
+    });
+
+    const review = await request(app)
+      .post("/study/review")
+      .set("Authorization", `Bearer ${login.accessToken}`)
+      .send({ cardId: sessionBody.cards[0].id, rating: "GOOD" });
+    expect(review.status).toBe(201);
+
+    const afterReview = await request(app)
+      .get(`/study/decks/${deckId}/session`)
+      .set("Authorization", `Bearer ${login.accessToken}`);
+    expect(afterReview.body).toMatchObject({
+      dueNowCount: 0,
+      cards: [],
+      dailyLimits: { newCards: { limit: 1, done: 1, remaining: 0 } }
+    });
+  });
+
+  it("keeps cards imported with a due date under the daily new-card limit", async () => {
+    const login = await loginUser("dated-import@test.local");
+    const deckResponse = await request(app)
+      .post("/decks")
+      .set("Authorization", `Bearer ${login.accessToken}`)
+      .send({ title: "Dated import", newCardsPerDay: 2 });
+    const deckId = (deckResponse.body as { id: string }).id;
+    const csv = [
+      "Term,Definition,Due",
+      ...Array.from({ length: 5 }, (_, index) => `Term ${index},Definition ${index},2026-01-01`)
+    ].join("\n");
+    const imported = await request(app)
+      .post(`/decks/${deckId}/import`)
+      .query({ format: "csv" })
+      .set("Authorization", `Bearer ${login.accessToken}`)
+      .attach("file", Buffer.from(csv), {
+        filename: "dated.csv",
+        contentType: "text/csv"
+      });
+    expect((imported.body as { importedCards: number }).importedCards).toBe(5);
+    expect(await prisma.scheduleState.count({ where: { card: { deckId } } })).toBe(5);
+
+    const session = await request(app)
+      .get(`/study/decks/${deckId}/session`)
+      .set("Authorization", `Bearer ${login.accessToken}`);
+    const sessionBody = session.body as { dueNowCount: number; cards: Array<{ id: string }> };
+    expect(sessionBody.dueNowCount).toBe(2);
+    expect(sessionBody.cards).toHaveLength(2);
+
+    for (const card of sessionBody.cards) {
+      await request(app)
+        .post("/study/review")
+        .set("Authorization", `Bearer ${login.accessToken}`)
+        .send({ cardId: card.id, rating: "EASY" });
+    }
+    const afterReviews = await request(app)
+      .get(`/study/decks/${deckId}/session`)
+      .set("Authorization", `Bearer ${login.accessToken}`);
+    expect(afterReviews.body).toMatchObject({
+      dueNowCount: 0,
+      cards: [],
+      dailyLimits: { newCards: { limit: 2, done: 2, remaining: 0 } }
+    });
+  });
+
+  it("undoes a card's most recent review and restores its previous schedule", async () => {
+    const login = await loginUser("undo@test.local");
+    const deckResponse = await request(app)
+      .post("/decks")
+      .set("Authorization", `Bearer ${login.accessToken}`)
+      .send({ title: "Undo" });
+    const deckId = (deckResponse.body as { id: string }).id;
+    const card = await request(app)
+      .post(`/decks/${deckId}/cards`)
+      .set("Authorization", `Bearer ${login.accessToken}`)
+      .send({ question: "Q", answer: "A" });
+    const cardId = (card.body as { id: string }).id;
+
+    const first = await request(app)
+      .post("/study/review")
+      .set("Authorization", `Bearer ${login.accessToken}`)
+      .send({ cardId, rating: "GOOD" });
+    const firstBody = first.body as { review: { id: string }; scheduleState: { dueAt: string; intervalMinutes: number } };
+    const second = await request(app)
+      .post("/study/review")
+      .set("Authorization", `Bearer ${login.accessToken}`)
+      .send({ cardId, rating: "AGAIN" });
+    const secondReviewId = (second.body as { review: { id: string } }).review.id;
+
+    const olderUndo = await request(app)
+      .post(`/study/review/${firstBody.review.id}/undo`)
+      .set("Authorization", `Bearer ${login.accessToken}`);
+    expect(olderUndo.status).toBe(409);
+
+    const otherUser = await loginUser("undo-other@test.local");
+    const foreignUndo = await request(app)
+      .post(`/study/review/${secondReviewId}/undo`)
+      .set("Authorization", `Bearer ${otherUser.accessToken}`);
+    expect(foreignUndo.status).toBe(404);
+
+    const undone = await request(app)
+      .post(`/study/review/${secondReviewId}/undo`)
+      .set("Authorization", `Bearer ${login.accessToken}`);
+    expect(undone.status).toBe(200);
+    expect(undone.body).toMatchObject({
+      reviewId: secondReviewId,
+      cardId,
+      scheduleState: {
+        dueAt: firstBody.scheduleState.dueAt,
+        intervalMinutes: firstBody.scheduleState.intervalMinutes
+      }
+    });
+    expect(await prisma.review.count({ where: { cardId } })).toBe(1);
+
+    const undoneFirst = await request(app)
+      .post(`/study/review/${firstBody.review.id}/undo`)
+      .set("Authorization", `Bearer ${login.accessToken}`);
+    expect(undoneFirst.status).toBe(200);
+    expect(undoneFirst.body).toMatchObject({ cardId, scheduleState: null });
+    expect(await prisma.scheduleState.findUnique({ where: { cardId } })).toBeNull();
+
+    const repeated = await request(app)
+      .post(`/study/review/${firstBody.review.id}/undo`)
+      .set("Authorization", `Bearer ${login.accessToken}`);
+    expect(repeated.status).toBe(404);
+
+    const leechDeck = await request(app)
+      .post("/decks")
+      .set("Authorization", `Bearer ${login.accessToken}`)
+      .send({ title: "Undo leech", leechThreshold: 1, leechAction: "SUSPEND" });
+    const leechDeckId = (leechDeck.body as { id: string }).id;
+    const leechCard = await request(app)
+      .post(`/decks/${leechDeckId}/cards`)
+      .set("Authorization", `Bearer ${login.accessToken}`)
+      .send({ question: "Leech Q", answer: "Leech A", tags: ["geo"] });
+    const leechCardId = (leechCard.body as { id: string }).id;
+
+    await request(app)
+      .post("/study/review")
+      .set("Authorization", `Bearer ${login.accessToken}`)
+      .send({ cardId: leechCardId, rating: "EASY" });
+    const lapse = await request(app)
+      .post("/study/review")
+      .set("Authorization", `Bearer ${login.accessToken}`)
+      .send({ cardId: leechCardId, rating: "AGAIN" });
+    expect(lapse.body).toMatchObject({ leech: true });
+    expect(
+      await prisma.card.findUnique({ where: { id: leechCardId }, include: { tags: { orderBy: { name: "asc" } } } })
+    ).toMatchObject({ suspended: true, tags: [{ name: "geo" }, { name: "leech" }] });
+
+    const leechUndo = await request(app)
+      .post(`/study/review/${(lapse.body as { review: { id: string } }).review.id}/undo`)
+      .set("Authorization", `Bearer ${login.accessToken}`);
+    expect(leechUndo.status).toBe(200);
+    expect(
+      await prisma.card.findUnique({ where: { id: leechCardId }, include: { tags: { orderBy: { name: "asc" } } } })
+    ).toMatchObject({ suspended: false, tags: [{ name: "geo" }] });
+  });
+
+  it("keeps suspended and buried cards out of study and filters cards by flag", async () => {
+    const login = await loginUser("suspend@test.local");
+    const deckResponse = await request(app)
+      .post("/decks")
+      .set("Authorization", `Bearer ${login.accessToken}`)
+      .send({ title: "Rotation" });
+    const deckId = (deckResponse.body as { id: string }).id;
+
+    const cardIds: string[] = [];
+    for (const question of ["Keep", "Suspend", "Bury"]) {
+      const card = await request(app)
+        .post(`/decks/${deckId}/cards`)
+        .set("Authorization", `Bearer ${login.accessToken}`)
+        .send({ question, answer: "A" });
+      cardIds.push((card.body as { id: string }).id);
+    }
+    const [keptId, suspendedId, buriedId] = cardIds;
+
+    const suspended = await request(app)
+      .post("/cards/bulk")
+      .set("Authorization", `Bearer ${login.accessToken}`)
+      .send({ cardIds: [suspendedId], suspended: true, flag: "RED" });
+    expect(suspended.status).toBe(200);
+    expect(suspended.body).toEqual({ updatedCount: 1 });
+
+    const buried = await request(app)
+      .post("/cards/bulk")
+      .set("Authorization", `Bearer ${login.accessToken}`)
+      .send({ cardIds: [buriedId], buried: true });
+    expect(buried.status).toBe(200);
+    const buriedCard = await prisma.card.findUniqueOrThrow({ where: { id: buriedId } });
+    expect(buriedCard.buriedUntil?.getTime()).toBeGreaterThan(Date.now());
+
+    const session = await request(app)
+      .get(`/study/decks/${deckId}/session`)
+      .set("Authorization", `Bearer ${login.accessToken}`);
+    expect(session.body).toMatchObject({ dueNowCount: 1, cards: [{ id: keptId }] });
+
+    const decks = await request(app).get("/decks").set("Authorization", `Bearer ${login.accessToken}`);
+    expect(decks.body).toMatchObject([{ id: deckId, cardCount: 3, dueCount: 1 }]);
+
+    const flagged = await request(app)
+      .get(`/decks/${deckId}/cards?flag=RED`)
+      .set("Authorization", `Bearer ${login.accessToken}`);
+    expect(flagged.body).toMatchObject([{ id: suspendedId, flag: "RED", suspended: true }]);
+
+    const otherUser = await loginUser("suspend-other@test.local");
+    const foreign = await request(app)
+      .post("/cards/bulk")
+      .set("Authorization", `Bearer ${otherUser.accessToken}`)
+      .send({ cardIds: [keptId], suspended: true });
+    expect(foreign.status).toBe(404);
+
+    const empty = await request(app)
+      .post("/cards/bulk")
+      .set("Authorization", `Bearer ${login.accessToken}`)
+      .send({ cardIds: [keptId] });
+    expect(empty.status).toBe(400);
+
+    await request(app)
+      .post("/cards/bulk")
+      .set("Authorization", `Bearer ${login.accessToken}`)
+      .send({ cardIds: [suspendedId, buriedId], suspended: false, buried: false, flag: null });
+    const restored = await request(app)
+      .get(`/study/decks/${deckId}/session`)
+      .set("Authorization", `Bearer ${login.accessToken}`);
+    expect((restored.body as { dueNowCount: number }).dueNowCount).toBe(3);
+  });
+
+  it("marks and lists leeches after repeated lapses and drafts AI rewrites", async () => {
+    const login = await loginUser("leeches@test.local");
+    const deckResponse = await request(app)
+      .post("/decks")
+      .set("Authorization", `Bearer ${login.accessToken}`)
+      .send({ title: "Hard facts", leechThreshold: 2, leechAction: "SUSPEND" });
+    expect(deckResponse.status).toBe(201);
+    const deckId = (deckResponse.body as { id: string }).id;
+    const card = await request(app)
+      .post(`/decks/${deckId}/cards`)
+      .set("Authorization", `Bearer ${login.accessToken}`)
+      .send({ question: "Capitals of Australia and Canada?", answer: "Canberra; Ottawa", tags: ["geo"] });
+    const cardId = (card.body as { id: string }).id;
+
+    const leechFlags: boolean[] = [];
+    for (const rating of ["EASY", "AGAIN", "EASY", "AGAIN"]) {
+      const review = await request(app)
+        .post("/study/review")
+        .set("Authorization", `Bearer ${login.accessToken}`)
+        .send({ cardId, rating });
+      expect(review.status).toBe(201);
+      leechFlags.push((review.body as { leech: boolean }).leech);
+    }
+    expect(leechFlags).toEqual([false, false, false, true]);
+
+    const leeches = await request(app)
+      .get(`/decks/${deckId}/leeches`)
+      .set("Authorization", `Bearer ${login.accessToken}`);
+    expect(leeches.status).toBe(200);
+    expect(leeches.body).toMatchObject([{ id: cardId, lapses: 2, suspended: true, tags: ["geo", "leech"] }]);
+
+    const rewrite = await request(app)
+      .post("/study/rewrite")
+      .set("Authorization", `Bearer ${login.accessToken}`)
+      .send({ cardId });
+    expect(rewrite.status).toBe(200);
+    const suggestions = (rewrite.body as { suggestions: Array<{ question: string; answer: string }> }).suggestions;
+    expect(suggestions.map((suggestion) => suggestion.answer)).toEqual(["Canberra", "Ottawa"]);
+    expect(await prisma.card.count({ where: { deckId } })).toBe(1);
+
+    const invalid = await request(app)
+      .patch(`/decks/${deckId}`)
+      .set("Authorization", `Bearer ${login.accessToken}`)
+      .send({ leechThreshold: 0 });
+    expect(invalid.status).toBe(400);
+  });
+
+  it("serves saved study filter sessions that can leave the schedule untouched", async () => {
+    const login = await loginUser("filters@test.local");
+    const deckResponse = await request(app)
+      .post("/decks")
+      .set("Authorization", `Bearer ${login.accessToken}`)
+      .send({ title: "Cram" });
+    const deckId = (deckResponse.body as { id: string }).id;
+    const cardIds: string[] = [];
+    for (const question of ["Failed", "Known"]) {
+      const card = await request(app)
+        .post(`/decks/${deckId}/cards`)
+        .set("Authorization", `Bearer ${login.accessToken}`)
+        .send({ question, answer: "Answer", tags: ["exam"] });
+      cardIds.push((card.body as { id: string }).id);
+    }
+    const [failedId, knownId] = cardIds;
+    await request(app)
+      .post("/study/review")
+      .set("Authorization", `Bearer ${login.accessToken}`)
+      .send({ cardId: failedId, rating: "AGAIN" });
+    await request(app)
+      .post("/study/review")
+      .set("Authorization", `Bearer ${login.accessToken}`)
+      .send({ cardId: knownId, rating: "EASY" });
+
+    const created = await request(app)
+      .post("/filters")
+      .set("Authorization", `Bearer ${login.accessToken}`)
+      .send({ name: "Failed this week", deckIds: [deckId], tags: "exam", lapsedWithinDays: 7 });
+    expect(created.status).toBe(201);
+    expect(created.body).toMatchObject({ deckIds: [deckId], includeSubdecks: true, reschedule: false, cardLimit: 100 });
+    const filterId = (created.body as { id: string }).id;
+
+    // Neither a new card's first answer nor a practice answer is a lapse.
+    await request(app)
+      .post("/study/review")
+      .set("Authorization", `Bearer ${login.accessToken}`)
+      .send({ cardId: knownId, rating: "AGAIN", filterId });
+    const noLapses = await request(app)
+      .get(`/study/filters/${filterId}/session`)
+      .set("Authorization", `Bearer ${login.accessToken}`);
+    expect(noLapses.body).toMatchObject({ dueNowCount: 0, cards: [] });
+
+    await request(app)
+      .post("/study/review")
+      .set("Authorization", `Bearer ${login.accessToken}`)
+      .send({ cardId: failedId, rating: "AGAIN" });
+    const session = await request(app)
+      .get(`/study/filters/${filterId}/session`)
+      .set("Authorization", `Bearer ${login.accessToken}`);
+    expect(session.status).toBe(200);
+    expect(session.body).toMatchObject({ filter: { id: filterId }, dueNowCount: 1, cards: [{ id: failedId }] });
+
+    const scheduleBefore = await prisma.scheduleState.findUniqueOrThrow({ where: { cardId: failedId } });
+    const practice = await request(app)
+      .post("/study/review")
+      .set("Authorization", `Bearer ${login.accessToken}`)
+      .send({ cardId: failedId, rating: "GOOD", filterId });
+    expect(practice.status).toBe(201);
+    expect(practice.body).toMatchObject({
+      rescheduled: false,
+      leech: false,
+      review: {
+        rating: "GOOD",
+        rescheduled: false,
+        scheduledDueAt: scheduleBefore.dueAt.toISOString(),
+        nextInterval: scheduleBefore.intervalMinutes
+      }
+    });
+    expect(await prisma.scheduleState.findUniqueOrThrow({ where: { cardId: failedId } })).toEqual(scheduleBefore);
+    expect(await prisma.review.count({ where: { cardId: failedId } })).toBe(3);
+
+    const hardCards = await request(app)
+      .post("/filters")
+      .set("Authorization", `Bearer ${login.accessToken}`)
+      .send({ name: "Hard cards", minDifficulty: 6, reschedule: true });
+    const hardSession = await request(app)
+      .get(`/study/filters/${(hardCards.body as { id: string }).id}/session`)
+      .set("Authorization", `Bearer ${login.accessToken}`);
+    expect((hardSession.body as { cards: Array<{ id: string }> }).cards.map((card) => card.id)).toEqual([failedId]);
+
+    const duplicate = await request(app)
+      .post("/filters")
+      .set("Authorization", `Bearer ${login.accessToken}`)
+      .send({ name: "Failed this week" });
+    expect(duplicate.status).toBe(409);
+
+    const otherUser = await loginUser("filters-other@test.local");
+    const foreignDeck = await request(app)
+      .post("/filters")
+      .set("Authorization", `Bearer ${otherUser.accessToken}`)
+      .send({ name: "Borrowed", deckIds: [deckId] });
+    expect(foreignDeck.status).toBe(404);
+    const foreignSession = await request(app)
+      .get(`/study/filters/${filterId}/session`)
+      .set("Authorization", `Bearer ${otherUser.accessToken}`);
+    expect(foreignSession.status).toBe(404);
+  });
+
+  it("merges due cards from every deck into one study queue", async () => {
+    const login = await loginUser("study-all@test.local");
+    const deckIds: string[] = [];
+    for (const deck of [
+      { title: "Biology", studyPriority: 0 },
+      { title: "Chemistry", studyPriority: 5, newCardsPerDay: 1 }
+    ]) {
+      const created = await request(app)
+        .post("/decks")
+        .set("Authorization", `Bearer ${login.accessToken}`)
+        .send(deck);
+      expect(created.status).toBe(201);
+      deckIds.push((created.body as { id: string }).id);
+    }
+    const [biologyId, chemistryId] = deckIds;
+    for (const [deckId, question] of [
+      [biologyId, "Cell"],
+      [chemistryId, "Atom"],
+      [chemistryId, "Ion"]
+    ]) {
+      await request(app)
+        .post(`/decks/${deckId}/cards`)
+        .set("Authorization", `Bearer ${login.accessToken}`)
+        .send({ question, answer: "Answer" });
+    }
+
+    const byDeck = await request(app)
+      .get("/study/session?order=deck")
+      .set("Authorization", `Bearer ${login.accessToken}`);
+    expect(byDeck.status).toBe(200);
+    expect(byDeck.body).toMatchObject({
+      order: "deck",
+      dueNowCount: 2,
+      decks: [
+        { id: chemistryId, dueNowCount: 1 },
+        { id: biologyId, dueNowCount: 1 }
+      ]
+    });
+    const byDeckCards = (byDeck.body as { cards: Array<{ deckId: string; question: string }> }).cards;
+    expect(byDeckCards.map((card) => card.question)).toEqual(["Atom", "Cell"]);
+
+    const random = await request(app)
+      .get("/study/session?order=random&limit=1")
+      .set("Authorization", `Bearer ${login.accessToken}`);
+    expect((random.body as { cards: unknown[] }).cards).toHaveLength(1);
+
+    const invalid = await request(app)
+      .get("/study/session?order=alphabetical")
+      .set("Authorization", `Bearer ${login.accessToken}`);
+    expect(invalid.status).toBe(400);
+  });
+
+  it("caps intervals before a deck's exam date and plans the workload up to it", async () => {
+    const login = await loginUser("exam@test.local");
+    const dayMs = 24 * 60 * 60 * 1000;
+    const examDate = new Date(Date.now() + 10 * dayMs);
+    const deckResponse = await request(app)
+      .post("/decks")
+      .set("Authorization", `Bearer ${login.accessToken}`)
+      .send({ title: "Finals", examDate: examDate.toISOString(), examMinReviews: 3 });
+    expect(deckResponse.status).toBe(201);
+    expect(deckResponse.body).toMatchObject({ examDate: examDate.toISOString(), examMinReviews: 3 });
+    const deckId = (deckResponse.body as { id: string }).id;
+    const cardIds: string[] = [];
+    for (const question of ["Reviewed", "New"]) {
+      const card = await request(app)
+        .post(`/decks/${deckId}/cards`)
+        .set("Authorization", `Bearer ${login.accessToken}`)
+        .send({ question, answer: "Answer" });
+      cardIds.push((card.body as { id: string }).id);
+    }
+
+    const reviewedAt = Date.now();
+    const review = await request(app)
+      .post("/study/review")
+      .set("Authorization", `Bearer ${login.accessToken}`)
+      .send({ cardId: cardIds[0], rating: "EASY" });
+    expect(review.status).toBe(201);
+    // Two of three reviews are left, so the next one is due within half of the nine days before the exam.
+    const dueAt = new Date((review.body as { scheduleState: { dueAt: string } }).scheduleState.dueAt).getTime();
+    expect(dueAt).toBeLessThanOrEqual(reviewedAt + 4.5 * dayMs + 60_000);
+
+    const plan = await request(app)
+      .get(`/decks/${deckId}/exam-plan`)
+      .set("Authorization", `Bearer ${login.accessToken}`);
+    expect(plan.status).toBe(200);
+    const planBody = plan.body as {
+      unscheduledCount: number;
+      recommendedNewCardsPerDay: number;
+      days: Array<{ reviewCount: number; newCount: number }>;
+    };
+    expect(planBody).toMatchObject({ unscheduledCount: 1, recommendedNewCardsPerDay: 1 });
+    expect(planBody.days.length).toBeGreaterThanOrEqual(10);
+    expect(planBody.days.reduce((total, day) => total + day.reviewCount, 0)).toBe(1);
+    expect(planBody.days[0].newCount).toBe(1);
+
+    await request(app)
+      .patch(`/decks/${deckId}`)
+      .set("Authorization", `Bearer ${login.accessToken}`)
+      .send({ examDate: null });
+    const noExam = await request(app)
+      .get(`/decks/${deckId}/exam-plan`)
+      .set("Authorization", `Bearer ${login.accessToken}`);
+    expect(noExam.status).toBe(400);
+  });
+
+  it("forecasts due reviews per day and balances new due dates toward lighter days", async () => {
+    const login = await loginUser("forecast@test.local");
+    const dayMs = 24 * 60 * 60 * 1000;
+    const preset = await request(app)
+      .post("/presets")
+      .set("Authorization", `Bearer ${login.accessToken}`)
+      .send({ name: "Balanced" });
+    expect(preset.body).toMatchObject({ enableLoadBalance: false });
+    const presetId = (preset.body as { id: string }).id;
+    const deckResponse = await request(app)
+      .post("/decks")
+      .set("Authorization", `Bearer ${login.accessToken}`)
+      .send({ title: "Load", presetId });
+    const deckId = (deckResponse.body as { id: string }).id;
+    const cardIds: string[] = [];
+    for (let index = 0; index < 6; index += 1) {
+      const card = await request(app)
+        .post(`/decks/${deckId}/cards`)
+        .set("Authorization", `Bearer ${login.accessToken}`)
+        .send({ question: `Question ${index}`, answer: "Answer" });
+      cardIds.push((card.body as { id: string }).id);
+    }
+    const [reviewedId, ...otherIds] = cardIds;
+    const now = Date.now();
+    await prisma.scheduleState.create({
+      data: {
+        cardId: reviewedId,
+        dueAt: new Date(now - 2 * dayMs),
+        lastReviewedAt: new Date(now - 32 * dayMs),
+        intervalMinutes: 30 * 24 * 60,
+        repetitions: 5,
+        fsrsState: 2,
+        fsrsStability: 30,
+        fsrsDifficulty: 5,
+        fsrsElapsedDays: 30,
+        fsrsScheduledDays: 30
+      }
+    });
+
+    const forecast = await request(app)
+      .get("/study/forecast?days=7")
+      .set("Authorization", `Bearer ${login.accessToken}`);
+    expect(forecast.status).toBe(200);
+    const forecastBody = forecast.body as { overdueCount: number; days: Array<{ dueCount: number }> };
+    expect(forecastBody.overdueCount).toBe(1);
+    expect(forecastBody.days.map((day) => day.dueCount)).toEqual([1, 0, 0, 0, 0, 0, 0]);
+
+    await request(app)
+      .post("/cards/bulk")
+      .set("Authorization", `Bearer ${login.accessToken}`)
+      .send({ cardIds: [reviewedId], buried: true });
+    const buriedForecast = await request(app)
+      .get("/study/forecast?days=7")
+      .set("Authorization", `Bearer ${login.accessToken}`);
+    const buriedForecastBody = buriedForecast.body as { overdueCount: number; days: Array<{ dueCount: number }> };
+    expect(buriedForecastBody.overdueCount).toBe(0);
+    expect(buriedForecastBody.days.map((day) => day.dueCount)).toEqual([0, 1, 0, 0, 0, 0, 0]);
+    await request(app)
+      .post("/cards/bulk")
+      .set("Authorization", `Bearer ${login.accessToken}`)
+      .send({ cardIds: [reviewedId], buried: false });
+
+    const unbalanced = await request(app)
+      .post("/study/review")
+      .set("Authorization", `Bearer ${login.accessToken}`)
+      .send({ cardId: reviewedId, rating: "GOOD" });
+    const unbalancedBody = unbalanced.body as { scheduleState: { dueAt: string }; review: { id: string } };
+    const busyDueAt = new Date(unbalancedBody.scheduleState.dueAt);
+    await request(app)
+      .post(`/study/review/${unbalancedBody.review.id}/undo`)
+      .set("Authorization", `Bearer ${login.accessToken}`);
+    for (const cardId of otherIds) {
+      await prisma.scheduleState.create({ data: { cardId, dueAt: busyDueAt } });
+    }
+
+    await request(app)
+      .patch(`/presets/${presetId}`)
+      .set("Authorization", `Bearer ${login.accessToken}`)
+      .send({ enableLoadBalance: true });
+    const balanced = await request(app)
+      .post("/study/review")
+      .set("Authorization", `Bearer ${login.accessToken}`)
+      .send({ cardId: reviewedId, rating: "GOOD" });
+    const balancedDueAt = new Date((balanced.body as { scheduleState: { dueAt: string } }).scheduleState.dueAt);
+    const shiftDays = Math.abs(balancedDueAt.getTime() - busyDueAt.getTime()) / dayMs;
+    expect(shiftDays).toBeGreaterThanOrEqual(1);
+    expect(shiftDays).toBeLessThanOrEqual(5);
+
+    const otherUser = await loginUser("forecast-other@test.local");
+    const foreign = await request(app)
+      .get(`/study/forecast?deckId=${deckId}`)
+      .set("Authorization", `Bearer ${otherUser.accessToken}`);
+    expect(foreign.status).toBe(404);
+  });
+
+  it("weights weekdays, postpones vacation reviews by retrievability and keeps new reviews clear", async () => {
+    const login = await loginUser("vacation@test.local");
+    const dayMs = 24 * 60 * 60 * 1000;
+
+    const allOff = await request(app)
+      .patch("/study/settings")
+      .set("Authorization", `Bearer ${login.accessToken}`)
+      .send({ weekdayLoad: [0, 0, 0, 0, 0, 0, 0] });
+    expect(allOff.status).toBe(400);
+    const easyDays = await request(app)
+      .patch("/study/settings")
+      .set("Authorization", `Bearer ${login.accessToken}`)
+      .send({ weekdayLoad: [0, 1, 1, 1, 1, 1, 0.5] });
+    expect(easyDays.status).toBe(200);
+    expect(easyDays.body).toMatchObject({ weekdayLoad: [0, 1, 1, 1, 1, 1, 0.5] });
+
+    const deckResponse = await request(app)
+      .post("/decks")
+      .set("Authorization", `Bearer ${login.accessToken}`)
+      .send({ title: "Travel" });
+    const deckId = (deckResponse.body as { id: string }).id;
+    const cardIds: string[] = [];
+    for (let index = 0; index < 3; index += 1) {
+      const card = await request(app)
+        .post(`/decks/${deckId}/cards`)
+        .set("Authorization", `Bearer ${login.accessToken}`)
+        .send({ question: `Question ${index}`, answer: "Answer" });
+      cardIds.push((card.body as { id: string }).id);
+    }
+    const [strongId, weakId, laterId] = cardIds;
+    const now = Date.now();
+    const startDate = new Date(now + 2 * dayMs);
+    const endDate = new Date(now + 9 * dayMs);
+    for (const [cardId, stability] of [
+      [strongId, 100],
+      [weakId, 3]
+    ] as const) {
+      await prisma.scheduleState.create({
+        data: {
+          cardId,
+          dueAt: new Date(now + 4 * dayMs),
+          lastReviewedAt: new Date(now - dayMs),
+          intervalMinutes: 5 * 24 * 60,
+          repetitions: 3,
+          fsrsState: 2,
+          fsrsStability: stability,
+          fsrsDifficulty: 5,
+          fsrsScheduledDays: 5
+        }
+      });
+    }
+    await prisma.scheduleState.create({ data: { cardId: laterId, dueAt: new Date(now + 20 * dayMs) } });
+
+    const invalid = await request(app)
+      .post("/study/vacation/preview")
+      .set("Authorization", `Bearer ${login.accessToken}`)
+      .send({ startDate: endDate.toISOString(), endDate: startDate.toISOString() });
+    expect(invalid.status).toBe(400);
+    const ended = await request(app)
+      .post("/study/vacation")
+      .set("Authorization", `Bearer ${login.accessToken}`)
+      .send({ startDate: new Date(now - 9 * dayMs).toISOString(), endDate: new Date(now - 2 * dayMs).toISOString() });
+    expect(ended.status).toBe(400);
+
+    const preview = await request(app)
+      .post("/study/vacation/preview")
+      .set("Authorization", `Bearer ${login.accessToken}`)
+      .send({ startDate: startDate.toISOString(), endDate: endDate.toISOString() });
+    expect(preview.status).toBe(200);
+    const previewBody = preview.body as {
+      cardCount: number;
+      days: Array<{ date: string; cardCount: number; lowestRetrievability: number | null }>;
+    };
+    expect(previewBody.cardCount).toBe(2);
+    expect(previewBody.days.reduce((total, day) => total + day.cardCount, 0)).toBe(2);
+    for (const day of previewBody.days) {
+      expect(new Date(day.date).getTime()).toBeGreaterThanOrEqual(endDate.getTime());
+      if (new Date(day.date).getUTCDay() === 0) {
+        expect(day.cardCount).toBe(0);
+      }
+    }
+    const untouched = await prisma.scheduleState.findUniqueOrThrow({ where: { cardId: weakId } });
+    expect(untouched.dueAt.getTime()).toBe(now + 4 * dayMs);
+
+    const applied = await request(app)
+      .post("/study/vacation")
+      .set("Authorization", `Bearer ${login.accessToken}`)
+      .send({ startDate: startDate.toISOString(), endDate: endDate.toISOString() });
+    expect(applied.status).toBe(200);
+    expect(applied.body).toMatchObject({ cardCount: 2 });
+    const [strong, weak, later] = await Promise.all(
+      cardIds.map((cardId) => prisma.scheduleState.findUniqueOrThrow({ where: { cardId } }))
+    );
+    expect(weak.dueAt.getTime()).toBeGreaterThanOrEqual(endDate.getTime());
+    expect(strong.dueAt.getTime()).toBeGreaterThanOrEqual(weak.dueAt.getTime());
+    expect(later.dueAt.getTime()).toBe(now + 20 * dayMs);
+    const weakIntervalMinutes = Math.round((weak.dueAt.getTime() - (now - dayMs)) / 60_000);
+    expect(weak).toMatchObject({
+      intervalMinutes: weakIntervalMinutes,
+      fsrsScheduledDays: Math.floor(weakIntervalMinutes / (24 * 60))
+    });
+
+    const stored = await request(app).get("/study/vacation").set("Authorization", `Bearer ${login.accessToken}`);
+    expect(stored.status).toBe(200);
+    const storedBody = stored.body as { startDate: string; endDate: string };
+    expect(new Date(storedBody.startDate).getTime()).toBeGreaterThanOrEqual(startDate.getTime());
+    expect(new Date(storedBody.endDate).getTime()).toBeGreaterThanOrEqual(endDate.getTime());
+
+    const newCard = await request(app)
+      .post(`/decks/${deckId}/cards`)
+      .set("Authorization", `Bearer ${login.accessToken}`)
+      .send({ question: "Packed", answer: "Answer" });
+    const easy = await request(app)
+      .post("/study/review")
+      .set("Authorization", `Bearer ${login.accessToken}`)
+      .send({ cardId: (newCard.body as { id: string }).id, rating: "EASY" });
+    const easyState = (easy.body as { scheduleState: { dueAt: string } }).scheduleState;
+    expect(new Date(easyState.dueAt).getTime()).toBeGreaterThanOrEqual(new Date(storedBody.endDate).getTime());
+
+    const cleared = await request(app).delete("/study/vacation").set("Authorization", `Bearer ${login.accessToken}`);
+    expect(cleared.status).toBe(204);
+    const afterClear = await request(app).get("/study/vacation").set("Authorization", `Bearer ${login.accessToken}`);
+    expect(afterClear.body).toEqual({ startDate: null, endDate: null });
+  });
+
+  it("stores answer durations, tags slow recalls and reports study time", async () => {
+    const login = await loginUser("duration@test.local");
+    const deckResponse = await request(app)
+      .post("/decks")
+      .set("Authorization", `Bearer ${login.accessToken}`)
+      .send({ title: "Timed", slowRecallSeconds: 10 });
+    expect(deckResponse.body).toMatchObject({ slowRecallSeconds: 10 });
+    const deckId = (deckResponse.body as { id: string }).id;
+    const cardIds: string[] = [];
+    for (const question of ["Quick", "Slow", "Forgotten"]) {
+      const card = await request(app)
+        .post(`/decks/${deckId}/cards`)
+        .set("Authorization", `Bearer ${login.accessToken}`)
+        .send({ question, answer: "Answer" });
+      cardIds.push((card.body as { id: string }).id);
+    }
+    const [quickId, slowId, forgottenId] = cardIds;
+
+    const quick = await request(app)
+      .post("/study/review")
+      .set("Authorization", `Bearer ${login.accessToken}`)
+      .send({ cardId: quickId, rating: "GOOD", durationMs: 4000 });
+    expect(quick.body).toMatchObject({ slowRecall: false, review: { durationMs: 4000 } });
+    const slow = await request(app)
+      .post("/study/review")
+      .set("Authorization", `Bearer ${login.accessToken}`)
+      .send({ cardId: slowId, rating: "HARD", durationMs: 300_000 });
+    expect(slow.body).toMatchObject({ slowRecall: true, review: { durationMs: 60_000 } });
+    const forgotten = await request(app)
+      .post("/study/review")
+      .set("Authorization", `Bearer ${login.accessToken}`)
+      .send({ cardId: forgottenId, rating: "AGAIN", durationMs: 20_000 });
+    expect(forgotten.body).toMatchObject({ slowRecall: false });
+    await request(app)
+      .post("/study/review")
+      .set("Authorization", `Bearer ${login.accessToken}`)
+      .send({ cardId: forgottenId, rating: "AGAIN" });
+
+    const slowCard = await request(app).get(`/cards/${slowId}`).set("Authorization", `Bearer ${login.accessToken}`);
+    expect(slowCard.body).toMatchObject({ tags: ["slow-recall"] });
+
+    const negative = await request(app)
+      .post("/study/review")
+      .set("Authorization", `Bearer ${login.accessToken}`)
+      .send({ cardId: quickId, rating: "GOOD", durationMs: -1 });
+    expect(negative.status).toBe(400);
+
+    const stats = await request(app).get("/stats/time?days=7").set("Authorization", `Bearer ${login.accessToken}`);
+    expect(stats.status).toBe(200);
+    const statsBody = stats.body as {
+      reviewCount: number;
+      timedReviewCount: number;
+      totalMs: number;
+      averageMsPerReview: number;
+      days: Array<{ reviewCount: number; totalMs: number }>;
+      slowestCards: Array<{ cardId: string; averageMs: number }>;
+    };
+    expect(statsBody).toMatchObject({ reviewCount: 4, timedReviewCount: 3, totalMs: 84_000, averageMsPerReview: 28_000 });
+    expect(statsBody.days).toHaveLength(7);
+    expect(statsBody.days[6]).toMatchObject({ reviewCount: 4, totalMs: 84_000 });
+    expect(statsBody.slowestCards.map((card) => card.cardId)).toEqual([slowId, forgottenId, quickId]);
+
+    const otherUser = await loginUser("duration-other@test.local");
+    const foreign = await request(app)
+      .get(`/stats/time?deckId=${deckId}`)
+      .set("Authorization", `Bearer ${otherUser.accessToken}`);
+    expect(foreign.status).toBe(404);
+
+    const slowUndo = await request(app)
+      .post(`/study/review/${(slow.body as { review: { id: string } }).review.id}/undo`)
+      .set("Authorization", `Bearer ${login.accessToken}`);
+    expect(slowUndo.status).toBe(200);
+    const untaggedCard = await request(app).get(`/cards/${slowId}`).set("Authorization", `Bearer ${login.accessToken}`);
+    expect(untaggedCard.body).toMatchObject({ tags: [] });
+  });
+
+  it("returns a card's review history with memory state at each step", async () => {
+    const login = await loginUser("history@test.local");
+    const dayMs = 24 * 60 * 60 * 1000;
+    const deckResponse = await request(app)
+      .post("/decks")
+      .set("Authorization", `Bearer ${login.accessToken}`)
+      .send({ title: "Inspect" });
+    const deckId = (deckResponse.body as { id: string }).id;
+    const cardResponse = await request(app)
+      .post(`/decks/${deckId}/cards`)
+      .set("Authorization", `Bearer ${login.accessToken}`)
+      .send({ question: "Odd card", answer: "Answer" });
+    const cardId = (cardResponse.body as { id: string }).id;
+
+    const fresh = await request(app).get(`/cards/${cardId}/history`).set("Authorization", `Bearer ${login.accessToken}`);
+    expect(fresh.status).toBe(200);
+    expect(fresh.body).toMatchObject({ cardId, scheduleState: null, reviews: [] });
+
+    await request(app)
+      .post("/study/review")
+      .set("Authorization", `Bearer ${login.accessToken}`)
+      .send({ cardId, rating: "EASY", durationMs: 3000 });
+    const afterFirst = await prisma.scheduleState.findUniqueOrThrow({ where: { cardId } });
+    await prisma.scheduleState.update({
+      where: { cardId },
+      data: { lastReviewedAt: new Date(Date.now() - 2 * dayMs) }
+    });
+    await request(app)
+      .post("/study/review")
+      .set("Authorization", `Bearer ${login.accessToken}`)
+      .send({ cardId, rating: "AGAIN" });
+
+    const history = await request(app).get(`/cards/${cardId}/history`).set("Authorization", `Bearer ${login.accessToken}`);
+    expect(history.status).toBe(200);
+    const body = history.body as {
+      scheduleState: { state: string; lapses: number; stability: number; retrievability: number };
+      reviews: Array<{
+        rating: string;
+        durationMs: number | null;
+        retrievability: number | null;
+        stability: number;
+        difficulty: number;
+      }>;
+    };
+    expect(body.reviews.map((review) => review.rating)).toEqual(["EASY", "AGAIN"]);
+    expect(body.reviews[0]).toMatchObject({ durationMs: 3000, retrievability: null, stability: afterFirst.fsrsStability });
+    expect(body.reviews[1].retrievability).toBeGreaterThan(0);
+    expect(body.reviews[1].retrievability).toBeLessThan(1);
+    expect(body.reviews[1].difficulty).toBeGreaterThan(body.reviews[0].difficulty);
+    expect(body.scheduleState).toMatchObject({ state: "Relearning", lapses: 1 });
+    expect(body.scheduleState.retrievability).toBeGreaterThan(0.9);
+
+    const otherUser = await loginUser("history-other@test.local");
+    const foreign = await request(app)
+      .get(`/cards/${cardId}/history`)
+      .set("Authorization", `Bearer ${otherUser.accessToken}`);
+    expect(foreign.status).toBe(404);
+  });
+
+  it("reports review heatmap, true retention, ratings and card states", async () => {
+    const login = await loginUser("stats@test.local");
+    const dayMs = 24 * 60 * 60 * 1000;
+    const deckResponse = await request(app)
+      .post("/decks")
+      .set("Authorization", `Bearer ${login.accessToken}`)
+      .send({ title: "Stats" });
+    const deckId = (deckResponse.body as { id: string }).id;
+    const cardIds: string[] = [];
+    for (let index = 0; index < 4; index += 1) {
+      const card = await request(app)
+        .post(`/decks/${deckId}/cards`)
+        .set("Authorization", `Bearer ${login.accessToken}`)
+        .send({ question: `Question ${index}`, answer: "Answer" });
+      cardIds.push((card.body as { id: string }).id);
+    }
+    const [learnedId, matureId, lapsedId] = cardIds;
+    const now = Date.now();
+    for (const [cardId, stability] of [
+      [matureId, 40],
+      [lapsedId, 10]
+    ] as const) {
+      await prisma.scheduleState.create({
+        data: {
+          cardId,
+          dueAt: new Date(now),
+          lastReviewedAt: new Date(now - stability * dayMs),
+          intervalMinutes: stability * 24 * 60,
+          repetitions: 4,
+          fsrsState: 2,
+          fsrsStability: stability,
+          fsrsDifficulty: 5,
+          fsrsScheduledDays: stability
+        }
+      });
+    }
+    await prisma.review.create({
+      data: {
+        userId: login.user.id,
+        deckId,
+        cardId: matureId,
+        rating: "GOOD",
+        scheduledDueAt: new Date(now),
+        previousInterval: 0,
+        nextInterval: 40 * 24 * 60,
+        createdAt: new Date(now - 40 * dayMs)
+      }
+    });
+
+    await request(app)
+      .post("/study/review")
+      .set("Authorization", `Bearer ${login.accessToken}`)
+      .send({ cardId: learnedId, rating: "EASY" });
+    await request(app)
+      .post("/study/review")
+      .set("Authorization", `Bearer ${login.accessToken}`)
+      .send({ cardId: matureId, rating: "GOOD" });
+    await request(app)
+      .post("/study/review")
+      .set("Authorization", `Bearer ${login.accessToken}`)
+      .send({ cardId: lapsedId, rating: "AGAIN" });
+
+    const heatmap = await request(app).get("/stats/heatmap?days=60").set("Authorization", `Bearer ${login.accessToken}`);
+    expect(heatmap.status).toBe(200);
+    const heatmapBody = heatmap.body as { days: Array<{ reviewCount: number }>; studiedDays: number; currentStreak: number };
+    expect(heatmapBody.days).toHaveLength(60);
+    expect(heatmapBody.days[59].reviewCount).toBe(3);
+    expect(heatmapBody).toMatchObject({ reviewCount: 4, studiedDays: 2, currentStreak: 1 });
+
+    const retention = await request(app).get("/stats/retention").set("Authorization", `Bearer ${login.accessToken}`);
+    expect(retention.status).toBe(200);
+    const retentionBody = retention.body as {
+      reviewCount: number;
+      retention: number;
+      buckets: Array<{ label: string; reviewCount: number; passedCount: number; retention: number | null }>;
+    };
+    expect(retentionBody).toMatchObject({ reviewCount: 2, passedCount: 1, retention: 0.5 });
+    expect(retentionBody.buckets.find((bucket) => bucket.label === "1-4 weeks")).toMatchObject({
+      reviewCount: 1,
+      retention: 0
+    });
+    expect(retentionBody.buckets.find((bucket) => bucket.label === "1-3 months")).toMatchObject({
+      reviewCount: 1,
+      retention: 1
+    });
+
+    const ratings = await request(app).get("/stats/ratings?days=7").set("Authorization", `Bearer ${login.accessToken}`);
+    expect(ratings.body).toEqual({
+      reviewCount: 3,
+      ratings: [
+        { rating: "AGAIN", count: 1 },
+        { rating: "HARD", count: 0 },
+        { rating: "GOOD", count: 1 },
+        { rating: "EASY", count: 1 }
+      ]
+    });
+
+    await request(app)
+      .post("/cards/bulk")
+      .set("Authorization", `Bearer ${login.accessToken}`)
+      .send({ cardIds: [cardIds[3]], suspended: true });
+    const cards = await request(app)
+      .get(`/stats/cards?deckId=${deckId}`)
+      .set("Authorization", `Bearer ${login.accessToken}`);
+    expect(cards.status).toBe(200);
+    const cardsBody = cards.body as { states: Array<{ state: string; count: number }>; averageStability: number };
+    expect(cardsBody).toMatchObject({ cardCount: 4, suspendedCount: 1 });
+    expect(cardsBody.states).toEqual([
+      { state: "New", count: 1 },
+      { state: "Learning", count: 0 },
+      { state: "Review", count: 2 },
+      { state: "Relearning", count: 1 }
+    ]);
+    expect(cardsBody.averageStability).toBeGreaterThan(0);
+
+    const otherUser = await loginUser("stats-other@test.local");
+    const foreign = await request(app)
+      .get(`/stats/retention?deckId=${deckId}`)
+      .set("Authorization", `Bearer ${otherUser.accessToken}`);
+    expect(foreign.status).toBe(404);
+  });
 });
@@ -1,3 +1,4 @@
+import { getMultipleChoiceError, multipleChoiceOptionsSchema } from "@flashcards/shared";
 import { env } from "../config/env.js";
 import { AppError } from "../errors/app-error.js";
 
@@ -6,12 +7,15 @@ export interface GenerateCardsInput {
   mimeType: string;
   fileBuffer: Buffer;
   targetCards?: number;
+  includeMultipleChoice?: boolean;
   model: string;
 }
 
 export interface GeneratedCard {
   question: string;
   answer: string;
+  options?: string[];
+  correctOptionIndex?: number;
 }
 
 export interface IngestionProvider {
@@ -22,13 +26,36 @@ class MockIngestionProvider implements IngestionProvider {
   async generateCardsFromDocument(input: GenerateCardsInput): Promise<GeneratedCard[]> {
     const base = input.filename.replace(/\.[^/.]+$/, "").trim() || "Document";
     const count = input.targetCards ?? 8;
-    return Array.from({ length: count }, (_, index) => {
+    const cards: GeneratedCard[] = Array.from({ length: count }, (_, index) => {
       const number = index + 1;
       return {
         question: `${base}: Key concept ${number}?`,
         answer: `Generated placeholder answer ${number} from ${input.mimeType}.`
       };
     });
+
+    if (!input.includeMultipleChoice || cards.length < 2) {
+      return cards;
+    }
+
+    // Every other card becomes multiple choice, with distractors taken from the other answers.
+    return cards.map((card, index) => {
+      if (index % 2 === 0) {
+        return card;
+      }
+      const distractors = cards
+        .filter((other) => other !== card)
+        .slice(0, 3)
+        .map((other) => other.answer);
+      const correctOptionIndex = index % (distractors.length + 1);
+      const options = [...distractors];
+      options.splice(correctOptionIndex, 0, card.answer);
+      return {
+        ...card,
+        options,
+        correctOptionIndex
+      };
+    });
   }
 }
 
@@ -46,10 +73,18 @@ class GeminiIngestionProvider implements IngestionProvider {
       "You are an educational assistant.",
       cardCountInstruction,
       "Return ONLY valid JSON in this exact shape:",
-      '{"cards":[{"question":"...","answer":"..."}]}',
+      input.includeMultipleChoice
+        ? '{"cards":[{"question":"...","answer":"..."},{"question":"...","options":["...","...","...","..."],"correctOptionIndex":2}]}'
+        : '{"cards":[{"question":"...","answer":"..."}]}',
       "Rules:",
       "- Questions must be clear and specific.",
       "- Answers must be concise and factually grounded in the document.",
+      ...(input.includeMultipleChoice
+        ? [
+            "- Make roughly half of the cards multiple choice with 4 options and the 0-based correctOptionIndex.",
+            "- Distractors must be plausible, drawn from other terms or facts in the document, and clearly wrong."
+          ]
+        : []),
       "- Do not include markdown, commentary, or extra keys."
     ].join("\n");
 
@@ -103,10 +138,7 @@ class GeminiIngestionProvider implements IngestionProvider {
     }
 
     return parsed.cards
-      .map((card) => ({
-        question: card.question.trim(),
-        answer: card.answer.trim()
-      }))
+      .map((card) => toGeneratedCard(card, input.includeMultipleChoice ?? false))
       .filter((card) => card.question.length > 0 && card.answer.length > 0)
       .slice(0, input.targetCards ?? 30);
   }
@@ -128,10 +160,50 @@ interface GeminiGenerateResponse {
 interface ParsedCardPayload {
   cards: Array<{
     question: string;
-    answer: string;
+    answer?: string;
+    options?: unknown;
+    correctOptionIndex?: unknown;
   }>;
 }
 
+// Models tend to put the correct option first, so the option order is never taken from their output.
+function shuffleOptions(options: string[], correctOptionIndex: number) {
+  const order = options.map((_, index) => index);
+  for (let index = order.length - 1; index > 0; index -= 1) {
+    const swapIndex = Math.floor(Math.random() * (index + 1));
+    [order[index], order[swapIndex]] = [order[swapIndex], order[index]];
+  }
+  return {
+    options: order.map((optionIndex) => options[optionIndex]),
+    correctOptionIndex: order.indexOf(correctOptionIndex)
+  };
+}
+
+// Invalid multiple-choice output falls back to a basic card using the correct option as the answer.
+function toGeneratedCard(card: ParsedCardPayload["cards"][number], includeMultipleChoice: boolean): GeneratedCard {
+  const question = card.question.trim();
+  const options = Array.isArray(card.options)
+    ? card.options.filter((option): option is string => typeof option === "string").map((option) => option.trim())
+    : [];
+  const correctOptionIndex = typeof card.correctOptionIndex === "number" ? card.correctOptionIndex : undefined;
+  const answer = card.answer?.trim() || (correctOptionIndex !== undefined ? (options[correctOptionIndex] ?? "") : "");
+
+  if (
+    !includeMultipleChoice ||
+    !multipleChoiceOptionsSchema.safeParse(options).success ||
+    correctOptionIndex === undefined ||
+    getMultipleChoiceError(options, correctOptionIndex)
+  ) {
+    return { question, answer };
+  }
+
+  return {
+    question,
+    answer: options[correctOptionIndex],
+    ...shuffleOptions(options, correctOptionIndex)
+  };
+}
+
 function safeParseCardPayload(text: string): ParsedCardPayload | null {
   try {
     const direct = JSON.parse(text) as ParsedCardPayload;
@@ -5,6 +5,7 @@ export interface PlanPolicy {
   gradingChatModel: string;
   monthlyDocumentGenerations: number;
   monthlyChatTurns: number;
+  mediaStorageBytes: number;
 }
 
 const PLAN_POLICIES: Record<PlanTier, PlanPolicy> = {
@@ -12,13 +13,15 @@ const PLAN_POLICIES: Record<PlanTier, PlanPolicy> = {
     documentGenerationModel: "gemini-2.5-flash-lite",
     gradingChatModel: "gemini-2.5-flash-lite",
     monthlyDocumentGenerations: 3,
-    monthlyChatTurns: 150
+    monthlyChatTurns: 150,
+    mediaStorageBytes: 50 * 1024 * 1024
   },
   PRO: {
     documentGenerationModel: "gemini-2.5-flash",
     gradingChatModel: "gemini-2.5-flash-lite",
     monthlyDocumentGenerations: 20,
-    monthlyChatTurns: 800
+    monthlyChatTurns: 800,
+    mediaStorageBytes: 1024 * 1024 * 1024
   }
 };
 
@@ -35,9 +35,22 @@ export interface StudyFollowUpInput {
   model: string;
 }
 
+export interface RewriteStudyCardInput {
+  question: string;
+  answer: string;
+  lapses: number;
+  model: string;
+}
+
+export interface RewrittenStudyCard {
+  question: string;
+  answer: string;
+}
+
 export interface StudyAiProvider {
   gradeAnswer(input: GradeStudyAnswerInput): Promise<GradeStudyAnswerResult>;
   followUp(input: StudyFollowUpInput): Promise<string>;
+  rewriteCard(input: RewriteStudyCardInput): Promise<RewrittenStudyCard[]>;
 }
 
 const gradeResponseSchema = z.object({
@@ -51,6 +64,18 @@ const followUpResponseSchema = z.object({
   assistantReply: z.string().trim().min(1).max(6000)
 });
 
+const rewriteResponseSchema = z.object({
+  cards: z
+    .array(
+      z.object({
+        question: z.string().trim().min(1).max(2000),
+        answer: z.string().trim().min(1).max(5000)
+      })
+    )
+    .min(1)
+    .max(5)
+});
+
 class MockStudyAiProvider implements StudyAiProvider {
   async gradeAnswer(input: GradeStudyAnswerInput): Promise<GradeStudyAnswerResult> {
     const score = scoreAnswer(input.expectedAnswer, input.userAnswer);
@@ -78,6 +103,22 @@ class MockStudyAiProvider implements StudyAiProvider {
       `Your question: ${input.userMessage}`
     ].join(" ");
   }
+
+  async rewriteCard(input: RewriteStudyCardInput): Promise<RewrittenStudyCard[]> {
+    const parts = input.answer
+      .split(/[;\n]+|(?<=\.)\s+/)
+      .map((part) => part.trim())
+      .filter((part) => part.length > 0)
+      .slice(0, 5);
+    if (parts.length <= 1) {
+      return [{ question: `${input.question.trim()} (answer in one short phrase)`, answer: input.answer.trim() }];
+    }
+
+    return parts.map((part, index) => ({
+      question: `${input.question.trim()} (part ${index + 1} of ${parts.length})`,
+      answer: part
+    }));
+  }
 }
 
 class GeminiStudyAiProvider implements StudyAiProvider {
@@ -151,6 +192,34 @@ class GeminiStudyAiProvider implements StudyAiProvider {
 
     return parsed.data.assistantReply;
   }
+
+  async rewriteCard(input: RewriteStudyCardInput): Promise<RewrittenStudyCard[]> {
+    if (!env.GEMINI_API_KEY) {
+      throw new AppError("Missing GEMINI_API_KEY for Gemini provider", 500);
+    }
+
+    const prompt = [
+      `A learner has forgotten this flashcard ${input.lapses} times after learning it.`,
+      "Rewrite it into clearer flashcards that are easier to remember.",
+      "Return ONLY JSON in this exact shape:",
+      '{"cards":[{"question":"...","answer":"..."}]}',
+      "Rules:",
+      "- Return 1 to 5 cards; split the card when it asks for several facts at once.",
+      "- Each card asks for exactly one fact with a short, unambiguous answer.",
+      "- Keep the original meaning and do not add facts that are not in the card.",
+      "",
+      `Question: ${input.question}`,
+      `Answer: ${input.answer}`
+    ].join("\n");
+
+    const raw = await callGeminiJson(input.model, prompt);
+    const parsed = rewriteResponseSchema.safeParse(raw);
+    if (!parsed.success) {
+      throw new AppError("Gemini returned invalid rewrite JSON", 502);
+    }
+
+    return parsed.data.cards;
+  }
 }
 
 interface GeminiGenerateResponse {
@@ -0,0 +1,618 @@
+import { createHash, randomBytes } from "node:crypto";
+import initSqlJs, { type Database, type SqlValue } from "sql.js";
+import { strToU8, unzipSync, zipSync } from "fflate";
+import { Decompress as ZstdDecompress } from "fzstd";
+import { AppError } from "../errors/app-error.js";
+
+export const ANKI_FIELD_SEPARATOR = "\x1f";
+
+export interface AnkiDeck {
+  id: number;
+  name: string;
+  description?: string;
+  desiredRetention?: number;
+}
+
+export interface AnkiModel {
+  id: number;
+  name: string;
+  isCloze: boolean;
+  hasReverse?: boolean;
+}
+
+export interface AnkiNote {
+  id: number;
+  modelId: number;
+  fields: string[];
+  tags: string[];
+}
+
+export interface AnkiCardData {
+  s?: number;
+  d?: number;
+  dr?: number;
+}
+
+export interface AnkiCard {
+  id: number;
+  noteId: number;
+  deckId: number;
+  ord: number;
+  type: number;
+  queue: number;
+  due: number;
+  ivl: number;
+  factor: number;
+  reps: number;
+  lapses: number;
+  left: number;
+  originalDue: number;
+  originalDeckId: number;
+  flags: number;
+  data: AnkiCardData;
+}
+
+export interface AnkiRevlogEntry {
+  id: number;
+  cardId: number;
+  ease: number;
+  ivl: number;
+  lastIvl: number;
+  factor: number;
+  time: number;
+  type: number;
+}
+
+export interface AnkiCollection {
+  createdAt: Date;
+  decks: Map<number, AnkiDeck>;
+  models: Map<number, AnkiModel>;
+  notes: Map<number, AnkiNote>;
+  cards: AnkiCard[];
+  revlog: AnkiRevlogEntry[];
+}
+
+// Newer Anki versions write a zstd-compressed collection.anki21b and keep a stub
+// collection.anki2 for old clients, so the preferred entry has to be tried first.
+const COLLECTION_ENTRY_NAMES = ["collection.anki21b", "collection.anki21", "collection.anki2"];
+// Caps the unpacked collection so a small archive cannot expand into more than the server can hold.
+const MAX_COLLECTION_BYTES = 256 * 1024 * 1024;
+
+let sqlJsPromise: ReturnType<typeof initSqlJs> | null = null;
+
+export function getSqlJs() {
+  if (!sqlJsPromise) {
+    sqlJsPromise = initSqlJs();
+  }
+  return sqlJsPromise;
+}
+
+const LEGACY_SCHEMA_SQL = `
+CREATE TABLE col (id integer primary key, crt integer not null, mod integer not null, scm integer not null, ver integer not null, dty integer not null, usn integer not null, ls integer not null, conf text not null, models text not null, decks text not null, dconf text not null, tags text not null);
+CREATE TABLE notes (id integer primary key, guid text not null, mid integer not null, mod integer not null, usn integer not null, tags text not null, flds text not null, sfld integer not null, csum integer not null, flags integer not null, data text not null);
+CREATE TABLE cards (id integer primary key, nid integer not null, did integer not null, ord integer not null, mod integer not null, usn integer not null, type integer not null, queue integer not null, due integer not null, ivl integer not null, factor integer not null, reps integer not null, lapses integer not null, left integer not null, odue integer not null, odid integer not null, flags integer not null, data text not null);
+CREATE TABLE revlog (id integer primary key, cid integer not null, usn integer not null, ease integer not null, ivl integer not null, lastIvl integer not null, factor integer not null, time integer not null, type integer not null);
+CREATE TABLE graves (usn integer not null, oid integer not null, type integer not null);
+CREATE INDEX ix_notes_usn on notes (usn);
+CREATE INDEX ix_cards_usn on cards (usn);
+CREATE INDEX ix_revlog_usn on revlog (usn);
+CREATE INDEX ix_cards_nid on cards (nid);
+CREATE INDEX ix_cards_sched on cards (did, queue, due);
+CREATE INDEX ix_revlog_cid on revlog (cid);
+CREATE INDEX ix_notes_csum on notes (csum);
+`;
+
+const DEFAULT_DECK_ID = 1;
+const DEFAULT_DESIRED_RETENTION = 0.9;
+
+function toNumber(value: SqlValue | undefined): number {
+  if (typeof value === "number") {
+    return value;
+  }
+  if (typeof value === "string") {
+    const parsed = Number(value);
+    return Number.isFinite(parsed) ? parsed : 0;
+  }
+  return 0;
+}
+
+function toText(value: SqlValue | undefined): string {
+  if (typeof value === "string") {
+    return value;
+  }
+  if (value instanceof Uint8Array) {
+    return Buffer.from(value).toString("utf8");
+  }
+  if (typeof value === "number") {
+    return String(value);
+  }
+  return "";
+}
+
+function queryRows(db: Database, sql: string): Array<Record<string, SqlValue>> {
+  const statement = db.prepare(sql);
+  const rows: Array<Record<string, SqlValue>> = [];
+  try {
+    while (statement.step()) {
+      rows.push(statement.getAsObject());
+    }
+  } finally {
+    statement.free();
+  }
+  return rows;
+}
+
+function hasTable(db: Database, table: string): boolean {
+  const statement = db.prepare("SELECT 1 FROM sqlite_master WHERE type = 'table' AND name = ?");
+  try {
+    statement.bind([table]);
+    return statement.step();
+  } finally {
+    statement.free();
+  }
+}
+
+function parseJsonObject(value: string): Record<string, unknown> {
+  if (!value.trim()) {
+    return {};
+  }
+  try {
+    const parsed = JSON.parse(value) as unknown;
+    return parsed && typeof parsed === "object" ? (parsed as Record<string, unknown>) : {};
+  } catch {
+    return {};
+  }
+}
+
+function parseCardData(value: string): AnkiCardData {
+  const raw = parseJsonObject(value);
+  const data: AnkiCardData = {};
+  if (typeof raw.s === "number" && raw.s > 0) {
+    data.s = raw.s;
+  }
+  if (typeof raw.d === "number" && raw.d > 0) {
+    data.d = raw.d;
+  }
+  if (typeof raw.dr === "number" && raw.dr > 0) {
+    data.dr = raw.dr;
+  }
+  return data;
+}
+
+function readDecks(db: Database, legacyDecksJson: string): Map<number, AnkiDeck> {
+  const decks = new Map<number, AnkiDeck>();
+
+  // Schema 18 collections keep decks in their own table; the col.decks JSON is empty there.
+  if (hasTable(db, "decks")) {
+    for (const row of queryRows(db, "SELECT id, name FROM decks")) {
+      const id = toNumber(row.id);
+      decks.set(id, {
+        id,
+        name: toText(row.name).split(ANKI_FIELD_SEPARATOR).join("::")
+      });
+    }
+    return decks;
+  }
+
+  for (const value of Object.values(parseJsonObject(legacyDecksJson))) {
+    const deck = value as { id?: unknown; name?: unknown; desc?: unknown };
+    if (typeof deck.id === "number" && typeof deck.name === "string") {
+      decks.set(deck.id, {
+        id: deck.id,
+        name: deck.name,
+        description: typeof deck.desc === "string" ? deck.desc : undefined
+      });
+    }
+  }
+  return decks;
+}
+
+function readModels(db: Database, legacyModelsJson: string): Map<number, AnkiModel> {
+  const models = new Map<number, AnkiModel>();
+
+  if (hasTable(db, "notetypes")) {
+    // The note type kind lives in a protobuf blob in schema 18; cloze notes are detected
+    // from their field content by the importer instead.
+    for (const row of queryRows(db, "SELECT id, name FROM notetypes")) {
+      const id = toNumber(row.id);
+      models.set(id, { id, name: toText(row.name), isCloze: false });
+    }
+    return models;
+  }
+
+  for (const value of Object.values(parseJsonObject(legacyModelsJson))) {
+    const model = value as { id?: unknown; name?: unknown; type?: unknown };
+    const id = typeof model.id === "number" ? model.id : Number(model.id);
+    if (Number.isFinite(id)) {
+      models.set(id, {
+        id,
+        name: typeof model.name === "string" ? model.name : "",
+        isCloze: model.type === 1
+      });
+    }
+  }
+  return models;
+}
+
+const collectionTooLargeError = () => new AppError("Anki collection is too large to import.", 400);
+
+function decompressCollection(entry: Uint8Array): Uint8Array {
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  const decompressor = new ZstdDecompress((chunk) => {
+    size += chunk.length;
+    if (size > MAX_COLLECTION_BYTES) {
+      throw collectionTooLargeError();
+    }
+    chunks.push(chunk);
+  });
+  decompressor.push(entry, true);
+
+  const bytes = new Uint8Array(size);
+  let offset = 0;
+  for (const chunk of chunks) {
+    bytes.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return bytes;
+}
+
+// Only the collection entries are unpacked; media files are never imported, so they are skipped unread.
+function openCollectionBytes(buffer: Buffer): Uint8Array {
+  let entries: Record<string, Uint8Array>;
+  try {
+    entries = unzipSync(new Uint8Array(buffer), {
+      filter: (file) => {
+        if (!COLLECTION_ENTRY_NAMES.includes(file.name)) {
+          return false;
+        }
+        if (file.originalSize > MAX_COLLECTION_BYTES) {
+          throw collectionTooLargeError();
+        }
+        return true;
+      }
+    });
+  } catch (error) {
+    if (error instanceof AppError) {
+      throw error;
+    }
+    throw new AppError("Invalid .apkg file. Expected a zip archive.", 400);
+  }
+
+  for (const name of COLLECTION_ENTRY_NAMES) {
+    const entry = entries[name];
+    if (!entry) {
+      continue;
+    }
+    if (name.endsWith("b")) {
+      try {
+        return decompressCollection(entry);
+      } catch (error) {
+        if (error instanceof AppError) {
+          throw error;
+        }
+        throw new AppError("Could not decompress Anki collection.", 400);
+      }
+    }
+    return entry;
+  }
+
+  throw new AppError("Invalid .apkg file. No Anki collection found.", 400);
+}
+
+export async function readApkg(buffer: Buffer): Promise<AnkiCollection> {
+  const collectionBytes = openCollectionBytes(buffer);
+  const SQL = await getSqlJs();
+
+  let db: Database;
+  try {
+    db = new SQL.Database(collectionBytes);
+  } catch {
+    throw new AppError("Invalid Anki collection database.", 400);
+  }
+
+  try {
+    const [colRow] = queryRows(db, "SELECT crt, decks, models FROM col LIMIT 1");
+    if (!colRow) {
+      throw new AppError("Invalid Anki collection database.", 400);
+    }
+
+    const decks = readDecks(db, toText(colRow.decks));
+    const models = readModels(db, toText(colRow.models));
+
+    const notes = new Map<number, AnkiNote>();
+    for (const row of queryRows(db, "SELECT id, mid, tags, flds FROM notes")) {
+      const id = toNumber(row.id);
+      notes.set(id, {
+        id,
+        modelId: toNumber(row.mid),
+        fields: toText(row.flds).split(ANKI_FIELD_SEPARATOR),
+        tags: toText(row.tags)
+          .split(/\s+/)
+          .filter((tag) => tag.length > 0)
+      });
+    }
+
+    const cards = queryRows(
+      db,
+      "SELECT id, nid, did, ord, type, queue, due, ivl, factor, reps, lapses, left, odue, odid, flags, data FROM cards ORDER BY id"
+    ).map<AnkiCard>((row) => ({
+      id: toNumber(row.id),
+      noteId: toNumber(row.nid),
+      deckId: toNumber(row.did),
+      ord: toNumber(row.ord),
+      type: toNumber(row.type),
+      queue: toNumber(row.queue),
+      due: toNumber(row.due),
+      ivl: toNumber(row.ivl),
+      factor: toNumber(row.factor),
+      reps: toNumber(row.reps),
+      lapses: toNumber(row.lapses),
+      left: toNumber(row.left),
+      originalDue: toNumber(row.odue),
+      originalDeckId: toNumber(row.odid),
+      flags: toNumber(row.flags),
+      data: parseCardData(toText(row.data))
+    }));
+
+    const revlog = queryRows(db, "SELECT id, cid, ease, ivl, lastIvl, factor, time, type FROM revlog ORDER BY id").map<AnkiRevlogEntry>(
+      (row) => ({
+        id: toNumber(row.id),
+        cardId: toNumber(row.cid),
+        ease: toNumber(row.ease),
+        ivl: toNumber(row.ivl),
+        lastIvl: toNumber(row.lastIvl),
+        factor: toNumber(row.factor),
+        time: toNumber(row.time),
+        type: toNumber(row.type)
+      })
+    );
+
+    return {
+      createdAt: new Date(toNumber(colRow.crt) * 1000),
+      decks,
+      models,
+      notes,
+      cards,
+      revlog
+    };
+  } catch (error) {
+    if (error instanceof AppError) {
+      throw error;
+    }
+    throw new AppError("Invalid Anki collection database.", 400);
+  } finally {
+    db.close();
+  }
+}
+
+function stripHtml(value: string): string {
+  return value.replace(/<[^>]+>/g, "").trim();
+}
+
+function fieldChecksum(value: string): number {
+  return Number.parseInt(createHash("sha1").update(stripHtml(value)).digest("hex").slice(0, 8), 16);
+}
+
+function buildModelJson(model: AnkiModel, deckId: number, nowSeconds: number) {
+  const fieldNames = model.isCloze ? ["Text", "Back Extra"] : ["Front", "Back"];
+  const templates = model.isCloze
+    ? [{ name: "Cloze", qfmt: "{{cloze:Text}}", afmt: "{{cloze:Text}}<br>\n{{Back Extra}}" }]
+    : [
+        { name: "Card 1", qfmt: "{{Front}}", afmt: "{{FrontSide}}\n\n<hr id=answer>\n\n{{Back}}" },
+        ...(model.hasReverse
+          ? [{ name: "Card 2", qfmt: "{{Back}}", afmt: "{{FrontSide}}\n\n<hr id=answer>\n\n{{Front}}" }]
+          : [])
+      ];
+
+  return {
+    id: model.id,
+    name: model.name,
+    type: model.isCloze ? 1 : 0,
+    mod: nowSeconds,
+    usn: -1,
+    sortf: 0,
+    did: deckId,
+    tmpls: templates.map((template, ord) => ({
+      name: template.name,
+      ord,
+      qfmt: template.qfmt,
+      afmt: template.afmt,
+      bqfmt: "",
+      bafmt: "",
+      did: null,
+      bfont: "",
+      bsize: 0
+    })),
+    flds: fieldNames.map((name, ord) => ({
+      name,
+      ord,
+      sticky: false,
+      rtl: false,
+      font: "Arial",
+      size: 20,
+      media: []
+    })),
+    css: ".card {\n  font-family: arial;\n  font-size: 20px;\n  text-align: center;\n  color: black;\n  background-color: white;\n}\n",
+    latexPre:
+      "\\documentclass[12pt]{article}\n\\special{papersize=3in,5in}\n\\usepackage[utf8]{inputenc}\n\\usepackage{amssymb,amsmath}\n\\pagestyle{empty}\n\\setlength{\\parindent}{0in}\n\\begin{document}\n",
+    latexPost: "\\end{document}",
+    latexsvg: false,
+    req: templates.map((_, ord) => [ord, "any", [ord]]),
+    tags: [],
+    vers: []
+  };
+}
+
+function buildDeckJson(deck: AnkiDeck, nowSeconds: number) {
+  return {
+    id: deck.id,
+    name: deck.name,
+    desc: deck.description ?? "",
+    mod: nowSeconds,
+    usn: -1,
+    lrnToday: [0, 0],
+    revToday: [0, 0],
+    newToday: [0, 0],
+    timeToday: [0, 0],
+    collapsed: false,
+    browserCollapsed: false,
+    dyn: 0,
+    conf: 1,
+    extendNew: 0,
+    extendRev: 0
+  };
+}
+
+function buildDeckConfigJson(nowSeconds: number, desiredRetention: number) {
+  return {
+    "1": {
+      id: 1,
+      name: "Default",
+      mod: nowSeconds,
+      usn: -1,
+      desiredRetention,
+      maxTaken: 60,
+      autoplay: true,
+      timer: 0,
+      replayq: true,
+      dyn: false,
+      new: {
+        bury: false,
+        delays: [1, 10],
+        initialFactor: 2500,
+        ints: [1, 4, 0],
+        order: 1,
+        perDay: 20
+      },
+      lapse: {
+        delays: [10],
+        leechAction: 1,
+        leechFails: 8,
+        minInt: 1,
+        mult: 0
+      },
+      rev: {
+        bury: false,
+        ease4: 1.3,
+        ivlFct: 1,
+        maxIvl: 36500,
+        perDay: 200,
+        hardFactor: 1.2
+      }
+    }
+  };
+}
+
+export async function writeApkg(collection: AnkiCollection): Promise<Buffer> {
+  const SQL = await getSqlJs();
+  const db = new SQL.Database();
+  const nowSeconds = Math.floor(Date.now() / 1000);
+  const [firstDeck] = collection.decks.values();
+  const [firstModel] = collection.models.values();
+
+  try {
+    db.run(LEGACY_SCHEMA_SQL);
+
+    const decksJson: Record<string, unknown> = {
+      [DEFAULT_DECK_ID]: buildDeckJson({ id: DEFAULT_DECK_ID, name: "Default" }, nowSeconds)
+    };
+    for (const deck of collection.decks.values()) {
+      decksJson[deck.id] = buildDeckJson(deck, nowSeconds);
+    }
+
+    const modelsJson: Record<string, unknown> = {};
+    for (const model of collection.models.values()) {
+      modelsJson[model.id] = buildModelJson(model, firstDeck?.id ?? DEFAULT_DECK_ID, nowSeconds);
+    }
+
+    const conf = {
+      activeDecks: [firstDeck?.id ?? DEFAULT_DECK_ID],
+      curDeck: firstDeck?.id ?? DEFAULT_DECK_ID,
+      curModel: firstModel?.id ?? null,
+      newSpread: 0,
+      collapseTime: 1200,
+      timeLim: 0,
+      estTimes: true,
+      dueCounts: true,
+      sortType: "noteFld",
+      sortBackwards: false,
+      addToCur: true,
+      nextPos: collection.cards.length + 1
+    };
+
+    db.run("INSERT INTO col VALUES (1, ?, ?, ?, 11, 0, 0, 0, ?, ?, ?, ?, '{}')", [
+      Math.floor(collection.createdAt.getTime() / 1000),
+      nowSeconds * 1000,
+      nowSeconds * 1000,
+      JSON.stringify(conf),
+      JSON.stringify(modelsJson),
+      JSON.stringify(decksJson),
+      JSON.stringify(buildDeckConfigJson(nowSeconds, firstDeck?.desiredRetention ?? DEFAULT_DESIRED_RETENTION))
+    ]);
+
+    const noteStatement = db.prepare("INSERT INTO notes VALUES (?, ?, ?, ?, -1, ?, ?, ?, ?, 0, '')");
+    try {
+      for (const note of collection.notes.values()) {
+        const [sortField = ""] = note.fields;
+        noteStatement.run([
+          note.id,
+          randomBytes(8).toString("base64url"),
+          note.modelId,
+          nowSeconds,
+          note.tags.length > 0 ? ` ${note.tags.join(" ")} ` : "",
+          note.fields.join(ANKI_FIELD_SEPARATOR),
+          stripHtml(sortField),
+          fieldChecksum(sortField)
+        ]);
+      }
+    } finally {
+      noteStatement.free();
+    }
+
+    const cardStatement = db.prepare("INSERT INTO cards VALUES (?, ?, ?, ?, ?, -1, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)");
+    try {
+      for (const card of collection.cards) {
+        cardStatement.run([
+          card.id,
+          card.noteId,
+          card.deckId,
+          card.ord,
+          nowSeconds,
+          card.type,
+          card.queue,
+          card.due,
+          card.ivl,
+          card.factor,
+          card.reps,
+          card.lapses,
+          card.left,
+          card.originalDue,
+          card.originalDeckId,
+          card.flags,
+          JSON.stringify(card.data)
+        ]);
+      }
+    } finally {
+      cardStatement.free();
+    }
+
+    const revlogStatement = db.prepare("INSERT INTO revlog VALUES (?, ?, -1, ?, ?, ?, ?, ?, ?)");
+    try {
+      for (const entry of collection.revlog) {
+        revlogStatement.run([entry.id, entry.cardId, entry.ease, entry.ivl, entry.lastIvl, entry.factor, entry.time, entry.type]);
+      }
+    } finally {
+      revlogStatement.free();
+    }
+
+    return Buffer.from(
+      zipSync({
+        "collection.anki2": db.export(),
+        media: strToU8("{}")
+      })
+    );
+  } finally {
+    db.close();
+  }
+}
@@ -0,0 +1,252 @@
+import { CardType, ReviewRating, type Review, type ScheduleState } from "@prisma/client";
+import { cardFlagSchema } from "@flashcards/shared";
+import { default_request_retention, State as FsrsState } from "ts-fsrs";
+import { AppError } from "../errors/app-error.js";
+import { prisma } from "../lib/prisma.js";
+import { normalizeFsrsState } from "../study/fsrs.js";
+import { toExportFilename } from "../utils/export-filename.js";
+import { writeApkg, type AnkiCard, type AnkiCollection, type AnkiNote, type AnkiRevlogEntry } from "./apkg.js";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MINUTES_PER_DAY = 24 * 60;
+const ANKI_CARD_TYPE_NEW = 0;
+const ANKI_QUEUE_NEW = 0;
+const ANKI_QUEUE_LEARNING = 1;
+const ANKI_QUEUE_REVIEW = 2;
+const ANKI_QUEUE_DAY_LEARNING = 3;
+const ANKI_QUEUE_SUSPENDED = -1;
+const ANKI_REVLOG_TYPE_LEARN = 0;
+const ANKI_REVLOG_TYPE_REVIEW = 1;
+const ANKI_REVLOG_TYPE_RELEARN = 2;
+const ANKI_REVLOG_TYPE_FILTERED = 3;
+
+export interface ApkgExport {
+  filename: string;
+  buffer: Buffer;
+}
+
+function escapeFieldHtml(value: string): string {
+  return value.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/\n/g, "<br>");
+}
+
+function mapReviewRatingToAnkiEase(rating: ReviewRating): number {
+  if (rating === ReviewRating.AGAIN) {
+    return 1;
+  }
+  if (rating === ReviewRating.HARD) {
+    return 2;
+  }
+  if (rating === ReviewRating.GOOD) {
+    return 3;
+  }
+  return 4;
+}
+
+// Anki stores day-or-longer intervals as positive days and shorter ones as negative seconds.
+function minutesToAnkiInterval(minutes: number): number {
+  if (minutes >= MINUTES_PER_DAY) {
+    return Math.round(minutes / MINUTES_PER_DAY);
+  }
+  return -Math.max(0, minutes) * 60;
+}
+
+// Practice answers that left the schedule alone are what Anki logs for filtered decks that do not reschedule.
+function inferRevlogType(review: Review, isFirstReview: boolean): number {
+  if (!review.rescheduled) {
+    return ANKI_REVLOG_TYPE_FILTERED;
+  }
+  if (isFirstReview || review.previousInterval < MINUTES_PER_DAY) {
+    return ANKI_REVLOG_TYPE_LEARN;
+  }
+  if (review.rating === ReviewRating.AGAIN) {
+    return ANKI_REVLOG_TYPE_RELEARN;
+  }
+  return ANKI_REVLOG_TYPE_REVIEW;
+}
+
+function toSchedulingColumns(scheduleState: ScheduleState | null, position: number, collectionCreatedAt: Date) {
+  const state = scheduleState ? normalizeFsrsState(scheduleState.fsrsState) : FsrsState.New;
+  if (!scheduleState || state === FsrsState.New) {
+    return {
+      type: ANKI_CARD_TYPE_NEW,
+      queue: ANKI_QUEUE_NEW,
+      due: position,
+      ivl: 0,
+      left: 0
+    };
+  }
+
+  const dayNumber = Math.max(0, Math.floor((scheduleState.dueAt.getTime() - collectionCreatedAt.getTime()) / DAY_MS));
+  const scheduledDays = scheduleState.fsrsScheduledDays || Math.round(scheduleState.intervalMinutes / MINUTES_PER_DAY);
+
+  if (state === FsrsState.Review) {
+    return {
+      type: state,
+      queue: ANKI_QUEUE_REVIEW,
+      due: dayNumber,
+      ivl: Math.max(1, scheduledDays),
+      left: 0
+    };
+  }
+
+  const isIntraday = scheduleState.intervalMinutes < MINUTES_PER_DAY;
+  return {
+    type: state,
+    queue: isIntraday ? ANKI_QUEUE_LEARNING : ANKI_QUEUE_DAY_LEARNING,
+    due: isIntraday ? Math.floor(scheduleState.dueAt.getTime() / 1000) : dayNumber,
+    ivl: state === FsrsState.Relearning ? Math.max(1, scheduledDays) : 0,
+    left: 1001
+  };
+}
+
+function resolveCollectionCreatedAt(dueDates: Date[], now: Date): Date {
+  const earliest = dueDates.reduce((min, value) => Math.min(min, value.getTime()), now.getTime());
+  return new Date(Math.floor(earliest / DAY_MS) * DAY_MS);
+}
+
+export async function exportDeckAsApkg(userId: string, deckId: string): Promise<ApkgExport> {
+  const deck = await prisma.deck.findFirst({
+    where: {
+      id: deckId,
+      userId
+    },
+    include: {
+      preset: true,
+      cards: {
+        orderBy: { createdAt: "asc" },
+        include: {
+          scheduleState: true,
+          tags: {
+            select: { name: true },
+            orderBy: { name: "asc" }
+          }
+        }
+      },
+      reviews: {
+        orderBy: { createdAt: "asc" }
+      }
+    }
+  });
+
+  if (!deck) {
+    throw new AppError("Deck not found", 404);
+  }
+
+  const now = new Date();
+  const collectionCreatedAt = resolveCollectionCreatedAt(
+    deck.cards.flatMap((card) => (card.scheduleState ? [card.scheduleState.dueAt] : [])),
+    now
+  );
+  // Anki keeps desired retention in the deck options and on each card's memory state, so both carry the preset's.
+  const desiredRetention = deck.preset?.desiredRetention ?? default_request_retention;
+  const idBase = now.getTime();
+  const ankiDeckId = idBase;
+  const ankiModelId = idBase + 1;
+  const ankiClozeModelId = idBase + 2;
+  const ankiReversedModelId = idBase + 3;
+
+  const ankiCardIdByCardId = new Map<string, number>();
+  const notes = new Map<number, AnkiNote>();
+  const ankiNoteIdByNoteId = new Map<string, number>();
+  const cards: AnkiCard[] = [];
+  const factorByCardId = new Map<string, number>();
+
+  deck.cards.forEach((card, index) => {
+    const isCloze = card.type === CardType.CLOZE;
+    // Anki has no matching note type for image occlusion here, so each mask is exported as its own basic note.
+    const sharedNoteId = card.type === CardType.IMAGE_OCCLUSION ? null : card.noteId;
+    const existingNoteId = sharedNoteId ? ankiNoteIdByNoteId.get(sharedNoteId) : undefined;
+    const noteId = existingNoteId ?? idBase + index;
+    const ankiCardId = idBase + index;
+    const scheduleState = card.scheduleState;
+    const factor = Math.round((scheduleState?.easeFactor ?? 2.5) * 1000);
+    ankiCardIdByCardId.set(card.id, ankiCardId);
+    factorByCardId.set(card.id, factor);
+
+    if (existingNoteId === undefined) {
+      notes.set(noteId, {
+        id: noteId,
+        modelId: isCloze ? ankiClozeModelId : sharedNoteId ? ankiReversedModelId : ankiModelId,
+        fields: [escapeFieldHtml(card.question), escapeFieldHtml(card.answer)],
+        tags: card.tags.map((tag) => tag.name)
+      });
+      if (sharedNoteId) {
+        ankiNoteIdByNoteId.set(sharedNoteId, noteId);
+      }
+    }
+
+    cards.push({
+      id: ankiCardId,
+      noteId,
+      deckId: ankiDeckId,
+      ord: isCloze ? Math.max(0, card.ordinal - 1) : sharedNoteId ? card.ordinal : 0,
+      ...toSchedulingColumns(scheduleState, index + 1, collectionCreatedAt),
+      ...(card.suspended ? { queue: ANKI_QUEUE_SUSPENDED } : {}),
+      factor: scheduleState ? factor : 0,
+      reps: scheduleState?.repetitions ?? 0,
+      lapses: scheduleState?.fsrsLapses ?? 0,
+      originalDue: 0,
+      originalDeckId: 0,
+      flags: card.flag ? cardFlagSchema.options.indexOf(card.flag) + 1 : 0,
+      data:
+        scheduleState && scheduleState.fsrsStability > 0 && scheduleState.fsrsDifficulty > 0
+          ? {
+              s: scheduleState.fsrsStability,
+              d: scheduleState.fsrsDifficulty,
+              dr: desiredRetention
+            }
+          : {}
+    });
+  });
+
+  const revlog: AnkiRevlogEntry[] = [];
+  const reviewedCardIds = new Set<string>();
+  let lastRevlogId = 0;
+  for (const review of deck.reviews) {
+    const ankiCardId = ankiCardIdByCardId.get(review.cardId);
+    if (ankiCardId === undefined) {
+      continue;
+    }
+
+    // Revlog ids are millisecond timestamps and must be unique.
+    const revlogId = Math.max(review.createdAt.getTime(), lastRevlogId + 1);
+    lastRevlogId = revlogId;
+
+    revlog.push({
+      id: revlogId,
+      cardId: ankiCardId,
+      ease: mapReviewRatingToAnkiEase(review.rating),
+      ivl: minutesToAnkiInterval(review.nextInterval),
+      lastIvl: minutesToAnkiInterval(review.previousInterval),
+      factor: factorByCardId.get(review.cardId) ?? 2500,
+      time: review.durationMs ?? 0,
+      type: inferRevlogType(review, !reviewedCardIds.has(review.cardId))
+    });
+    if (review.rescheduled) {
+      reviewedCardIds.add(review.cardId);
+    }
+  }
+
+  const collection: AnkiCollection = {
+    createdAt: collectionCreatedAt,
+    decks: new Map([
+      [ankiDeckId, { id: ankiDeckId, name: deck.title, description: deck.description ?? undefined, desiredRetention }]
+    ]),
+    models: new Map([
+      [ankiModelId, { id: ankiModelId, name: "Basic (FlashCards Plus)", isCloze: false }],
+      [ankiClozeModelId, { id: ankiClozeModelId, name: "Cloze (FlashCards Plus)", isCloze: true }],
+      [
+        ankiReversedModelId,
+        { id: ankiReversedModelId, name: "Basic and reversed (FlashCards Plus)", isCloze: false, hasReverse: true }
+      ]
+    ]),
+    notes,
+    cards,
+    revlog
+  };
+
+  return {
+    filename: toExportFilename(deck.title, "apkg"),
+    buffer: await writeApkg(collection)
+  };
+}
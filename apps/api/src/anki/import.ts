@@ -0,0 +1,368 @@
+import { randomUUID } from "node:crypto";
+import { CardType, Prisma, ReviewRating } from "@prisma/client";
+import { cardFlagSchema, getClozeIndices, tagNameSchema, type CardFlag } from "@flashcards/shared";
+import { createEmptyCard, State as FsrsState, type Card as FsrsCard, type Grade as FsrsGrade } from "ts-fsrs";
+import { REVERSE_CARD_ORDINAL } from "../cards/notes.js";
+import { resolveTagIds } from "../cards/tags.js";
+import { prisma } from "../lib/prisma.js";
+import { clampAnswerDuration } from "../study/answer-time.js";
+import { computeIntervalMinutes, deriveEaseFactorFromDifficulty, fsrsScheduler, normalizeFsrsState } from "../study/fsrs.js";
+import { getElapsedDays } from "../study/optimizer.js";
+import { readApkg, type AnkiCard, type AnkiCollection, type AnkiNote, type AnkiRevlogEntry } from "./apkg.js";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MAX_DECK_TITLE_LENGTH = 120;
+const MAX_DECK_DESCRIPTION_LENGTH = 1000;
+const MAX_QUESTION_LENGTH = 2000;
+const MAX_ANSWER_LENGTH = 5000;
+const ANKI_CARD_TYPE_NEW = 0;
+const ANKI_CARD_TYPE_REVIEW = 2;
+const ANKI_QUEUE_SUSPENDED = -1;
+const ANKI_REVLOG_TYPE_MANUAL = 4;
+const IMPORT_TRANSACTION_TIMEOUT_MS = 120_000;
+
+export interface ImportedAnkiDeck {
+  id: string;
+  title: string;
+  cardCount: number;
+}
+
+export interface AnkiImportResult {
+  decks: ImportedAnkiDeck[];
+  importedCards: number;
+  importedReviews: number;
+  skippedCards: number;
+}
+
+interface CardContent {
+  type: CardType;
+  ordinal: number;
+  question: string;
+  answer: string;
+}
+
+function decodeHtmlEntities(value: string): string {
+  return value
+    .replace(/&nbsp;/gi, " ")
+    .replace(/&lt;/gi, "<")
+    .replace(/&gt;/gi, ">")
+    .replace(/&quot;/gi, '"')
+    .replace(/&#39;|&apos;/gi, "'")
+    .replace(/&#(\d+);/g, (_, code: string) => String.fromCodePoint(Number(code)))
+    .replace(/&#x([0-9a-f]+);/gi, (_, code: string) => String.fromCodePoint(Number.parseInt(code, 16)))
+    .replace(/&amp;/gi, "&");
+}
+
+function ankiFieldToText(value: string): string {
+  const withBreaks = value
+    .replace(/\[sound:[^\]]*\]/g, "")
+    .replace(/<br\s*\/?>/gi, "\n")
+    .replace(/<\/(div|p|li|h[1-6])>/gi, "\n")
+    .replace(/<[^>]+>/g, "");
+
+  return decodeHtmlEntities(withBreaks)
+    .replace(/[ \t]+\n/g, "\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+}
+
+function buildCardContent(collection: AnkiCollection, note: AnkiNote, card: AnkiCard): CardContent {
+  const [first = "", second = ""] = note.fields;
+  const model = collection.models.get(note.modelId);
+  const text = ankiFieldToText(first);
+
+  // Anki numbers cloze cards from 0 while the cloze markup starts at c1.
+  if (model?.isCloze || getClozeIndices(text).length > 0) {
+    return {
+      type: CardType.CLOZE,
+      ordinal: card.ord + 1,
+      question: text,
+      answer: ankiFieldToText(second)
+    };
+  }
+
+  // The second template of a basic note type is treated as the reverse card.
+  return {
+    type: CardType.BASIC,
+    ordinal: card.ord === REVERSE_CARD_ORDINAL && note.fields.length >= 2 ? REVERSE_CARD_ORDINAL : 0,
+    question: text,
+    answer: ankiFieldToText(second)
+  };
+}
+
+function mapAnkiEaseToReviewRating(ease: number): ReviewRating | null {
+  if (ease === 1) {
+    return ReviewRating.AGAIN;
+  }
+  if (ease === 2) {
+    return ReviewRating.HARD;
+  }
+  if (ease === 3) {
+    return ReviewRating.GOOD;
+  }
+  if (ease === 4) {
+    return ReviewRating.EASY;
+  }
+  return null;
+}
+
+// Anki keeps the flag number in the low three bits of the card's flags.
+function toCardFlag(flags: number): CardFlag | null {
+  return cardFlagSchema.options[(flags & 7) - 1] ?? null;
+}
+
+function ankiIntervalToMinutes(ivl: number): number {
+  if (ivl > 0) {
+    return ivl * 24 * 60;
+  }
+  return Math.round(Math.abs(ivl) / 60);
+}
+
+function ankiIntervalToMs(ivl: number): number {
+  if (ivl > 0) {
+    return ivl * DAY_MS;
+  }
+  return Math.abs(ivl) * 1000;
+}
+
+function resolveDueAt(collection: AnkiCollection, card: AnkiCard): Date {
+  const due = card.originalDeckId !== 0 && card.originalDue !== 0 ? card.originalDue : card.due;
+
+  // Intraday learning cards store an epoch timestamp in seconds; everything else is a day offset
+  // from the collection creation time.
+  if (card.type !== ANKI_CARD_TYPE_REVIEW && due > 1_000_000_000) {
+    return new Date(due * 1000);
+  }
+  return new Date(collection.createdAt.getTime() + due * DAY_MS);
+}
+
+function replayMemoryState(entries: AnkiRevlogEntry[]): FsrsCard | null {
+  let fsrsCard: FsrsCard | null = null;
+
+  for (const entry of entries) {
+    const reviewedAt = new Date(entry.id);
+    if (entry.type === ANKI_REVLOG_TYPE_MANUAL) {
+      if (entry.ivl === 0) {
+        fsrsCard = null;
+      }
+      continue;
+    }
+    if (entry.ease < 1 || entry.ease > 4) {
+      continue;
+    }
+    fsrsCard = fsrsScheduler.next(fsrsCard ?? createEmptyCard(reviewedAt), reviewedAt, entry.ease as FsrsGrade).card;
+  }
+
+  return fsrsCard;
+}
+
+function buildScheduleState(
+  collection: AnkiCollection,
+  card: AnkiCard,
+  entries: AnkiRevlogEntry[]
+): Prisma.ScheduleStateCreateWithoutCardInput | null {
+  if (card.type === ANKI_CARD_TYPE_NEW) {
+    return null;
+  }
+
+  const gradedEntries = entries.filter((entry) => entry.ease >= 1 && entry.ease <= 4);
+  const lastEntry = gradedEntries[gradedEntries.length - 1];
+  const lastReviewedAt = lastEntry ? new Date(lastEntry.id) : null;
+  const dueAt = resolveDueAt(collection, card);
+  const state = normalizeFsrsState(card.type);
+  const replayed = replayMemoryState(entries);
+
+  const stability = card.data.s ?? (replayed && replayed.stability > 0 ? replayed.stability : Math.max(0.1, card.ivl));
+  const difficulty = card.data.d ?? (replayed && replayed.difficulty > 0 ? replayed.difficulty : 5);
+  const intervalMinutes =
+    state === FsrsState.Review
+      ? Math.max(1, card.ivl) * 24 * 60
+      : lastReviewedAt
+        ? computeIntervalMinutes(lastReviewedAt, dueAt)
+        : 1;
+
+  return {
+    dueAt,
+    lastReviewedAt,
+    intervalMinutes,
+    repetitions: card.reps,
+    easeFactor: card.factor > 0 ? card.factor / 1000 : deriveEaseFactorFromDifficulty(difficulty),
+    fsrsState: state,
+    fsrsStability: stability,
+    fsrsDifficulty: difficulty,
+    fsrsElapsedDays: replayed?.elapsed_days ?? 0,
+    fsrsScheduledDays: state === FsrsState.Review ? Math.max(0, card.ivl) : 0,
+    fsrsLearningSteps: state === FsrsState.Review ? 0 : (replayed?.learning_steps ?? 0),
+    fsrsLapses: card.lapses
+  };
+}
+
+function buildReviewRows(entries: AnkiRevlogEntry[]) {
+  const rows: Array<Omit<Prisma.ReviewCreateManyInput, "userId" | "deckId" | "cardId">> = [];
+  let lastReviewedAt: Date | null = null;
+  for (const entry of entries) {
+    if (entry.type === ANKI_REVLOG_TYPE_MANUAL && entry.ivl === 0) {
+      lastReviewedAt = null;
+    }
+    const rating = mapAnkiEaseToReviewRating(entry.ease);
+    if (!rating || entry.type === ANKI_REVLOG_TYPE_MANUAL) {
+      continue;
+    }
+    const createdAt = new Date(entry.id);
+    const elapsedDays = getElapsedDays(lastReviewedAt, createdAt);
+    lastReviewedAt = createdAt;
+    rows.push({
+      rating,
+      previousDueAt: null,
+      scheduledDueAt: new Date(createdAt.getTime() + ankiIntervalToMs(entry.ivl)),
+      previousInterval: ankiIntervalToMinutes(entry.lastIvl),
+      nextInterval: ankiIntervalToMinutes(entry.ivl),
+      elapsedDays,
+      // Anki logs 0 when it has no answer time, and caps longer answers like we do.
+      durationMs: entry.time > 0 ? clampAnswerDuration(entry.time) : null,
+      createdAt
+    });
+  }
+  return rows;
+}
+
+// Anki tags that cannot be used in tag expressions (e.g. containing "|") are dropped.
+function toTagNames(note: AnkiNote): string[] {
+  const names = new Set<string>();
+  for (const tag of note.tags) {
+    const parsed = tagNameSchema.safeParse(tag);
+    if (parsed.success) {
+      names.add(parsed.data);
+    }
+  }
+  return [...names];
+}
+
+export async function importApkgCollection(userId: string, collection: AnkiCollection): Promise<AnkiImportResult> {
+  const revlogByCardId = new Map<number, AnkiRevlogEntry[]>();
+  for (const entry of collection.revlog) {
+    const entries = revlogByCardId.get(entry.cardId) ?? [];
+    entries.push(entry);
+    revlogByCardId.set(entry.cardId, entries);
+  }
+
+  const cardsByDeckId = new Map<number, Array<{ card: AnkiCard; note: AnkiNote; content: CardContent }>>();
+  const reversedNoteIds = new Set<number>();
+  let skippedCards = 0;
+  for (const card of collection.cards) {
+    const note = collection.notes.get(card.noteId);
+    const content = note ? buildCardContent(collection, note, card) : null;
+    if (
+      !note ||
+      !content ||
+      content.question.length === 0 ||
+      (content.type === CardType.BASIC && content.answer.length === 0)
+    ) {
+      skippedCards += 1;
+      continue;
+    }
+
+    if (content.type === CardType.BASIC && content.ordinal === REVERSE_CARD_ORDINAL) {
+      reversedNoteIds.add(note.id);
+    }
+
+    const homeDeckId = card.originalDeckId !== 0 ? card.originalDeckId : card.deckId;
+    const deckCards = cardsByDeckId.get(homeDeckId) ?? [];
+    deckCards.push({
+      card,
+      note,
+      content: {
+        ...content,
+        question: content.question.slice(0, MAX_QUESTION_LENGTH),
+        answer: content.answer.slice(0, MAX_ANSWER_LENGTH)
+      }
+    });
+    cardsByDeckId.set(homeDeckId, deckCards);
+  }
+
+  return prisma.$transaction(
+    async (tx) => {
+      const decks: ImportedAnkiDeck[] = [];
+      const noteIdByAnkiNoteId = new Map<number, string>();
+      const tagNames = [...new Set([...collection.notes.values()].flatMap(toTagNames))];
+      const tagIds = await resolveTagIds(tx, userId, tagNames);
+      const tagIdByName = new Map(tagNames.map((name, index) => [name, tagIds[index]]));
+      let importedCards = 0;
+      let importedReviews = 0;
+
+      for (const [ankiDeckId, deckCards] of cardsByDeckId) {
+        const ankiDeck = collection.decks.get(ankiDeckId);
+        const deckName = ankiDeck?.name.trim() || "Imported Anki deck";
+        const deckDescription = ankiFieldToText(ankiDeck?.description ?? "") || "Imported from Anki";
+        const deck = await tx.deck.create({
+          data: {
+            userId,
+            title: deckName.slice(0, MAX_DECK_TITLE_LENGTH),
+            description: deckDescription.slice(0, MAX_DECK_DESCRIPTION_LENGTH)
+          }
+        });
+
+        for (const { card, note, content } of deckCards) {
+          const entries = revlogByCardId.get(card.id) ?? [];
+          const scheduleState = buildScheduleState(collection, card, entries);
+          let noteId: string | null = null;
+          if (content.type === CardType.CLOZE || reversedNoteIds.has(note.id)) {
+            noteId = noteIdByAnkiNoteId.get(note.id) ?? randomUUID();
+            noteIdByAnkiNoteId.set(note.id, noteId);
+          }
+          const noteTagIds = toTagNames(note).flatMap((name) => tagIdByName.get(name) ?? []);
+          const createdCard = await tx.card.create({
+            data: {
+              deckId: deck.id,
+              type: content.type,
+              noteId,
+              ordinal: content.ordinal,
+              question: content.question,
+              answer: content.answer,
+              suspended: card.queue === ANKI_QUEUE_SUSPENDED,
+              flag: toCardFlag(card.flags),
+              createdAt: new Date(note.id),
+              ...(scheduleState ? { scheduleState: { create: scheduleState } } : {}),
+              ...(noteTagIds.length > 0 ? { tags: { connect: noteTagIds.map((id) => ({ id })) } } : {})
+            }
+          });
+
+          const reviewRows = buildReviewRows(entries);
+          if (reviewRows.length > 0) {
+            await tx.review.createMany({
+              data: reviewRows.map((row) => ({
+                ...row,
+                userId,
+                deckId: deck.id,
+                cardId: createdCard.id
+              }))
+            });
+          }
+          importedReviews += reviewRows.length;
+        }
+
+        importedCards += deckCards.length;
+        decks.push({
+          id: deck.id,
+          title: deck.title,
+          cardCount: deckCards.length
+        });
+      }
+
+      return {
+        decks,
+        importedCards,
+        importedReviews,
+        skippedCards
+      };
+    },
+    {
+      timeout: IMPORT_TRANSACTION_TIMEOUT_MS
+    }
+  );
+}
+
+export async function importApkgForUser(userId: string, buffer: Buffer): Promise<AnkiImportResult> {
+  const collection = await readApkg(buffer);
+  return importApkgCollection(userId, collection);
+}
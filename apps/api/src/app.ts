@@ -8,8 +8,13 @@ import { aiRouter } from "./routes/ai.js";
 import { authRouter } from "./routes/auth.js";
 import { cardsRouter } from "./routes/cards.js";
 import { decksRouter } from "./routes/decks.js";
+import { filtersRouter } from "./routes/filters.js";
 import { ingestRouter } from "./routes/ingest.js";
+import { mediaRouter } from "./routes/media.js";
+import { presetsRouter } from "./routes/presets.js";
+import { statsRouter } from "./routes/stats.js";
 import { studyRouter } from "./routes/study.js";
+import { tagsRouter } from "./routes/tags.js";
 
 export function createApp() {
   const app = express();
@@ -50,8 +55,13 @@ export function createApp() {
   app.use("/ai", requireAuth, aiRouter);
   app.use("/decks", requireAuth, decksRouter);
   app.use("/cards", requireAuth, cardsRouter);
+  app.use("/filters", requireAuth, filtersRouter);
   app.use("/ingest", requireAuth, ingestRouter);
+  app.use("/media", requireAuth, mediaRouter);
+  app.use("/presets", requireAuth, presetsRouter);
+  app.use("/stats", requireAuth, statsRouter);
   app.use("/study", requireAuth, studyRouter);
+  app.use("/tags", requireAuth, tagsRouter);
 
   app.use(errorHandler);
   return app;
@@ -0,0 +1,9 @@
+import type { Prisma } from "@prisma/client";
+
+// Suspended cards stay out of study until unsuspended; buried cards come back once buriedUntil passes.
+export function toStudyableCardFilter(now: Date): Prisma.CardWhereInput {
+  return {
+    suspended: false,
+    OR: [{ buriedUntil: null }, { buriedUntil: { lte: now } }]
+  };
+}
@@ -0,0 +1,43 @@
+import { CardFormat } from "@prisma/client";
+
+// Code and math are copied verbatim so `a < b` style content survives sanitizing.
+const protectedSegmentPattern = /(```[\s\S]*?(?:```|$)|~~~[\s\S]*?(?:~~~|$)|`[^`\n]*`|\$\$[\s\S]*?\$\$|\$[^$\n]+\$)/g;
+const htmlCommentPattern = /<!--[\s\S]*?(?:-->|$)/g;
+const htmlTagPattern = /<\/?[a-zA-Z][a-zA-Z0-9-]*(?:\s[^<>]*)?\/?>/g;
+const unsafeAutolinkPattern = /<\s*(?:javascript|vbscript|data):[^>]*>/gi;
+const unsafeInlineLinkPattern = /\]\(\s*<?\s*(?:javascript|vbscript|data):(?:[^()]|\([^()]*\))*\)/gi;
+const unsafeLinkDefinitionPattern = /^(\s*\[[^\]]+\]:\s*)<?\s*(?:javascript|vbscript|data):\S*/gim;
+
+// Markdown is stored without raw HTML or script-capable links, so every client that renders it
+// (web, exports, AI prompts) only ever sees plain markdown.
+export function sanitizeMarkdown(text: string): string {
+  return text
+    .split(protectedSegmentPattern)
+    .map((segment, index) =>
+      index % 2 === 1
+        ? segment
+        : segment
+            .replace(htmlCommentPattern, "")
+            .replace(htmlTagPattern, "")
+            .replace(unsafeAutolinkPattern, "")
+            .replace(unsafeInlineLinkPattern, "](#)")
+            .replace(unsafeLinkDefinitionPattern, "$1#")
+    )
+    .join("")
+    .trim();
+}
+
+export function sanitizeCardContent(format: CardFormat, text: string): string {
+  return format === CardFormat.MARKDOWN ? sanitizeMarkdown(text) : text;
+}
+
+export function sanitizeCardFields<T extends { format: CardFormat; question: string; answer: string; options?: string[] }>(
+  fields: T
+): T {
+  return {
+    ...fields,
+    question: sanitizeCardContent(fields.format, fields.question),
+    answer: sanitizeCardContent(fields.format, fields.answer),
+    ...(fields.options ? { options: fields.options.map((option) => sanitizeCardContent(fields.format, option)) } : {})
+  };
+}
@@ -0,0 +1,336 @@
+import { cardCreateSchema, cardTagsSchema, getClozeIndices, parseTagList, type CardType } from "@flashcards/shared";
+import { AppError } from "../errors/app-error.js";
+import { prisma } from "../lib/prisma.js";
+import { toExportFilename } from "../utils/export-filename.js";
+import { createClozeNote } from "./notes.js";
+import { resolveTagIds } from "./tags.js";
+import { getDelimiter, parseDelimited, serializeDelimited, type DelimitedFormat } from "./delimited.js";
+
+const MAX_IMPORT_ROWS = 5000;
+const PREVIEW_ROW_LIMIT = 20;
+const IMPORT_TRANSACTION_TIMEOUT_MS = 120_000;
+const EXPORT_HEADER = ["question", "answer", "dueDate", "tags"];
+const dateOnlyPattern = /^\d{4}-\d{2}-\d{2}$/;
+const isoTimestampPattern = /^\d{4}-\d{2}-\d{2}T/;
+
+const headerAliases: Record<keyof DelimitedColumnMapping, string[]> = {
+  question: ["question", "front", "term", "prompt"],
+  answer: ["answer", "back", "definition", "response"],
+  dueDate: ["duedate", "due", "dueat"],
+  tags: ["tags", "tag", "labels"]
+};
+
+export interface DelimitedColumnMapping {
+  question: number;
+  answer: number;
+  dueDate: number | null;
+  tags: number | null;
+}
+
+export interface DelimitedImportOptions {
+  format: DelimitedFormat;
+  hasHeader: boolean;
+  mapping: Partial<DelimitedColumnMapping>;
+}
+
+export interface DelimitedRowError {
+  row: number;
+  field: keyof DelimitedColumnMapping;
+  message: string;
+}
+
+export interface DelimitedCardRow {
+  row: number;
+  type: CardType;
+  question: string;
+  answer: string;
+  dueAt: Date | null;
+  tags: string[];
+}
+
+export interface DelimitedImportPlan {
+  columns: string[];
+  mapping: DelimitedColumnMapping;
+  totalRows: number;
+  rows: DelimitedCardRow[];
+  errors: DelimitedRowError[];
+}
+
+export interface DelimitedImportSummary {
+  dryRun: boolean;
+  columns: string[];
+  mapping: DelimitedColumnMapping;
+  totalRows: number;
+  validRows: number;
+  invalidRows: number;
+  importedCards: number;
+  errors: DelimitedRowError[];
+  preview: DelimitedCardRow[];
+}
+
+export interface DelimitedExport {
+  filename: string;
+  contentType: string;
+  body: string;
+}
+
+function normalizeHeader(value: string): string {
+  return value.toLowerCase().replace(/[^a-z]/g, "");
+}
+
+function guessColumn(headers: string[], field: keyof DelimitedColumnMapping): number | null {
+  const aliases = headerAliases[field];
+  const index = headers.findIndex((header) => aliases.includes(normalizeHeader(header)));
+  return index === -1 ? null : index;
+}
+
+function resolveMapping(
+  columns: string[],
+  hasHeader: boolean,
+  requested: Partial<DelimitedColumnMapping>
+): DelimitedColumnMapping {
+  const question = requested.question ?? (hasHeader ? guessColumn(columns, "question") : null) ?? 0;
+  const answer = requested.answer ?? (hasHeader ? guessColumn(columns, "answer") : null) ?? 1;
+  const dueDate = requested.dueDate !== undefined ? requested.dueDate : hasHeader ? guessColumn(columns, "dueDate") : null;
+  const tags = requested.tags !== undefined ? requested.tags : hasHeader ? guessColumn(columns, "tags") : null;
+
+  for (const [field, index] of Object.entries({ question, answer, dueDate, tags })) {
+    if (index !== null && index >= columns.length) {
+      throw new AppError(`Column ${index} mapped to ${field} does not exist in the file`, 400);
+    }
+  }
+
+  if (question === answer) {
+    throw new AppError("Question and answer must be mapped to different columns", 400);
+  }
+
+  return { question, answer, dueDate, tags };
+}
+
+function parseDueDate(value: string): Date | null {
+  if (!dateOnlyPattern.test(value) && !isoTimestampPattern.test(value)) {
+    return null;
+  }
+  const parsed = new Date(dateOnlyPattern.test(value) ? `${value}T00:00:00.000Z` : value);
+  return Number.isNaN(parsed.getTime()) ? null : parsed;
+}
+
+export function planDelimitedImport(text: string, options: DelimitedImportOptions): DelimitedImportPlan {
+  const records = parseDelimited(text, getDelimiter(options.format));
+  if (records.length === 0) {
+    throw new AppError("File contains no rows", 400);
+  }
+
+  const columnCount = Math.max(...records.map((record) => record.values.length));
+  const columns = options.hasHeader
+    ? Array.from({ length: columnCount }, (_, index) => records[0].values[index]?.trim() || `Column ${index + 1}`)
+    : Array.from({ length: columnCount }, (_, index) => `Column ${index + 1}`);
+  const dataRows = options.hasHeader ? records.slice(1) : records;
+
+  if (dataRows.length > MAX_IMPORT_ROWS) {
+    throw new AppError(`File has ${dataRows.length} rows. Import at most ${MAX_IMPORT_ROWS} rows at a time.`, 400);
+  }
+
+  const mapping = resolveMapping(columns, options.hasHeader, options.mapping);
+  const rows: DelimitedCardRow[] = [];
+  const errors: DelimitedRowError[] = [];
+
+  // Rows are numbered by the line they start on, so errors point at the right place in the source file.
+  dataRows.forEach(({ line: rowNumber, values }) => {
+    const rowErrors: DelimitedRowError[] = [];
+    const question = values[mapping.question] ?? "";
+    const parsed = cardCreateSchema.safeParse({
+      type: getClozeIndices(question).length > 0 ? "CLOZE" : "BASIC",
+      question,
+      answer: values[mapping.answer] ?? ""
+    });
+
+    if (!parsed.success) {
+      for (const issue of parsed.error.issues) {
+        rowErrors.push({
+          row: rowNumber,
+          field: issue.path[0] === "answer" ? "answer" : "question",
+          message: issue.message
+        });
+      }
+    }
+
+    let dueAt: Date | null = null;
+    const rawDueDate = mapping.dueDate === null ? "" : (values[mapping.dueDate] ?? "").trim();
+    if (rawDueDate.length > 0) {
+      dueAt = parseDueDate(rawDueDate);
+      if (!dueAt) {
+        rowErrors.push({
+          row: rowNumber,
+          field: "dueDate",
+          message: "Due date must be YYYY-MM-DD or an ISO 8601 timestamp"
+        });
+      }
+    }
+
+    const rawTags = mapping.tags === null ? "" : (values[mapping.tags] ?? "");
+    const parsedTags = cardTagsSchema.safeParse(parseTagList(rawTags));
+    if (!parsedTags.success) {
+      rowErrors.push({
+        row: rowNumber,
+        field: "tags",
+        message: parsedTags.error.issues[0]?.message ?? "Invalid tags"
+      });
+    }
+
+    if (!parsed.success || !parsedTags.success || rowErrors.length > 0) {
+      errors.push(...rowErrors);
+      return;
+    }
+
+    rows.push({
+      row: rowNumber,
+      type: parsed.data.type,
+      question: parsed.data.question,
+      answer: parsed.data.answer,
+      dueAt,
+      tags: parsedTags.data
+    });
+  });
+
+  return {
+    columns,
+    mapping,
+    totalRows: dataRows.length,
+    rows,
+    errors
+  };
+}
+
+export async function importDelimitedCards(
+  userId: string,
+  deckId: string,
+  text: string,
+  options: DelimitedImportOptions & { dryRun: boolean }
+): Promise<DelimitedImportSummary> {
+  const deck = await prisma.deck.findFirst({
+    where: {
+      id: deckId,
+      userId
+    },
+    select: { id: true }
+  });
+
+  if (!deck) {
+    throw new AppError("Deck not found", 404);
+  }
+
+  const plan = planDelimitedImport(text, options);
+  const invalidRows = new Set(plan.errors.map((error) => error.row)).size;
+
+  if (!options.dryRun) {
+    if (plan.rows.length === 0) {
+      throw new AppError("File contains no valid rows to import", 400);
+    }
+
+    await prisma.$transaction(
+      async (tx) => {
+        const tagNames = [...new Set(plan.rows.flatMap((row) => row.tags))];
+        const tagIds = await resolveTagIds(tx, userId, tagNames);
+        const tagIdByName = new Map(tagNames.map((name, index) => [name, tagIds[index]]));
+        const toTagConnect = (row: DelimitedCardRow) =>
+          row.tags.length > 0 ? { tags: { connect: row.tags.map((name) => ({ id: tagIdByName.get(name) ?? "" })) } } : {};
+
+        for (const row of plan.rows) {
+          if (row.type === "CLOZE") {
+            const cards = await createClozeNote(tx, { deckId, text: row.question, extra: row.answer });
+            const dueAt = row.dueAt;
+            if (dueAt) {
+              await tx.scheduleState.createMany({
+                data: cards.map((card) => ({ cardId: card.id, dueAt }))
+              });
+            }
+            if (row.tags.length > 0) {
+              for (const card of cards) {
+                await tx.card.update({
+                  where: { id: card.id },
+                  data: toTagConnect(row)
+                });
+              }
+            }
+            continue;
+          }
+
+          await tx.card.create({
+            data: {
+              deckId,
+              question: row.question,
+              answer: row.answer,
+              ...(row.dueAt ? { scheduleState: { create: { dueAt: row.dueAt } } } : {}),
+              ...toTagConnect(row)
+            }
+          });
+        }
+      },
+      {
+        timeout: IMPORT_TRANSACTION_TIMEOUT_MS
+      }
+    );
+  }
+
+  return {
+    dryRun: options.dryRun,
+    columns: plan.columns,
+    mapping: plan.mapping,
+    totalRows: plan.totalRows,
+    validRows: plan.rows.length,
+    invalidRows,
+    importedCards: options.dryRun ? 0 : plan.rows.length,
+    errors: plan.errors,
+    preview: plan.rows.slice(0, PREVIEW_ROW_LIMIT)
+  };
+}
+
+export async function exportDeckAsDelimited(userId: string, deckId: string, format: DelimitedFormat): Promise<DelimitedExport> {
+  const deck = await prisma.deck.findFirst({
+    where: {
+      id: deckId,
+      userId
+    },
+    include: {
+      cards: {
+        orderBy: { createdAt: "asc" },
+        include: {
+          scheduleState: true,
+          tags: {
+            select: { name: true },
+            orderBy: { name: "asc" }
+          }
+        }
+      }
+    }
+  });
+
+  if (!deck) {
+    throw new AppError("Deck not found", 404);
+  }
+
+  // Cloze and reverse siblings share their text, so each note is exported once.
+  const exportedNoteIds = new Set<string>();
+  const rows: string[][] = [];
+  for (const card of deck.cards) {
+    if (card.noteId) {
+      if (exportedNoteIds.has(card.noteId)) {
+        continue;
+      }
+      exportedNoteIds.add(card.noteId);
+    }
+    rows.push([
+      card.question,
+      card.answer,
+      card.scheduleState?.dueAt.toISOString() ?? "",
+      card.tags.map((tag) => tag.name).join(" ")
+    ]);
+  }
+
+  return {
+    filename: toExportFilename(deck.title, format),
+    contentType: format === "tsv" ? "text/tab-separated-values; charset=utf-8" : "text/csv; charset=utf-8",
+    body: serializeDelimited([EXPORT_HEADER, ...rows], getDelimiter(format))
+  };
+}
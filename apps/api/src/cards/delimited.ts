@@ -0,0 +1,103 @@
+export type DelimitedFormat = "csv" | "tsv";
+
+export function getDelimiter(format: DelimitedFormat): string {
+  return format === "tsv" ? "\t" : ",";
+}
+
+// Spreadsheets run cells starting with these as formulas, so exported fields that do are prefixed with a quote.
+const FORMULA_PREFIXES = ["=", "+", "-", "@", "\t", "\r"];
+
+export interface DelimitedRecord {
+  // The source line the record starts on; quoted fields can span several lines and blank lines are skipped.
+  line: number;
+  values: string[];
+}
+
+function protectFormula(value: string): string {
+  return FORMULA_PREFIXES.some((prefix) => value.startsWith(prefix)) ? `'${value}` : value;
+}
+
+// Undoes protectFormula, so files exported here import with their original text.
+function unprotectFormula(value: string): string {
+  return value.startsWith("'") && FORMULA_PREFIXES.some((prefix) => value.startsWith(prefix, 1)) ? value.slice(1) : value;
+}
+
+export function parseDelimited(text: string, delimiter: string): DelimitedRecord[] {
+  const records: DelimitedRecord[] = [];
+  let row: string[] = [];
+  let field = "";
+  let inQuotes = false;
+  let line = 1;
+  let rowLine = 1;
+  let index = text.charCodeAt(0) === 0xfeff ? 1 : 0;
+
+  const pushField = () => {
+    row.push(unprotectFormula(field));
+    field = "";
+  };
+
+  const pushRow = () => {
+    pushField();
+    if (row.some((value) => value.trim().length > 0)) {
+      records.push({ line: rowLine, values: row });
+    }
+    row = [];
+  };
+
+  while (index < text.length) {
+    const char = text[index];
+
+    if (inQuotes) {
+      if (char === "\n" || (char === "\r" && text[index + 1] !== "\n")) {
+        line += 1;
+      }
+      if (char === '"') {
+        if (text[index + 1] === '"') {
+          field += '"';
+          index += 2;
+          continue;
+        }
+        inQuotes = false;
+        index += 1;
+        continue;
+      }
+      field += char;
+      index += 1;
+      continue;
+    }
+
+    if (char === '"' && field.length === 0) {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      pushField();
+    } else if (char === "\r" || char === "\n") {
+      pushRow();
+      if (char === "\r" && text[index + 1] === "\n") {
+        index += 1;
+      }
+      line += 1;
+      rowLine = line;
+    } else {
+      field += char;
+    }
+    index += 1;
+  }
+
+  if (field.length > 0 || row.length > 0) {
+    pushRow();
+  }
+
+  return records;
+}
+
+function escapeDelimitedField(rawValue: string, delimiter: string): string {
+  const value = protectFormula(rawValue);
+  if (value.includes('"') || value.includes(delimiter) || value.includes("\n") || value.includes("\r")) {
+    return `"${value.replace(/"/g, '""')}"`;
+  }
+  return value;
+}
+
+export function serializeDelimited(rows: string[][], delimiter: string): string {
+  return rows.map((row) => row.map((value) => escapeDelimitedField(value, delimiter)).join(delimiter)).join("\r\n") + "\r\n";
+}
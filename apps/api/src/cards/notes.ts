@@ -0,0 +1,347 @@
+import { randomUUID } from "node:crypto";
+import { CardType, type Card, type CardFormat, type Prisma } from "@prisma/client";
+import {
+  getClozeIndices,
+  getOcclusionOrdinals,
+  imageOcclusionSchema,
+  renderClozeAnswer,
+  renderClozePrompt,
+  type ImageOcclusion
+} from "@flashcards/shared";
+
+// Basic notes store both directions with the same question/answer text; ordinal 1 is the reverse.
+export const REVERSE_CARD_ORDINAL = 1;
+
+export interface CardStudyContent {
+  question: string;
+  answer: string;
+  reversed: boolean;
+}
+
+export function isReverseCard(card: Pick<Card, "type" | "ordinal">): boolean {
+  return card.type === CardType.BASIC && card.ordinal === REVERSE_CARD_ORDINAL;
+}
+
+export function toCardStudyContent(
+  card: Pick<Card, "type" | "ordinal" | "question" | "answer" | "occlusion">
+): CardStudyContent {
+  if (isReverseCard(card)) {
+    return {
+      question: card.answer,
+      answer: card.question,
+      reversed: true
+    };
+  }
+
+  if (card.type === CardType.IMAGE_OCCLUSION) {
+    const labels = (parseCardOcclusion(card.occlusion)?.masks ?? [])
+      .filter((mask) => mask.ordinal === card.ordinal && mask.label)
+      .map((mask) => mask.label);
+    return {
+      question: card.question,
+      answer: [labels.join(", "), card.answer].filter(Boolean).join("\n\n"),
+      reversed: false
+    };
+  }
+
+  if (card.type !== CardType.CLOZE) {
+    return {
+      question: card.question,
+      answer: card.answer,
+      reversed: false
+    };
+  }
+
+  const revealed = renderClozeAnswer(card.question);
+  return {
+    question: renderClozePrompt(card.question, card.ordinal),
+    answer: card.answer ? `${revealed}\n\n${card.answer}` : revealed,
+    reversed: false
+  };
+}
+
+// Options are stored as a JSON array; the answer column mirrors the correct option so exports
+// and AI tutoring keep working on multiple-choice cards.
+export function toMultipleChoiceData(options: string[], correctOptionIndex: number) {
+  return {
+    options: JSON.stringify(options),
+    correctOptionIndex,
+    answer: options[correctOptionIndex] ?? ""
+  };
+}
+
+export function parseCardOptions(value: string | null): string[] {
+  if (!value) {
+    return [];
+  }
+  try {
+    const parsed = JSON.parse(value) as unknown;
+    return Array.isArray(parsed) ? parsed.filter((option): option is string => typeof option === "string") : [];
+  } catch {
+    return [];
+  }
+}
+
+export function parseCardOcclusion(value: string | null): ImageOcclusion | null {
+  if (!value) {
+    return null;
+  }
+  try {
+    const parsed = imageOcclusionSchema.safeParse(JSON.parse(value));
+    return parsed.success ? parsed.data : null;
+  } catch {
+    return null;
+  }
+}
+
+export function toCardResponse<
+  T extends Pick<Card, "options"> & { occlusion?: string | null; tags?: Array<{ name: string }> }
+>(card: T) {
+  return {
+    ...card,
+    options: card.options === null ? null : parseCardOptions(card.options),
+    ...(card.occlusion !== undefined ? { occlusion: parseCardOcclusion(card.occlusion) } : {}),
+    ...(card.tags ? { tags: card.tags.map((tag) => tag.name) } : {})
+  };
+}
+
+export async function createBasicNote(
+  tx: Prisma.TransactionClient,
+  input: { deckId: string; format?: CardFormat; question: string; answer: string; reverse: boolean }
+): Promise<Card[]> {
+  const noteId = input.reverse ? randomUUID() : null;
+  const card = await tx.card.create({
+    data: {
+      deckId: input.deckId,
+      noteId,
+      format: input.format,
+      question: input.question,
+      answer: input.answer
+    }
+  });
+
+  if (!noteId) {
+    return [card];
+  }
+
+  const reverseCard = await tx.card.create({
+    data: {
+      deckId: input.deckId,
+      noteId,
+      ordinal: REVERSE_CARD_ORDINAL,
+      format: input.format,
+      question: input.question,
+      answer: input.answer
+    }
+  });
+  return [card, reverseCard];
+}
+
+// Edits always apply to the whole note; toggling reverse adds or removes the reverse sibling
+// without touching the forward card's schedule.
+export async function updateBasicNote(
+  tx: Prisma.TransactionClient,
+  card: Pick<Card, "id" | "deckId" | "noteId" | "format" | "question" | "answer">,
+  input: { format?: CardFormat; question?: string; answer?: string; reverse?: boolean }
+): Promise<Card[]> {
+  const format = input.format ?? card.format;
+  const question = input.question ?? card.question;
+  const answer = input.answer ?? card.answer;
+
+  if (input.reverse === false && card.noteId) {
+    await tx.card.deleteMany({
+      where: {
+        noteId: card.noteId,
+        ordinal: REVERSE_CARD_ORDINAL
+      }
+    });
+    const forwardCards = await tx.card.findMany({
+      where: { noteId: card.noteId },
+      select: { id: true }
+    });
+    await tx.card.updateMany({
+      where: { noteId: card.noteId },
+      data: { noteId: null, format, question, answer }
+    });
+    return tx.card.findMany({
+      where: {
+        id: {
+          in: forwardCards.map((forwardCard) => forwardCard.id)
+        }
+      }
+    });
+  }
+
+  let noteId = card.noteId;
+  if (input.reverse === true && !noteId) {
+    noteId = randomUUID();
+    await tx.card.update({
+      where: { id: card.id },
+      data: { noteId }
+    });
+    await tx.card.create({
+      data: {
+        deckId: card.deckId,
+        noteId,
+        ordinal: REVERSE_CARD_ORDINAL,
+        format,
+        question,
+        answer
+      }
+    });
+  }
+
+  if (!noteId) {
+    return [
+      await tx.card.update({
+        where: { id: card.id },
+        data: { format, question, answer }
+      })
+    ];
+  }
+
+  await tx.card.updateMany({
+    where: { noteId },
+    data: { format, question, answer }
+  });
+  return tx.card.findMany({
+    where: { noteId },
+    orderBy: { ordinal: "asc" }
+  });
+}
+
+interface OrdinalNoteInput {
+  deckId: string;
+  type: CardType;
+  format?: CardFormat;
+  ordinals: number[];
+  data: { question: string; answer: string; occlusion?: string };
+  createdAt?: Date;
+}
+
+// Cloze and image occlusion notes keep one sibling card per ordinal, each scheduled independently.
+async function createOrdinalNote(tx: Prisma.TransactionClient, input: OrdinalNoteInput): Promise<Card[]> {
+  const noteId = randomUUID();
+  const cards: Card[] = [];
+  for (const ordinal of input.ordinals) {
+    cards.push(
+      await tx.card.create({
+        data: {
+          deckId: input.deckId,
+          type: input.type,
+          format: input.format,
+          noteId,
+          ordinal,
+          ...input.data,
+          ...(input.createdAt ? { createdAt: input.createdAt } : {})
+        }
+      })
+    );
+  }
+  return cards;
+}
+
+// Siblings whose ordinal disappeared are deleted and new ordinals get fresh cards; the rest keep their schedule.
+async function updateOrdinalNote(
+  tx: Prisma.TransactionClient,
+  noteId: string,
+  input: Omit<OrdinalNoteInput, "createdAt">
+): Promise<Card[]> {
+  await tx.card.deleteMany({
+    where: {
+      noteId,
+      ordinal: {
+        notIn: input.ordinals
+      }
+    }
+  });
+  await tx.card.updateMany({
+    where: { noteId },
+    data: {
+      format: input.format,
+      ...input.data
+    }
+  });
+
+  const existing = await tx.card.findMany({
+    where: { noteId },
+    select: { ordinal: true }
+  });
+  const existingOrdinals = new Set(existing.map((card) => card.ordinal));
+  for (const ordinal of input.ordinals) {
+    if (existingOrdinals.has(ordinal)) {
+      continue;
+    }
+    await tx.card.create({
+      data: {
+        deckId: input.deckId,
+        type: input.type,
+        format: input.format,
+        noteId,
+        ordinal,
+        ...input.data
+      }
+    });
+  }
+
+  return tx.card.findMany({
+    where: { noteId },
+    orderBy: { ordinal: "asc" }
+  });
+}
+
+// Each cloze index in the text becomes its own card so it is scheduled independently.
+// Sibling cards share a noteId and keep the full cloze text and extra answer.
+export async function createClozeNote(
+  tx: Prisma.TransactionClient,
+  input: { deckId: string; format?: CardFormat; text: string; extra: string; createdAt?: Date }
+): Promise<Card[]> {
+  return createOrdinalNote(tx, {
+    deckId: input.deckId,
+    type: CardType.CLOZE,
+    format: input.format,
+    ordinals: getClozeIndices(input.text),
+    data: { question: input.text, answer: input.extra },
+    createdAt: input.createdAt
+  });
+}
+
+export async function updateClozeNote(
+  tx: Prisma.TransactionClient,
+  input: { deckId: string; noteId: string; format?: CardFormat; text: string; extra: string }
+): Promise<Card[]> {
+  return updateOrdinalNote(tx, input.noteId, {
+    deckId: input.deckId,
+    type: CardType.CLOZE,
+    format: input.format,
+    ordinals: getClozeIndices(input.text),
+    data: { question: input.text, answer: input.extra }
+  });
+}
+
+// Every sibling stores the image and all masks; its ordinal selects which masks it asks about.
+export async function createImageOcclusionNote(
+  tx: Prisma.TransactionClient,
+  input: { deckId: string; format?: CardFormat; prompt: string; extra: string; occlusion: ImageOcclusion }
+): Promise<Card[]> {
+  return createOrdinalNote(tx, {
+    deckId: input.deckId,
+    type: CardType.IMAGE_OCCLUSION,
+    format: input.format,
+    ordinals: getOcclusionOrdinals(input.occlusion.masks),
+    data: { question: input.prompt, answer: input.extra, occlusion: JSON.stringify(input.occlusion) }
+  });
+}
+
+export async function updateImageOcclusionNote(
+  tx: Prisma.TransactionClient,
+  input: { deckId: string; noteId: string; format?: CardFormat; prompt: string; extra: string; occlusion: ImageOcclusion }
+): Promise<Card[]> {
+  return updateOrdinalNote(tx, input.noteId, {
+    deckId: input.deckId,
+    type: CardType.IMAGE_OCCLUSION,
+    format: input.format,
+    ordinals: getOcclusionOrdinals(input.occlusion.masks),
+    data: { question: input.prompt, answer: input.extra, occlusion: JSON.stringify(input.occlusion) }
+  });
+}
@@ -0,0 +1,118 @@
+import type { Prisma } from "@prisma/client";
+import type { TagExpressionTerm } from "@flashcards/shared";
+
+export const cardTagsInclude = {
+  tags: {
+    select: { name: true },
+    orderBy: { name: "asc" }
+  }
+} satisfies Prisma.CardInclude;
+
+export async function resolveTagIds(tx: Prisma.TransactionClient, userId: string, names: string[]): Promise<string[]> {
+  const ids: string[] = [];
+  for (const name of new Set(names)) {
+    const tag = await tx.tag.upsert({
+      where: {
+        userId_name: { userId, name }
+      },
+      update: {},
+      create: { userId, name },
+      select: { id: true }
+    });
+    ids.push(tag.id);
+  }
+  return ids;
+}
+
+// Replaces the tags on every given card; sibling cards of a note always share their tags.
+export async function setCardTags(
+  tx: Prisma.TransactionClient,
+  userId: string,
+  cardIds: string[],
+  names: string[]
+): Promise<void> {
+  const tagIds = await resolveTagIds(tx, userId, names);
+  for (const cardId of cardIds) {
+    await tx.card.update({
+      where: { id: cardId },
+      data: {
+        tags: {
+          set: tagIds.map((id) => ({ id }))
+        }
+      }
+    });
+  }
+}
+
+async function findNoteCardIds(
+  tx: Prisma.TransactionClient,
+  card: { id: string; noteId: string | null }
+): Promise<string[]> {
+  return card.noteId
+    ? (await tx.card.findMany({ where: { noteId: card.noteId }, select: { id: true } })).map((sibling) => sibling.id)
+    : [card.id];
+}
+
+// Adds one tag to the card and its note siblings, keeping the tags they share in step.
+// Returns false when the card already carried the tag, so callers can tell which changes are theirs to undo.
+export async function addTagToNoteCards(
+  tx: Prisma.TransactionClient,
+  userId: string,
+  card: { id: string; noteId: string | null },
+  name: string
+): Promise<boolean> {
+  const [tagId] = await resolveTagIds(tx, userId, [name]);
+  const alreadyTagged = await tx.card.count({
+    where: { id: card.id, tags: { some: { id: tagId } } }
+  });
+  for (const cardId of await findNoteCardIds(tx, card)) {
+    await tx.card.update({
+      where: { id: cardId },
+      data: {
+        tags: {
+          connect: { id: tagId }
+        }
+      }
+    });
+  }
+  return alreadyTagged === 0;
+}
+
+export async function removeTagFromNoteCards(
+  tx: Prisma.TransactionClient,
+  userId: string,
+  card: { id: string; noteId: string | null },
+  name: string
+): Promise<void> {
+  const tag = await tx.tag.findUnique({
+    where: { userId_name: { userId, name } },
+    select: { id: true }
+  });
+  if (!tag) {
+    return;
+  }
+  for (const cardId of await findNoteCardIds(tx, card)) {
+    await tx.card.update({
+      where: { id: cardId },
+      data: {
+        tags: {
+          disconnect: { id: tag.id }
+        }
+      }
+    });
+  }
+}
+
+export function toTagFilter(terms: TagExpressionTerm[] | undefined): Prisma.CardWhereInput {
+  if (!terms) {
+    return {};
+  }
+
+  return {
+    AND: terms.map((term) =>
+      term.negated
+        ? { tags: { none: { name: { in: term.tags } } } }
+        : { tags: { some: { name: { in: term.tags } } } }
+    )
+  };
+}
@@ -16,6 +16,7 @@ const envSchema = z.object({
   WEB_AUTH_SUCCESS_REDIRECT: z.string().url().default("http://localhost:3000/auth/callback"),
   WEB_AUTH_FAILURE_REDIRECT: z.string().url().default("http://localhost:3000/login"),
   INGEST_DRAFT_CLEANUP_INTERVAL_MINUTES: z.coerce.number().int().positive().default(60),
+  MEDIA_STORAGE_DIR: z.string().min(1).default("./media"),
   AI_INGEST_PROVIDER: z.enum(["gemini", "mock"]).default("gemini"),
   GEMINI_API_KEY: z.string().min(1).optional(),
   DEV_UNLIMITED_TESTER_EMAILS: z.string().default("")
@@ -0,0 +1,125 @@
+import type { Deck } from "@prisma/client";
+import { toStudyableCardFilter } from "../cards/availability.js";
+import { AppError } from "../errors/app-error.js";
+import { prisma } from "../lib/prisma.js";
+
+export interface DeckTreeNode extends Deck {
+  _count: {
+    cards: number;
+  };
+  cardCount: number;
+  dueCount: number;
+  totalCardCount: number;
+  totalDueCount: number;
+  children: DeckTreeNode[];
+}
+
+function collectDescendantIds(decks: Array<Pick<Deck, "id" | "parentId">>, rootId: string): string[] {
+  const childIdsByParentId = new Map<string, string[]>();
+  for (const deck of decks) {
+    if (deck.parentId) {
+      const childIds = childIdsByParentId.get(deck.parentId) ?? [];
+      childIds.push(deck.id);
+      childIdsByParentId.set(deck.parentId, childIds);
+    }
+  }
+
+  const ids = [rootId];
+  for (let index = 0; index < ids.length; index += 1) {
+    ids.push(...(childIdsByParentId.get(ids[index]) ?? []));
+  }
+  return ids;
+}
+
+// Returns the deck itself followed by every nested sub-deck.
+export async function getDeckAndDescendantIds(userId: string, deckId: string): Promise<string[]> {
+  const decks = await prisma.deck.findMany({
+    where: { userId },
+    select: { id: true, parentId: true }
+  });
+  return collectDescendantIds(decks, deckId);
+}
+
+export async function assertValidDeckParent(userId: string, deckId: string | null, parentId: string): Promise<void> {
+  const decks = await prisma.deck.findMany({
+    where: { userId },
+    select: { id: true, parentId: true }
+  });
+
+  if (!decks.some((deck) => deck.id === parentId)) {
+    throw new AppError("Parent deck not found", 404);
+  }
+
+  if (deckId && collectDescendantIds(decks, deckId).includes(parentId)) {
+    throw new AppError("A deck cannot be moved inside itself or one of its sub-decks", 400);
+  }
+}
+
+export async function getDeckTree(userId: string, now: Date): Promise<DeckTreeNode[]> {
+  const [decks, dueCounts] = await Promise.all([
+    prisma.deck.findMany({
+      where: { userId },
+      orderBy: { updatedAt: "desc" },
+      include: {
+        _count: {
+          select: {
+            cards: true
+          }
+        }
+      }
+    }),
+    prisma.card.groupBy({
+      by: ["deckId"],
+      where: {
+        deck: {
+          userId
+        },
+        AND: [
+          toStudyableCardFilter(now),
+          { OR: [{ scheduleState: { is: null } }, { scheduleState: { is: { dueAt: { lte: now } } } }] }
+        ]
+      },
+      _count: {
+        _all: true
+      }
+    })
+  ]);
+
+  const dueCountByDeckId = new Map(dueCounts.map((row) => [row.deckId, row._count._all]));
+  const nodes = new Map<string, DeckTreeNode>(
+    decks.map((deck) => [
+      deck.id,
+      {
+        ...deck,
+        cardCount: deck._count.cards,
+        dueCount: dueCountByDeckId.get(deck.id) ?? 0,
+        totalCardCount: 0,
+        totalDueCount: 0,
+        children: []
+      }
+    ])
+  );
+
+  const roots: DeckTreeNode[] = [];
+  for (const node of nodes.values()) {
+    const parent = node.parentId ? nodes.get(node.parentId) : undefined;
+    if (parent) {
+      parent.children.push(node);
+    } else {
+      roots.push(node);
+    }
+  }
+
+  const rollUp = (node: DeckTreeNode) => {
+    node.totalCardCount = node.cardCount;
+    node.totalDueCount = node.dueCount;
+    for (const child of node.children) {
+      rollUp(child);
+      node.totalCardCount += child.totalCardCount;
+      node.totalDueCount += child.totalDueCount;
+    }
+  };
+  roots.forEach(rollUp);
+
+  return roots;
+}
@@ -0,0 +1,50 @@
+import { getMediaReferenceIds, toMediaReference } from "@flashcards/shared";
+import { AppError } from "../errors/app-error.js";
+import { prisma } from "../lib/prisma.js";
+
+export async function assertOcclusionImage(userId: string, mediaId: string): Promise<void> {
+  const media = await prisma.mediaAsset.findFirst({
+    where: {
+      id: mediaId,
+      userId
+    },
+    select: { mimeType: true }
+  });
+  if (!media?.mimeType.startsWith("image/")) {
+    throw new AppError("Image occlusion needs an uploaded image", 400);
+  }
+}
+
+export async function assertMediaReferencesOwned(userId: string, texts: string[]): Promise<void> {
+  const ids = [...new Set(texts.flatMap((text) => getMediaReferenceIds(text)))];
+  if (ids.length === 0) {
+    return;
+  }
+
+  const ownedCount = await prisma.mediaAsset.count({
+    where: {
+      userId,
+      id: { in: ids }
+    }
+  });
+  if (ownedCount !== ids.length) {
+    throw new AppError("Card references media that does not exist", 400);
+  }
+}
+
+// Media references are plain text inside card fields (and JSON for occlusion images), so usage is found
+// with a substring match.
+export async function countCardsReferencingMedia(userId: string, mediaId: string): Promise<number> {
+  const reference = toMediaReference(mediaId);
+  return prisma.card.count({
+    where: {
+      deck: { userId },
+      OR: [
+        { question: { contains: reference } },
+        { answer: { contains: reference } },
+        { options: { contains: reference } },
+        { occlusion: { contains: `"mediaId":"${mediaId}"` } }
+      ]
+    }
+  });
+}
@@ -0,0 +1,45 @@
+import { mkdir, readFile, rm, writeFile } from "node:fs/promises";
+import path from "node:path";
+import { env } from "../config/env.js";
+
+export interface MediaStorage {
+  save(key: string, data: Buffer): Promise<void>;
+  read(key: string): Promise<Buffer>;
+  delete(key: string): Promise<void>;
+}
+
+// Keys are generated server-side as `<userId>/<uuid>`, never taken from the uploaded filename.
+class LocalDiskMediaStorage implements MediaStorage {
+  constructor(private readonly rootDir: string) {}
+
+  private resolve(key: string): string {
+    const filePath = path.resolve(this.rootDir, key);
+    if (!filePath.startsWith(`${path.resolve(this.rootDir)}${path.sep}`)) {
+      throw new Error(`Invalid media storage key: ${key}`);
+    }
+    return filePath;
+  }
+
+  async save(key: string, data: Buffer): Promise<void> {
+    const filePath = this.resolve(key);
+    await mkdir(path.dirname(filePath), { recursive: true });
+    await writeFile(filePath, data);
+  }
+
+  async read(key: string): Promise<Buffer> {
+    return readFile(this.resolve(key));
+  }
+
+  async delete(key: string): Promise<void> {
+    await rm(this.resolve(key), { force: true });
+  }
+}
+
+let storage: MediaStorage | null = null;
+
+export function getMediaStorage(): MediaStorage {
+  if (!storage) {
+    storage = new LocalDiskMediaStorage(env.MEDIA_STORAGE_DIR);
+  }
+  return storage;
+}
@@ -1,12 +1,79 @@
+import { CardType } from "@prisma/client";
 import { Router } from "express";
-import { cardIdParamsSchema, cardUpdateSchema } from "@flashcards/shared";
+import {
+  cardBulkUpdateSchema,
+  cardIdParamsSchema,
+  cardUpdateSchema,
+  getClozeIndices,
+  getMultipleChoiceError
+} from "@flashcards/shared";
+import { sanitizeCardFields } from "../cards/content.js";
+import {
+  parseCardOcclusion,
+  parseCardOptions,
+  toCardResponse,
+  toMultipleChoiceData,
+  updateBasicNote,
+  updateClozeNote,
+  updateImageOcclusionNote
+} from "../cards/notes.js";
+import { cardTagsInclude, setCardTags } from "../cards/tags.js";
 import { AppError } from "../errors/app-error.js";
 import { prisma } from "../lib/prisma.js";
+import { assertMediaReferencesOwned, assertOcclusionImage } from "../media/references.js";
 import type { AuthenticatedLocals } from "../middleware/require-auth.js";
+import { getNextStudyDayStart, getStudyDayStart } from "../study/day.js";
+import { getCardHistory } from "../study/history.js";
 import { asyncHandler } from "../utils/async-handler.js";
 
 export const cardsRouter = Router();
 
+cardsRouter.post(
+  "/bulk",
+  asyncHandler(async (req, res) => {
+    const userId = (res.locals as AuthenticatedLocals).auth.userId;
+    const payload = cardBulkUpdateSchema.parse(req.body);
+    const cardIds = [...new Set(payload.cardIds)];
+
+    const ownedCardCount = await prisma.card.count({
+      where: {
+        id: { in: cardIds },
+        deck: {
+          userId
+        }
+      }
+    });
+
+    if (ownedCardCount !== cardIds.length) {
+      throw new AppError("Card not found", 404);
+    }
+
+    let buriedUntil: Date | null | undefined;
+    if (payload.buried === true) {
+      const settings = await prisma.user.findUniqueOrThrow({
+        where: { id: userId },
+        select: { timeZone: true, dayStartHour: true }
+      });
+      buriedUntil = getNextStudyDayStart(getStudyDayStart(new Date(), settings), settings);
+    } else if (payload.buried === false) {
+      buriedUntil = null;
+    }
+
+    const result = await prisma.card.updateMany({
+      where: {
+        id: { in: cardIds }
+      },
+      data: {
+        ...(payload.suspended !== undefined ? { suspended: payload.suspended } : {}),
+        ...(buriedUntil !== undefined ? { buriedUntil } : {}),
+        ...(payload.flag !== undefined ? { flag: payload.flag } : {})
+      }
+    });
+
+    res.json({ updatedCount: result.count });
+  })
+);
+
 cardsRouter.get(
   "/:id",
   asyncHandler(async (req, res) => {
@@ -19,14 +86,25 @@ cardsRouter.get(
         deck: {
           userId
         }
-      }
+      },
+      include: cardTagsInclude
     });
 
     if (!card) {
       throw new AppError("Card not found", 404);
     }
 
-    res.json(card);
+    res.json(toCardResponse(card));
+  })
+);
+
+cardsRouter.get(
+  "/:id/history",
+  asyncHandler(async (req, res) => {
+    const userId = (res.locals as AuthenticatedLocals).auth.userId;
+    const { id } = cardIdParamsSchema.parse(req.params);
+
+    res.json(await getCardHistory(userId, id, new Date()));
   })
 );
 
@@ -44,22 +122,147 @@ cardsRouter.patch(
           userId
         }
       },
-      select: { id: true }
+      select: {
+        id: true,
+        deckId: true,
+        type: true,
+        format: true,
+        noteId: true,
+        question: true,
+        answer: true,
+        options: true,
+        correctOptionIndex: true,
+        occlusion: true,
+        tags: {
+          select: { name: true }
+        }
+      }
     });
 
     if (!existingCard) {
       throw new AppError("Card not found", 404);
     }
 
-    const card = await prisma.card.update({
-      where: { id },
-      data: {
-        ...(payload.question !== undefined ? { question: payload.question } : {}),
-        ...(payload.answer !== undefined ? { answer: payload.answer } : {})
+    if (existingCard.type !== CardType.BASIC && payload.reverse) {
+      throw new AppError("Only basic cards can be reversed", 400);
+    }
+
+    if (existingCard.type !== CardType.MULTIPLE_CHOICE && (payload.options || payload.correctOptionIndex !== undefined)) {
+      throw new AppError("Only multiple-choice cards have options", 400);
+    }
+
+    if (existingCard.type !== CardType.IMAGE_OCCLUSION && payload.occlusion) {
+      throw new AppError("Only image occlusion cards have masks", 400);
+    }
+
+    const format = payload.format ?? existingCard.format;
+    const content = sanitizeCardFields({
+      format,
+      question: payload.question ?? existingCard.question,
+      answer: payload.answer ?? existingCard.answer,
+      options: payload.options ?? parseCardOptions(existingCard.options)
+    });
+    if (content.question.length === 0) {
+      throw new AppError("Question is required", 400);
+    }
+    await assertMediaReferencesOwned(userId, [content.question, content.answer, ...(content.options ?? [])]);
+
+    const tagNames = payload.tags ?? existingCard.tags.map((tag) => tag.name);
+    let responseCardId = id;
+
+    if (existingCard.type === CardType.MULTIPLE_CHOICE) {
+      const options = content.options;
+      const correctOptionIndex = payload.correctOptionIndex ?? existingCard.correctOptionIndex ?? undefined;
+      const message = getMultipleChoiceError(options, correctOptionIndex);
+      if (message || correctOptionIndex === undefined) {
+        throw new AppError(message ?? "Correct option index is required", 400);
+      }
+
+      await prisma.$transaction(async (tx) => {
+        await tx.card.update({
+          where: { id },
+          data: {
+            format,
+            question: content.question,
+            ...toMultipleChoiceData(options, correctOptionIndex)
+          }
+        });
+        if (payload.tags) {
+          await setCardTags(tx, userId, [id], payload.tags);
+        }
+      });
+    } else if (existingCard.type === CardType.CLOZE && existingCard.noteId) {
+      const text = content.question;
+      if (getClozeIndices(text).length === 0) {
+        throw new AppError("Cloze text must contain at least one deletion like {{c1::answer}}", 400);
+      }
+
+      const noteId = existingCard.noteId;
+      const siblings = await prisma.$transaction(async (tx) => {
+        const noteCards = await updateClozeNote(tx, {
+          deckId: existingCard.deckId,
+          noteId,
+          format,
+          text,
+          extra: content.answer
+        });
+        // New cloze siblings inherit the note's tags.
+        await setCardTags(tx, userId, noteCards.map((card) => card.id), tagNames);
+        return noteCards;
+      });
+
+      responseCardId = (siblings.find((card) => card.id === id) ?? siblings[0]).id;
+    } else if (existingCard.type === CardType.IMAGE_OCCLUSION && existingCard.noteId) {
+      const occlusion = payload.occlusion ?? parseCardOcclusion(existingCard.occlusion);
+      if (!occlusion) {
+        throw new AppError("Image occlusion cards need an image and at least one mask", 400);
+      }
+      if (payload.occlusion) {
+        await assertOcclusionImage(userId, occlusion.mediaId);
+      }
+
+      const noteId = existingCard.noteId;
+      const siblings = await prisma.$transaction(async (tx) => {
+        const noteCards = await updateImageOcclusionNote(tx, {
+          deckId: existingCard.deckId,
+          noteId,
+          format,
+          prompt: content.question,
+          extra: content.answer,
+          occlusion
+        });
+        await setCardTags(tx, userId, noteCards.map((card) => card.id), tagNames);
+        return noteCards;
+      });
+
+      responseCardId = (siblings.find((card) => card.id === id) ?? siblings[0]).id;
+    } else {
+      if (payload.answer !== undefined && content.answer.length === 0) {
+        throw new AppError("Answer is required", 400);
       }
+
+      const noteCards = await prisma.$transaction(async (tx) => {
+        const cards = await updateBasicNote(tx, existingCard, {
+          format,
+          question: content.question,
+          answer: content.answer,
+          reverse: payload.reverse
+        });
+        if (payload.tags || cards.length > 1) {
+          await setCardTags(tx, userId, cards.map((card) => card.id), tagNames);
+        }
+        return cards;
+      });
+
+      responseCardId = (noteCards.find((card) => card.id === id) ?? noteCards[0]).id;
+    }
+
+    const card = await prisma.card.findUniqueOrThrow({
+      where: { id: responseCardId },
+      include: cardTagsInclude
     });
 
-    res.json(card);
+    res.json(toCardResponse(card));
   })
 );
 
@@ -76,16 +279,22 @@ cardsRouter.delete(
           userId
         }
       },
-      select: { id: true }
+      select: { id: true, noteId: true }
     });
 
     if (!existingCard) {
       throw new AppError("Card not found", 404);
     }
 
-    await prisma.card.delete({
-      where: { id }
-    });
+    if (existingCard.noteId) {
+      await prisma.card.deleteMany({
+        where: { noteId: existingCard.noteId }
+      });
+    } else {
+      await prisma.card.delete({
+        where: { id }
+      });
+    }
 
     res.status(204).send();
   })
@@ -1,16 +1,79 @@
+import { CardFormat, CardType, type Card } from "@prisma/client";
 import { Router } from "express";
+import multer from "multer";
+import { z } from "zod";
 import {
   cardCreateSchema,
+  cardFlagSchema,
   deckCardsParamsSchema,
   deckCreateSchema,
   deckIdParamsSchema,
-  deckUpdateSchema
+  deckUpdateSchema,
+  tagExpressionSchema
 } from "@flashcards/shared";
+import { exportDeckAsApkg } from "../anki/export.js";
+import { importApkgForUser } from "../anki/import.js";
+import { sanitizeCardFields } from "../cards/content.js";
+import {
+  createBasicNote,
+  createClozeNote,
+  createImageOcclusionNote,
+  toCardResponse,
+  toMultipleChoiceData
+} from "../cards/notes.js";
+import { exportDeckAsDelimited, importDelimitedCards } from "../cards/delimited-cards.js";
+import { cardTagsInclude, setCardTags, toTagFilter } from "../cards/tags.js";
+import { assertValidDeckParent, getDeckTree } from "../decks/tree.js";
 import { AppError } from "../errors/app-error.js";
 import { prisma } from "../lib/prisma.js";
+import { assertMediaReferencesOwned, assertOcclusionImage } from "../media/references.js";
 import type { AuthenticatedLocals } from "../middleware/require-auth.js";
+import { buildExamPlan } from "../study/exam.js";
+import { getOwnedSchedulingPreset } from "../study/presets.js";
 import { asyncHandler } from "../utils/async-handler.js";
 
+const upload = multer({
+  storage: multer.memoryStorage(),
+  limits: {
+    fileSize: 15 * 1024 * 1024
+  }
+});
+
+const deckImportQuerySchema = z.object({
+  format: z.enum(["apkg"]).default("apkg")
+});
+
+const deckExportQuerySchema = z.object({
+  format: z.enum(["apkg", "csv", "tsv"])
+});
+
+const deckCardsImportQuerySchema = z.object({
+  format: z.enum(["csv", "tsv"])
+});
+
+const deckCardsQuerySchema = z.object({
+  tags: tagExpressionSchema.optional(),
+  flag: cardFlagSchema.optional()
+});
+
+const formBooleanSchema = z.enum(["true", "false"]).transform((value) => value === "true");
+
+const optionalColumnSchema = z
+  .union([z.literal("none"), z.coerce.number().int().min(0)])
+  .transform((value) => (value === "none" ? null : value))
+  .optional();
+
+const deckCardsImportBodySchema = z.object({
+  hasHeader: formBooleanSchema.default("true"),
+  dryRun: formBooleanSchema.default("false"),
+  questionColumn: z.coerce.number().int().min(0).optional(),
+  answerColumn: z.coerce.number().int().min(0).optional(),
+  dueDateColumn: optionalColumnSchema,
+  tagsColumn: optionalColumnSchema
+});
+
+const delimitedFileExtensions = [".csv", ".tsv", ".txt"];
+
 export const decksRouter = Router();
 
 decksRouter.get(
@@ -18,19 +81,7 @@ decksRouter.get(
   asyncHandler(async (_req, res) => {
     const userId = (res.locals as AuthenticatedLocals).auth.userId;
 
-    const decks = await prisma.deck.findMany({
-      where: { userId },
-      orderBy: { updatedAt: "desc" },
-      include: {
-        _count: {
-          select: {
-            cards: true
-          }
-        }
-      }
-    });
-
-    res.json(decks);
+    res.json(await getDeckTree(userId, new Date()));
   })
 );
 
@@ -40,11 +91,28 @@ decksRouter.post(
     const userId = (res.locals as AuthenticatedLocals).auth.userId;
     const payload = deckCreateSchema.parse(req.body);
 
+    if (payload.parentId) {
+      await assertValidDeckParent(userId, null, payload.parentId);
+    }
+    if (payload.presetId) {
+      await getOwnedSchedulingPreset(userId, payload.presetId);
+    }
+
     const deck = await prisma.deck.create({
       data: {
         userId,
         title: payload.title,
-        description: payload.description
+        description: payload.description,
+        parentId: payload.parentId ?? null,
+        presetId: payload.presetId ?? null,
+        newCardsPerDay: payload.newCardsPerDay,
+        reviewsPerDay: payload.reviewsPerDay,
+        leechThreshold: payload.leechThreshold,
+        leechAction: payload.leechAction,
+        studyPriority: payload.studyPriority,
+        examDate: payload.examDate ?? null,
+        examMinReviews: payload.examMinReviews,
+        slowRecallSeconds: payload.slowRecallSeconds ?? null
       }
     });
 
@@ -52,6 +120,31 @@ decksRouter.post(
   })
 );
 
+decksRouter.post(
+  "/import",
+  upload.single("file"),
+  asyncHandler(async (req, res) => {
+    const userId = (res.locals as AuthenticatedLocals).auth.userId;
+    deckImportQuerySchema.parse(req.query);
+    const file = req.file;
+
+    if (!file) {
+      throw new AppError("File is required", 400);
+    }
+
+    if (!file.originalname.toLowerCase().endsWith(".apkg")) {
+      throw new AppError("Unsupported file type. Only Anki .apkg files are allowed.", 400);
+    }
+
+    const result = await importApkgForUser(userId, file.buffer);
+    if (result.importedCards === 0) {
+      throw new AppError("Anki package contains no importable cards", 400);
+    }
+
+    res.status(201).json(result);
+  })
+);
+
 decksRouter.get(
   "/:id",
   asyncHandler(async (req, res) => {
@@ -65,7 +158,18 @@ decksRouter.get(
       },
       include: {
         cards: {
-          orderBy: { createdAt: "asc" }
+          include: cardTagsInclude,
+          orderBy: [{ createdAt: "asc" }, { ordinal: "asc" }]
+        },
+        parent: {
+          select: { id: true, title: true }
+        },
+        preset: {
+          select: { id: true, name: true }
+        },
+        children: {
+          select: { id: true, title: true },
+          orderBy: { title: "asc" }
         }
       }
     });
@@ -74,7 +178,10 @@ decksRouter.get(
       throw new AppError("Deck not found", 404);
     }
 
-    res.json(deck);
+    res.json({
+      ...deck,
+      cards: deck.cards.map(toCardResponse)
+    });
   })
 );
 
@@ -97,11 +204,28 @@ decksRouter.patch(
       throw new AppError("Deck not found", 404);
     }
 
+    if (payload.parentId) {
+      await assertValidDeckParent(userId, id, payload.parentId);
+    }
+    if (payload.presetId) {
+      await getOwnedSchedulingPreset(userId, payload.presetId);
+    }
+
     const updatedDeck = await prisma.deck.update({
       where: { id },
       data: {
         ...(payload.title !== undefined ? { title: payload.title } : {}),
-        ...(payload.description !== undefined ? { description: payload.description } : {})
+        ...(payload.description !== undefined ? { description: payload.description } : {}),
+        ...(payload.parentId !== undefined ? { parentId: payload.parentId } : {}),
+        ...(payload.presetId !== undefined ? { presetId: payload.presetId } : {}),
+        ...(payload.newCardsPerDay !== undefined ? { newCardsPerDay: payload.newCardsPerDay } : {}),
+        ...(payload.reviewsPerDay !== undefined ? { reviewsPerDay: payload.reviewsPerDay } : {}),
+        ...(payload.leechThreshold !== undefined ? { leechThreshold: payload.leechThreshold } : {}),
+        ...(payload.leechAction !== undefined ? { leechAction: payload.leechAction } : {}),
+        ...(payload.studyPriority !== undefined ? { studyPriority: payload.studyPriority } : {}),
+        ...(payload.examDate !== undefined ? { examDate: payload.examDate } : {}),
+        ...(payload.examMinReviews !== undefined ? { examMinReviews: payload.examMinReviews } : {}),
+        ...(payload.slowRecallSeconds !== undefined ? { slowRecallSeconds: payload.slowRecallSeconds } : {})
       }
     });
 
@@ -135,11 +259,35 @@ decksRouter.delete(
   })
 );
 
+decksRouter.get(
+  "/:id/export",
+  asyncHandler(async (req, res) => {
+    const userId = (res.locals as AuthenticatedLocals).auth.userId;
+    const { id } = deckIdParamsSchema.parse(req.params);
+    const { format } = deckExportQuerySchema.parse(req.query);
+
+    if (format === "csv" || format === "tsv") {
+      const exported = await exportDeckAsDelimited(userId, id, format);
+      res.setHeader("Content-Type", exported.contentType);
+      res.setHeader("Content-Disposition", `attachment; filename="${exported.filename}"`);
+      res.send(exported.body);
+      return;
+    }
+
+    const exported = await exportDeckAsApkg(userId, id);
+
+    res.setHeader("Content-Type", "application/octet-stream");
+    res.setHeader("Content-Disposition", `attachment; filename="${exported.filename}"`);
+    res.send(exported.buffer);
+  })
+);
+
 decksRouter.get(
   "/:id/cards",
   asyncHandler(async (req, res) => {
     const userId = (res.locals as AuthenticatedLocals).auth.userId;
     const { id } = deckCardsParamsSchema.parse(req.params);
+    const { tags, flag } = deckCardsQuerySchema.parse(req.query);
 
     const deck = await prisma.deck.findFirst({
       where: {
@@ -155,12 +303,79 @@ decksRouter.get(
 
     const cards = await prisma.card.findMany({
       where: {
-        deckId: id
+        deckId: id,
+        ...toTagFilter(tags),
+        ...(flag ? { flag } : {})
+      },
+      include: cardTagsInclude,
+      orderBy: [{ createdAt: "asc" }, { ordinal: "asc" }]
+    });
+
+    res.json(cards.map(toCardResponse));
+  })
+);
+
+// Leeches are cards that lapsed at least the deck's threshold, whether or not they were suspended.
+decksRouter.get(
+  "/:id/leeches",
+  asyncHandler(async (req, res) => {
+    const userId = (res.locals as AuthenticatedLocals).auth.userId;
+    const { id } = deckCardsParamsSchema.parse(req.params);
+
+    const deck = await prisma.deck.findFirst({
+      where: {
+        id,
+        userId
+      },
+      select: { id: true, leechThreshold: true }
+    });
+
+    if (!deck) {
+      throw new AppError("Deck not found", 404);
+    }
+
+    const cards = await prisma.card.findMany({
+      where: {
+        deckId: id,
+        scheduleState: {
+          is: {
+            fsrsLapses: {
+              gte: deck.leechThreshold
+            }
+          }
+        }
+      },
+      include: {
+        ...cardTagsInclude,
+        scheduleState: {
+          select: { fsrsLapses: true }
+        }
       },
-      orderBy: { createdAt: "asc" }
+      orderBy: {
+        scheduleState: {
+          fsrsLapses: "desc"
+        }
+      }
     });
 
-    res.json(cards);
+    res.json(
+      cards.map(({ scheduleState, ...card }) => ({
+        ...toCardResponse(card),
+        lapses: scheduleState?.fsrsLapses ?? 0
+      }))
+    );
+  })
+);
+
+decksRouter.get(
+  "/:id/exam-plan",
+  asyncHandler(async (req, res) => {
+    const userId = (res.locals as AuthenticatedLocals).auth.userId;
+    const { id } = deckCardsParamsSchema.parse(req.params);
+
+    const plan = await buildExamPlan(userId, id, new Date());
+
+    res.json(plan);
   })
 );
 
@@ -169,7 +384,10 @@ decksRouter.post(
   asyncHandler(async (req, res) => {
     const userId = (res.locals as AuthenticatedLocals).auth.userId;
     const { id } = deckCardsParamsSchema.parse(req.params);
-    const payload = cardCreateSchema.parse(req.body);
+    const parsedPayload = cardCreateSchema.parse(req.body);
+    // Validate again after sanitizing, since stripping HTML can empty a field or drop a cloze.
+    const payload =
+      parsedPayload.format === CardFormat.MARKDOWN ? cardCreateSchema.parse(sanitizeCardFields(parsedPayload)) : parsedPayload;
 
     const deck = await prisma.deck.findFirst({
       where: {
@@ -183,14 +401,96 @@ decksRouter.post(
       throw new AppError("Deck not found", 404);
     }
 
-    const card = await prisma.card.create({
-      data: {
-        deckId: id,
-        question: payload.question,
-        answer: payload.answer
+    await assertMediaReferencesOwned(userId, [payload.question, payload.answer, ...(payload.options ?? [])]);
+    if (payload.occlusion) {
+      await assertOcclusionImage(userId, payload.occlusion.mediaId);
+    }
+
+    const [firstCard] = await prisma.$transaction(async (tx) => {
+      let cards: Card[];
+      if (payload.type === "CLOZE") {
+        cards = await createClozeNote(tx, {
+          deckId: id,
+          format: payload.format,
+          text: payload.question,
+          extra: payload.answer
+        });
+      } else if (payload.type === "IMAGE_OCCLUSION" && payload.occlusion) {
+        cards = await createImageOcclusionNote(tx, {
+          deckId: id,
+          format: payload.format,
+          prompt: payload.question,
+          extra: payload.answer,
+          occlusion: payload.occlusion
+        });
+      } else if (payload.type === "MULTIPLE_CHOICE" && payload.options && payload.correctOptionIndex !== undefined) {
+        cards = [
+          await tx.card.create({
+            data: {
+              deckId: id,
+              type: CardType.MULTIPLE_CHOICE,
+              format: payload.format,
+              question: payload.question,
+              ...toMultipleChoiceData(payload.options, payload.correctOptionIndex)
+            }
+          })
+        ];
+      } else {
+        cards = await createBasicNote(tx, {
+          deckId: id,
+          format: payload.format,
+          question: payload.question,
+          answer: payload.answer,
+          reverse: payload.reverse
+        });
+      }
+
+      if (payload.tags && payload.tags.length > 0) {
+        await setCardTags(tx, userId, cards.map((card) => card.id), payload.tags);
+      }
+      return cards;
+    });
+
+    const card = await prisma.card.findUniqueOrThrow({
+      where: { id: firstCard.id },
+      include: cardTagsInclude
+    });
+
+    res.status(201).json(toCardResponse(card));
+  })
+);
+
+decksRouter.post(
+  "/:id/import",
+  upload.single("file"),
+  asyncHandler(async (req, res) => {
+    const userId = (res.locals as AuthenticatedLocals).auth.userId;
+    const { id } = deckCardsParamsSchema.parse(req.params);
+    const { format } = deckCardsImportQuerySchema.parse(req.query);
+    const payload = deckCardsImportBodySchema.parse(req.body ?? {});
+    const file = req.file;
+
+    if (!file) {
+      throw new AppError("File is required", 400);
+    }
+
+    const filename = file.originalname.toLowerCase();
+    if (!delimitedFileExtensions.some((extension) => filename.endsWith(extension))) {
+      throw new AppError("Unsupported file type. Only .csv, .tsv, and .txt files are allowed.", 400);
+    }
+
+    const result = await importDelimitedCards(userId, id, file.buffer.toString("utf8"), {
+      format,
+      hasHeader: payload.hasHeader,
+      dryRun: payload.dryRun,
+      mapping: {
+        question: payload.questionColumn,
+        answer: payload.answerColumn,
+        dueDate: payload.dueDateColumn,
+        tags: payload.tagsColumn
       }
     });
 
-    res.status(201).json(card);
+    res.status(payload.dryRun ? 200 : 201).json(result);
   })
 );
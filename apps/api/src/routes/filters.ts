@@ -0,0 +1,111 @@
+import { Router } from "express";
+import { studyFilterCreateSchema, studyFilterIdParamsSchema, studyFilterUpdateSchema } from "@flashcards/shared";
+import { AppError } from "../errors/app-error.js";
+import { prisma } from "../lib/prisma.js";
+import type { AuthenticatedLocals } from "../middleware/require-auth.js";
+import { assertStudyFilterDecksOwned, getOwnedStudyFilter, toStudyFilterResponse } from "../study/filters.js";
+import { asyncHandler } from "../utils/async-handler.js";
+
+export const filtersRouter = Router();
+
+async function ensureFilterNameAvailable(userId: string, name: string) {
+  const existing = await prisma.studyFilter.findUnique({
+    where: {
+      userId_name: { userId, name }
+    },
+    select: { id: true }
+  });
+
+  if (existing) {
+    throw new AppError("Study filter already exists", 409);
+  }
+}
+
+function assertDifficultyRange(minDifficulty: number | null, maxDifficulty: number | null) {
+  if (minDifficulty !== null && maxDifficulty !== null && minDifficulty > maxDifficulty) {
+    throw new AppError("Minimum difficulty cannot be above maximum difficulty", 400);
+  }
+}
+
+filtersRouter.get(
+  "/",
+  asyncHandler(async (_req, res) => {
+    const userId = (res.locals as AuthenticatedLocals).auth.userId;
+
+    const filters = await prisma.studyFilter.findMany({
+      where: { userId },
+      orderBy: { name: "asc" }
+    });
+
+    res.json(filters.map(toStudyFilterResponse));
+  })
+);
+
+filtersRouter.post(
+  "/",
+  asyncHandler(async (req, res) => {
+    const userId = (res.locals as AuthenticatedLocals).auth.userId;
+    const payload = studyFilterCreateSchema.parse(req.body);
+
+    assertDifficultyRange(payload.minDifficulty, payload.maxDifficulty);
+    await assertStudyFilterDecksOwned(userId, payload.deckIds);
+    await ensureFilterNameAvailable(userId, payload.name);
+
+    const filter = await prisma.studyFilter.create({
+      data: {
+        userId,
+        ...payload,
+        deckIds: JSON.stringify(payload.deckIds)
+      }
+    });
+
+    res.status(201).json(toStudyFilterResponse(filter));
+  })
+);
+
+filtersRouter.patch(
+  "/:id",
+  asyncHandler(async (req, res) => {
+    const userId = (res.locals as AuthenticatedLocals).auth.userId;
+    const { id } = studyFilterIdParamsSchema.parse(req.params);
+    const payload = studyFilterUpdateSchema.parse(req.body);
+
+    const existingFilter = await getOwnedStudyFilter(userId, id);
+    assertDifficultyRange(
+      payload.minDifficulty !== undefined ? payload.minDifficulty : existingFilter.minDifficulty,
+      payload.maxDifficulty !== undefined ? payload.maxDifficulty : existingFilter.maxDifficulty
+    );
+    if (payload.deckIds !== undefined) {
+      await assertStudyFilterDecksOwned(userId, payload.deckIds);
+    }
+    if (payload.name !== undefined && existingFilter.name !== payload.name) {
+      await ensureFilterNameAvailable(userId, payload.name);
+    }
+
+    const { deckIds, ...fields } = payload;
+    const filter = await prisma.studyFilter.update({
+      where: { id },
+      data: {
+        ...fields,
+        ...(deckIds !== undefined ? { deckIds: JSON.stringify(deckIds) } : {})
+      }
+    });
+
+    res.json(toStudyFilterResponse(filter));
+  })
+);
+
+filtersRouter.delete(
+  "/:id",
+  asyncHandler(async (req, res) => {
+    const userId = (res.locals as AuthenticatedLocals).auth.userId;
+    const { id } = studyFilterIdParamsSchema.parse(req.params);
+
+    await getOwnedStudyFilter(userId, id);
+    await prisma.studyFilter.delete({
+      where: { id }
+    });
+
+    res.status(204).send();
+  })
+);
@@ -1,6 +1,8 @@
+import { CardFormat, CardType } from "@prisma/client";
 import { Router, type Request, type Response } from "express";
 import multer from "multer";
 import { z } from "zod";
+import { cardFormatSchema, getMultipleChoiceError, multipleChoiceOptionsSchema } from "@flashcards/shared";
 import { getIngestionProvider } from "../ai/ingestion-provider.js";
 import { getPlanPolicy } from "../ai/policy.js";
 import {
@@ -8,9 +10,12 @@ import {
   incrementDocumentGeneration,
   isUsageLimitBypassedForEmail
 } from "../ai/usage.js";
+import { sanitizeCardFields } from "../cards/content.js";
+import { parseCardOptions, toCardResponse, toMultipleChoiceData } from "../cards/notes.js";
 import { AppError } from "../errors/app-error.js";
 import { deleteExpiredIngestionDrafts } from "../ingest/draft-cleanup.js";
 import { prisma } from "../lib/prisma.js";
+import { assertMediaReferencesOwned } from "../media/references.js";
 import type { AuthenticatedLocals } from "../middleware/require-auth.js";
 import { asyncHandler } from "../utils/async-handler.js";
 
@@ -28,7 +33,11 @@ const allowedMimeTypes = new Set([
 
 const generateCardsBodySchema = z.object({
   deckId: z.string().min(1),
-  targetCards: z.coerce.number().int().min(1).max(30).optional()
+  targetCards: z.coerce.number().int().min(1).max(30).optional(),
+  multipleChoice: z
+    .enum(["true", "false"])
+    .default("false")
+    .transform((value) => value === "true")
 });
 
 const previewIdParamsSchema = z.object({
@@ -42,7 +51,10 @@ const commitPreviewBodySchema = z.object({
         id: z.string().min(1),
         keep: z.boolean(),
         question: z.string().trim().min(1).max(2000),
-        answer: z.string().trim().min(1).max(5000)
+        answer: z.string().trim().min(1).max(5000),
+        format: cardFormatSchema.optional(),
+        options: multipleChoiceOptionsSchema.optional(),
+        correctOptionIndex: z.number().int().min(0).optional()
       })
     )
     .min(1)
@@ -146,6 +158,7 @@ async function handleGeneratePreview(req: Request, res: Response) {
     mimeType: file.mimetype,
     fileBuffer: file.buffer,
     targetCards: payload.targetCards,
+    includeMultipleChoice: payload.multipleChoice,
     model: planPolicy.documentGenerationModel
   });
 
@@ -166,7 +179,12 @@ async function handleGeneratePreview(req: Request, res: Response) {
         create: generatedCards.map((card, index) => ({
           position: index,
           question: card.question,
-          answer: card.answer
+          ...(card.options && card.correctOptionIndex !== undefined
+            ? {
+                type: CardType.MULTIPLE_CHOICE,
+                ...toMultipleChoiceData(card.options, card.correctOptionIndex)
+              }
+            : { answer: card.answer })
         }))
       }
     },
@@ -192,7 +210,7 @@ async function handleGeneratePreview(req: Request, res: Response) {
       createdAt: preview.createdAt,
       plan: preview.plan,
       modelUsed: preview.modelUsed,
-      cards: preview.cards
+      cards: preview.cards.map(toCardResponse)
     },
     generatedCount: preview.cards.length,
     remainingMonthlyDocumentGenerations: bypassUsageLimit
@@ -237,7 +255,7 @@ ingestRouter.get(
         createdAt: preview.createdAt,
         plan: preview.plan,
         modelUsed: preview.modelUsed,
-        cards: preview.cards
+        cards: preview.cards.map(toCardResponse)
       }
     });
   })
@@ -270,27 +288,65 @@ ingestRouter.post(
       }
     }
 
-    const keptCards = payload.cards
-      .filter((card) => card.keep)
-      .map((card) => ({
-        id: card.id,
+    const draftCardsById = new Map(preview.cards.map((card) => [card.id, card]));
+    const reviewedCards = payload.cards.map((card) => {
+      const draftCard = draftCardsById.get(card.id);
+      const format = card.format ?? draftCard?.format ?? CardFormat.PLAIN;
+      if (draftCard?.type !== CardType.MULTIPLE_CHOICE) {
+        if (card.options || card.correctOptionIndex !== undefined) {
+          throw new AppError("Only multiple-choice cards have options", 400);
+        }
+        const content = sanitizeCardFields({ format, question: card.question.trim(), answer: card.answer.trim() });
+        return {
+          id: card.id,
+          keep: card.keep,
+          format,
+          question: content.question,
+          answer: content.answer,
+          multipleChoice: null
+        };
+      }
+
+      const content = sanitizeCardFields({
+        format,
         question: card.question.trim(),
-        answer: card.answer.trim()
-      }));
+        answer: "",
+        options: card.options ?? parseCardOptions(draftCard.options)
+      });
+      const options = content.options ?? [];
+      const correctOptionIndex = card.correctOptionIndex ?? draftCard.correctOptionIndex ?? undefined;
+      const message = getMultipleChoiceError(options, correctOptionIndex);
+      if (message || correctOptionIndex === undefined) {
+        throw new AppError(message ?? "Correct option index is required", 400);
+      }
+      const multipleChoice = toMultipleChoiceData(options, correctOptionIndex);
+      return {
+        id: card.id,
+        keep: card.keep,
+        format,
+        question: content.question,
+        answer: multipleChoice.answer,
+        multipleChoice
+      };
+    });
+    const keptCards = reviewedCards.filter((card) => card.keep);
 
     for (const card of keptCards) {
       if (card.question.length === 0 || card.answer.length === 0) {
         throw new AppError("Kept cards must include non-empty question and answer", 400);
       }
     }
+    await assertMediaReferencesOwned(userId, keptCards.flatMap((card) => [card.question, card.answer]));
 
     await prisma.$transaction(async (tx) => {
-      for (const card of payload.cards) {
+      for (const card of reviewedCards) {
         await tx.ingestionDraftCard.update({
           where: { id: card.id },
           data: {
-            question: card.question.trim(),
-            answer: card.answer.trim()
+            format: card.format,
+            question: card.question,
+            answer: card.answer,
+            ...(card.multipleChoice ?? {})
           }
         });
       }
@@ -299,8 +355,10 @@ ingestRouter.post(
         await tx.card.createMany({
           data: keptCards.map((card) => ({
             deckId: preview.deckId,
+            format: card.format,
             question: card.question,
-            answer: card.answer
+            answer: card.answer,
+            ...(card.multipleChoice ? { type: CardType.MULTIPLE_CHOICE, ...card.multipleChoice } : {})
           }))
         });
       }
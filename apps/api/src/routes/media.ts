@@ -0,0 +1,181 @@
+import { randomUUID } from "node:crypto";
+import { Router } from "express";
+import multer from "multer";
+import { mediaIdParamsSchema } from "@flashcards/shared";
+import { getPlanPolicy } from "../ai/policy.js";
+import { isUsageLimitBypassedForEmail } from "../ai/usage.js";
+import { AppError } from "../errors/app-error.js";
+import { prisma } from "../lib/prisma.js";
+import { countCardsReferencingMedia } from "../media/references.js";
+import { getMediaStorage } from "../media/storage.js";
+import type { AuthenticatedLocals } from "../middleware/require-auth.js";
+import { asyncHandler } from "../utils/async-handler.js";
+
+const upload = multer({
+  storage: multer.memoryStorage(),
+  limits: {
+    fileSize: 15 * 1024 * 1024
+  }
+});
+
+// SVG is deliberately excluded since it can carry scripts.
+const allowedMimeTypes = new Set([
+  "image/png",
+  "image/jpeg",
+  "image/gif",
+  "image/webp",
+  "audio/mpeg",
+  "audio/mp4",
+  "audio/ogg",
+  "audio/wav",
+  "audio/webm"
+]);
+
+export const mediaRouter = Router();
+
+async function getOwnedMedia(userId: string, id: string) {
+  const media = await prisma.mediaAsset.findFirst({
+    where: {
+      id,
+      userId
+    }
+  });
+
+  if (!media) {
+    throw new AppError("Media not found", 404);
+  }
+
+  return media;
+}
+
+async function getUsedMediaBytes(userId: string): Promise<number> {
+  const usage = await prisma.mediaAsset.aggregate({
+    where: { userId },
+    _sum: { sizeBytes: true }
+  });
+  return usage._sum.sizeBytes ?? 0;
+}
+
+function toMediaResponse(media: { id: string; filename: string; mimeType: string; sizeBytes: number; createdAt: Date }) {
+  return {
+    id: media.id,
+    filename: media.filename,
+    mimeType: media.mimeType,
+    sizeBytes: media.sizeBytes,
+    createdAt: media.createdAt
+  };
+}
+
+mediaRouter.get(
+  "/",
+  asyncHandler(async (_req, res) => {
+    const userId = (res.locals as AuthenticatedLocals).auth.userId;
+
+    const [user, media, usedBytes] = await Promise.all([
+      prisma.user.findUniqueOrThrow({
+        where: { id: userId },
+        select: { plan: true, email: true }
+      }),
+      prisma.mediaAsset.findMany({
+        where: { userId },
+        orderBy: { createdAt: "desc" }
+      }),
+      getUsedMediaBytes(userId)
+    ]);
+
+    res.json({
+      media: media.map(toMediaResponse),
+      usage: {
+        usedBytes,
+        limitBytes: isUsageLimitBypassedForEmail(user.email) ? null : getPlanPolicy(user.plan).mediaStorageBytes
+      }
+    });
+  })
+);
+
+mediaRouter.post(
+  "/",
+  upload.single("file"),
+  asyncHandler(async (req, res) => {
+    const userId = (res.locals as AuthenticatedLocals).auth.userId;
+    const file = req.file;
+
+    if (!file) {
+      throw new AppError("File is required", 400);
+    }
+
+    if (!allowedMimeTypes.has(file.mimetype)) {
+      throw new AppError(
+        "Unsupported file type. Only PNG, JPEG, GIF and WebP images or MP3, M4A, OGG, WAV and WebM audio are allowed.",
+        400
+      );
+    }
+
+    const user = await prisma.user.findUniqueOrThrow({
+      where: { id: userId },
+      select: { plan: true, email: true }
+    });
+    if (!isUsageLimitBypassedForEmail(user.email)) {
+      const usedBytes = await getUsedMediaBytes(userId);
+      if (usedBytes + file.size > getPlanPolicy(user.plan).mediaStorageBytes) {
+        throw new AppError("Media storage limit reached for current plan", 403);
+      }
+    }
+
+    const storageKey = `${userId}/${randomUUID()}`;
+    await getMediaStorage().save(storageKey, file.buffer);
+
+    try {
+      const media = await prisma.mediaAsset.create({
+        data: {
+          userId,
+          filename: file.originalname,
+          mimeType: file.mimetype,
+          sizeBytes: file.size,
+          storageKey
+        }
+      });
+      res.status(201).json(toMediaResponse(media));
+    } catch (error) {
+      await getMediaStorage().delete(storageKey);
+      throw error;
+    }
+  })
+);
+
+mediaRouter.get(
+  "/:id/content",
+  asyncHandler(async (req, res) => {
+    const userId = (res.locals as AuthenticatedLocals).auth.userId;
+    const { id } = mediaIdParamsSchema.parse(req.params);
+
+    const media = await getOwnedMedia(userId, id);
+    const content = await getMediaStorage().read(media.storageKey);
+
+    res.setHeader("Content-Type", media.mimeType);
+    res.setHeader("X-Content-Type-Options", "nosniff");
+    res.setHeader("Cache-Control", "private, max-age=86400");
+    res.send(content);
+  })
+);
+
+mediaRouter.delete(
+  "/:id",
+  asyncHandler(async (req, res) => {
+    const userId = (res.locals as AuthenticatedLocals).auth.userId;
+    const { id } = mediaIdParamsSchema.parse(req.params);
+
+    const media = await getOwnedMedia(userId, id);
+    const referencingCards = await countCardsReferencingMedia(userId, id);
+    if (referencingCards > 0) {
+      throw new AppError(`Media is still used by ${referencingCards} card(s)`, 409);
+    }
+
+    await prisma.mediaAsset.delete({
+      where: { id }
+    });
+    await getMediaStorage().delete(media.storageKey);
+
+    res.status(204).send();
+  })
+);
@@ -0,0 +1,111 @@
+import { Router } from "express";
+import { presetIdParamsSchema, schedulingPresetCreateSchema, schedulingPresetUpdateSchema } from "@flashcards/shared";
+import { AppError } from "../errors/app-error.js";
+import { prisma } from "../lib/prisma.js";
+import type { AuthenticatedLocals } from "../middleware/require-auth.js";
+import { getOwnedSchedulingPreset, toSchedulingPresetResponse } from "../study/presets.js";
+import { asyncHandler } from "../utils/async-handler.js";
+
+export const presetsRouter = Router();
+
+async function ensurePresetNameAvailable(userId: string, name: string) {
+  const existing = await prisma.schedulingPreset.findUnique({
+    where: {
+      userId_name: { userId, name }
+    },
+    select: { id: true }
+  });
+
+  if (existing) {
+    throw new AppError("Scheduling preset already exists", 409);
+  }
+}
+
+presetsRouter.get(
+  "/",
+  asyncHandler(async (_req, res) => {
+    const userId = (res.locals as AuthenticatedLocals).auth.userId;
+
+    const presets = await prisma.schedulingPreset.findMany({
+      where: { userId },
+      orderBy: { name: "asc" },
+      include: {
+        _count: {
+          select: { decks: true }
+        }
+      }
+    });
+
+    res.json(presets.map(toSchedulingPresetResponse));
+  })
+);
+
+presetsRouter.post(
+  "/",
+  asyncHandler(async (req, res) => {
+    const userId = (res.locals as AuthenticatedLocals).auth.userId;
+    const payload = schedulingPresetCreateSchema.parse(req.body);
+
+    await ensurePresetNameAvailable(userId, payload.name);
+
+    const preset = await prisma.schedulingPreset.create({
+      data: {
+        userId,
+        name: payload.name,
+        desiredRetention: payload.desiredRetention,
+        maximumInterval: payload.maximumInterval,
+        learningSteps: JSON.stringify(payload.learningSteps),
+        relearningSteps: JSON.stringify(payload.relearningSteps),
+        enableFuzz: payload.enableFuzz,
+        enableLoadBalance: payload.enableLoadBalance
+      }
+    });
+
+    res.status(201).json(toSchedulingPresetResponse(preset));
+  })
+);
+
+presetsRouter.patch(
+  "/:id",
+  asyncHandler(async (req, res) => {
+    const userId = (res.locals as AuthenticatedLocals).auth.userId;
+    const { id } = presetIdParamsSchema.parse(req.params);
+    const payload = schedulingPresetUpdateSchema.parse(req.body);
+
+    const existingPreset = await getOwnedSchedulingPreset(userId, id);
+    if (payload.name !== undefined && existingPreset.name !== payload.name) {
+      await ensurePresetNameAvailable(userId, payload.name);
+    }
+
+    const preset = await prisma.schedulingPreset.update({
+      where: { id },
+      data: {
+        ...(payload.name !== undefined ? { name: payload.name } : {}),
+        ...(payload.desiredRetention !== undefined ? { desiredRetention: payload.desiredRetention } : {}),
+        ...(payload.maximumInterval !== undefined ? { maximumInterval: payload.maximumInterval } : {}),
+        ...(payload.learningSteps !== undefined ? { learningSteps: JSON.stringify(payload.learningSteps) } : {}),
+        ...(payload.relearningSteps !== undefined ? { relearningSteps: JSON.stringify(payload.relearningSteps) } : {}),
+        ...(payload.enableFuzz !== undefined ? { enableFuzz: payload.enableFuzz } : {}),
+        ...(payload.enableLoadBalance !== undefined ? { enableLoadBalance: payload.enableLoadBalance } : {})
+      }
+    });
+
+    res.json(toSchedulingPresetResponse(preset));
+  })
+);
+
+// Decks using a deleted preset fall back to the default scheduling settings.
+presetsRouter.delete(
+  "/:id",
+  asyncHandler(async (req, res) => {
+    const userId = (res.locals as AuthenticatedLocals).auth.userId;
+    const { id } = presetIdParamsSchema.parse(req.params);
+
+    await getOwnedSchedulingPreset(userId, id);
+    await prisma.schedulingPreset.delete({
+      where: { id }
+    });
+
+    res.status(204).send();
+  })
+);
@@ -0,0 +1,126 @@
+import { Router } from "express";
+import { z } from "zod";
+import { getDeckAndDescendantIds } from "../decks/tree.js";
+import { AppError } from "../errors/app-error.js";
+import { prisma } from "../lib/prisma.js";
+import type { AuthenticatedLocals } from "../middleware/require-auth.js";
+import { getCardStateStats } from "../stats/cards.js";
+import { getRatingDistribution, getReviewHeatmap, getTrueRetention } from "../stats/reviews.js";
+import { getReviewTimeStats } from "../stats/time.js";
+import { asyncHandler } from "../utils/async-handler.js";
+
+const statsQuerySchema = z.object({
+  days: z.coerce.number().int().min(1).max(365).default(30),
+  deckId: z.string().min(1).optional()
+});
+
+const heatmapQuerySchema = statsQuerySchema.extend({
+  days: z.coerce.number().int().min(1).max(365).default(365)
+});
+
+const deckQuerySchema = statsQuerySchema.pick({ deckId: true });
+
+export const statsRouter = Router();
+
+// Stats for a deck include its sub-decks; without a deck they cover all of the user's decks.
+async function getStatsDeckIds(userId: string, deckId: string | undefined): Promise<string[] | undefined> {
+  if (!deckId) {
+    return undefined;
+  }
+
+  const deck = await prisma.deck.findFirst({
+    where: {
+      id: deckId,
+      userId
+    },
+    select: { id: true }
+  });
+  if (!deck) {
+    throw new AppError("Deck not found", 404);
+  }
+
+  return getDeckAndDescendantIds(userId, deck.id);
+}
+
+statsRouter.get(
+  "/time",
+  asyncHandler(async (req, res) => {
+    const userId = (res.locals as AuthenticatedLocals).auth.userId;
+    const { days, deckId } = statsQuerySchema.parse(req.query);
+
+    const stats = await getReviewTimeStats({
+      userId,
+      deckIds: await getStatsDeckIds(userId, deckId),
+      days,
+      now: new Date()
+    });
+
+    res.json(stats);
+  })
+);
+
+statsRouter.get(
+  "/heatmap",
+  asyncHandler(async (req, res) => {
+    const userId = (res.locals as AuthenticatedLocals).auth.userId;
+    const { days, deckId } = heatmapQuerySchema.parse(req.query);
+
+    const heatmap = await getReviewHeatmap({
+      userId,
+      deckIds: await getStatsDeckIds(userId, deckId),
+      days,
+      now: new Date()
+    });
+
+    res.json(heatmap);
+  })
+);
+
+statsRouter.get(
+  "/retention",
+  asyncHandler(async (req, res) => {
+    const userId = (res.locals as AuthenticatedLocals).auth.userId;
+    const { days, deckId } = statsQuerySchema.parse(req.query);
+
+    const retention = await getTrueRetention({
+      userId,
+      deckIds: await getStatsDeckIds(userId, deckId),
+      days,
+      now: new Date()
+    });
+
+    res.json(retention);
+  })
+);
+
+statsRouter.get(
+  "/ratings",
+  asyncHandler(async (req, res) => {
+    const userId = (res.locals as AuthenticatedLocals).auth.userId;
+    const { days, deckId } = statsQuerySchema.parse(req.query);
+
+    const ratings = await getRatingDistribution({
+      userId,
+      deckIds: await getStatsDeckIds(userId, deckId),
+      days,
+      now: new Date()
+    });
+
+    res.json(ratings);
+  })
+);
+
+statsRouter.get(
+  "/cards",
+  asyncHandler(async (req, res) => {
+    const userId = (res.locals as AuthenticatedLocals).auth.userId;
+    const { deckId } = deckQuerySchema.parse(req.query);
+
+    const cards = await getCardStateStats({
+      userId,
+      deckIds: await getStatsDeckIds(userId, deckId)
+    });
+
+    res.json(cards);
+  })
+);
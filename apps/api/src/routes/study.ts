@@ -1,20 +1,59 @@
-import { ReviewRating, type ScheduleState } from "@prisma/client";
+import {
+  CardType,
+  ReviewRating,
+  type LeechAction,
+  type Review,
+  type ScheduleState,
+  type SchedulingPreset
+} from "@prisma/client";
 import { Router } from "express";
 import { z } from "zod";
 import {
-  createEmptyCard,
-  fsrs,
-  Rating as FsrsRating,
-  State as FsrsState,
-  type Card as FsrsCard,
-  type Grade as FsrsGrade
-} from "ts-fsrs";
+  studyFilterIdParamsSchema,
+  studySettingsUpdateSchema,
+  tagExpressionSchema,
+  vacationSchema
+} from "@flashcards/shared";
 import { getPlanPolicy } from "../ai/policy.js";
 import { getStudyAiProvider, type StudyChatMessage } from "../ai/study-provider.js";
 import { ensureChatTurnAvailable, incrementChatTurns, isUsageLimitBypassedForEmail } from "../ai/usage.js";
+import { toStudyableCardFilter } from "../cards/availability.js";
+import { parseCardOcclusion, parseCardOptions, toCardStudyContent } from "../cards/notes.js";
+import { addTagToNoteCards, toTagFilter } from "../cards/tags.js";
+import { getDeckAndDescendantIds } from "../decks/tree.js";
 import { AppError } from "../errors/app-error.js";
 import { prisma } from "../lib/prisma.js";
 import type { AuthenticatedLocals } from "../middleware/require-auth.js";
+import { clampAnswerDuration, isSlowRecall, SLOW_RECALL_TAG } from "../study/answer-time.js";
+import { capDueAtForExam } from "../study/exam.js";
+import { getOwnedStudyFilter, toStudyFilterCardWhere, toStudyFilterResponse } from "../study/filters.js";
+import { balanceDueAt, getDueForecast } from "../study/forecast.js";
+import {
+  computeIntervalMinutes,
+  deriveEaseFactorFromDifficulty,
+  mapReviewRatingToFsrsRating,
+  toFsrsCard
+} from "../study/fsrs.js";
+import { isLeechLapse, markCardAsLeech } from "../study/leeches.js";
+import { getDailyLimits } from "../study/limits.js";
+import {
+  getElapsedDays,
+  getUserFsrsScheduler,
+  optimizeUserFsrsParameters,
+  toFsrsParametersResponse
+} from "../study/optimizer.js";
+import { toSchedulingSettings } from "../study/presets.js";
+import { loadDueQueue, mergeDueQueues, type QueueCard } from "../study/queue.js";
+import { toScheduleStateSnapshot, undoReview } from "../study/undo.js";
+import {
+  applyVacation,
+  clearVacation,
+  getActiveVacation,
+  getVacation,
+  postponePastVacation,
+  previewVacation
+} from "../study/vacation.js";
+import { hasEasyDays, parseWeekdayLoad, type VacationRange } from "../study/weekdays.js";
 import { asyncHandler } from "../utils/async-handler.js";
 
 const deckIdParamsSchema = z.object({
@@ -22,12 +61,44 @@ const deckIdParamsSchema = z.object({
 });
 
 const sessionQuerySchema = z.object({
-  limit: z.coerce.number().int().min(1).max(100).optional()
+  limit: z.coerce.number().int().min(1).max(100).optional(),
+  tags: tagExpressionSchema.optional(),
+  includeSubdecks: z
+    .enum(["true", "false"])
+    .default("false")
+    .transform((value) => value === "true")
+});
+
+const unifiedSessionQuerySchema = z.object({
+  limit: z.coerce.number().int().min(1).max(100).optional(),
+  order: z.enum(["due", "deck", "random"]).default("due")
+});
+
+const forecastQuerySchema = z.object({
+  days: z.coerce.number().int().min(1).max(365).default(30),
+  deckId: z.string().min(1).optional()
+});
+
+const filterSessionQuerySchema = z.object({
+  limit: z.coerce.number().int().min(1).max(500).optional()
 });
 
 const submitReviewBodySchema = z.object({
   cardId: z.string().min(1),
-  rating: z.nativeEnum(ReviewRating)
+  rating: z.nativeEnum(ReviewRating),
+  durationMs: z.number().int().min(0).optional(),
+  filterId: z.string().min(1).optional()
+});
+
+const reviewIdParamsSchema = z.object({
+  reviewId: z.string().min(1)
+});
+
+const submitChoiceBodySchema = z.object({
+  cardId: z.string().min(1),
+  optionIndex: z.number().int().min(0),
+  durationMs: z.number().int().min(0).optional(),
+  filterId: z.string().min(1).optional()
 });
 
 const chatMessageSchema = z.object({
@@ -38,7 +109,9 @@ const chatMessageSchema = z.object({
 const gradeAnswerBodySchema = z.object({
   cardId: z.string().min(1),
   userAnswer: z.string().trim().min(1).max(8000),
-  history: z.array(chatMessageSchema).max(20).optional()
+  history: z.array(chatMessageSchema).max(20).optional(),
+  durationMs: z.number().int().min(0).optional(),
+  filterId: z.string().min(1).optional()
 });
 
 const followUpBodySchema = z.object({
@@ -50,80 +123,25 @@ const followUpBodySchema = z.object({
   idealAnswer: z.string().trim().min(1).max(5000).optional()
 });
 
-const MIN_INTERVAL_MINUTES = 1;
-const MIN_EASE_FACTOR = 1.3;
-const fsrsScheduler = fsrs({
-  enable_fuzz: false,
-  enable_short_term: true
+const rewriteCardBodySchema = z.object({
+  cardId: z.string().min(1)
 });
-const studyAiProvider = getStudyAiProvider();
 
-function normalizeFsrsState(value: number): FsrsState {
-  if (value === FsrsState.New || value === FsrsState.Learning || value === FsrsState.Review || value === FsrsState.Relearning) {
-    return value;
-  }
-  return FsrsState.New;
-}
-
-function mapReviewRatingToFsrsRating(rating: ReviewRating): FsrsGrade {
-  if (rating === ReviewRating.AGAIN) {
-    return FsrsRating.Again;
-  }
-  if (rating === ReviewRating.HARD) {
-    return FsrsRating.Hard;
-  }
-  if (rating === ReviewRating.GOOD) {
-    return FsrsRating.Good;
-  }
-  return FsrsRating.Easy;
-}
+const studyAiProvider = getStudyAiProvider();
 
-function toFsrsCard(scheduleState: ScheduleState | null, now: Date): FsrsCard {
-  if (!scheduleState) {
-    return createEmptyCard(now);
-  }
+// Multiple-choice answers are graded against the stored correct option, so they cannot be self-rated.
+const MULTIPLE_CHOICE_REVIEW_ERROR = "Multiple-choice cards are answered through /study/choice";
 
-  const hasFsrsState = scheduleState.fsrsStability > 0 && scheduleState.fsrsDifficulty > 0;
-  if (!hasFsrsState) {
-    const inferredState = scheduleState.repetitions > 0 ? FsrsState.Review : FsrsState.New;
-    const inferredScheduledDays = Math.max(0, Math.round(scheduleState.intervalMinutes / (24 * 60)));
-    return {
-      due: scheduleState.dueAt,
-      stability: Math.max(0.1, inferredScheduledDays || 0.1),
-      difficulty: 5,
-      elapsed_days: 0,
-      scheduled_days: inferredScheduledDays,
-      learning_steps: 0,
-      reps: scheduleState.repetitions,
-      lapses: 0,
-      state: inferredState,
-      last_review: scheduleState.lastReviewedAt ?? undefined
-    };
-  }
+const studySettingsSelect = { dayStartHour: true, timeZone: true, weekdayLoad: true } as const;
 
+function toStudySettingsResponse(settings: { dayStartHour: number; timeZone: string; weekdayLoad: string }) {
   return {
-    due: scheduleState.dueAt,
-    stability: scheduleState.fsrsStability,
-    difficulty: scheduleState.fsrsDifficulty,
-    elapsed_days: scheduleState.fsrsElapsedDays,
-    scheduled_days: scheduleState.fsrsScheduledDays,
-    learning_steps: scheduleState.fsrsLearningSteps,
-    reps: scheduleState.repetitions,
-    lapses: scheduleState.fsrsLapses,
-    state: normalizeFsrsState(scheduleState.fsrsState),
-    last_review: scheduleState.lastReviewedAt ?? undefined
+    dayStartHour: settings.dayStartHour,
+    timeZone: settings.timeZone,
+    weekdayLoad: parseWeekdayLoad(settings.weekdayLoad)
   };
 }
 
-function computeIntervalMinutes(from: Date, to: Date): number {
-  return Math.max(MIN_INTERVAL_MINUTES, Math.round((to.getTime() - from.getTime()) / (60 * 1000)));
-}
-
-function deriveEaseFactorFromDifficulty(difficulty: number): number {
-  const derived = (11 - difficulty) / 4;
-  return Math.max(MIN_EASE_FACTOR, Math.round(derived * 1000) / 1000);
-}
-
 function mapScoreToReviewRating(score: number): ReviewRating {
   if (score < 40) {
     return ReviewRating.AGAIN;
@@ -150,10 +168,19 @@ async function getOwnedCardForStudy(userId: string, cardId: string) {
       deck: {
         select: {
           id: true,
+          preset: true,
+          leechThreshold: true,
+          leechAction: true,
+          examDate: true,
+          examMinReviews: true,
+          slowRecallSeconds: true,
           user: {
             select: {
               plan: true,
-              email: true
+              email: true,
+              weekdayLoad: true,
+              vacationStartDate: true,
+              vacationEndDate: true
             }
           }
         }
@@ -169,21 +196,150 @@ function toStudyHistoryMessages(history: Array<{ role: "user" | "assistant"; con
   }));
 }
 
+function toSessionCard(card: QueueCard) {
+  return {
+    id: card.id,
+    deckId: card.deckId,
+    type: card.type,
+    format: card.format,
+    ordinal: card.ordinal,
+    ...toCardStudyContent(card),
+    // The correct option and its index are only revealed after a choice is submitted.
+    ...(card.type === CardType.MULTIPLE_CHOICE ? { answer: "" } : {}),
+    options: card.type === CardType.MULTIPLE_CHOICE ? parseCardOptions(card.options) : null,
+    occlusion: card.type === CardType.IMAGE_OCCLUSION ? parseCardOcclusion(card.occlusion) : null,
+    scheduleState: card.scheduleState
+      ? {
+          dueAt: card.scheduleState.dueAt,
+          lastReviewedAt: card.scheduleState.lastReviewedAt,
+          intervalMinutes: card.scheduleState.intervalMinutes,
+          repetitions: card.scheduleState.repetitions,
+          easeFactor: card.scheduleState.easeFactor,
+          fsrsState: card.scheduleState.fsrsState,
+          fsrsDifficulty: card.scheduleState.fsrsDifficulty,
+          fsrsStability: card.scheduleState.fsrsStability,
+          fsrsScheduledDays: card.scheduleState.fsrsScheduledDays
+        }
+      : null
+  };
+}
+
+function toReviewScheduleStateResponse(scheduleState: ScheduleState | null) {
+  return scheduleState
+    ? {
+        dueAt: scheduleState.dueAt,
+        lastReviewedAt: scheduleState.lastReviewedAt,
+        intervalMinutes: scheduleState.intervalMinutes,
+        repetitions: scheduleState.repetitions,
+        easeFactor: scheduleState.easeFactor
+      }
+    : null;
+}
+
+function toReviewResponse(review: Review | null) {
+  return review
+    ? {
+        id: review.id,
+        previousDueAt: review.previousDueAt,
+        scheduledDueAt: review.scheduledDueAt,
+        previousInterval: review.previousInterval,
+        nextInterval: review.nextInterval,
+        durationMs: review.durationMs,
+        createdAt: review.createdAt
+      }
+    : null;
+}
+
+// Answers given in a custom study session only touch FSRS when its filter allows rescheduling.
+async function shouldRescheduleForFilter(userId: string, filterId: string | undefined): Promise<boolean> {
+  if (!filterId) {
+    return true;
+  }
+  const filter = await getOwnedStudyFilter(userId, filterId);
+  return filter.reschedule;
+}
+
 async function applyReviewForCard(input: {
   cardId: string;
+  noteId: string | null;
   deckId: string;
   userId: string;
   scheduleState: ScheduleState | null;
+  preset: SchedulingPreset | null;
+  leechThreshold: number;
+  leechAction: LeechAction;
+  examDate: Date | null;
+  examMinReviews: number;
+  weekdayLoad: string;
+  vacation: VacationRange | null;
+  slowRecallSeconds: number | null;
   rating: ReviewRating;
+  durationMs: number | undefined;
+  reschedule: boolean;
   now: Date;
 }) {
+  // A practice answer is still logged for history and study time, but leaves the schedule, leech count and tags alone.
+  if (!input.reschedule) {
+    const dueAt = input.scheduleState?.dueAt ?? input.now;
+    const interval = input.scheduleState?.intervalMinutes ?? 0;
+    const review = await prisma.review.create({
+      data: {
+        userId: input.userId,
+        deckId: input.deckId,
+        cardId: input.cardId,
+        rating: input.rating,
+        previousDueAt: input.scheduleState?.dueAt ?? null,
+        scheduledDueAt: dueAt,
+        previousInterval: interval,
+        nextInterval: interval,
+        elapsedDays: getElapsedDays(input.scheduleState?.lastReviewedAt, input.now),
+        durationMs: clampAnswerDuration(input.durationMs),
+        previousScheduleState: toScheduleStateSnapshot(input.scheduleState),
+        rescheduled: false
+      }
+    });
+    return {
+      scheduleState: input.scheduleState,
+      review,
+      isLeech: false,
+      isSlowRecall: false
+    };
+  }
+
   const fsrsCard = toFsrsCard(input.scheduleState, input.now);
-  const fsrsResult = fsrsScheduler.next(fsrsCard, input.now, mapReviewRatingToFsrsRating(input.rating));
+  const schedulingSettings = toSchedulingSettings(input.preset);
+  const scheduler = await getUserFsrsScheduler(input.userId, schedulingSettings);
+  const fsrsResult = scheduler.next(fsrsCard, input.now, mapReviewRatingToFsrsRating(input.rating));
   const nextCard = fsrsResult.card;
-  const nextIntervalMinutes = computeIntervalMinutes(input.now, nextCard.due);
+  const weekdayLoad = parseWeekdayLoad(input.weekdayLoad);
+  // Easy days and vacations only work by moving reviews, so they turn on balancing even where the preset leaves it off.
+  const balanced =
+    schedulingSettings?.enableLoadBalance || hasEasyDays(weekdayLoad) || input.vacation
+      ? await balanceDueAt({
+          userId: input.userId,
+          cardId: input.cardId,
+          dueAt: nextCard.due,
+          scheduledDays: nextCard.scheduled_days,
+          elapsedDays: nextCard.elapsed_days,
+          maximumInterval: schedulingSettings?.maximumInterval,
+          weekdayLoad,
+          vacation: input.vacation
+        })
+      : { dueAt: nextCard.due, scheduledDays: nextCard.scheduled_days };
+  const nextDueAt = capDueAtForExam({
+    dueAt: postponePastVacation(balanced.dueAt, balanced.scheduledDays, input.vacation),
+    now: input.now,
+    examDate: input.examDate,
+    examMinReviews: input.examMinReviews,
+    repetitions: nextCard.reps
+  });
+  const nextIntervalMinutes = computeIntervalMinutes(input.now, nextDueAt);
+  const nextScheduledDays =
+    nextDueAt === balanced.dueAt ? balanced.scheduledDays : Math.floor(nextIntervalMinutes / (24 * 60));
   const previousDueAt = input.scheduleState?.dueAt ?? null;
   const previousInterval = input.scheduleState?.intervalMinutes ?? 0;
   const nextEaseFactor = deriveEaseFactorFromDifficulty(nextCard.difficulty);
+  const durationMs = clampAnswerDuration(input.durationMs);
 
   return prisma.$transaction(async (tx) => {
     const scheduleState = await tx.scheduleState.upsert({
@@ -191,7 +347,7 @@ async function applyReviewForCard(input: {
         cardId: input.cardId
       },
       update: {
-        dueAt: nextCard.due,
+        dueAt: nextDueAt,
         lastReviewedAt: input.now,
         intervalMinutes: nextIntervalMinutes,
         repetitions: nextCard.reps,
@@ -200,13 +356,13 @@ async function applyReviewForCard(input: {
         fsrsStability: nextCard.stability,
         fsrsDifficulty: nextCard.difficulty,
         fsrsElapsedDays: nextCard.elapsed_days,
-        fsrsScheduledDays: nextCard.scheduled_days,
+        fsrsScheduledDays: nextScheduledDays,
         fsrsLearningSteps: nextCard.learning_steps,
         fsrsLapses: nextCard.lapses
       },
       create: {
         cardId: input.cardId,
-        dueAt: nextCard.due,
+        dueAt: nextDueAt,
         lastReviewedAt: input.now,
         intervalMinutes: nextIntervalMinutes,
         repetitions: nextCard.reps,
@@ -215,12 +371,22 @@ async function applyReviewForCard(input: {
         fsrsStability: nextCard.stability,
         fsrsDifficulty: nextCard.difficulty,
         fsrsElapsedDays: nextCard.elapsed_days,
-        fsrsScheduledDays: nextCard.scheduled_days,
+        fsrsScheduledDays: nextScheduledDays,
         fsrsLearningSteps: nextCard.learning_steps,
         fsrsLapses: nextCard.lapses
       }
     });
 
+    const isLeech = isLeechLapse(input.scheduleState?.fsrsLapses ?? 0, nextCard.lapses, input.leechThreshold);
+    const leechApplied = isLeech
+      ? await markCardAsLeech(tx, input.userId, { id: input.cardId, noteId: input.noteId }, input.leechAction)
+      : { tagged: false, suspended: false };
+
+    const slowRecall = isSlowRecall(input.rating, durationMs, input.slowRecallSeconds);
+    const slowRecallTagged = slowRecall
+      ? await addTagToNoteCards(tx, input.userId, { id: input.cardId, noteId: input.noteId }, SLOW_RECALL_TAG)
+      : false;
+
     const review = await tx.review.create({
       data: {
         userId: input.userId,
@@ -228,15 +394,23 @@ async function applyReviewForCard(input: {
         cardId: input.cardId,
         rating: input.rating,
         previousDueAt,
-        scheduledDueAt: nextCard.due,
+        scheduledDueAt: nextDueAt,
         previousInterval,
-        nextInterval: nextIntervalMinutes
+        nextInterval: nextIntervalMinutes,
+        elapsedDays: getElapsedDays(input.scheduleState?.lastReviewedAt, input.now),
+        durationMs,
+        previousScheduleState: toScheduleStateSnapshot(input.scheduleState),
+        leechTagged: leechApplied.tagged,
+        leechSuspended: leechApplied.suspended,
+        slowRecallTagged
       }
     });
 
     return {
       scheduleState,
-      review
+      review,
+      isLeech,
+      isSlowRecall: slowRecall
     };
   });
 }
@@ -248,7 +422,8 @@ studyRouter.get(
   asyncHandler(async (req, res) => {
     const userId = (res.locals as AuthenticatedLocals).auth.userId;
     const { deckId } = deckIdParamsSchema.parse(req.params);
-    const { limit } = sessionQuerySchema.parse(req.query);
+    const { limit, tags, includeSubdecks } = sessionQuerySchema.parse(req.query);
+    const tagFilter = toTagFilter(tags);
     const take = limit ?? 20;
     const now = new Date();
 
@@ -260,7 +435,9 @@ studyRouter.get(
       select: {
         id: true,
         title: true,
-        description: true
+        description: true,
+        newCardsPerDay: true,
+        reviewsPerDay: true
       }
     });
 
@@ -268,137 +445,270 @@ studyRouter.get(
       throw new AppError("Deck not found", 404);
     }
 
-    const [dueScheduledCards, dueUnscheduledCards] = await Promise.all([
-      prisma.card.findMany({
-        where: {
-          deckId,
-          deck: {
-            userId
-          },
-          scheduleState: {
-            is: {
-              dueAt: {
-                lte: now
-              }
-            }
-          }
-        },
-        include: {
-          scheduleState: true
+    const deckIds = includeSubdecks ? await getDeckAndDescendantIds(userId, deckId) : [deckId];
+    // With sub-decks included, the selected deck's limits cover the whole session.
+    const dailyLimits = await getDailyLimits({
+      userId,
+      deckIds,
+      newCardsPerDay: deck.newCardsPerDay,
+      reviewsPerDay: deck.reviewsPerDay,
+      now
+    });
+    const queue = await loadDueQueue({
+      cardsWhere: {
+        deckId: {
+          in: deckIds
         },
-        orderBy: {
-          scheduleState: {
-            dueAt: "asc"
-          }
+        deck: {
+          userId
         },
-        take
-      }),
-      prisma.card.findMany({
-        where: {
-          deckId,
-          deck: {
-            userId
+        ...tagFilter,
+        ...toStudyableCardFilter(now)
+      },
+      dailyLimits,
+      take,
+      now
+    });
+
+    res.json({
+      deck: {
+        id: deck.id,
+        title: deck.title,
+        description: deck.description
+      },
+      dueNowCount: queue.dueNowCount,
+      nextDueAt: queue.nextDueAt,
+      dailyLimits,
+      cards: queue.cards.map(toSessionCard)
+    });
+  })
+);
+
+// Every deck keeps its own daily limits, so studying everything serves the same cards as studying each deck in turn.
+studyRouter.get(
+  "/session",
+  asyncHandler(async (req, res) => {
+    const userId = (res.locals as AuthenticatedLocals).auth.userId;
+    const { limit, order } = unifiedSessionQuerySchema.parse(req.query);
+    const take = limit ?? 20;
+    const now = new Date();
+
+    const decks = await prisma.deck.findMany({
+      where: { userId },
+      select: {
+        id: true,
+        title: true,
+        studyPriority: true,
+        newCardsPerDay: true,
+        reviewsPerDay: true
+      },
+      orderBy: [{ studyPriority: "desc" }, { title: "asc" }]
+    });
+
+    const deckQueues = await Promise.all(
+      decks.map(async (deck) => {
+        const dailyLimits = await getDailyLimits({
+          userId,
+          deckIds: [deck.id],
+          newCardsPerDay: deck.newCardsPerDay,
+          reviewsPerDay: deck.reviewsPerDay,
+          now
+        });
+        return loadDueQueue({
+          cardsWhere: {
+            deckId: deck.id,
+            ...toStudyableCardFilter(now)
           },
-          scheduleState: {
-            is: null
-          }
-        },
-        include: {
-          scheduleState: true
-        },
-        orderBy: {
-          createdAt: "asc"
-        },
-        take
+          dailyLimits,
+          take,
+          now
+        });
       })
-    ]);
+    );
+    const nextDueTimes = deckQueues.flatMap((queue) => (queue.nextDueAt ? [queue.nextDueAt.getTime()] : []));
 
-    const combinedDueCards = [...dueScheduledCards];
-    for (const card of dueUnscheduledCards) {
-      if (combinedDueCards.length >= take) {
-        break;
-      }
-      if (combinedDueCards.some((candidate) => candidate.id === card.id)) {
-        continue;
-      }
-      combinedDueCards.push(card);
-    }
+    res.json({
+      order,
+      decks: decks.map((deck, index) => ({
+        id: deck.id,
+        title: deck.title,
+        studyPriority: deck.studyPriority,
+        dueNowCount: deckQueues[index].dueNowCount
+      })),
+      dueNowCount: deckQueues.reduce((total, queue) => total + queue.dueNowCount, 0),
+      nextDueAt: nextDueTimes.length > 0 ? new Date(Math.min(...nextDueTimes)) : null,
+      cards: mergeDueQueues(
+        deckQueues.map((queue) => queue.cards),
+        order,
+        take
+      ).map(toSessionCard)
+    });
+  })
+);
+
+studyRouter.get(
+  "/filters/:id/session",
+  asyncHandler(async (req, res) => {
+    const userId = (res.locals as AuthenticatedLocals).auth.userId;
+    const { id } = studyFilterIdParamsSchema.parse(req.params);
+    const { limit } = filterSessionQuerySchema.parse(req.query);
+    const now = new Date();
 
-    const [dueScheduledCount, dueUnscheduledCount, nextDueCard] = await Promise.all([
+    const filter = await getOwnedStudyFilter(userId, id);
+    const filterCardsWhere = await toStudyFilterCardWhere(userId, filter, now);
+
+    // Custom sessions ignore due dates and daily limits; the filter's card limit caps them instead.
+    const [matchingCount, cards] = await Promise.all([
       prisma.card.count({
-        where: {
-          deckId,
-          deck: {
-            userId
-          },
-          scheduleState: {
-            is: {
-              dueAt: {
-                lte: now
-              }
-            }
-          }
-        }
+        where: filterCardsWhere
       }),
-      prisma.card.count({
-        where: {
-          deckId,
-          deck: {
-            userId
-          },
-          scheduleState: {
-            is: null
-          }
-        }
-      }),
-      prisma.card.findFirst({
-        where: {
-          deckId,
-          deck: {
-            userId
-          },
-          scheduleState: {
-            is: {
-              dueAt: {
-                gt: now
-              }
-            }
-          }
-        },
+      prisma.card.findMany({
+        where: filterCardsWhere,
         include: {
           scheduleState: true
         },
-        orderBy: {
-          scheduleState: {
-            dueAt: "asc"
-          }
-        }
+        orderBy: [{ scheduleState: { dueAt: "asc" } }, { createdAt: "asc" }, { ordinal: "asc" }],
+        take: Math.min(limit ?? filter.cardLimit, filter.cardLimit)
       })
     ]);
 
     res.json({
-      deck,
-      dueNowCount: dueScheduledCount + dueUnscheduledCount,
-      nextDueAt: nextDueCard?.scheduleState?.dueAt ?? null,
-      cards: combinedDueCards.map((card) => ({
-        id: card.id,
-        question: card.question,
-        answer: card.answer,
-        scheduleState: card.scheduleState
-          ? {
-              dueAt: card.scheduleState.dueAt,
-              lastReviewedAt: card.scheduleState.lastReviewedAt,
-              intervalMinutes: card.scheduleState.intervalMinutes,
-              repetitions: card.scheduleState.repetitions,
-              easeFactor: card.scheduleState.easeFactor,
-              fsrsState: card.scheduleState.fsrsState,
-              fsrsDifficulty: card.scheduleState.fsrsDifficulty,
-              fsrsStability: card.scheduleState.fsrsStability,
-              fsrsScheduledDays: card.scheduleState.fsrsScheduledDays
-            }
-          : null
-      }))
+      filter: toStudyFilterResponse(filter),
+      dueNowCount: Math.min(matchingCount, filter.cardLimit),
+      nextDueAt: null,
+      cards: cards.map(toSessionCard)
+    });
+  })
+);
+
+studyRouter.get(
+  "/settings",
+  asyncHandler(async (_req, res) => {
+    const userId = (res.locals as AuthenticatedLocals).auth.userId;
+    const settings = await prisma.user.findUniqueOrThrow({
+      where: { id: userId },
+      select: studySettingsSelect
     });
+
+    res.json(toStudySettingsResponse(settings));
+  })
+);
+
+studyRouter.patch(
+  "/settings",
+  asyncHandler(async (req, res) => {
+    const userId = (res.locals as AuthenticatedLocals).auth.userId;
+    const payload = studySettingsUpdateSchema.parse(req.body);
+
+    const { weekdayLoad, ...fields } = payload;
+    const settings = await prisma.user.update({
+      where: { id: userId },
+      data: {
+        ...fields,
+        ...(weekdayLoad !== undefined ? { weekdayLoad: JSON.stringify(weekdayLoad) } : {})
+      },
+      select: studySettingsSelect
+    });
+
+    res.json(toStudySettingsResponse(settings));
+  })
+);
+
+studyRouter.post(
+  "/vacation/preview",
+  asyncHandler(async (req, res) => {
+    const userId = (res.locals as AuthenticatedLocals).auth.userId;
+    const payload = vacationSchema.parse(req.body);
+
+    const preview = await previewVacation(userId, payload, new Date());
+
+    res.json(preview);
+  })
+);
+
+studyRouter.post(
+  "/vacation",
+  asyncHandler(async (req, res) => {
+    const userId = (res.locals as AuthenticatedLocals).auth.userId;
+    const payload = vacationSchema.parse(req.body);
+
+    const result = await applyVacation(userId, payload, new Date());
+
+    res.json(result);
+  })
+);
+
+studyRouter.get(
+  "/vacation",
+  asyncHandler(async (_req, res) => {
+    const userId = (res.locals as AuthenticatedLocals).auth.userId;
+
+    const vacation = await getVacation(userId, new Date());
+
+    res.json(vacation);
+  })
+);
+
+studyRouter.delete(
+  "/vacation",
+  asyncHandler(async (_req, res) => {
+    const userId = (res.locals as AuthenticatedLocals).auth.userId;
+
+    await clearVacation(userId);
+
+    res.status(204).send();
+  })
+);
+
+studyRouter.get(
+  "/forecast",
+  asyncHandler(async (req, res) => {
+    const userId = (res.locals as AuthenticatedLocals).auth.userId;
+    const { days, deckId } = forecastQuerySchema.parse(req.query);
+
+    if (deckId) {
+      const deck = await prisma.deck.findFirst({
+        where: {
+          id: deckId,
+          userId
+        },
+        select: { id: true }
+      });
+      if (!deck) {
+        throw new AppError("Deck not found", 404);
+      }
+    }
+
+    const forecast = await getDueForecast({
+      userId,
+      deckIds: deckId ? await getDeckAndDescendantIds(userId, deckId) : undefined,
+      days,
+      now: new Date()
+    });
+
+    res.json(forecast);
+  })
+);
+
+studyRouter.get(
+  "/parameters",
+  asyncHandler(async (_req, res) => {
+    const userId = (res.locals as AuthenticatedLocals).auth.userId;
+    const parameters = await prisma.fsrsParameters.findUnique({
+      where: { userId }
+    });
+
+    res.json(toFsrsParametersResponse(parameters));
+  })
+);
+
+studyRouter.post(
+  "/parameters/optimize",
+  asyncHandler(async (_req, res) => {
+    const userId = (res.locals as AuthenticatedLocals).auth.userId;
+    const parameters = await optimizeUserFsrsParameters(userId);
+
+    res.status(201).json(toFsrsParametersResponse(parameters));
   })
 );
 
@@ -414,34 +724,114 @@ studyRouter.post(
     if (!card) {
       throw new AppError("Card not found", 404);
     }
+    if (card.type === CardType.MULTIPLE_CHOICE) {
+      throw new AppError(MULTIPLE_CHOICE_REVIEW_ERROR, 400);
+    }
 
+    const reschedule = await shouldRescheduleForFilter(userId, payload.filterId);
     const result = await applyReviewForCard({
       cardId: card.id,
+      noteId: card.noteId,
       deckId: card.deck.id,
       userId,
       scheduleState: card.scheduleState,
+      preset: card.deck.preset,
+      leechThreshold: card.deck.leechThreshold,
+      leechAction: card.deck.leechAction,
+      examDate: card.deck.examDate,
+      examMinReviews: card.deck.examMinReviews,
+      weekdayLoad: card.deck.user.weekdayLoad,
+      vacation: getActiveVacation(card.deck.user, now),
+      slowRecallSeconds: card.deck.slowRecallSeconds,
       rating: payload.rating,
+      durationMs: payload.durationMs,
+      reschedule,
       now
     });
 
     res.status(201).json({
       cardId: card.id,
       rating: payload.rating,
-      scheduleState: {
-        dueAt: result.scheduleState.dueAt,
-        lastReviewedAt: result.scheduleState.lastReviewedAt,
-        intervalMinutes: result.scheduleState.intervalMinutes,
-        repetitions: result.scheduleState.repetitions,
-        easeFactor: result.scheduleState.easeFactor
-      },
-      review: {
-        id: result.review.id,
-        previousDueAt: result.review.previousDueAt,
-        scheduledDueAt: result.review.scheduledDueAt,
-        previousInterval: result.review.previousInterval,
-        nextInterval: result.review.nextInterval,
-        createdAt: result.review.createdAt
-      }
+      scheduleState: toReviewScheduleStateResponse(result.scheduleState),
+      review: toReviewResponse(result.review),
+      leech: result.isLeech,
+      slowRecall: result.isSlowRecall,
+      rescheduled: reschedule
+    });
+  })
+);
+
+studyRouter.post(
+  "/review/:reviewId/undo",
+  asyncHandler(async (req, res) => {
+    const userId = (res.locals as AuthenticatedLocals).auth.userId;
+    const { reviewId } = reviewIdParamsSchema.parse(req.params);
+
+    const result = await undoReview(userId, reviewId);
+
+    res.json({
+      reviewId,
+      cardId: result.cardId,
+      scheduleState: toReviewScheduleStateResponse(result.scheduleState)
+    });
+  })
+);
+
+studyRouter.post(
+  "/choice",
+  asyncHandler(async (req, res) => {
+    const userId = (res.locals as AuthenticatedLocals).auth.userId;
+    const payload = submitChoiceBodySchema.parse(req.body);
+    const now = new Date();
+
+    const card = await getOwnedCardForStudy(userId, payload.cardId);
+
+    if (!card) {
+      throw new AppError("Card not found", 404);
+    }
+
+    if (card.type !== CardType.MULTIPLE_CHOICE || card.correctOptionIndex === null) {
+      throw new AppError("Card is not a multiple-choice card", 400);
+    }
+
+    if (payload.optionIndex >= parseCardOptions(card.options).length) {
+      throw new AppError("Option index is out of range", 400);
+    }
+
+    const reschedule = await shouldRescheduleForFilter(userId, payload.filterId);
+    const correct = payload.optionIndex === card.correctOptionIndex;
+    const rating = correct ? ReviewRating.GOOD : ReviewRating.AGAIN;
+    const result = await applyReviewForCard({
+      cardId: card.id,
+      noteId: card.noteId,
+      deckId: card.deck.id,
+      userId,
+      scheduleState: card.scheduleState,
+      preset: card.deck.preset,
+      leechThreshold: card.deck.leechThreshold,
+      leechAction: card.deck.leechAction,
+      examDate: card.deck.examDate,
+      examMinReviews: card.deck.examMinReviews,
+      weekdayLoad: card.deck.user.weekdayLoad,
+      vacation: getActiveVacation(card.deck.user, now),
+      slowRecallSeconds: card.deck.slowRecallSeconds,
+      rating,
+      durationMs: payload.durationMs,
+      reschedule,
+      now
+    });
+
+    res.status(201).json({
+      cardId: card.id,
+      correct,
+      correctOptionIndex: card.correctOptionIndex,
+      answer: toCardStudyContent(card).answer,
+      rating,
+      scheduleState: toReviewScheduleStateResponse(result.scheduleState),
+      review: toReviewResponse(result.review),
+      leech: result.isLeech,
+      slowRecall: result.isSlowRecall,
+      rescheduled: reschedule
     });
   })
 );
@@ -457,6 +847,7 @@ studyRouter.post(
       throw new AppError("Card not found", 404);
     }
 
+    const reschedule = await shouldRescheduleForFilter(userId, payload.filterId);
     const planPolicy = getPlanPolicy(card.deck.user.plan);
     const bypassUsageLimit = isUsageLimitBypassedForEmail(card.deck.user.email);
     const quotaCheck = await ensureChatTurnAvailable(userId, planPolicy.monthlyChatTurns, {
@@ -466,9 +857,10 @@ studyRouter.post(
       throw new AppError("Monthly AI chat turn limit reached for current plan", 403);
     }
 
+    const content = toCardStudyContent(card);
     const grading = await studyAiProvider.gradeAnswer({
-      question: card.question,
-      expectedAnswer: card.answer,
+      question: content.question,
+      expectedAnswer: content.answer,
       userAnswer: payload.userAnswer,
       history: toStudyHistoryMessages(payload.history),
       model: planPolicy.gradingChatModel
@@ -478,10 +870,21 @@ studyRouter.post(
     const now = new Date();
     const result = await applyReviewForCard({
       cardId: card.id,
+      noteId: card.noteId,
       deckId: card.deck.id,
       userId,
       scheduleState: card.scheduleState,
+      preset: card.deck.preset,
+      leechThreshold: card.deck.leechThreshold,
+      leechAction: card.deck.leechAction,
+      examDate: card.deck.examDate,
+      examMinReviews: card.deck.examMinReviews,
+      weekdayLoad: card.deck.user.weekdayLoad,
+      vacation: getActiveVacation(card.deck.user, now),
+      slowRecallSeconds: card.deck.slowRecallSeconds,
       rating,
+      durationMs: payload.durationMs,
+      reschedule,
       now
     });
     const usage = await incrementChatTurns(userId, 1, {
@@ -497,21 +900,11 @@ studyRouter.post(
         idealAnswer: grading.idealAnswer,
         assistantReply: grading.assistantReply
       },
-      scheduleState: {
-        dueAt: result.scheduleState.dueAt,
-        lastReviewedAt: result.scheduleState.lastReviewedAt,
-        intervalMinutes: result.scheduleState.intervalMinutes,
-        repetitions: result.scheduleState.repetitions,
-        easeFactor: result.scheduleState.easeFactor
-      },
-      review: {
-        id: result.review.id,
-        previousDueAt: result.review.previousDueAt,
-        scheduledDueAt: result.review.scheduledDueAt,
-        previousInterval: result.review.previousInterval,
-        nextInterval: result.review.nextInterval,
-        createdAt: result.review.createdAt
-      },
+      scheduleState: toReviewScheduleStateResponse(result.scheduleState),
+      review: toReviewResponse(result.review),
+      leech: result.isLeech,
+      slowRecall: result.isSlowRecall,
+      rescheduled: reschedule,
       usage: {
         chatTurns: usage.chatTurns,
         remainingMonthlyChatTurns: bypassUsageLimit ? null : Math.max(0, planPolicy.monthlyChatTurns - usage.chatTurns)
@@ -540,9 +933,10 @@ studyRouter.post(
       throw new AppError("Monthly AI chat turn limit reached for current plan", 403);
     }
 
+    const content = toCardStudyContent(card);
     const assistantMessage = await studyAiProvider.followUp({
-      question: card.question,
-      expectedAnswer: card.answer,
+      question: content.question,
+      expectedAnswer: content.answer,
       userMessage: payload.userMessage,
       history: toStudyHistoryMessages(payload.history),
       userAnswer: payload.userAnswer,
@@ -564,3 +958,47 @@ studyRouter.post(
     });
   })
 );
+
+studyRouter.post(
+  "/rewrite",
+  asyncHandler(async (req, res) => {
+    const userId = (res.locals as AuthenticatedLocals).auth.userId;
+    const payload = rewriteCardBodySchema.parse(req.body);
+    const card = await getOwnedCardForStudy(userId, payload.cardId);
+
+    if (!card) {
+      throw new AppError("Card not found", 404);
+    }
+
+    const planPolicy = getPlanPolicy(card.deck.user.plan);
+    const bypassUsageLimit = isUsageLimitBypassedForEmail(card.deck.user.email);
+    const quotaCheck = await ensureChatTurnAvailable(userId, planPolicy.monthlyChatTurns, {
+      bypassLimit: bypassUsageLimit
+    });
+    if (!quotaCheck.allowed) {
+      throw new AppError("Monthly AI chat turn limit reached for current plan", 403);
+    }
+
+    const content = toCardStudyContent(card);
+    const lapses = card.scheduleState?.fsrsLapses ?? 0;
+    const suggestions = await studyAiProvider.rewriteCard({
+      question: content.question,
+      answer: content.answer,
+      lapses,
+      model: planPolicy.gradingChatModel
+    });
+    const usage = await incrementChatTurns(userId, 1, {
+      bypassLimit: bypassUsageLimit
+    });
+
+    res.json({
+      cardId: card.id,
+      lapses,
+      suggestions,
+      usage: {
+        chatTurns: usage.chatTurns,
+        remainingMonthlyChatTurns: bypassUsageLimit ? null : Math.max(0, planPolicy.monthlyChatTurns - usage.chatTurns)
+      }
+    });
+  })
+);
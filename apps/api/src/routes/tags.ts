@@ -0,0 +1,120 @@
+import { Router } from "express";
+import { tagCreateSchema, tagIdParamsSchema, tagUpdateSchema } from "@flashcards/shared";
+import { AppError } from "../errors/app-error.js";
+import { prisma } from "../lib/prisma.js";
+import type { AuthenticatedLocals } from "../middleware/require-auth.js";
+import { asyncHandler } from "../utils/async-handler.js";
+
+export const tagsRouter = Router();
+
+async function getOwnedTag(userId: string, id: string) {
+  const tag = await prisma.tag.findFirst({
+    where: {
+      id,
+      userId
+    },
+    select: { id: true, name: true }
+  });
+
+  if (!tag) {
+    throw new AppError("Tag not found", 404);
+  }
+
+  return tag;
+}
+
+async function ensureTagNameAvailable(userId: string, name: string) {
+  const existing = await prisma.tag.findUnique({
+    where: {
+      userId_name: { userId, name }
+    },
+    select: { id: true }
+  });
+
+  if (existing) {
+    throw new AppError("Tag already exists", 409);
+  }
+}
+
+tagsRouter.get(
+  "/",
+  asyncHandler(async (_req, res) => {
+    const userId = (res.locals as AuthenticatedLocals).auth.userId;
+
+    const tags = await prisma.tag.findMany({
+      where: { userId },
+      orderBy: { name: "asc" },
+      include: {
+        _count: {
+          select: { cards: true }
+        }
+      }
+    });
+
+    res.json(
+      tags.map((tag) => ({
+        id: tag.id,
+        name: tag.name,
+        createdAt: tag.createdAt,
+        cardCount: tag._count.cards
+      }))
+    );
+  })
+);
+
+tagsRouter.post(
+  "/",
+  asyncHandler(async (req, res) => {
+    const userId = (res.locals as AuthenticatedLocals).auth.userId;
+    const payload = tagCreateSchema.parse(req.body);
+
+    await ensureTagNameAvailable(userId, payload.name);
+
+    const tag = await prisma.tag.create({
+      data: {
+        userId,
+        name: payload.name
+      }
+    });
+
+    res.status(201).json(tag);
+  })
+);
+
+tagsRouter.patch(
+  "/:id",
+  asyncHandler(async (req, res) => {
+    const userId = (res.locals as AuthenticatedLocals).auth.userId;
+    const { id } = tagIdParamsSchema.parse(req.params);
+    const payload = tagUpdateSchema.parse(req.body);
+
+    const existingTag = await getOwnedTag(userId, id);
+    if (existingTag.name !== payload.name) {
+      await ensureTagNameAvailable(userId, payload.name);
+    }
+
+    const tag = await prisma.tag.update({
+      where: { id },
+      data: {
+        name: payload.name
+      }
+    });
+
+    res.json(tag);
+  })
+);
+
+tagsRouter.delete(
+  "/:id",
+  asyncHandler(async (req, res) => {
+    const userId = (res.locals as AuthenticatedLocals).auth.userId;
+    const { id } = tagIdParamsSchema.parse(req.params);
+
+    await getOwnedTag(userId, id);
+    await prisma.tag.delete({
+      where: { id }
+    });
+
+    res.status(204).send();
+  })
+);
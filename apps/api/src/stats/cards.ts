@@ -0,0 +1,50 @@
+import { State as FsrsState } from "ts-fsrs";
+import { prisma } from "../lib/prisma.js";
+import { normalizeFsrsState } from "../study/fsrs.js";
+
+// Cards never reviewed have no schedule state and count as new. Suspended cards keep their state in the
+// breakdown and are counted apart as well; average stability and difficulty cover cards in review only.
+export async function getCardStateStats(input: { userId: string; deckIds?: string[] }) {
+  const cardsWhere = {
+    deck: {
+      userId: input.userId
+    },
+    ...(input.deckIds ? { deckId: { in: input.deckIds } } : {})
+  };
+
+  const [cardCount, suspendedCount, stateGroups, reviewStability] = await Promise.all([
+    prisma.card.count({ where: cardsWhere }),
+    prisma.card.count({ where: { ...cardsWhere, suspended: true } }),
+    prisma.scheduleState.groupBy({
+      by: ["fsrsState"],
+      where: { card: cardsWhere },
+      _count: { _all: true }
+    }),
+    prisma.scheduleState.aggregate({
+      where: {
+        card: cardsWhere,
+        fsrsState: FsrsState.Review,
+        fsrsStability: {
+          gt: 0
+        }
+      },
+      _avg: { fsrsStability: true, fsrsDifficulty: true }
+    })
+  ]);
+
+  const states = [FsrsState.New, FsrsState.Learning, FsrsState.Review, FsrsState.Relearning].map((state) => ({
+    state: FsrsState[state],
+    count: stateGroups
+      .filter((group) => normalizeFsrsState(group.fsrsState) === state)
+      .reduce((total, group) => total + group._count._all, 0)
+  }));
+  states[0].count += cardCount - stateGroups.reduce((total, group) => total + group._count._all, 0);
+
+  return {
+    cardCount,
+    suspendedCount,
+    states,
+    averageStability: reviewStability._avg.fsrsStability,
+    averageDifficulty: reviewStability._avg.fsrsDifficulty
+  };
+}
@@ -0,0 +1,27 @@
+import { getStudyDayStart, type StudyDaySettings } from "../study/day.js";
+
+// The last `count` study days up to and including today, oldest first.
+export function getPastStudyDayStarts(now: Date, count: number, settings: StudyDaySettings): Date[] {
+  const dayStarts = [getStudyDayStart(now, settings)];
+  while (dayStarts.length < count) {
+    dayStarts.unshift(getStudyDayStart(new Date(dayStarts[0].getTime() - 1), settings));
+  }
+  return dayStarts;
+}
+
+// The last day is open-ended, since nothing is logged after now. Dates before the first day give -1.
+export function findPastStudyDayIndex(dayStarts: Date[], date: Date): number {
+  let low = 0;
+  let high = dayStarts.length - 1;
+  let index = -1;
+  while (low <= high) {
+    const middle = Math.floor((low + high) / 2);
+    if (dayStarts[middle] <= date) {
+      index = middle;
+      low = middle + 1;
+    } else {
+      high = middle - 1;
+    }
+  }
+  return index;
+}
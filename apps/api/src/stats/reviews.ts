@@ -0,0 +1,123 @@
+import { ReviewRating } from "@prisma/client";
+import { prisma } from "../lib/prisma.js";
+import { findPastStudyDayIndex, getPastStudyDayStarts } from "./days.js";
+
+const DAY_MINUTES = 24 * 60;
+
+const RETENTION_BUCKETS = [
+  { label: "1-6 days", minDays: 1, maxDays: 7 },
+  { label: "1-4 weeks", minDays: 7, maxDays: 30 },
+  { label: "1-3 months", minDays: 30, maxDays: 90 },
+  { label: "3-12 months", minDays: 90, maxDays: 365 },
+  { label: "1 year+", minDays: 365, maxDays: null }
+];
+
+interface ReviewStatsInput {
+  userId: string;
+  deckIds?: string[];
+  days: number;
+  now: Date;
+}
+
+async function getStatsPeriod(input: ReviewStatsInput) {
+  const settings = await prisma.user.findUniqueOrThrow({
+    where: { id: input.userId },
+    select: { timeZone: true, dayStartHour: true }
+  });
+  const dayStarts = getPastStudyDayStarts(input.now, input.days, settings);
+  return {
+    dayStarts,
+    reviewsWhere: {
+      userId: input.userId,
+      ...(input.deckIds ? { deckId: { in: input.deckIds } } : {}),
+      createdAt: {
+        gte: dayStarts[0]
+      }
+    }
+  };
+}
+
+export async function getReviewHeatmap(input: ReviewStatsInput) {
+  const { dayStarts, reviewsWhere } = await getStatsPeriod(input);
+  const reviews = await prisma.review.findMany({
+    where: reviewsWhere,
+    select: { createdAt: true }
+  });
+
+  const counts = dayStarts.map(() => 0);
+  for (const review of reviews) {
+    counts[findPastStudyDayIndex(dayStarts, review.createdAt)] += 1;
+  }
+  const studiedDays = counts.filter((count) => count > 0).length;
+  // Today not being studied yet does not break the streak.
+  let index = counts[counts.length - 1] > 0 ? counts.length - 1 : counts.length - 2;
+  let currentStreak = 0;
+  while (index >= 0 && counts[index] > 0) {
+    currentStreak += 1;
+    index -= 1;
+  }
+
+  return {
+    reviewCount: reviews.length,
+    studiedDays,
+    currentStreak,
+    days: dayStarts.map((dayStart, index) => ({ date: dayStart, reviewCount: counts[index] }))
+  };
+}
+
+export async function getRatingDistribution(input: ReviewStatsInput) {
+  const { reviewsWhere } = await getStatsPeriod(input);
+  const groups = await prisma.review.groupBy({
+    by: ["rating"],
+    where: reviewsWhere,
+    _count: { _all: true }
+  });
+
+  const ratings = Object.values(ReviewRating).map((rating) => ({
+    rating,
+    count: groups.find((group) => group.rating === rating)?._count._all ?? 0
+  }));
+  return {
+    reviewCount: ratings.reduce((total, entry) => total + entry.count, 0),
+    ratings
+  };
+}
+
+// True retention only counts scheduled answers to cards that had graduated to an interval of a day or more,
+// bucketed by that interval; anything but AGAIN counts as remembered. Practice answers are left out.
+export async function getTrueRetention(input: ReviewStatsInput) {
+  const { reviewsWhere } = await getStatsPeriod(input);
+  const reviews = await prisma.review.findMany({
+    where: {
+      ...reviewsWhere,
+      previousInterval: {
+        gte: DAY_MINUTES
+      },
+      rescheduled: true
+    },
+    select: { rating: true, previousInterval: true }
+  });
+
+  const buckets = RETENTION_BUCKETS.map((bucket) => ({ ...bucket, reviewCount: 0, passedCount: 0 }));
+  for (const review of reviews) {
+    const intervalDays = review.previousInterval / DAY_MINUTES;
+    const bucket = buckets.find(
+      (entry) => intervalDays >= entry.minDays && (entry.maxDays === null || intervalDays < entry.maxDays)
+    );
+    if (bucket) {
+      bucket.reviewCount += 1;
+      bucket.passedCount += review.rating === ReviewRating.AGAIN ? 0 : 1;
+    }
+  }
+  const passedCount = buckets.reduce((total, bucket) => total + bucket.passedCount, 0);
+
+  return {
+    reviewCount: reviews.length,
+    passedCount,
+    retention: reviews.length > 0 ? passedCount / reviews.length : null,
+    buckets: buckets.map((bucket) => ({
+      ...bucket,
+      retention: bucket.reviewCount > 0 ? bucket.passedCount / bucket.reviewCount : null
+    }))
+  };
+}
@@ -0,0 +1,71 @@
+import { prisma } from "../lib/prisma.js";
+import { findPastStudyDayIndex, getPastStudyDayStarts } from "./days.js";
+
+const SLOWEST_CARD_COUNT = 10;
+
+// Reviews sent without a duration count toward reviewCount but not toward the time totals and averages.
+export async function getReviewTimeStats(input: { userId: string; deckIds?: string[]; days: number; now: Date }) {
+  const settings = await prisma.user.findUniqueOrThrow({
+    where: { id: input.userId },
+    select: { timeZone: true, dayStartHour: true }
+  });
+  const dayStarts = getPastStudyDayStarts(input.now, input.days, settings);
+
+  const reviews = await prisma.review.findMany({
+    where: {
+      userId: input.userId,
+      ...(input.deckIds ? { deckId: { in: input.deckIds } } : {}),
+      createdAt: {
+        gte: dayStarts[0]
+      }
+    },
+    select: { cardId: true, durationMs: true, createdAt: true }
+  });
+  const timedReviews = reviews.flatMap((review) =>
+    review.durationMs === null ? [] : [{ ...review, durationMs: review.durationMs }]
+  );
+  const totalMs = timedReviews.reduce((total, review) => total + review.durationMs, 0);
+
+  const days = dayStarts.map((dayStart) => ({ date: dayStart, reviewCount: 0, totalMs: 0 }));
+  for (const review of reviews) {
+    const day = days[findPastStudyDayIndex(dayStarts, review.createdAt)];
+    day.reviewCount += 1;
+    day.totalMs += review.durationMs ?? 0;
+  }
+
+  const cardTimes = new Map<string, { reviewCount: number; totalMs: number }>();
+  for (const review of timedReviews) {
+    const cardTime = cardTimes.get(review.cardId) ?? { reviewCount: 0, totalMs: 0 };
+    cardTime.reviewCount += 1;
+    cardTime.totalMs += review.durationMs;
+    cardTimes.set(review.cardId, cardTime);
+  }
+  const slowestCardTimes = [...cardTimes.entries()]
+    .map(([cardId, cardTime]) => ({
+      cardId,
+      reviewCount: cardTime.reviewCount,
+      averageMs: Math.round(cardTime.totalMs / cardTime.reviewCount)
+    }))
+    .sort((left, right) => right.averageMs - left.averageMs)
+    .slice(0, SLOWEST_CARD_COUNT);
+  const slowestCards = await prisma.card.findMany({
+    where: {
+      id: {
+        in: slowestCardTimes.map((cardTime) => cardTime.cardId)
+      }
+    },
+    select: { id: true, deckId: true, question: true }
+  });
+
+  return {
+    reviewCount: reviews.length,
+    timedReviewCount: timedReviews.length,
+    totalMs,
+    averageMsPerReview: timedReviews.length > 0 ? Math.round(totalMs / timedReviews.length) : null,
+    days,
+    slowestCards: slowestCardTimes.flatMap((cardTime) => {
+      const card = slowestCards.find((slowestCard) => slowestCard.id === cardTime.cardId);
+      return card ? [{ ...cardTime, deckId: card.deckId, question: card.question }] : [];
+    })
+  };
+}
@@ -0,0 +1,17 @@
+import { ReviewRating } from "@prisma/client";
+
+export const SLOW_RECALL_TAG = "slow-recall";
+// Like Anki, time spent away from the card past this point is not counted as answering time.
+export const MAX_ANSWER_DURATION_MS = 60_000;
+
+export function clampAnswerDuration(durationMs: number | undefined): number | null {
+  return durationMs === undefined ? null : Math.min(durationMs, MAX_ANSWER_DURATION_MS);
+}
+
+// Only remembered cards can be slow recalls; a forgotten card is already handled by its lapse.
+export function isSlowRecall(rating: ReviewRating, durationMs: number | null, slowRecallSeconds: number | null): boolean {
+  if (durationMs === null || slowRecallSeconds === null || rating === ReviewRating.AGAIN) {
+    return false;
+  }
+  return durationMs > slowRecallSeconds * 1000;
+}
@@ -0,0 +1,58 @@
+const HOUR_MS = 60 * 60 * 1000;
+// Long enough to cross into the next study day even on a 25-hour daylight saving day.
+const NEXT_DAY_PROBE_MS = 26 * HOUR_MS;
+
+export interface StudyDaySettings {
+  timeZone: string;
+  dayStartHour: number;
+}
+
+// Milliseconds to add to a UTC instant to get the wall-clock time in the zone.
+function getTimeZoneOffsetMs(date: Date, timeZone: string): number {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    hourCycle: "h23",
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit"
+  }).formatToParts(date);
+  const getPart = (type: Intl.DateTimeFormatPartTypes) => Number(parts.find((part) => part.type === type)?.value ?? 0);
+  const wallClockAsUtc = Date.UTC(
+    getPart("year"),
+    getPart("month") - 1,
+    getPart("day"),
+    getPart("hour"),
+    getPart("minute"),
+    getPart("second")
+  );
+  return wallClockAsUtc - (date.getTime() - date.getUTCMilliseconds());
+}
+
+// Before dayStartHour local time the previous calendar day is still the current study day.
+export function getStudyDayStart(now: Date, settings: StudyDaySettings): Date {
+  const offsetMs = getTimeZoneOffsetMs(now, settings.timeZone);
+  const shiftedWallClock = new Date(now.getTime() + offsetMs - settings.dayStartHour * HOUR_MS);
+  const wallClockStart = Date.UTC(
+    shiftedWallClock.getUTCFullYear(),
+    shiftedWallClock.getUTCMonth(),
+    shiftedWallClock.getUTCDate(),
+    settings.dayStartHour
+  );
+  const estimate = wallClockStart - offsetMs;
+  return new Date(wallClockStart - getTimeZoneOffsetMs(new Date(estimate), settings.timeZone));
+}
+
+export function getNextStudyDayStart(dayStart: Date, settings: StudyDaySettings): Date {
+  return getStudyDayStart(new Date(dayStart.getTime() + NEXT_DAY_PROBE_MS), settings);
+}
+
+const WEEKDAYS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+// 0 is Sunday, matching Date.getDay(). A study day belongs to the local calendar day it starts on.
+export function getStudyDayWeekday(dayStart: Date, settings: StudyDaySettings): number {
+  const weekday = new Intl.DateTimeFormat("en-US", { timeZone: settings.timeZone, weekday: "short" }).format(dayStart);
+  return Math.max(0, WEEKDAYS.indexOf(weekday));
+}
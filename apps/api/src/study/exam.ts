@@ -0,0 +1,121 @@
+import { toStudyableCardFilter } from "../cards/availability.js";
+import { AppError } from "../errors/app-error.js";
+import { prisma } from "../lib/prisma.js";
+import { getNextStudyDayStart, getStudyDayStart } from "./day.js";
+import { NEVER_REVIEWED_STATE } from "./limits.js";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MAX_PLAN_DAYS = 366;
+
+// The day before the exam is the last one to study on. Until then a card's next review is pulled in so the
+// reviews it still needs to reach examMinReviews fit evenly before it; cards that have enough are still seen once more.
+export function capDueAtForExam(input: {
+  dueAt: Date;
+  now: Date;
+  examDate: Date | null;
+  examMinReviews: number;
+  repetitions: number;
+}): Date {
+  if (!input.examDate) {
+    return input.dueAt;
+  }
+
+  const lastStudyTime = input.examDate.getTime() - DAY_MS;
+  if (lastStudyTime <= input.now.getTime()) {
+    return input.dueAt;
+  }
+
+  const reviewsLeft = Math.max(1, input.examMinReviews - input.repetitions);
+  const latestDueTime = input.now.getTime() + (lastStudyTime - input.now.getTime()) / reviewsLeft;
+  return input.dueAt.getTime() > latestDueTime ? new Date(latestDueTime) : input.dueAt;
+}
+
+// New cards are spread over the days that still leave room for their remaining examMinReviews - 1 reviews.
+export async function buildExamPlan(userId: string, deckId: string, now: Date) {
+  const deck = await prisma.deck.findFirst({
+    where: {
+      id: deckId,
+      userId
+    },
+    select: {
+      id: true,
+      examDate: true,
+      examMinReviews: true,
+      newCardsPerDay: true,
+      user: {
+        select: { timeZone: true, dayStartHour: true }
+      }
+    }
+  });
+
+  if (!deck) {
+    throw new AppError("Deck not found", 404);
+  }
+
+  if (!deck.examDate) {
+    throw new AppError("Deck has no exam date", 400);
+  }
+
+  const examDate = deck.examDate;
+  const dayStarts: Date[] = [];
+  for (
+    let dayStart = getStudyDayStart(now, deck.user);
+    dayStart < examDate && dayStarts.length < MAX_PLAN_DAYS;
+    dayStart = getNextStudyDayStart(dayStart, deck.user)
+  ) {
+    dayStarts.push(dayStart);
+  }
+
+  const studyableCardsWhere = {
+    deckId: deck.id,
+    ...toStudyableCardFilter(now)
+  };
+  const [scheduledCards, unscheduledCount] = await Promise.all([
+    prisma.scheduleState.findMany({
+      where: {
+        card: studyableCardsWhere,
+        dueAt: {
+          lt: examDate
+        },
+        NOT: NEVER_REVIEWED_STATE
+      },
+      select: { dueAt: true }
+    }),
+    prisma.card.count({
+      where: {
+        AND: [
+          studyableCardsWhere,
+          { OR: [{ scheduleState: { is: null } }, { scheduleState: { is: NEVER_REVIEWED_STATE } }] }
+        ]
+      }
+    })
+  ]);
+
+  const introductionDays = Math.max(1, dayStarts.length - (deck.examMinReviews - 1));
+  const recommendedNewCardsPerDay = dayStarts.length > 0 ? Math.ceil(unscheduledCount / introductionDays) : 0;
+  let newCardsLeft = unscheduledCount;
+
+  const days = dayStarts.map((dayStart, index) => {
+    const nextDayStart = dayStarts[index + 1] ?? examDate;
+    const reviewCount = scheduledCards.filter(
+      (card) => (index === 0 || card.dueAt >= dayStart) && card.dueAt < nextDayStart
+    ).length;
+    const newCount = Math.min(newCardsLeft, recommendedNewCardsPerDay);
+    newCardsLeft -= newCount;
+    return {
+      date: dayStart,
+      reviewCount,
+      newCount
+    };
+  });
+
+  return {
+    deckId: deck.id,
+    examDate,
+    examMinReviews: deck.examMinReviews,
+    newCardsPerDay: deck.newCardsPerDay,
+    unscheduledCount,
+    recommendedNewCardsPerDay,
+    days
+  };
+}
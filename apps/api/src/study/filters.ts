@@ -0,0 +1,117 @@
+import { ReviewRating, type Prisma, type StudyFilter } from "@prisma/client";
+import { z } from "zod";
+import { tagExpressionSchema } from "@flashcards/shared";
+import { toStudyableCardFilter } from "../cards/availability.js";
+import { toTagFilter } from "../cards/tags.js";
+import { getDeckAndDescendantIds } from "../decks/tree.js";
+import { AppError } from "../errors/app-error.js";
+import { prisma } from "../lib/prisma.js";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const deckIdsSchema = z.array(z.string());
+
+function parseFilterDeckIds(value: string): string[] {
+  try {
+    const parsed = deckIdsSchema.safeParse(JSON.parse(value));
+    return parsed.success ? parsed.data : [];
+  } catch {
+    return [];
+  }
+}
+
+export function toStudyFilterResponse(filter: StudyFilter) {
+  return {
+    id: filter.id,
+    name: filter.name,
+    deckIds: parseFilterDeckIds(filter.deckIds),
+    includeSubdecks: filter.includeSubdecks,
+    tags: filter.tags,
+    flag: filter.flag,
+    lapsedWithinDays: filter.lapsedWithinDays,
+    minDifficulty: filter.minDifficulty,
+    maxDifficulty: filter.maxDifficulty,
+    reschedule: filter.reschedule,
+    cardLimit: filter.cardLimit,
+    createdAt: filter.createdAt,
+    updatedAt: filter.updatedAt
+  };
+}
+
+export async function getOwnedStudyFilter(userId: string, id: string): Promise<StudyFilter> {
+  const filter = await prisma.studyFilter.findFirst({
+    where: {
+      id,
+      userId
+    }
+  });
+
+  if (!filter) {
+    throw new AppError("Study filter not found", 404);
+  }
+
+  return filter;
+}
+
+export async function assertStudyFilterDecksOwned(userId: string, deckIds: string[]): Promise<void> {
+  const uniqueDeckIds = [...new Set(deckIds)];
+  const ownedDeckCount = await prisma.deck.count({
+    where: {
+      id: { in: uniqueDeckIds },
+      userId
+    }
+  });
+
+  if (ownedDeckCount !== uniqueDeckIds.length) {
+    throw new AppError("Deck not found", 404);
+  }
+}
+
+// Decks deleted after the filter was saved simply stop matching. Difficulty only exists once a card was reviewed.
+export async function toStudyFilterCardWhere(userId: string, filter: StudyFilter, now: Date): Promise<Prisma.CardWhereInput> {
+  const savedDeckIds = parseFilterDeckIds(filter.deckIds);
+  const deckIds = filter.includeSubdecks
+    ? [...new Set((await Promise.all(savedDeckIds.map((deckId) => getDeckAndDescendantIds(userId, deckId)))).flat())]
+    : savedDeckIds;
+  const tagTerms = filter.tags ? tagExpressionSchema.safeParse(filter.tags) : null;
+  const hasDifficultyFilter = filter.minDifficulty !== null || filter.maxDifficulty !== null;
+
+  return {
+    deck: {
+      userId
+    },
+    ...(savedDeckIds.length > 0 ? { deckId: { in: deckIds } } : {}),
+    ...(filter.flag ? { flag: filter.flag } : {}),
+    ...toStudyableCardFilter(now),
+    AND: [
+      toTagFilter(tagTerms?.success ? tagTerms.data : undefined),
+      filter.lapsedWithinDays !== null
+        ? {
+            reviews: {
+              some: {
+                rating: ReviewRating.AGAIN,
+                // A new card's first answer and practice answers that left the schedule alone are not lapses.
+                elapsedDays: { not: null },
+                rescheduled: true,
+                createdAt: {
+                  gte: new Date(now.getTime() - filter.lapsedWithinDays * DAY_MS)
+                }
+              }
+            }
+          }
+        : {},
+      hasDifficultyFilter
+        ? {
+            scheduleState: {
+              is: {
+                fsrsDifficulty: {
+                  ...(filter.minDifficulty !== null ? { gte: filter.minDifficulty } : {}),
+                  ...(filter.maxDifficulty !== null ? { lte: filter.maxDifficulty } : {})
+                }
+              }
+            }
+          }
+        : {}
+    ]
+  };
+}
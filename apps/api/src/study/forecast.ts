@@ -0,0 +1,157 @@
+import type { Prisma } from "@prisma/client";
+import { default_maximum_interval, get_fuzz_range } from "ts-fsrs";
+import { prisma } from "../lib/prisma.js";
+import { getNextStudyDayStart, getStudyDayStart, type StudyDaySettings } from "./day.js";
+import { getStudyDayWeight, type VacationRange } from "./weekdays.js";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Below this interval the fuzz range is at most a day wide, so there is nothing to balance.
+const MIN_BALANCED_INTERVAL_DAYS = 3;
+
+function getStudyDayStarts(from: Date, count: number, settings: StudyDaySettings): Date[] {
+  const dayStarts = [getStudyDayStart(from, settings)];
+  while (dayStarts.length <= count) {
+    dayStarts.push(getNextStudyDayStart(dayStarts[dayStarts.length - 1], settings));
+  }
+  return dayStarts;
+}
+
+// dayStarts bound consecutive study days, so a date past the last boundary belongs to none of them.
+function findStudyDayIndex(dayStarts: Date[], date: Date): number {
+  return dayStarts.findIndex(
+    (dayStart, index) => index + 1 < dayStarts.length && date >= dayStart && date < dayStarts[index + 1]
+  );
+}
+
+// Counts how many cards fall due on each study day in [dayStarts[0], dayStarts[last]); earlier due dates are ignored.
+// A buried card is counted on the day it comes back, since the queue will not serve it before then.
+async function countDueCardsPerDay(where: Prisma.ScheduleStateWhereInput, dayStarts: Date[]): Promise<number[]> {
+  const scheduleStates = await prisma.scheduleState.findMany({
+    where: {
+      ...where,
+      dueAt: {
+        lt: dayStarts[dayStarts.length - 1]
+      },
+      OR: [{ dueAt: { gte: dayStarts[0] } }, { card: { buriedUntil: { gt: dayStarts[0] } } }]
+    },
+    select: { dueAt: true, card: { select: { buriedUntil: true } } }
+  });
+
+  const counts = dayStarts.slice(1).map(() => 0);
+  for (const { dueAt, card } of scheduleStates) {
+    const servedAt = card.buriedUntil && card.buriedUntil > dueAt ? card.buriedUntil : dueAt;
+    const index = findStudyDayIndex(dayStarts, servedAt);
+    if (index >= 0) {
+      counts[index] += 1;
+    }
+  }
+  return counts;
+}
+
+// Overdue cards are counted on the first day, since that is when they will be studied; buried cards are
+// counted on the day they come back.
+export async function getDueForecast(input: { userId: string; deckIds?: string[]; days: number; now: Date }) {
+  const settings = await prisma.user.findUniqueOrThrow({
+    where: { id: input.userId },
+    select: { timeZone: true, dayStartHour: true }
+  });
+  const dayStarts = getStudyDayStarts(input.now, input.days, settings);
+  const cardsWhere = {
+    deck: {
+      userId: input.userId
+    },
+    ...(input.deckIds ? { deckId: { in: input.deckIds } } : {}),
+    suspended: false
+  };
+
+  const [dueCounts, overdueCount] = await Promise.all([
+    countDueCardsPerDay({ card: cardsWhere }, dayStarts),
+    prisma.scheduleState.count({
+      where: {
+        card: {
+          ...cardsWhere,
+          // Buried cards are still hidden today, so they are counted on their unbury day instead.
+          OR: [{ buriedUntil: null }, { buriedUntil: { lte: dayStarts[0] } }]
+        },
+        dueAt: {
+          lt: dayStarts[0]
+        }
+      }
+    })
+  ]);
+
+  return {
+    overdueCount,
+    days: dueCounts.map((dueCount, index) => ({
+      date: dayStarts[index],
+      dueCount: index === 0 ? dueCount + overdueCount : dueCount
+    }))
+  };
+}
+
+// Picks the least busy day within the fuzz range of the interval FSRS chose, preferring days closest to it.
+// A day's load is divided by its weekday weight, so easy days count as busier and days weighted 0, including
+// the days of an active vacation, are avoided.
+export async function balanceDueAt(input: {
+  userId: string;
+  cardId: string;
+  dueAt: Date;
+  scheduledDays: number;
+  elapsedDays: number;
+  maximumInterval?: number;
+  weekdayLoad: number[];
+  vacation?: VacationRange | null;
+}): Promise<{ dueAt: Date; scheduledDays: number }> {
+  if (input.scheduledDays < MIN_BALANCED_INTERVAL_DAYS) {
+    return { dueAt: input.dueAt, scheduledDays: input.scheduledDays };
+  }
+
+  const { min_ivl: minDays, max_ivl: maxDays } = get_fuzz_range(
+    input.scheduledDays,
+    input.elapsedDays,
+    input.maximumInterval ?? default_maximum_interval
+  );
+  const candidates = Array.from({ length: maxDays - minDays + 1 }, (_, index) => {
+    const scheduledDays = minDays + index;
+    return {
+      scheduledDays,
+      dueAt: new Date(input.dueAt.getTime() + (scheduledDays - input.scheduledDays) * DAY_MS)
+    };
+  });
+  if (candidates.length <= 1) {
+    return { dueAt: input.dueAt, scheduledDays: input.scheduledDays };
+  }
+
+  const settings = await prisma.user.findUniqueOrThrow({
+    where: { id: input.userId },
+    select: { timeZone: true, dayStartHour: true }
+  });
+  const dayStarts = getStudyDayStarts(candidates[0].dueAt, candidates.length, settings);
+  const dueCounts = await countDueCardsPerDay(
+    {
+      card: {
+        deck: {
+          userId: input.userId
+        },
+        suspended: false
+      },
+      cardId: {
+        not: input.cardId
+      }
+    },
+    dayStarts
+  );
+
+  const loads = candidates.map((candidate) => {
+    const index = findStudyDayIndex(dayStarts, candidate.dueAt);
+    const weight = index >= 0 ? getStudyDayWeight(dayStarts[index], settings, input.weekdayLoad, input.vacation) : 0;
+    return { ...candidate, load: weight > 0 ? (dueCounts[index] + 1) / weight : Number.MAX_SAFE_INTEGER };
+  });
+  loads.sort(
+    (left, right) =>
+      left.load - right.load ||
+      Math.abs(left.scheduledDays - input.scheduledDays) - Math.abs(right.scheduledDays - input.scheduledDays) ||
+      left.scheduledDays - right.scheduledDays
+  );
+  return { dueAt: loads[0].dueAt, scheduledDays: loads[0].scheduledDays };
+}
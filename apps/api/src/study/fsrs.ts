@@ -0,0 +1,107 @@
+import { ReviewRating, type ScheduleState } from "@prisma/client";
+import {
+  createEmptyCard,
+  fsrs,
+  Rating as FsrsRating,
+  State as FsrsState,
+  type Card as FsrsCard,
+  type Grade as FsrsGrade,
+  type Steps
+} from "ts-fsrs";
+
+const MIN_INTERVAL_MINUTES = 1;
+const MIN_EASE_FACTOR = 1.3;
+
+export interface SchedulingSettings {
+  desiredRetention: number;
+  maximumInterval: number;
+  learningSteps: Steps;
+  relearningSteps: Steps;
+  enableFuzz: boolean;
+  enableLoadBalance: boolean;
+}
+
+export function createFsrsScheduler(weights?: readonly number[], settings?: SchedulingSettings) {
+  return fsrs({
+    // Load balancing picks the day within the fuzz range itself instead of leaving it to chance.
+    enable_fuzz: (settings?.enableFuzz ?? false) && !settings?.enableLoadBalance,
+    enable_short_term: true,
+    ...(weights ? { w: weights } : {}),
+    ...(settings
+      ? {
+          request_retention: settings.desiredRetention,
+          maximum_interval: settings.maximumInterval,
+          learning_steps: settings.learningSteps,
+          relearning_steps: settings.relearningSteps
+        }
+      : {})
+  });
+}
+
+export const fsrsScheduler = createFsrsScheduler();
+
+export function normalizeFsrsState(value: number): FsrsState {
+  if (value === FsrsState.New || value === FsrsState.Learning || value === FsrsState.Review || value === FsrsState.Relearning) {
+    return value;
+  }
+  return FsrsState.New;
+}
+
+export function mapReviewRatingToFsrsRating(rating: ReviewRating): FsrsGrade {
+  if (rating === ReviewRating.AGAIN) {
+    return FsrsRating.Again;
+  }
+  if (rating === ReviewRating.HARD) {
+    return FsrsRating.Hard;
+  }
+  if (rating === ReviewRating.GOOD) {
+    return FsrsRating.Good;
+  }
+  return FsrsRating.Easy;
+}
+
+export function toFsrsCard(scheduleState: ScheduleState | null, now: Date): FsrsCard {
+  if (!scheduleState) {
+    return createEmptyCard(now);
+  }
+
+  const hasFsrsState = scheduleState.fsrsStability > 0 && scheduleState.fsrsDifficulty > 0;
+  if (!hasFsrsState) {
+    const inferredState = scheduleState.repetitions > 0 ? FsrsState.Review : FsrsState.New;
+    const inferredScheduledDays = Math.max(0, Math.round(scheduleState.intervalMinutes / (24 * 60)));
+    return {
+      due: scheduleState.dueAt,
+      stability: Math.max(0.1, inferredScheduledDays || 0.1),
+      difficulty: 5,
+      elapsed_days: 0,
+      scheduled_days: inferredScheduledDays,
+      learning_steps: 0,
+      reps: scheduleState.repetitions,
+      lapses: 0,
+      state: inferredState,
+      last_review: scheduleState.lastReviewedAt ?? undefined
+    };
+  }
+
+  return {
+    due: scheduleState.dueAt,
+    stability: scheduleState.fsrsStability,
+    difficulty: scheduleState.fsrsDifficulty,
+    elapsed_days: scheduleState.fsrsElapsedDays,
+    scheduled_days: scheduleState.fsrsScheduledDays,
+    learning_steps: scheduleState.fsrsLearningSteps,
+    reps: scheduleState.repetitions,
+    lapses: scheduleState.fsrsLapses,
+    state: normalizeFsrsState(scheduleState.fsrsState),
+    last_review: scheduleState.lastReviewedAt ?? undefined
+  };
+}
+
+export function computeIntervalMinutes(from: Date, to: Date): number {
+  return Math.max(MIN_INTERVAL_MINUTES, Math.round((to.getTime() - from.getTime()) / (60 * 1000)));
+}
+
+export function deriveEaseFactorFromDifficulty(difficulty: number): number {
+  const derived = (11 - difficulty) / 4;
+  return Math.max(MIN_EASE_FACTOR, Math.round(derived * 1000) / 1000);
+}
@@ -0,0 +1,87 @@
+import { State as FsrsState } from "ts-fsrs";
+import { AppError } from "../errors/app-error.js";
+import { prisma } from "../lib/prisma.js";
+import { normalizeFsrsState } from "./fsrs.js";
+import { getElapsedDays, getUserFsrsScheduler } from "./optimizer.js";
+import { parseScheduleStateSnapshot } from "./undo.js";
+
+interface FsrsMemoryState {
+  fsrsState: number;
+  fsrsStability: number;
+  fsrsDifficulty: number;
+}
+
+function toMemoryStateResponse(state: FsrsMemoryState | null | undefined) {
+  return {
+    state: state ? FsrsState[normalizeFsrsState(state.fsrsState)] : null,
+    stability: state && state.fsrsStability > 0 ? state.fsrsStability : null,
+    difficulty: state && state.fsrsDifficulty > 0 ? state.fsrsDifficulty : null
+  };
+}
+
+// Each review stores the schedule state from before it, so the state a review left behind is the next review's
+// snapshot, or the card's current state for the latest one. Reviews logged before snapshots existed show nulls.
+export async function getCardHistory(userId: string, cardId: string, now: Date) {
+  const card = await prisma.card.findFirst({
+    where: {
+      id: cardId,
+      deck: {
+        userId
+      }
+    },
+    include: {
+      scheduleState: true,
+      reviews: {
+        orderBy: [{ createdAt: "asc" }, { id: "asc" }]
+      }
+    }
+  });
+
+  if (!card) {
+    throw new AppError("Card not found", 404);
+  }
+
+  const scheduler = await getUserFsrsScheduler(userId);
+  const getRetrievability = (stability: number | undefined, elapsedDays: number | null) =>
+    stability !== undefined && stability > 0 && elapsedDays !== null
+      ? scheduler.forgetting_curve(elapsedDays, stability)
+      : null;
+  const snapshots = card.reviews.map((review) => parseScheduleStateSnapshot(review.previousScheduleState));
+  const scheduleState = card.scheduleState;
+
+  return {
+    cardId: card.id,
+    deckId: card.deckId,
+    question: card.question,
+    suspended: card.suspended,
+    scheduleState: scheduleState
+      ? {
+          ...toMemoryStateResponse(scheduleState),
+          dueAt: scheduleState.dueAt,
+          lastReviewedAt: scheduleState.lastReviewedAt,
+          scheduledDays: scheduleState.fsrsScheduledDays,
+          repetitions: scheduleState.repetitions,
+          lapses: scheduleState.fsrsLapses,
+          retrievability: getRetrievability(
+            scheduleState.fsrsStability,
+            getElapsedDays(scheduleState.lastReviewedAt, now)
+          )
+        }
+      : null,
+    reviews: card.reviews.map((review, index) => ({
+      id: review.id,
+      rating: review.rating,
+      createdAt: review.createdAt,
+      durationMs: review.durationMs,
+      rescheduled: review.rescheduled,
+      elapsedDays: review.elapsedDays,
+      previousDueAt: review.previousDueAt,
+      scheduledDueAt: review.scheduledDueAt,
+      previousInterval: review.previousInterval,
+      nextInterval: review.nextInterval,
+      // The chance of recalling the card at the moment it was answered, from the state before the review.
+      retrievability: getRetrievability(snapshots[index]?.fsrsStability, review.elapsedDays),
+      ...toMemoryStateResponse(index + 1 < snapshots.length ? snapshots[index + 1] : scheduleState)
+    }))
+  };
+}
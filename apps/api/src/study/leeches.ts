@@ -0,0 +1,51 @@
+import { LeechAction, type Prisma } from "@prisma/client";
+import { addTagToNoteCards, removeTagFromNoteCards } from "../cards/tags.js";
+
+export const LEECH_TAG = "leech";
+
+// Like Anki, a card turns into a leech when its lapses reach the threshold and is flagged again every
+// half threshold after that, so a suspended leech that keeps failing after being fixed is caught again.
+export function isLeechLapse(previousLapses: number, lapses: number, threshold: number): boolean {
+  if (lapses <= previousLapses || lapses < threshold) {
+    return false;
+  }
+  return (lapses - threshold) % Math.max(1, Math.ceil(threshold / 2)) === 0;
+}
+
+// The tag goes on every sibling of the note, since sibling cards share their tags; only the card itself is suspended.
+// Reports only the changes this call made, which the review records so undo can reverse exactly those.
+export async function markCardAsLeech(
+  tx: Prisma.TransactionClient,
+  userId: string,
+  card: { id: string; noteId: string | null },
+  action: LeechAction
+): Promise<{ tagged: boolean; suspended: boolean }> {
+  const tagged = await addTagToNoteCards(tx, userId, card, LEECH_TAG);
+  if (action !== LeechAction.SUSPEND) {
+    return { tagged, suspended: false };
+  }
+
+  const { count } = await tx.card.updateMany({
+    where: { id: card.id, suspended: false },
+    data: { suspended: true }
+  });
+  return { tagged, suspended: count > 0 };
+}
+
+// Reverses what markCardAsLeech recorded for a review that is being undone.
+export async function unmarkCardAsLeech(
+  tx: Prisma.TransactionClient,
+  userId: string,
+  card: { id: string; noteId: string | null },
+  applied: { tagged: boolean; suspended: boolean }
+): Promise<void> {
+  if (applied.tagged) {
+    await removeTagFromNoteCards(tx, userId, card, LEECH_TAG);
+  }
+  if (applied.suspended) {
+    await tx.card.update({
+      where: { id: card.id },
+      data: { suspended: false }
+    });
+  }
+}
@@ -0,0 +1,85 @@
+import type { Prisma } from "@prisma/client";
+import { prisma } from "../lib/prisma.js";
+import { getNextStudyDayStart, getStudyDayStart } from "./day.js";
+
+// Cards whose previous interval was at least a day count as reviews; shorter intervals are learning or
+// relearning steps, which are never held back by the daily limits.
+export const REVIEW_INTERVAL_MINUTES = 24 * 60;
+
+// Cards imported with only a due date have a schedule state but were never answered, so they are still new.
+export const NEVER_REVIEWED_STATE = {
+  lastReviewedAt: null,
+  repetitions: 0
+} satisfies Prisma.ScheduleStateWhereInput;
+
+export interface DailyAllowance {
+  limit: number;
+  done: number;
+  remaining: number;
+}
+
+export interface DailyLimits {
+  dayStartsAt: Date;
+  nextDayStartsAt: Date;
+  newCards: DailyAllowance;
+  reviews: DailyAllowance;
+}
+
+function toAllowance(limit: number, done: number): DailyAllowance {
+  return {
+    limit,
+    done,
+    remaining: Math.max(0, limit - done)
+  };
+}
+
+// A card's first review is the only one logged without elapsed days since a previous review, so it marks a new
+// card studied. The previous due date cannot tell, since imported due dates and Anki review logs leave it unreliable.
+// Practice answers from filter sessions that leave the schedule alone never count against the limits.
+export async function getDailyLimits(input: {
+  userId: string;
+  deckIds: string[];
+  newCardsPerDay: number;
+  reviewsPerDay: number;
+  now: Date;
+}): Promise<DailyLimits> {
+  const settings = await prisma.user.findUniqueOrThrow({
+    where: { id: input.userId },
+    select: { timeZone: true, dayStartHour: true }
+  });
+  const dayStartsAt = getStudyDayStart(input.now, settings);
+  const reviewedToday = {
+    userId: input.userId,
+    deckId: {
+      in: input.deckIds
+    },
+    createdAt: {
+      gte: dayStartsAt
+    },
+    rescheduled: true
+  };
+
+  const [newCardsDone, reviewsDone] = await Promise.all([
+    prisma.review.count({
+      where: {
+        ...reviewedToday,
+        elapsedDays: null
+      }
+    }),
+    prisma.review.count({
+      where: {
+        ...reviewedToday,
+        previousInterval: {
+          gte: REVIEW_INTERVAL_MINUTES
+        }
+      }
+    })
+  ]);
+
+  return {
+    dayStartsAt,
+    nextDayStartsAt: getNextStudyDayStart(dayStartsAt, settings),
+    newCards: toAllowance(input.newCardsPerDay, newCardsDone),
+    reviews: toAllowance(input.reviewsPerDay, reviewsDone)
+  };
+}
@@ -0,0 +1,261 @@
+import type { FsrsParameters } from "@prisma/client";
+import { z } from "zod";
+import {
+  clipParameters,
+  default_relearning_steps,
+  default_w,
+  FSRSAlgorithm,
+  Rating as FsrsRating,
+  type FSRSState,
+  type Grade as FsrsGrade
+} from "ts-fsrs";
+import { AppError } from "../errors/app-error.js";
+import { prisma } from "../lib/prisma.js";
+import { createFsrsScheduler, fsrsScheduler, mapReviewRatingToFsrsRating, type SchedulingSettings } from "./fsrs.js";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MIN_TRAINING_REVIEWS = 50;
+const MAX_LOADED_REVIEWS = 10_000;
+const OPTIMIZER_ITERATIONS = 30;
+const LEARNING_RATE = 0.05;
+const ADAM_BETA1 = 0.9;
+const ADAM_BETA2 = 0.999;
+const ADAM_EPSILON = 1e-8;
+const GRADIENT_STEP = 1e-4;
+const PROBABILITY_EPSILON = 1e-6;
+const WEIGHT_DECIMALS = 4;
+
+const fsrsWeightsSchema = z.array(z.number()).length(default_w.length);
+
+interface ReviewHistoryEntry {
+  grade: FsrsGrade;
+  elapsedDays: number;
+}
+
+type ReviewHistory = ReviewHistoryEntry[];
+
+// One optimization per user at a time; each run replays the whole review log many times.
+const runningOptimizations = new Set<string>();
+
+export function getElapsedDays(lastReviewedAt: Date | null | undefined, now: Date): number | null {
+  return lastReviewedAt ? Math.max(0, (now.getTime() - lastReviewedAt.getTime()) / DAY_MS) : null;
+}
+
+function parseFsrsWeights(value: string): readonly number[] {
+  try {
+    const parsed = fsrsWeightsSchema.safeParse(JSON.parse(value));
+    return parsed.success ? parsed.data : default_w;
+  } catch {
+    return default_w;
+  }
+}
+
+export async function getUserFsrsWeights(userId: string): Promise<readonly number[]> {
+  const parameters = await prisma.fsrsParameters.findUnique({
+    where: { userId },
+    select: { weights: true }
+  });
+  return parameters ? parseFsrsWeights(parameters.weights) : default_w;
+}
+
+export async function getUserFsrsScheduler(userId: string, settings?: SchedulingSettings) {
+  const weights = await getUserFsrsWeights(userId);
+  return weights === default_w && !settings ? fsrsScheduler : createFsrsScheduler(weights, settings);
+}
+
+export function toFsrsParametersResponse(parameters: FsrsParameters | null) {
+  return {
+    weights: parameters ? parseFsrsWeights(parameters.weights) : default_w,
+    isDefault: parameters === null,
+    reviewCount: parameters?.reviewCount ?? 0,
+    logLossBefore: parameters?.logLossBefore ?? null,
+    logLossAfter: parameters?.logLossAfter ?? null,
+    optimizedAt: parameters?.optimizedAt ?? null
+  };
+}
+
+// Whole card histories are loaded, most recently reviewed cards first, until the review limit is reached;
+// a history cut short would be fitted as if the card had stopped being reviewed.
+async function selectHistoryCardIds(userId: string): Promise<string[]> {
+  const cards = await prisma.review.groupBy({
+    by: ["cardId"],
+    where: { userId, rescheduled: true },
+    _count: { _all: true },
+    _max: { createdAt: true },
+    orderBy: { _max: { createdAt: "desc" } }
+  });
+
+  const cardIds: string[] = [];
+  let reviewCount = 0;
+  for (const card of cards) {
+    if (reviewCount + card._count._all > MAX_LOADED_REVIEWS) {
+      continue;
+    }
+    cardIds.push(card.cardId);
+    reviewCount += card._count._all;
+  }
+  return cardIds;
+}
+
+// Reviews logged before elapsed time was recorded fall back to the gap between review timestamps. Practice answers
+// that left the schedule untouched are skipped, since the memory model never saw them.
+async function loadReviewHistories(userId: string): Promise<ReviewHistory[]> {
+  const reviews = await prisma.review.findMany({
+    where: {
+      userId,
+      rescheduled: true,
+      cardId: {
+        in: await selectHistoryCardIds(userId)
+      }
+    },
+    orderBy: [{ cardId: "asc" }, { createdAt: "asc" }],
+    select: {
+      cardId: true,
+      rating: true,
+      elapsedDays: true,
+      createdAt: true
+    }
+  });
+
+  const histories = new Map<string, ReviewHistory>();
+  let previous: { cardId: string; createdAt: Date } | null = null;
+  for (const review of reviews) {
+    const history = histories.get(review.cardId) ?? [];
+    const fallbackElapsedDays =
+      previous?.cardId === review.cardId ? getElapsedDays(previous.createdAt, review.createdAt) : null;
+    history.push({
+      grade: mapReviewRatingToFsrsRating(review.rating),
+      elapsedDays: review.elapsedDays ?? fallbackElapsedDays ?? 0
+    });
+    histories.set(review.cardId, history);
+    previous = review;
+  }
+
+  return [...histories.values()];
+}
+
+// Only reviews of a card that already has a memory state, on a later day, predict recall.
+function forEachPrediction(
+  histories: ReviewHistory[],
+  algorithm: FSRSAlgorithm,
+  visit: (retrievability: number, recalled: boolean) => void
+) {
+  for (const history of histories) {
+    let state: FSRSState | null = null;
+    for (const entry of history) {
+      const elapsedDays = Math.floor(entry.elapsedDays);
+      if (state && elapsedDays > 0) {
+        visit(algorithm.forgetting_curve(elapsedDays, state.stability), entry.grade !== FsrsRating.Again);
+      }
+      state = algorithm.next_state(state, state ? elapsedDays : 0, entry.grade);
+    }
+  }
+}
+
+function countTrainingReviews(histories: ReviewHistory[]): number {
+  let count = 0;
+  forEachPrediction(histories, new FSRSAlgorithm({ enable_short_term: true }), () => {
+    count += 1;
+  });
+  return count;
+}
+
+export function computeLogLoss(histories: ReviewHistory[], weights: readonly number[]): number {
+  let loss = 0;
+  let count = 0;
+  forEachPrediction(histories, new FSRSAlgorithm({ w: weights, enable_short_term: true }), (retrievability, recalled) => {
+    const probability = Math.min(1 - PROBABILITY_EPSILON, Math.max(PROBABILITY_EPSILON, retrievability));
+    loss -= recalled ? Math.log(probability) : Math.log(1 - probability);
+    count += 1;
+  });
+  return count > 0 ? loss / count : 0;
+}
+
+function clipWeights(weights: number[]): number[] {
+  return clipParameters(weights, default_relearning_steps.length, true);
+}
+
+// Adam over finite-difference gradients, keeping the best weights seen along the way.
+async function fitWeights(histories: ReviewHistory[], initialWeights: readonly number[]): Promise<number[]> {
+  let weights = clipWeights([...initialWeights]);
+  let best = { weights, logLoss: computeLogLoss(histories, weights) };
+  const firstMoment = weights.map(() => 0);
+  const secondMoment = weights.map(() => 0);
+
+  for (let iteration = 1; iteration <= OPTIMIZER_ITERATIONS; iteration += 1) {
+    const logLoss = iteration === 1 ? best.logLoss : computeLogLoss(histories, weights);
+    if (logLoss < best.logLoss) {
+      best = { weights, logLoss };
+    }
+
+    const gradient = weights.map((weight, index) => {
+      const shifted = [...weights];
+      shifted[index] = weight + GRADIENT_STEP;
+      const clipped = clipWeights(shifted);
+      const step = clipped[index] - weight;
+      if (step === 0) {
+        return 0;
+      }
+      return (computeLogLoss(histories, clipped) - logLoss) / step;
+    });
+
+    weights = clipWeights(
+      weights.map((weight, index) => {
+        firstMoment[index] = ADAM_BETA1 * firstMoment[index] + (1 - ADAM_BETA1) * gradient[index];
+        secondMoment[index] = ADAM_BETA2 * secondMoment[index] + (1 - ADAM_BETA2) * gradient[index] ** 2;
+        const correctedFirst = firstMoment[index] / (1 - ADAM_BETA1 ** iteration);
+        const correctedSecond = secondMoment[index] / (1 - ADAM_BETA2 ** iteration);
+        return weight - (LEARNING_RATE * correctedFirst) / (Math.sqrt(correctedSecond) + ADAM_EPSILON);
+      })
+    );
+
+    await new Promise((resolve) => setImmediate(resolve));
+  }
+
+  const finalLogLoss = computeLogLoss(histories, weights);
+  if (finalLogLoss < best.logLoss) {
+    best = { weights, logLoss: finalLogLoss };
+  }
+
+  return best.weights.map((weight) => Number(weight.toFixed(WEIGHT_DECIMALS)));
+}
+
+export async function optimizeUserFsrsParameters(userId: string): Promise<FsrsParameters> {
+  if (runningOptimizations.has(userId)) {
+    throw new AppError("Parameter optimization is already running", 409);
+  }
+
+  runningOptimizations.add(userId);
+  try {
+    const histories = await loadReviewHistories(userId);
+    const reviewCount = countTrainingReviews(histories);
+    if (reviewCount < MIN_TRAINING_REVIEWS) {
+      throw new AppError(
+        `Optimization needs at least ${MIN_TRAINING_REVIEWS} repeat reviews on different days (found ${reviewCount})`,
+        400
+      );
+    }
+
+    const currentWeights = await getUserFsrsWeights(userId);
+    const logLossBefore = computeLogLoss(histories, currentWeights);
+    const fittedWeights = await fitWeights(histories, currentWeights);
+    const fittedLogLoss = computeLogLoss(histories, fittedWeights);
+    // Rounding can cost a little accuracy; the current weights stay in place unless the fit is better.
+    const isImproved = fittedLogLoss < logLossBefore;
+    const data = {
+      weights: JSON.stringify(isImproved ? fittedWeights : [...currentWeights]),
+      reviewCount,
+      logLossBefore,
+      logLossAfter: isImproved ? fittedLogLoss : logLossBefore,
+      optimizedAt: new Date()
+    };
+
+    return prisma.fsrsParameters.upsert({
+      where: { userId },
+      update: data,
+      create: { userId, ...data }
+    });
+  } finally {
+    runningOptimizations.delete(userId);
+  }
+}
@@ -0,0 +1,65 @@
+import type { SchedulingPreset } from "@prisma/client";
+import { z } from "zod";
+import { learningStepSchema } from "@flashcards/shared";
+import type { Steps } from "ts-fsrs";
+import { AppError } from "../errors/app-error.js";
+import { prisma } from "../lib/prisma.js";
+import type { SchedulingSettings } from "./fsrs.js";
+
+const stepsSchema = z.array(learningStepSchema);
+
+// Steps are validated against learningStepSchema on write, which only admits ts-fsrs step units.
+function parsePresetSteps(value: string): Steps {
+  try {
+    const parsed = stepsSchema.safeParse(JSON.parse(value));
+    return parsed.success ? (parsed.data as Steps) : [];
+  } catch {
+    return [];
+  }
+}
+
+export function toSchedulingSettings(preset: SchedulingPreset | null): SchedulingSettings | undefined {
+  if (!preset) {
+    return undefined;
+  }
+
+  return {
+    desiredRetention: preset.desiredRetention,
+    maximumInterval: preset.maximumInterval,
+    learningSteps: parsePresetSteps(preset.learningSteps),
+    relearningSteps: parsePresetSteps(preset.relearningSteps),
+    enableFuzz: preset.enableFuzz,
+    enableLoadBalance: preset.enableLoadBalance
+  };
+}
+
+export function toSchedulingPresetResponse(preset: SchedulingPreset & { _count?: { decks: number } }) {
+  return {
+    id: preset.id,
+    name: preset.name,
+    desiredRetention: preset.desiredRetention,
+    maximumInterval: preset.maximumInterval,
+    learningSteps: parsePresetSteps(preset.learningSteps),
+    relearningSteps: parsePresetSteps(preset.relearningSteps),
+    enableFuzz: preset.enableFuzz,
+    enableLoadBalance: preset.enableLoadBalance,
+    createdAt: preset.createdAt,
+    updatedAt: preset.updatedAt,
+    ...(preset._count ? { deckCount: preset._count.decks } : {})
+  };
+}
+
+export async function getOwnedSchedulingPreset(userId: string, id: string): Promise<SchedulingPreset> {
+  const preset = await prisma.schedulingPreset.findFirst({
+    where: {
+      id,
+      userId
+    }
+  });
+
+  if (!preset) {
+    throw new AppError("Scheduling preset not found", 404);
+  }
+
+  return preset;
+}
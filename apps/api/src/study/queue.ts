@@ -0,0 +1,190 @@
+import type { Card, Prisma, ScheduleState } from "@prisma/client";
+import { prisma } from "../lib/prisma.js";
+import { NEVER_REVIEWED_STATE, REVIEW_INTERVAL_MINUTES, type DailyLimits } from "./limits.js";
+
+export type QueueCard = Card & { scheduleState: ScheduleState | null };
+
+export interface DueQueue {
+  cards: QueueCard[];
+  dueNowCount: number;
+  nextDueAt: Date | null;
+}
+
+// Learning cards are always served; graduated reviews and new cards are capped by what is left of the daily limits.
+// A card counts as new until it is first answered, even if an import already gave it a due date.
+// Due cards come first, earliest due first, followed by new cards in the order they were added.
+export async function loadDueQueue(input: {
+  cardsWhere: Prisma.CardWhereInput;
+  dailyLimits: DailyLimits;
+  take: number;
+  now: Date;
+}): Promise<DueQueue> {
+  const { cardsWhere, dailyLimits, take, now } = input;
+  const dueLearningWhere = {
+    ...cardsWhere,
+    scheduleState: {
+      is: {
+        dueAt: {
+          lte: now
+        },
+        intervalMinutes: {
+          lt: REVIEW_INTERVAL_MINUTES
+        },
+        NOT: NEVER_REVIEWED_STATE
+      }
+    }
+  };
+  const dueReviewWhere = {
+    ...cardsWhere,
+    scheduleState: {
+      is: {
+        dueAt: {
+          lte: now
+        },
+        intervalMinutes: {
+          gte: REVIEW_INTERVAL_MINUTES
+        },
+        NOT: NEVER_REVIEWED_STATE
+      }
+    }
+  };
+  const newWhere = {
+    AND: [
+      cardsWhere,
+      {
+        OR: [
+          { scheduleState: { is: null } },
+          { scheduleState: { is: { ...NEVER_REVIEWED_STATE, dueAt: { lte: now } } } }
+        ]
+      }
+    ]
+  };
+
+  const [dueLearningCards, dueReviewCards, dueNewCards] = await Promise.all([
+    prisma.card.findMany({
+      where: dueLearningWhere,
+      include: {
+        scheduleState: true
+      },
+      orderBy: {
+        scheduleState: {
+          dueAt: "asc"
+        }
+      },
+      take
+    }),
+    prisma.card.findMany({
+      where: dueReviewWhere,
+      include: {
+        scheduleState: true
+      },
+      orderBy: {
+        scheduleState: {
+          dueAt: "asc"
+        }
+      },
+      take: Math.min(take, dailyLimits.reviews.remaining)
+    }),
+    prisma.card.findMany({
+      where: newWhere,
+      include: {
+        scheduleState: true
+      },
+      orderBy: [{ createdAt: "asc" }, { ordinal: "asc" }],
+      take: Math.min(take, dailyLimits.newCards.remaining)
+    })
+  ]);
+
+  const combinedDueCards = [...dueLearningCards, ...dueReviewCards]
+    .sort((left, right) => (left.scheduleState?.dueAt.getTime() ?? 0) - (right.scheduleState?.dueAt.getTime() ?? 0))
+    .slice(0, take);
+  for (const card of dueNewCards) {
+    if (combinedDueCards.length >= take) {
+      break;
+    }
+    combinedDueCards.push(card);
+  }
+
+  const [dueLearningCount, dueReviewCount, dueNewCount, nextDueCard] = await Promise.all([
+    prisma.card.count({
+      where: dueLearningWhere
+    }),
+    prisma.card.count({
+      where: dueReviewWhere
+    }),
+    prisma.card.count({
+      where: newWhere
+    }),
+    prisma.card.findFirst({
+      where: {
+        ...cardsWhere,
+        scheduleState: {
+          is: {
+            dueAt: {
+              gt: now
+            }
+          }
+        }
+      },
+      include: {
+        scheduleState: true
+      },
+      orderBy: {
+        scheduleState: {
+          dueAt: "asc"
+        }
+      }
+    })
+  ]);
+
+  return {
+    cards: combinedDueCards,
+    dueNowCount:
+      dueLearningCount +
+      Math.min(dueReviewCount, dailyLimits.reviews.remaining) +
+      Math.min(dueNewCount, dailyLimits.newCards.remaining),
+    nextDueAt: nextDueCard?.scheduleState?.dueAt ?? null
+  };
+}
+
+export type QueueOrder = "due" | "deck" | "random";
+
+function toDueTime(card: QueueCard): number {
+  return card.scheduleState?.dueAt.getTime() ?? Number.POSITIVE_INFINITY;
+}
+
+// Random interleaving mixes the decks but keeps each deck's own order, so its learning cards still come first.
+function interleaveRandomly(queues: QueueCard[][]): QueueCard[] {
+  const remaining = queues.map((cards) => [...cards]).filter((cards) => cards.length > 0);
+  const interleaved: QueueCard[] = [];
+  while (remaining.length > 0) {
+    let pick = Math.floor(Math.random() * remaining.reduce((total, cards) => total + cards.length, 0));
+    const index = remaining.findIndex((cards) => (pick -= cards.length) < 0);
+    const [card, ...rest] = remaining[index];
+    interleaved.push(card);
+    if (rest.length > 0) {
+      remaining[index] = rest;
+    } else {
+      remaining.splice(index, 1);
+    }
+  }
+  return interleaved;
+}
+
+// Queues must already be sorted by deck priority; "due" mixes them by due date with new cards last.
+export function mergeDueQueues(queues: QueueCard[][], order: QueueOrder, take: number): QueueCard[] {
+  if (order === "deck") {
+    return queues.flat().slice(0, take);
+  }
+  if (order === "random") {
+    return interleaveRandomly(queues).slice(0, take);
+  }
+  return queues
+    .flat()
+    .sort((left, right) => {
+      const leftDue = toDueTime(left);
+      const rightDue = toDueTime(right);
+      return leftDue === rightDue ? 0 : leftDue < rightDue ? -1 : 1;
+    })
+    .slice(0, take);
+}
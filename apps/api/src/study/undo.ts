@@ -0,0 +1,125 @@
+import type { ScheduleState } from "@prisma/client";
+import { z } from "zod";
+import { AppError } from "../errors/app-error.js";
+import { prisma } from "../lib/prisma.js";
+import { removeTagFromNoteCards } from "../cards/tags.js";
+import { SLOW_RECALL_TAG } from "./answer-time.js";
+import { unmarkCardAsLeech } from "./leeches.js";
+
+const scheduleStateSnapshotSchema = z
+  .object({
+    dueAt: z.coerce.date(),
+    lastReviewedAt: z.coerce.date().nullable(),
+    intervalMinutes: z.number().int(),
+    repetitions: z.number().int(),
+    easeFactor: z.number(),
+    fsrsState: z.number().int(),
+    fsrsStability: z.number(),
+    fsrsDifficulty: z.number(),
+    fsrsElapsedDays: z.number().int(),
+    fsrsScheduledDays: z.number().int(),
+    fsrsLearningSteps: z.number().int(),
+    fsrsLapses: z.number().int()
+  })
+  .nullable();
+
+// A card without a schedule state (never reviewed) is stored as JSON null so undo can tell it apart
+// from reviews logged before snapshots existed, which have no snapshot at all.
+export function toScheduleStateSnapshot(scheduleState: ScheduleState | null): string {
+  if (!scheduleState) {
+    return JSON.stringify(null);
+  }
+
+  return JSON.stringify({
+    dueAt: scheduleState.dueAt,
+    lastReviewedAt: scheduleState.lastReviewedAt,
+    intervalMinutes: scheduleState.intervalMinutes,
+    repetitions: scheduleState.repetitions,
+    easeFactor: scheduleState.easeFactor,
+    fsrsState: scheduleState.fsrsState,
+    fsrsStability: scheduleState.fsrsStability,
+    fsrsDifficulty: scheduleState.fsrsDifficulty,
+    fsrsElapsedDays: scheduleState.fsrsElapsedDays,
+    fsrsScheduledDays: scheduleState.fsrsScheduledDays,
+    fsrsLearningSteps: scheduleState.fsrsLearningSteps,
+    fsrsLapses: scheduleState.fsrsLapses
+  });
+}
+
+// undefined means the review was logged before snapshots existed; null means the card had never been reviewed.
+export function parseScheduleStateSnapshot(value: string | null): z.infer<typeof scheduleStateSnapshotSchema> | undefined {
+  return value === null ? undefined : scheduleStateSnapshotSchema.parse(JSON.parse(value));
+}
+
+// Only a card's latest review can be undone; restoring an older snapshot would discard the reviews after it.
+// A leech tag, suspension or slow-recall tag the review applied is reversed along with the schedule.
+export async function undoReview(userId: string, reviewId: string) {
+  const review = await prisma.review.findFirst({
+    where: {
+      id: reviewId,
+      userId
+    },
+    select: {
+      id: true,
+      cardId: true,
+      previousScheduleState: true,
+      leechTagged: true,
+      leechSuspended: true,
+      slowRecallTagged: true,
+      card: {
+        select: { noteId: true }
+      }
+    }
+  });
+
+  if (!review) {
+    throw new AppError("Review not found", 404);
+  }
+
+  const snapshot = parseScheduleStateSnapshot(review.previousScheduleState);
+  if (snapshot === undefined) {
+    throw new AppError("This review cannot be undone", 409);
+  }
+
+  const latestReview = await prisma.review.findFirst({
+    where: { cardId: review.cardId },
+    orderBy: [{ createdAt: "desc" }, { id: "desc" }],
+    select: { id: true }
+  });
+
+  if (latestReview?.id !== review.id) {
+    throw new AppError("Only the most recent review of a card can be undone", 409);
+  }
+
+  return prisma.$transaction(async (tx) => {
+    await tx.review.delete({
+      where: { id: review.id }
+    });
+    await unmarkCardAsLeech(
+      tx,
+      userId,
+      { id: review.cardId, noteId: review.card.noteId },
+      { tagged: review.leechTagged, suspended: review.leechSuspended }
+    );
+    if (review.slowRecallTagged) {
+      await removeTagFromNoteCards(tx, userId, { id: review.cardId, noteId: review.card.noteId }, SLOW_RECALL_TAG);
+    }
+
+    if (!snapshot) {
+      await tx.scheduleState.deleteMany({
+        where: { cardId: review.cardId }
+      });
+      return { cardId: review.cardId, scheduleState: null };
+    }
+
+    const scheduleState = await tx.scheduleState.upsert({
+      where: { cardId: review.cardId },
+      update: snapshot,
+      create: {
+        cardId: review.cardId,
+        ...snapshot
+      }
+    });
+    return { cardId: review.cardId, scheduleState };
+  });
+}
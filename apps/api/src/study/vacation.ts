@@ -0,0 +1,176 @@
+import type { VacationInput } from "@flashcards/shared";
+import { prisma } from "../lib/prisma.js";
+import { getNextStudyDayStart, getStudyDayStart, type StudyDaySettings } from "./day.js";
+import { computeIntervalMinutes, toFsrsCard } from "./fsrs.js";
+import { getUserFsrsScheduler } from "./optimizer.js";
+import { getStudyDayWeight, isVacationTime, parseWeekdayLoad, type VacationRange } from "./weekdays.js";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DAY_MINUTES = 24 * 60;
+const MAX_SPREAD_DAYS = 14;
+// Each postponed card gets its own interval, so a large collection needs more than the default five seconds.
+const VACATION_TRANSACTION_TIMEOUT_MS = 120_000;
+
+function getFirstStudyDayStartFrom(date: Date, settings: StudyDaySettings): Date {
+  const dayStart = getStudyDayStart(date, settings);
+  return dayStart < date ? getNextStudyDayStart(dayStart, settings) : dayStart;
+}
+
+export function getActiveVacation(
+  user: { vacationStartDate: Date | null; vacationEndDate: Date | null },
+  now: Date
+): VacationRange | null {
+  return user.vacationStartDate && user.vacationEndDate && user.vacationEndDate > now
+    ? { startDate: user.vacationStartDate, endDate: user.vacationEndDate }
+    : null;
+}
+
+// Reviews answered before or during a vacation that would fall due while away wait for the return day instead.
+// Learning steps shorter than a day are left alone, so a card practised while away still comes back the same day.
+export function postponePastVacation(dueAt: Date, scheduledDays: number, vacation: VacationRange | null): Date {
+  return vacation && scheduledDays >= 1 && isVacationTime(dueAt, vacation) ? vacation.endDate : dueAt;
+}
+
+// Cards due during the vacation are spread over as many days after it as it lasted (at most two weeks),
+// in each day's share of the weekday load. The cards most likely to be forgotten by then come back first.
+// The vacation covers whole study days, from the first one away to the return day, just like the stored range.
+async function planVacation(userId: string, vacation: VacationInput, now: Date) {
+  const user = await prisma.user.findUniqueOrThrow({
+    where: { id: userId },
+    select: { timeZone: true, dayStartHour: true, weekdayLoad: true }
+  });
+  const weekdayLoad = parseWeekdayLoad(user.weekdayLoad);
+
+  const firstDayStart = getFirstStudyDayStartFrom(vacation.startDate, user);
+  const returnDayStart = getFirstStudyDayStartFrom(vacation.endDate, user);
+  const spreadDays = Math.min(
+    MAX_SPREAD_DAYS,
+    Math.max(1, Math.ceil((vacation.endDate.getTime() - vacation.startDate.getTime()) / DAY_MS))
+  );
+  const dayStarts = [returnDayStart];
+  while (dayStarts.length < spreadDays) {
+    dayStarts.push(getNextStudyDayStart(dayStarts[dayStarts.length - 1], user));
+  }
+  const weights = dayStarts.map((dayStart) => getStudyDayWeight(dayStart, user, weekdayLoad));
+  const totalWeight = weights.reduce((total, weight) => total + weight, 0);
+
+  const scheduleStates = await prisma.scheduleState.findMany({
+    where: {
+      card: {
+        deck: {
+          userId
+        },
+        suspended: false
+      },
+      dueAt: {
+        gte: firstDayStart,
+        lt: returnDayStart
+      }
+    }
+  });
+  const scheduler = await getUserFsrsScheduler(userId);
+  const rankedStates = scheduleStates
+    .map((scheduleState) => ({
+      scheduleState,
+      retrievability: scheduler.get_retrievability(toFsrsCard(scheduleState, now), returnDayStart, false)
+    }))
+    .sort((left, right) => left.retrievability - right.retrievability);
+
+  let assignedCount = 0;
+  let cumulativeWeight = 0;
+  const days = dayStarts.map((dayStart, index) => {
+    cumulativeWeight += weights[index];
+    const dayEnd =
+      totalWeight > 0 ? Math.round((rankedStates.length * cumulativeWeight) / totalWeight) : rankedStates.length;
+    const moves = rankedStates.slice(assignedCount, dayEnd).map(({ scheduleState, retrievability }) => ({
+      cardId: scheduleState.cardId,
+      lastReviewedAt: scheduleState.lastReviewedAt,
+      retrievability
+    }));
+    assignedCount = Math.max(assignedCount, dayEnd);
+    return { date: dayStart, moves };
+  });
+
+  return {
+    startDate: vacation.startDate,
+    endDate: vacation.endDate,
+    range: { startDate: firstDayStart, endDate: returnDayStart },
+    cardCount: rankedStates.length,
+    days
+  };
+}
+
+function toVacationResponse(plan: Awaited<ReturnType<typeof planVacation>>) {
+  return {
+    startDate: plan.startDate,
+    endDate: plan.endDate,
+    cardCount: plan.cardCount,
+    days: plan.days.map((day) => ({
+      date: day.date,
+      cardCount: day.moves.length,
+      lowestRetrievability: day.moves.length > 0 ? day.moves[0].retrievability : null
+    }))
+  };
+}
+
+export async function previewVacation(userId: string, vacation: VacationInput, now: Date) {
+  return toVacationResponse(await planVacation(userId, vacation, now));
+}
+
+// The vacation is stored so reviews answered until it ends keep clear of it; a new vacation replaces the old one.
+export async function applyVacation(userId: string, vacation: VacationInput, now: Date) {
+  const plan = await planVacation(userId, vacation, now);
+
+  await prisma.$transaction(
+    async (tx) => {
+      for (const day of plan.days) {
+        for (const move of day.moves) {
+          const intervalMinutes = computeIntervalMinutes(move.lastReviewedAt ?? now, day.date);
+          await tx.scheduleState.update({
+            where: { cardId: move.cardId },
+            data: {
+              dueAt: day.date,
+              intervalMinutes,
+              fsrsScheduledDays: Math.floor(intervalMinutes / DAY_MINUTES)
+            }
+          });
+        }
+      }
+      await tx.user.update({
+        where: { id: userId },
+        data: {
+          vacationStartDate: plan.range.startDate,
+          vacationEndDate: plan.range.endDate
+        }
+      });
+    },
+    {
+      timeout: VACATION_TRANSACTION_TIMEOUT_MS
+    }
+  );
+
+  return toVacationResponse(plan);
+}
+
+export async function getVacation(userId: string, now: Date) {
+  const user = await prisma.user.findUniqueOrThrow({
+    where: { id: userId },
+    select: { vacationStartDate: true, vacationEndDate: true }
+  });
+  const vacation = getActiveVacation(user, now);
+  return {
+    startDate: vacation?.startDate ?? null,
+    endDate: vacation?.endDate ?? null
+  };
+}
+
+// Ending a vacation early keeps the due dates it already moved; it only stops keeping new reviews clear of it.
+export async function clearVacation(userId: string): Promise<void> {
+  await prisma.user.update({
+    where: { id: userId },
+    data: {
+      vacationStartDate: null,
+      vacationEndDate: null
+    }
+  });
+}
@@ -0,0 +1,41 @@
+import { z } from "zod";
+import { getStudyDayWeekday, type StudyDaySettings } from "./day.js";
+
+const DEFAULT_WEEKDAY_LOAD = [1, 1, 1, 1, 1, 1, 1];
+
+const weekdayLoadSchema = z.array(z.number().min(0).max(1)).length(7);
+
+export function parseWeekdayLoad(value: string): number[] {
+  try {
+    const parsed = weekdayLoadSchema.safeParse(JSON.parse(value));
+    return parsed.success && parsed.data.some((weight) => weight > 0) ? parsed.data : DEFAULT_WEEKDAY_LOAD;
+  } catch {
+    return DEFAULT_WEEKDAY_LOAD;
+  }
+}
+
+export function hasEasyDays(weekdayLoad: number[]): boolean {
+  return weekdayLoad.some((weight) => weight < 1);
+}
+
+// A stored vacation covers whole study days: it starts at the first day away and ends at the return day.
+export interface VacationRange {
+  startDate: Date;
+  endDate: Date;
+}
+
+export function isVacationTime(date: Date, vacation: VacationRange | null | undefined): boolean {
+  return !!vacation && date >= vacation.startDate && date < vacation.endDate;
+}
+
+export function getStudyDayWeight(
+  dayStart: Date,
+  settings: StudyDaySettings,
+  weekdayLoad: number[],
+  vacation?: VacationRange | null
+): number {
+  if (isVacationTime(dayStart, vacation)) {
+    return 0;
+  }
+  return weekdayLoad[getStudyDayWeekday(dayStart, settings)] ?? 1;
+}
@@ -0,0 +1,7 @@
+export function toExportFilename(title: string, extension: string): string {
+  const slug = title
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "");
+  return `${slug || "deck"}.${extension}`;
+}
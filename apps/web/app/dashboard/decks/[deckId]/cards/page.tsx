@@ -3,11 +3,14 @@
 import { FormEvent, useEffect, useState } from "react";
 import Link from "next/link";
 import { useParams, useRouter } from "next/navigation";
+import type { CardFormat } from "@flashcards/shared";
+import { CardContent } from "@/components/card-content";
 import { DashboardShell } from "@/components/dashboard-shell";
 import { useAuth } from "@/components/auth-provider";
 
 interface Card {
   id: string;
+  format: CardFormat;
   question: string;
   answer: string;
 }
@@ -265,12 +268,12 @@ export default function DeckCardsPage() {
                   </div>
                 ) : (
                   <>
-                    <p style={{ margin: "0 0 6px 0" }}>
-                      <strong>Q:</strong> {card.question}
-                    </p>
-                    <p style={{ margin: "0 0 10px 0" }}>
-                      <strong>A:</strong> {card.answer}
-                    </p>
+                    <div style={{ margin: "0 0 6px 0" }}>
+                      <strong>Q:</strong> <CardContent text={card.question} format={card.format} inline />
+                    </div>
+                    <div style={{ margin: "0 0 10px 0" }}>
+                      <strong>A:</strong> <CardContent text={card.answer} format={card.format} inline />
+                    </div>
                     <div style={{ display: "flex", gap: 8 }}>
                       <button type="button" onClick={() => startEdit(card)} disabled={isBusy}>
                         Edit
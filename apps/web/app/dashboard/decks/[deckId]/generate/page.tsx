@@ -17,8 +17,11 @@ interface DeckDetail {
 
 interface PreviewCard {
   id: string;
+  type: "BASIC" | "MULTIPLE_CHOICE";
   question: string;
   answer: string;
+  options: string[] | null;
+  correctOptionIndex: number | null;
   position: number;
 }
 
@@ -78,6 +81,8 @@ interface ReviewCard {
   id: string;
   question: string;
   answer: string;
+  options: string[] | null;
+  correctOptionIndex: number | null;
   keep: boolean;
 }
 
@@ -92,6 +97,7 @@ export default function DeckGeneratePage() {
   const [deck, setDeck] = useState<DeckDetail | null>(null);
   const [aiSettings, setAiSettings] = useState<AiSettingsResponse | null>(null);
   const [targetCards, setTargetCards] = useState("");
+  const [includeMultipleChoice, setIncludeMultipleChoice] = useState(false);
   const [ingestFile, setIngestFile] = useState<File | null>(null);
   const [activePreviewId, setActivePreviewId] = useState<string | null>(null);
   const [reviewCards, setReviewCards] = useState<ReviewCard[]>([]);
@@ -140,6 +146,8 @@ export default function DeckGeneratePage() {
         id: card.id,
         question: card.question,
         answer: card.answer,
+        options: card.type === "MULTIPLE_CHOICE" ? card.options : null,
+        correctOptionIndex: card.correctOptionIndex,
         keep: true
       }))
     );
@@ -255,6 +263,7 @@ export default function DeckGeneratePage() {
       if (parsedTargetCards !== null) {
         formData.append("targetCards", String(parsedTargetCards));
       }
+      formData.append("multipleChoice", String(includeMultipleChoice));
       formData.append("file", ingestFile);
 
       const response = await apiFetch("/ingest/generate-preview", {
@@ -306,12 +315,23 @@ export default function DeckGeneratePage() {
           "Content-Type": "application/json"
         },
         body: JSON.stringify({
-          cards: reviewCards.map((card) => ({
-            id: card.id,
-            keep: card.keep,
-            question: card.question.trim(),
-            answer: card.answer.trim()
-          }))
+          cards: reviewCards.map((card) =>
+            card.options && card.correctOptionIndex !== null
+              ? {
+                  id: card.id,
+                  keep: card.keep,
+                  question: card.question.trim(),
+                  answer: card.options[card.correctOptionIndex]?.trim() || card.answer.trim(),
+                  options: card.options.map((option) => option.trim()),
+                  correctOptionIndex: card.correctOptionIndex
+                }
+              : {
+                  id: card.id,
+                  keep: card.keep,
+                  question: card.question.trim(),
+                  answer: card.answer.trim()
+                }
+          )
         })
       });
       if (!response.ok) {
@@ -424,6 +444,15 @@ export default function DeckGeneratePage() {
             disabled={isGenerating}
             placeholder="Target cards (optional 1-30)"
           />
+          <label>
+            <input
+              type="checkbox"
+              checked={includeMultipleChoice}
+              onChange={(event) => setIncludeMultipleChoice(event.target.checked)}
+              disabled={isGenerating}
+            />{" "}
+            Include multiple-choice questions
+          </label>
           <button type="submit" disabled={isGenerating || !ingestFile}>
             {isGenerating ? "Generating..." : "Generate Cards"}
           </button>
@@ -453,13 +482,40 @@ export default function DeckGeneratePage() {
                   disabled={!card.keep || isApplyingReview}
                   style={{ width: "100%", marginBottom: 8 }}
                 />
-                <textarea
-                  value={card.answer}
-                  onChange={(event) => updateReviewCard(card.id, { answer: event.target.value })}
-                  rows={4}
-                  disabled={!card.keep || isApplyingReview}
-                  style={{ width: "100%" }}
-                />
+                {card.options ? (
+                  card.options.map((option, index) => (
+                    <label key={index} style={{ display: "flex", gap: 8, alignItems: "center", marginBottom: 4 }}>
+                      <input
+                        type="radio"
+                        checked={card.correctOptionIndex === index}
+                        onChange={() => updateReviewCard(card.id, { correctOptionIndex: index })}
+                        disabled={!card.keep || isApplyingReview}
+                        title="Correct option"
+                      />
+                      <input
+                        value={option}
+                        onChange={(event) =>
+                          updateReviewCard(card.id, {
+                            options: card.options?.map((candidate, candidateIndex) =>
+                              candidateIndex === index ? event.target.value : candidate
+                            )
+                          })
+                        }
+                        disabled={!card.keep || isApplyingReview}
+                        placeholder={`Option ${index + 1}`}
+                        style={{ flex: 1 }}
+                      />
+                    </label>
+                  ))
+                ) : (
+                  <textarea
+                    value={card.answer}
+                    onChange={(event) => updateReviewCard(card.id, { answer: event.target.value })}
+                    rows={4}
+                    disabled={!card.keep || isApplyingReview}
+                    style={{ width: "100%" }}
+                  />
+                )}
               </li>
             ))}
           </ul>
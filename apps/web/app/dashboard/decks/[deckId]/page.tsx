@@ -1,23 +1,208 @@
 "use client";
 
-import { FormEvent, useEffect, useState } from "react";
+import { FormEvent, useEffect, useRef, useState } from "react";
+import Link from "next/link";
 import { useParams, useRouter } from "next/navigation";
+import {
+  cardFlagSchema,
+  getClozeIndices,
+  getMultipleChoiceError,
+  parseTagList,
+  toMediaReference,
+  type CardFlag,
+  type CardFormat,
+  type ImageOcclusion,
+  type LeechAction
+} from "@flashcards/shared";
+import { CardContent } from "@/components/card-content";
 import { DashboardShell } from "@/components/dashboard-shell";
+import { ImageOcclusionEditor, ImageOcclusionView } from "@/components/image-occlusion";
 import { useAuth } from "@/components/auth-provider";
 
+type CardType = "BASIC" | "CLOZE" | "MULTIPLE_CHOICE" | "IMAGE_OCCLUSION";
+
 interface Card {
   id: string;
+  type: CardType;
+  format: CardFormat;
+  noteId: string | null;
+  ordinal: number;
   question: string;
   answer: string;
+  options: string[] | null;
+  correctOptionIndex: number | null;
+  occlusion: ImageOcclusion | null;
+  suspended: boolean;
+  buriedUntil: string | null;
+  flag: CardFlag | null;
+  tags: string[];
+}
+
+const FLAG_COLORS: Record<CardFlag, string> = {
+  RED: "#e53935",
+  ORANGE: "#fb8c00",
+  GREEN: "#43a047",
+  BLUE: "#1e88e5",
+  PINK: "#d81b60",
+  TURQUOISE: "#00acc1",
+  PURPLE: "#8e24aa"
+};
+
+function formatFlag(flag: CardFlag): string {
+  return flag.charAt(0) + flag.slice(1).toLowerCase();
+}
+
+interface DeckSummary {
+  id: string;
+  title: string;
 }
 
 interface DeckDetail {
   id: string;
   title: string;
   description: string | null;
+  parentId: string | null;
+  parent: DeckSummary | null;
+  presetId: string | null;
+  preset: { id: string; name: string } | null;
+  newCardsPerDay: number;
+  reviewsPerDay: number;
+  leechThreshold: number;
+  leechAction: LeechAction;
+  studyPriority: number;
+  examDate: string | null;
+  examMinReviews: number;
+  slowRecallSeconds: number | null;
+  children: DeckSummary[];
   cards: Card[];
 }
 
+interface LeechCard extends Card {
+  lapses: number;
+}
+
+interface ExamPlan {
+  examDate: string;
+  examMinReviews: number;
+  newCardsPerDay: number;
+  unscheduledCount: number;
+  recommendedNewCardsPerDay: number;
+  days: Array<{ date: string; reviewCount: number; newCount: number }>;
+}
+
+interface FsrsMemoryState {
+  state: "New" | "Learning" | "Review" | "Relearning" | null;
+  stability: number | null;
+  difficulty: number | null;
+}
+
+interface CardHistory {
+  cardId: string;
+  scheduleState:
+    | (FsrsMemoryState & {
+        dueAt: string;
+        lastReviewedAt: string | null;
+        repetitions: number;
+        lapses: number;
+        retrievability: number | null;
+      })
+    | null;
+  reviews: Array<
+    FsrsMemoryState & {
+      id: string;
+      rating: string;
+      createdAt: string;
+      durationMs: number | null;
+      rescheduled: boolean;
+      nextInterval: number;
+      retrievability: number | null;
+    }
+  >;
+}
+
+function formatPercent(value: number | null): string {
+  return value === null ? "–" : `${Math.round(value * 100)}%`;
+}
+
+function formatIntervalMinutes(minutes: number): string {
+  if (minutes < 60) {
+    return `${minutes}m`;
+  }
+  return minutes < 24 * 60 ? `${Math.round(minutes / 60)}h` : `${Math.round(minutes / (24 * 60))}d`;
+}
+
+function toDateInputValue(value: string | null): string {
+  if (!value) {
+    return "";
+  }
+  const date = new Date(value);
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, "0")}-${String(date.getDate()).padStart(2, "0")}`;
+}
+
+interface LeechRewrite {
+  card: LeechCard;
+  suggestions: Array<{ question: string; answer: string }>;
+}
+
+interface SchedulingPreset {
+  id: string;
+  name: string;
+  desiredRetention: number;
+  maximumInterval: number;
+  learningSteps: string[];
+  relearningSteps: string[];
+  enableFuzz: boolean;
+  enableLoadBalance: boolean;
+  deckCount: number;
+}
+
+interface PresetForm {
+  name: string;
+  desiredRetention: string;
+  maximumInterval: string;
+  learningSteps: string;
+  relearningSteps: string;
+  enableFuzz: boolean;
+  enableLoadBalance: boolean;
+}
+
+const DEFAULT_PRESET_FORM: PresetForm = {
+  name: "",
+  desiredRetention: "0.9",
+  maximumInterval: "36500",
+  learningSteps: "1m 10m",
+  relearningSteps: "10m",
+  enableFuzz: false,
+  enableLoadBalance: false
+};
+
+function parseStepList(value: string): string[] {
+  return value.split(/[\s,]+/).filter((step) => step.length > 0);
+}
+
+function toPresetForm(preset: SchedulingPreset): PresetForm {
+  return {
+    name: preset.name,
+    desiredRetention: String(preset.desiredRetention),
+    maximumInterval: String(preset.maximumInterval),
+    learningSteps: preset.learningSteps.join(" "),
+    relearningSteps: preset.relearningSteps.join(" "),
+    enableFuzz: preset.enableFuzz,
+    enableLoadBalance: preset.enableLoadBalance
+  };
+}
+
+interface DeckTreeNode extends DeckSummary {
+  children: DeckTreeNode[];
+}
+
+// Lists every deck a deck could be moved into, leaving out the deck itself and its own sub-decks.
+function getParentDeckOptions(decks: DeckTreeNode[], excludedId: string, depth = 0): Array<{ deck: DeckSummary; depth: number }> {
+  return decks
+    .filter((deck) => deck.id !== excludedId)
+    .flatMap((deck) => [{ deck, depth }, ...getParentDeckOptions(deck.children, excludedId, depth + 1)]);
+}
+
 interface IngestionPreview {
   id: string;
   deckId: string;
@@ -29,6 +214,30 @@ interface GeneratePreviewResponse {
   generatedCount: number;
 }
 
+interface SpreadsheetColumnMapping {
+  question: number;
+  answer: number;
+  dueDate: number | null;
+  tags: number | null;
+}
+
+interface SpreadsheetImportReport {
+  dryRun: boolean;
+  columns: string[];
+  mapping: SpreadsheetColumnMapping;
+  totalRows: number;
+  validRows: number;
+  invalidRows: number;
+  importedCards: number;
+  errors: Array<{ row: number; field: string; message: string }>;
+}
+
+type DeckExportFormat = "apkg" | "csv" | "tsv";
+
+const MAX_VISIBLE_IMPORT_ERRORS = 10;
+const MIN_CHOICE_OPTIONS = 2;
+const MAX_CHOICE_OPTIONS = 6;
+
 export default function DeckWorkspacePage() {
   const params = useParams<{ deckId: string }>();
   const deckId = typeof params.deckId === "string" ? params.deckId : "";
@@ -40,16 +249,58 @@ export default function DeckWorkspacePage() {
   const [isEditingDeck, setIsEditingDeck] = useState(false);
   const [editDeckTitle, setEditDeckTitle] = useState("");
   const [editDeckDescription, setEditDeckDescription] = useState("");
+  const [editDeckParentId, setEditDeckParentId] = useState("");
+  const [editDeckPresetId, setEditDeckPresetId] = useState("");
+  const [editNewCardsPerDay, setEditNewCardsPerDay] = useState("20");
+  const [editReviewsPerDay, setEditReviewsPerDay] = useState("200");
+  const [editLeechThreshold, setEditLeechThreshold] = useState("8");
+  const [editLeechAction, setEditLeechAction] = useState<LeechAction>("TAG");
+  const [editStudyPriority, setEditStudyPriority] = useState("0");
+  const [editExamDate, setEditExamDate] = useState("");
+  const [editExamMinReviews, setEditExamMinReviews] = useState("2");
+  const [editSlowRecallSeconds, setEditSlowRecallSeconds] = useState("");
+  const [examPlan, setExamPlan] = useState<ExamPlan | null>(null);
+  const [leeches, setLeeches] = useState<LeechCard[]>([]);
+  const [leechRewrite, setLeechRewrite] = useState<LeechRewrite | null>(null);
+  const [cardHistory, setCardHistory] = useState<CardHistory | null>(null);
+  const [presets, setPresets] = useState<SchedulingPreset[]>([]);
+  const [presetForm, setPresetForm] = useState<PresetForm>(DEFAULT_PRESET_FORM);
+  const [deckTree, setDeckTree] = useState<DeckTreeNode[]>([]);
 
+  const [cardType, setCardType] = useState<CardType>("BASIC");
+  const [cardFormat, setCardFormat] = useState<CardFormat>("PLAIN");
   const [cardQuestion, setCardQuestion] = useState("");
+  const cardQuestionRef = useRef<HTMLTextAreaElement>(null);
   const [cardAnswer, setCardAnswer] = useState("");
+  const [cardReverse, setCardReverse] = useState(false);
+  const [cardOptions, setCardOptions] = useState<string[]>(["", ""]);
+  const [cardCorrectOption, setCardCorrectOption] = useState(0);
+  const [cardOcclusion, setCardOcclusion] = useState<ImageOcclusion | null>(null);
+  const [cardTags, setCardTags] = useState("");
   const [editingCardId, setEditingCardId] = useState<string | null>(null);
+  const [editCardFormat, setEditCardFormat] = useState<CardFormat>("PLAIN");
   const [editCardQuestion, setEditCardQuestion] = useState("");
   const [editCardAnswer, setEditCardAnswer] = useState("");
+  const [editCardReverse, setEditCardReverse] = useState(false);
+  const [editCardOptions, setEditCardOptions] = useState<string[]>([]);
+  const [editCardCorrectOption, setEditCardCorrectOption] = useState(0);
+  const [editCardOcclusion, setEditCardOcclusion] = useState<ImageOcclusion | null>(null);
+  const [editCardTags, setEditCardTags] = useState("");
+  const [tagFilter, setTagFilter] = useState("");
+  const [appliedTagFilter, setAppliedTagFilter] = useState("");
+  const [flagFilter, setFlagFilter] = useState<CardFlag | "">("");
+  const [appliedFlagFilter, setAppliedFlagFilter] = useState<CardFlag | "">("");
+  const [filteredCards, setFilteredCards] = useState<Card[] | null>(null);
+  const [selectedCardIds, setSelectedCardIds] = useState<Set<string>>(new Set());
 
   const [targetCards, setTargetCards] = useState("");
+  const [includeMultipleChoice, setIncludeMultipleChoice] = useState(false);
   const [ingestFile, setIngestFile] = useState<File | null>(null);
 
+  const [spreadsheetFile, setSpreadsheetFile] = useState<File | null>(null);
+  const [spreadsheetMapping, setSpreadsheetMapping] = useState<SpreadsheetColumnMapping | null>(null);
+  const [spreadsheetReport, setSpreadsheetReport] = useState<SpreadsheetImportReport | null>(null);
+
   const [statusMessage, setStatusMessage] = useState<string | null>(null);
   const [isBusy, setIsBusy] = useState(false);
   const [isGenerating, setIsGenerating] = useState(false);
@@ -72,15 +323,103 @@ export default function DeckWorkspacePage() {
       return;
     }
 
-    const response = await apiFetch(`/decks/${deckId}`);
+    const [response, treeResponse, presetsResponse, leechesResponse] = await Promise.all([
+      apiFetch(`/decks/${deckId}`),
+      apiFetch("/decks"),
+      apiFetch("/presets"),
+      apiFetch(`/decks/${deckId}/leeches`)
+    ]);
     if (!response.ok) {
       throw new Error(await readErrorMessage(response));
     }
+    if (!treeResponse.ok) {
+      throw new Error(await readErrorMessage(treeResponse));
+    }
+    if (!presetsResponse.ok) {
+      throw new Error(await readErrorMessage(presetsResponse));
+    }
+    if (!leechesResponse.ok) {
+      throw new Error(await readErrorMessage(leechesResponse));
+    }
 
-    const data = (await response.json()) as DeckDetail;
+    const [data, treeData, presetsData, leechesData] = await Promise.all([
+      response.json() as Promise<DeckDetail>,
+      treeResponse.json() as Promise<DeckTreeNode[]>,
+      presetsResponse.json() as Promise<SchedulingPreset[]>,
+      leechesResponse.json() as Promise<LeechCard[]>
+    ]);
+    setLeeches(leechesData);
     setDeck(data);
+    setDeckTree(treeData);
+    setPresets(presetsData);
     setEditDeckTitle(data.title);
     setEditDeckDescription(data.description ?? "");
+    setEditDeckParentId(data.parentId ?? "");
+    setEditDeckPresetId(data.presetId ?? "");
+    setEditNewCardsPerDay(String(data.newCardsPerDay));
+    setEditReviewsPerDay(String(data.reviewsPerDay));
+    setEditLeechThreshold(String(data.leechThreshold));
+    setEditLeechAction(data.leechAction);
+    setEditStudyPriority(String(data.studyPriority));
+    setEditExamDate(toDateInputValue(data.examDate));
+    setEditExamMinReviews(String(data.examMinReviews));
+    setEditSlowRecallSeconds(data.slowRecallSeconds === null ? "" : String(data.slowRecallSeconds));
+    await loadExamPlan(data.examDate !== null);
+    if (appliedTagFilter || appliedFlagFilter) {
+      await loadFilteredCards(appliedTagFilter, appliedFlagFilter);
+    }
+  }
+
+  async function loadExamPlan(hasExamDate: boolean) {
+    if (!hasExamDate) {
+      setExamPlan(null);
+      return;
+    }
+
+    const response = await apiFetch(`/decks/${deckId}/exam-plan`);
+    if (!response.ok) {
+      throw new Error(await readErrorMessage(response));
+    }
+    setExamPlan((await response.json()) as ExamPlan);
+  }
+
+  async function loadFilteredCards(expression: string, flag: CardFlag | "") {
+    const query = new URLSearchParams();
+    if (expression) {
+      query.set("tags", expression);
+    }
+    if (flag) {
+      query.set("flag", flag);
+    }
+    const response = await apiFetch(`/decks/${deckId}/cards?${query.toString()}`);
+    if (!response.ok) {
+      throw new Error(await readErrorMessage(response));
+    }
+
+    setFilteredCards((await response.json()) as Card[]);
+  }
+
+  async function applyTagFilter(expression: string, flag: CardFlag | "" = flagFilter) {
+    const trimmedExpression = expression.trim();
+    setSelectedCardIds(new Set());
+    if (!trimmedExpression && !flag) {
+      setAppliedTagFilter("");
+      setAppliedFlagFilter("");
+      setFilteredCards(null);
+      return;
+    }
+
+    setIsBusy(true);
+    setStatusMessage(null);
+    try {
+      await loadFilteredCards(trimmedExpression, flag);
+      setAppliedTagFilter(trimmedExpression);
+      setAppliedFlagFilter(flag);
+    } catch {
+      setStatusMessage("Could not filter cards. Use tags like chapter1|chapter2 -hard.");
+    } finally {
+      setIsBusy(false);
+    }
   }
 
   useEffect(() => {
@@ -120,7 +459,18 @@ export default function DeckWorkspacePage() {
         },
         body: JSON.stringify({
           title: editDeckTitle.trim(),
-          description: editDeckDescription.trim() || undefined
+          description: editDeckDescription.trim() || undefined,
+          parentId: editDeckParentId || null,
+          presetId: editDeckPresetId || null,
+          newCardsPerDay: Number(editNewCardsPerDay),
+          reviewsPerDay: Number(editReviewsPerDay),
+          leechThreshold: Number(editLeechThreshold),
+          leechAction: editLeechAction,
+          studyPriority: Number(editStudyPriority),
+          // The exam starts at local midnight of the chosen day.
+          examDate: editExamDate ? new Date(`${editExamDate}T00:00`).toISOString() : null,
+          examMinReviews: Number(editExamMinReviews),
+          slowRecallSeconds: editSlowRecallSeconds ? Number(editSlowRecallSeconds) : null
         })
       });
       if (!response.ok) {
@@ -137,11 +487,56 @@ export default function DeckWorkspacePage() {
     }
   }
 
+  function selectDeckPreset(presetId: string) {
+    setEditDeckPresetId(presetId);
+    const preset = presets.find((candidate) => candidate.id === presetId);
+    setPresetForm(preset ? toPresetForm(preset) : DEFAULT_PRESET_FORM);
+  }
+
+  async function handleSavePreset(presetId: string | null) {
+    if (!presetForm.name.trim()) {
+      setStatusMessage("Preset name is required.");
+      return;
+    }
+
+    setIsBusy(true);
+    setStatusMessage(null);
+    try {
+      const response = await apiFetch(presetId ? `/presets/${presetId}` : "/presets", {
+        method: presetId ? "PATCH" : "POST",
+        headers: {
+          "Content-Type": "application/json"
+        },
+        body: JSON.stringify({
+          name: presetForm.name.trim(),
+          desiredRetention: Number(presetForm.desiredRetention),
+          maximumInterval: Number(presetForm.maximumInterval),
+          learningSteps: parseStepList(presetForm.learningSteps),
+          relearningSteps: parseStepList(presetForm.relearningSteps),
+          enableFuzz: presetForm.enableFuzz,
+          enableLoadBalance: presetForm.enableLoadBalance
+        })
+      });
+      if (!response.ok) {
+        throw new Error(await readErrorMessage(response));
+      }
+
+      const preset = (await response.json()) as SchedulingPreset;
+      await loadDeck();
+      setEditDeckPresetId(preset.id);
+      setStatusMessage(presetId ? "Preset updated." : "Preset created. Save the deck to use it.");
+    } catch {
+      setStatusMessage("Could not save preset. Use a retention of 0.7-0.99 and steps like 1m 10m 1d.");
+    } finally {
+      setIsBusy(false);
+    }
+  }
+
   async function handleDeleteDeck() {
     if (!deck) {
       return;
     }
-    if (!confirm("Delete this deck and all its cards?")) {
+    if (!confirm("Delete this deck, its sub-decks and all their cards?")) {
       return;
     }
 
@@ -161,10 +556,91 @@ export default function DeckWorkspacePage() {
     }
   }
 
+  async function handleExportDeck(format: DeckExportFormat) {
+    if (!deck) {
+      return;
+    }
+
+    setIsBusy(true);
+    setStatusMessage(null);
+    try {
+      const response = await apiFetch(`/decks/${deck.id}/export?format=${format}`);
+      if (!response.ok) {
+        throw new Error(await readErrorMessage(response));
+      }
+
+      const blob = await response.blob();
+      const downloadUrl = URL.createObjectURL(blob);
+      const link = document.createElement("a");
+      link.href = downloadUrl;
+      link.download = `${deck.title}.${format}`;
+      link.click();
+      URL.revokeObjectURL(downloadUrl);
+      setStatusMessage(format === "apkg" ? "Deck exported for Anki." : `Deck exported as ${format.toUpperCase()}.`);
+    } catch {
+      setStatusMessage("Could not export deck.");
+    } finally {
+      setIsBusy(false);
+    }
+  }
+
+  function validateCardInput(
+    type: CardType,
+    question: string,
+    answer: string,
+    options: string[] = [],
+    correctOptionIndex = 0,
+    occlusion: ImageOcclusion | null = null
+  ): string | null {
+    if (type === "IMAGE_OCCLUSION") {
+      if (!question.trim()) {
+        return "A prompt is required.";
+      }
+      return occlusion && occlusion.masks.length > 0 ? null : "Upload an image and draw at least one mask.";
+    }
+    if (type === "MULTIPLE_CHOICE") {
+      const trimmedOptions = options.map((option) => option.trim());
+      if (!question.trim() || trimmedOptions.some((option) => !option)) {
+        return "Question and every option are required.";
+      }
+      return getMultipleChoiceError(trimmedOptions, correctOptionIndex);
+    }
+    if (type === "CLOZE") {
+      return getClozeIndices(question).length > 0 ? null : "Cloze text needs at least one deletion like {{c1::answer}}.";
+    }
+    return question.trim() && answer.trim() ? null : "Question and answer are required.";
+  }
+
+  function wrapSelectionInCloze() {
+    const textarea = cardQuestionRef.current;
+    if (!textarea) {
+      return;
+    }
+
+    const { selectionStart, selectionEnd } = textarea;
+    const nextIndex = Math.max(0, ...getClozeIndices(cardQuestion)) + 1;
+    const selectedText = cardQuestion.slice(selectionStart, selectionEnd);
+    setCardQuestion(
+      `${cardQuestion.slice(0, selectionStart)}{{c${nextIndex}::${selectedText}}}${cardQuestion.slice(selectionEnd)}`
+    );
+    textarea.focus();
+  }
+
   async function handleCreateCard(event: FormEvent<HTMLFormElement>) {
     event.preventDefault();
-    if (!deck || !cardQuestion.trim() || !cardAnswer.trim()) {
-      setStatusMessage("Question and answer are required.");
+    if (!deck) {
+      return;
+    }
+    const validationMessage = validateCardInput(
+      cardType,
+      cardQuestion,
+      cardAnswer,
+      cardOptions,
+      cardCorrectOption,
+      cardOcclusion
+    );
+    if (validationMessage) {
+      setStatusMessage(validationMessage);
       return;
     }
 
@@ -176,10 +652,26 @@ export default function DeckWorkspacePage() {
         headers: {
           "Content-Type": "application/json"
         },
-        body: JSON.stringify({
-          question: cardQuestion.trim(),
-          answer: cardAnswer.trim()
-        })
+        body: JSON.stringify(
+          cardType === "MULTIPLE_CHOICE"
+            ? {
+                type: cardType,
+                format: cardFormat,
+                question: cardQuestion.trim(),
+                options: cardOptions.map((option) => option.trim()),
+                correctOptionIndex: cardCorrectOption,
+                tags: parseTagList(cardTags)
+              }
+            : {
+                type: cardType,
+                format: cardFormat,
+                question: cardQuestion.trim(),
+                answer: cardAnswer.trim(),
+                reverse: cardType === "BASIC" && cardReverse,
+                ...(cardType === "IMAGE_OCCLUSION" ? { occlusion: cardOcclusion } : {}),
+                tags: parseTagList(cardTags)
+              }
+        )
       });
       if (!response.ok) {
         throw new Error(await readErrorMessage(response));
@@ -187,6 +679,10 @@ export default function DeckWorkspacePage() {
 
       setCardQuestion("");
       setCardAnswer("");
+      setCardOptions(["", ""]);
+      setCardCorrectOption(0);
+      setCardOcclusion(null);
+      setCardTags("");
       await loadDeck();
       setStatusMessage("Card created.");
     } catch {
@@ -196,36 +692,131 @@ export default function DeckWorkspacePage() {
     }
   }
 
+  async function handleSpreadsheetImport(dryRun: boolean, mapping: SpreadsheetColumnMapping | null) {
+    if (!deckId || !spreadsheetFile) {
+      setStatusMessage("Select a CSV or TSV file.");
+      return;
+    }
+
+    const format = spreadsheetFile.name.toLowerCase().endsWith(".tsv") ? "tsv" : "csv";
+
+    setIsBusy(true);
+    setStatusMessage(null);
+    try {
+      const formData = new FormData();
+      formData.append("dryRun", String(dryRun));
+      if (mapping) {
+        formData.append("questionColumn", String(mapping.question));
+        formData.append("answerColumn", String(mapping.answer));
+        formData.append("dueDateColumn", mapping.dueDate === null ? "none" : String(mapping.dueDate));
+        formData.append("tagsColumn", mapping.tags === null ? "none" : String(mapping.tags));
+      }
+      formData.append("file", spreadsheetFile);
+
+      const response = await apiFetch(`/decks/${deckId}/import?format=${format}`, {
+        method: "POST",
+        body: formData
+      });
+      if (!response.ok) {
+        throw new Error(await readErrorMessage(response));
+      }
+
+      const data = (await response.json()) as SpreadsheetImportReport;
+      if (dryRun) {
+        setSpreadsheetReport(data);
+        setSpreadsheetMapping(data.mapping);
+        return;
+      }
+
+      setSpreadsheetFile(null);
+      setSpreadsheetMapping(null);
+      setSpreadsheetReport(null);
+      await loadDeck();
+      setStatusMessage(`Imported ${data.importedCards} cards. Skipped ${data.invalidRows} invalid rows.`);
+    } catch {
+      setStatusMessage("Could not import spreadsheet.");
+    } finally {
+      setIsBusy(false);
+    }
+  }
+
+  function updateSpreadsheetMapping(field: keyof SpreadsheetColumnMapping, value: string) {
+    if (!spreadsheetMapping) {
+      return;
+    }
+
+    const nextMapping = {
+      ...spreadsheetMapping,
+      [field]: value === "none" ? null : Number(value)
+    };
+    setSpreadsheetMapping(nextMapping);
+    void handleSpreadsheetImport(true, nextMapping);
+  }
+
   function startCardEdit(card: Card) {
     setEditingCardId(card.id);
+    setEditCardFormat(card.format);
     setEditCardQuestion(card.question);
     setEditCardAnswer(card.answer);
+    setEditCardReverse(card.type === "BASIC" && card.noteId !== null);
+    setEditCardOptions(card.options ?? []);
+    setEditCardCorrectOption(card.correctOptionIndex ?? 0);
+    setEditCardOcclusion(card.occlusion);
+    setEditCardTags(card.tags.join(" "));
   }
 
   function cancelCardEdit() {
     setEditingCardId(null);
+    setEditCardFormat("PLAIN");
     setEditCardQuestion("");
     setEditCardAnswer("");
+    setEditCardReverse(false);
+    setEditCardOptions([]);
+    setEditCardCorrectOption(0);
+    setEditCardOcclusion(null);
+    setEditCardTags("");
   }
 
-  async function handleUpdateCard(cardId: string) {
-    if (!editCardQuestion.trim() || !editCardAnswer.trim()) {
-      setStatusMessage("Question and answer are required.");
+  async function handleUpdateCard(card: Card) {
+    const validationMessage = validateCardInput(
+      card.type,
+      editCardQuestion,
+      editCardAnswer,
+      editCardOptions,
+      editCardCorrectOption,
+      editCardOcclusion
+    );
+    if (validationMessage) {
+      setStatusMessage(validationMessage);
       return;
     }
 
     setIsBusy(true);
     setStatusMessage(null);
     try {
-      const response = await apiFetch(`/cards/${cardId}`, {
+      const response = await apiFetch(`/cards/${card.id}`, {
         method: "PATCH",
         headers: {
           "Content-Type": "application/json"
         },
-        body: JSON.stringify({
-          question: editCardQuestion.trim(),
-          answer: editCardAnswer.trim()
-        })
+        body: JSON.stringify(
+          card.type === "MULTIPLE_CHOICE"
+            ? {
+                format: editCardFormat,
+                question: editCardQuestion.trim(),
+                options: editCardOptions.map((option) => option.trim()),
+                correctOptionIndex: editCardCorrectOption,
+                tags: parseTagList(editCardTags)
+              }
+            : {
+                format: editCardFormat,
+                question: editCardQuestion.trim(),
+                answer: editCardAnswer.trim(),
+                tags: parseTagList(editCardTags),
+                ...(card.type === "BASIC" ? { reverse: editCardReverse } : {}),
+                ...(card.type === "IMAGE_OCCLUSION" ? { occlusion: editCardOcclusion } : {})
+              }
+        )
       });
       if (!response.ok) {
         throw new Error(await readErrorMessage(response));
@@ -241,15 +832,336 @@ export default function DeckWorkspacePage() {
     }
   }
 
-  async function handleDeleteCard(cardId: string) {
-    if (!confirm("Delete this card?")) {
+  async function handleAttachMedia(file: File, insertReference: (reference: string, mediaId: string) => void) {
+    setIsBusy(true);
+    setStatusMessage(null);
+    try {
+      const formData = new FormData();
+      formData.append("file", file);
+      const response = await apiFetch("/media", {
+        method: "POST",
+        body: formData
+      });
+      if (!response.ok) {
+        throw new Error(await readErrorMessage(response));
+      }
+
+      const media = (await response.json()) as { id: string };
+      insertReference(toMediaReference(media.id), media.id);
+      setStatusMessage("Attachment added.");
+    } catch {
+      setStatusMessage("Could not attach file. Use an image or audio file within your media storage limit.");
+    } finally {
+      setIsBusy(false);
+    }
+  }
+
+  function renderMediaPicker(label: string, insertReference: (reference: string) => void) {
+    return (
+      <label style={{ display: "flex", gap: 8, alignItems: "center", flexWrap: "wrap" }}>
+        {label}
+        <input
+          type="file"
+          accept="image/png,image/jpeg,image/gif,image/webp,audio/*"
+          onChange={(event) => {
+            const file = event.target.files?.[0];
+            event.target.value = "";
+            if (file) {
+              void handleAttachMedia(file, insertReference);
+            }
+          }}
+          disabled={isBusy}
+        />
+      </label>
+    );
+  }
+
+  function renderOcclusionEditor(occlusion: ImageOcclusion | null, setOcclusion: (occlusion: ImageOcclusion | null) => void) {
+    return (
+      <div style={{ display: "grid", gap: 8 }}>
+        <label style={{ display: "flex", gap: 8, alignItems: "center", flexWrap: "wrap" }}>
+          {occlusion ? "Replace image:" : "Image:"}
+          <input
+            type="file"
+            accept="image/png,image/jpeg,image/gif,image/webp"
+            onChange={(event) => {
+              const file = event.target.files?.[0];
+              event.target.value = "";
+              if (file) {
+                void handleAttachMedia(file, (_reference, mediaId) =>
+                  setOcclusion({ mediaId, masks: occlusion?.masks ?? [] })
+                );
+              }
+            }}
+            disabled={isBusy}
+          />
+        </label>
+        {occlusion ? (
+          <ImageOcclusionEditor
+            mediaId={occlusion.mediaId}
+            masks={occlusion.masks}
+            onChange={(masks) => setOcclusion({ ...occlusion, masks })}
+            disabled={isBusy}
+          />
+        ) : null}
+      </div>
+    );
+  }
+
+  function renderFormatSelect(format: CardFormat, setFormat: (format: CardFormat) => void) {
+    return (
+      <select value={format} onChange={(event) => setFormat(event.target.value as CardFormat)} disabled={isBusy}>
+        <option value="PLAIN">Plain text</option>
+        <option value="MARKDOWN">Markdown (math with $...$, code blocks, lists)</option>
+      </select>
+    );
+  }
+
+  function renderMarkdownPreview(format: CardFormat, question: string, answer: string) {
+    if (format !== "MARKDOWN" || (!question.trim() && !answer.trim())) {
+      return null;
+    }
+
+    return (
+      <div style={{ border: "1px dashed #ddd", borderRadius: 8, padding: 8, display: "grid", gap: 6 }}>
+        <strong>Preview</strong>
+        <CardContent text={question} format={format} />
+        {answer.trim() ? <CardContent text={answer} format={format} /> : null}
+      </div>
+    );
+  }
+
+  function renderOptionsEditor(
+    options: string[],
+    correctOptionIndex: number,
+    setOptions: (options: string[]) => void,
+    setCorrectOptionIndex: (index: number) => void
+  ) {
+    return (
+      <div style={{ display: "grid", gap: 6 }}>
+        {options.map((option, index) => (
+          <div key={index} style={{ display: "flex", gap: 8, alignItems: "center" }}>
+            <input
+              type="radio"
+              checked={correctOptionIndex === index}
+              onChange={() => setCorrectOptionIndex(index)}
+              disabled={isBusy}
+              title="Correct option"
+            />
+            <input
+              value={option}
+              onChange={(event) =>
+                setOptions(options.map((candidate, candidateIndex) => (candidateIndex === index ? event.target.value : candidate)))
+              }
+              placeholder={`Option ${index + 1}`}
+              disabled={isBusy}
+              style={{ flex: 1 }}
+            />
+            <button
+              type="button"
+              onClick={() => {
+                setOptions(options.filter((_, candidateIndex) => candidateIndex !== index));
+                if (correctOptionIndex >= index && correctOptionIndex > 0) {
+                  setCorrectOptionIndex(correctOptionIndex - 1);
+                }
+              }}
+              disabled={isBusy || options.length <= MIN_CHOICE_OPTIONS}
+            >
+              Remove
+            </button>
+          </div>
+        ))}
+        <div>
+          <button
+            type="button"
+            onClick={() => setOptions([...options, ""])}
+            disabled={isBusy || options.length >= MAX_CHOICE_OPTIONS}
+          >
+            Add Option
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  async function handleToggleCardInfo(card: Card) {
+    if (cardHistory?.cardId === card.id) {
+      setCardHistory(null);
+      return;
+    }
+
+    setIsBusy(true);
+    setStatusMessage(null);
+    try {
+      const response = await apiFetch(`/cards/${card.id}/history`);
+      if (!response.ok) {
+        throw new Error(await readErrorMessage(response));
+      }
+
+      setCardHistory((await response.json()) as CardHistory);
+    } catch {
+      setStatusMessage("Could not load card info.");
+    } finally {
+      setIsBusy(false);
+    }
+  }
+
+  async function handleRewriteLeech(card: LeechCard) {
+    setIsBusy(true);
+    setStatusMessage(null);
+    try {
+      const response = await apiFetch("/study/rewrite", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json"
+        },
+        body: JSON.stringify({ cardId: card.id })
+      });
+      if (!response.ok) {
+        throw new Error(await readErrorMessage(response));
+      }
+
+      const data = (await response.json()) as { suggestions: LeechRewrite["suggestions"] };
+      setLeechRewrite({ card, suggestions: data.suggestions });
+    } catch {
+      setStatusMessage("Could not rewrite this card with AI.");
+    } finally {
+      setIsBusy(false);
+    }
+  }
+
+  // The rewritten cards start fresh and the leech is suspended rather than deleted, keeping its review history.
+  async function handleReplaceLeech() {
+    if (!leechRewrite) {
+      return;
+    }
+
+    const suggestions = leechRewrite.suggestions.filter(
+      (suggestion) => suggestion.question.trim() && suggestion.answer.trim()
+    );
+    if (suggestions.length === 0) {
+      setStatusMessage("Keep at least one rewritten card with a question and answer.");
+      return;
+    }
+
+    setIsBusy(true);
+    setStatusMessage(null);
+    try {
+      const tags = leechRewrite.card.tags.filter((tag) => tag !== "leech");
+      for (const suggestion of suggestions) {
+        const response = await apiFetch(`/decks/${deckId}/cards`, {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json"
+          },
+          body: JSON.stringify({
+            question: suggestion.question.trim(),
+            answer: suggestion.answer.trim(),
+            tags
+          })
+        });
+        if (!response.ok) {
+          throw new Error(await readErrorMessage(response));
+        }
+      }
+
+      const suspendResponse = await apiFetch("/cards/bulk", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json"
+        },
+        body: JSON.stringify({ cardIds: [leechRewrite.card.id], suspended: true })
+      });
+      if (!suspendResponse.ok) {
+        throw new Error(await readErrorMessage(suspendResponse));
+      }
+
+      setLeechRewrite(null);
+      await loadDeck();
+      setStatusMessage(`Added ${suggestions.length} rewritten cards and suspended the leech.`);
+    } catch {
+      setStatusMessage("Could not replace the leech card.");
+    } finally {
+      setIsBusy(false);
+    }
+  }
+
+  function updateLeechSuggestion(index: number, changes: { question?: string; answer?: string }) {
+    setLeechRewrite((current) =>
+      current
+        ? {
+            ...current,
+            suggestions: current.suggestions.map((suggestion, suggestionIndex) =>
+              suggestionIndex === index ? { ...suggestion, ...changes } : suggestion
+            )
+          }
+        : current
+    );
+  }
+
+  function toggleCardSelection(cardId: string) {
+    setSelectedCardIds((current) => {
+      const next = new Set(current);
+      if (next.has(cardId)) {
+        next.delete(cardId);
+      } else {
+        next.add(cardId);
+      }
+      return next;
+    });
+  }
+
+  // The list shows one entry per note, so actions on an entry apply to every card of that note.
+  async function handleBulkUpdate(changes: { suspended?: boolean; buried?: boolean; flag?: CardFlag | null }) {
+    const selectedCards = (deck?.cards ?? []).filter((card) => selectedCardIds.has(card.id));
+    const selectedNoteIds = new Set(selectedCards.flatMap((card) => (card.noteId ? [card.noteId] : [])));
+    const cardIds = (deck?.cards ?? [])
+      .filter((card) => selectedCardIds.has(card.id) || (card.noteId !== null && selectedNoteIds.has(card.noteId)))
+      .map((card) => card.id);
+    if (cardIds.length === 0) {
       return;
     }
 
     setIsBusy(true);
     setStatusMessage(null);
     try {
-      const response = await apiFetch(`/cards/${cardId}`, {
+      const response = await apiFetch("/cards/bulk", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json"
+        },
+        body: JSON.stringify({ cardIds, ...changes })
+      });
+      if (!response.ok) {
+        throw new Error(await readErrorMessage(response));
+      }
+
+      const data = (await response.json()) as { updatedCount: number };
+      setSelectedCardIds(new Set());
+      await loadDeck();
+      setStatusMessage(`Updated ${data.updatedCount} cards.`);
+    } catch {
+      setStatusMessage("Could not update the selected cards.");
+    } finally {
+      setIsBusy(false);
+    }
+  }
+
+  async function handleDeleteCard(card: Card) {
+    if (
+      !confirm(
+        card.type === "CLOZE" || card.type === "IMAGE_OCCLUSION"
+          ? "Delete this note and all its cards?"
+          : "Delete this card?"
+      )
+    ) {
+      return;
+    }
+
+    setIsBusy(true);
+    setStatusMessage(null);
+    try {
+      const response = await apiFetch(`/cards/${card.id}`, {
         method: "DELETE"
       });
       if (!response.ok) {
@@ -293,6 +1205,7 @@ export default function DeckWorkspacePage() {
       if (parsedTargetCards !== null) {
         formData.append("targetCards", String(parsedTargetCards));
       }
+      formData.append("multipleChoice", String(includeMultipleChoice));
       formData.append("file", ingestFile);
 
       const response = await apiFetch("/ingest/generate-preview", {
@@ -311,6 +1224,17 @@ export default function DeckWorkspacePage() {
     }
   }
 
+  // Cloze and reverse siblings share a note, so the editor lists each note once.
+  const noteCardCounts = new Map<string, number>();
+  for (const card of deck?.cards ?? []) {
+    if (card.noteId) {
+      noteCardCounts.set(card.noteId, (noteCardCounts.get(card.noteId) ?? 0) + 1);
+    }
+  }
+  const noteCards = (filteredCards ?? deck?.cards ?? []).filter(
+    (card, index, cards) => !card.noteId || cards.findIndex((candidate) => candidate.noteId === card.noteId) === index
+  );
+
   if (isLoading || !user) {
     return (
       <main style={{ padding: 24, fontFamily: "sans-serif" }}>
@@ -338,13 +1262,76 @@ export default function DeckWorkspacePage() {
             <p style={{ margin: 0 }}>
               <strong>Total cards:</strong> {deck.cards.length}
             </p>
+            <p style={{ margin: 0 }}>
+              <strong>Scheduling preset:</strong> {deck.preset?.name ?? "Default"}
+            </p>
+            <p style={{ margin: 0 }}>
+              <strong>Daily limits:</strong> {deck.newCardsPerDay} new cards, {deck.reviewsPerDay} reviews
+            </p>
+            <p style={{ margin: 0 }}>
+              <strong>Leeches:</strong> {deck.leechAction === "SUSPEND" ? "tagged and suspended" : "tagged"} after{" "}
+              {deck.leechThreshold} lapses
+            </p>
+            <p style={{ margin: 0 }}>
+              <strong>Study All priority:</strong> {deck.studyPriority}
+            </p>
+            {deck.slowRecallSeconds !== null ? (
+              <p style={{ margin: 0 }}>
+                <strong>Slow recalls:</strong> tagged when a remembered card takes over {deck.slowRecallSeconds} seconds
+              </p>
+            ) : null}
+            {deck.examDate ? (
+              <p style={{ margin: 0 }}>
+                <strong>Exam:</strong> {new Date(deck.examDate).toLocaleDateString()}, every card reviewed at least{" "}
+                {deck.examMinReviews} times before it
+              </p>
+            ) : null}
+            {deck.parent ? (
+              <p style={{ margin: 0 }}>
+                <strong>Inside:</strong> <Link href={`/dashboard/decks/${deck.parent.id}`}>{deck.parent.title}</Link>
+              </p>
+            ) : null}
+            {deck.children.length > 0 ? (
+              <div>
+                <strong>Sub-decks:</strong>
+                <ul style={{ margin: "4px 0 0 0" }}>
+                  {deck.children.map((child) => (
+                    <li key={child.id}>
+                      <Link href={`/dashboard/decks/${child.id}`}>{child.title}</Link>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            ) : null}
             <div style={{ display: "flex", gap: 8, flexWrap: "wrap" }}>
-              <button type="button" onClick={() => setIsEditingDeck(true)} disabled={isBusy}>
+              <button
+                type="button"
+                onClick={() => {
+                  selectDeckPreset(deck.presetId ?? "");
+                  setIsEditingDeck(true);
+                }}
+                disabled={isBusy}
+              >
                 Edit Deck
               </button>
               <button type="button" onClick={() => router.push(`/dashboard/study/${deck.id}`)} disabled={isBusy}>
                 Study Deck
               </button>
+              {deck.children.length > 0 ? (
+                <button
+                  type="button"
+                  onClick={() => router.push(`/dashboard/study/${deck.id}?includeSubdecks=true`)}
+                  disabled={isBusy}
+                >
+                  Study with Sub-decks
+                </button>
+              ) : null}
+              <button type="button" onClick={() => void handleExportDeck("apkg")} disabled={isBusy}>
+                Export to Anki
+              </button>
+              <button type="button" onClick={() => void handleExportDeck("csv")} disabled={isBusy}>
+                Export CSV
+              </button>
               <button type="button" onClick={() => void handleDeleteDeck()} disabled={isBusy}>
                 Delete Deck
               </button>
@@ -365,6 +1352,185 @@ export default function DeckWorkspacePage() {
               rows={3}
               disabled={isBusy}
             />
+            <select value={editDeckParentId} onChange={(event) => setEditDeckParentId(event.target.value)} disabled={isBusy}>
+              <option value="">No parent (top-level deck)</option>
+              {getParentDeckOptions(deckTree, deck.id).map(({ deck: option, depth }) => (
+                <option key={option.id} value={option.id}>
+                  {`${"— ".repeat(depth)}${option.title}`}
+                </option>
+              ))}
+            </select>
+            <select value={editDeckPresetId} onChange={(event) => selectDeckPreset(event.target.value)} disabled={isBusy}>
+              <option value="">Default scheduling (90% retention, 1m 10m steps)</option>
+              {presets.map((preset) => (
+                <option key={preset.id} value={preset.id}>
+                  {preset.name} ({preset.deckCount} decks)
+                </option>
+              ))}
+            </select>
+            <div style={{ display: "flex", gap: 8, flexWrap: "wrap" }}>
+              <label>
+                New cards/day{" "}
+                <input
+                  type="number"
+                  min={0}
+                  max={9999}
+                  value={editNewCardsPerDay}
+                  onChange={(event) => setEditNewCardsPerDay(event.target.value)}
+                  disabled={isBusy}
+                />
+              </label>
+              <label>
+                Reviews/day{" "}
+                <input
+                  type="number"
+                  min={0}
+                  max={9999}
+                  value={editReviewsPerDay}
+                  onChange={(event) => setEditReviewsPerDay(event.target.value)}
+                  disabled={isBusy}
+                />
+              </label>
+            </div>
+            <div style={{ display: "flex", gap: 8, flexWrap: "wrap" }}>
+              <label>
+                Leech after lapses{" "}
+                <input
+                  type="number"
+                  min={1}
+                  max={99}
+                  value={editLeechThreshold}
+                  onChange={(event) => setEditLeechThreshold(event.target.value)}
+                  disabled={isBusy}
+                />
+              </label>
+              <select
+                value={editLeechAction}
+                onChange={(event) => setEditLeechAction(event.target.value as LeechAction)}
+                disabled={isBusy}
+              >
+                <option value="TAG">Tag leeches</option>
+                <option value="SUSPEND">Tag and suspend leeches</option>
+              </select>
+              <label title="Higher priority decks come first when studying all decks ordered by deck.">
+                Study All priority{" "}
+                <input
+                  type="number"
+                  min={0}
+                  max={100}
+                  value={editStudyPriority}
+                  onChange={(event) => setEditStudyPriority(event.target.value)}
+                  disabled={isBusy}
+                />
+              </label>
+              <label title="Leave empty to never tag slow recalls.">
+                Tag slow recalls after seconds{" "}
+                <input
+                  type="number"
+                  min={1}
+                  max={60}
+                  value={editSlowRecallSeconds}
+                  onChange={(event) => setEditSlowRecallSeconds(event.target.value)}
+                  disabled={isBusy}
+                />
+              </label>
+            </div>
+            <div style={{ display: "flex", gap: 8, flexWrap: "wrap" }}>
+              <label>
+                Exam date{" "}
+                <input
+                  type="date"
+                  value={editExamDate}
+                  onChange={(event) => setEditExamDate(event.target.value)}
+                  disabled={isBusy}
+                />
+              </label>
+              <label>
+                Reviews per card before the exam{" "}
+                <input
+                  type="number"
+                  min={1}
+                  max={20}
+                  value={editExamMinReviews}
+                  onChange={(event) => setEditExamMinReviews(event.target.value)}
+                  disabled={isBusy || !editExamDate}
+                />
+              </label>
+            </div>
+            <fieldset style={{ border: "1px solid #ddd", borderRadius: 8, display: "grid", gap: 8 }}>
+              <legend>Scheduling preset</legend>
+              <input
+                value={presetForm.name}
+                onChange={(event) => setPresetForm({ ...presetForm, name: event.target.value })}
+                placeholder="Preset name, e.g. Exam cram"
+                disabled={isBusy}
+              />
+              <div style={{ display: "flex", gap: 8, flexWrap: "wrap" }}>
+                <label>
+                  Desired retention{" "}
+                  <input
+                    type="number"
+                    min={0.7}
+                    max={0.99}
+                    step={0.01}
+                    value={presetForm.desiredRetention}
+                    onChange={(event) => setPresetForm({ ...presetForm, desiredRetention: event.target.value })}
+                    disabled={isBusy}
+                  />
+                </label>
+                <label>
+                  Maximum interval (days){" "}
+                  <input
+                    type="number"
+                    min={1}
+                    max={36500}
+                    value={presetForm.maximumInterval}
+                    onChange={(event) => setPresetForm({ ...presetForm, maximumInterval: event.target.value })}
+                    disabled={isBusy}
+                  />
+                </label>
+              </div>
+              <input
+                value={presetForm.learningSteps}
+                onChange={(event) => setPresetForm({ ...presetForm, learningSteps: event.target.value })}
+                placeholder="Learning steps, e.g. 1m 10m"
+                disabled={isBusy}
+              />
+              <input
+                value={presetForm.relearningSteps}
+                onChange={(event) => setPresetForm({ ...presetForm, relearningSteps: event.target.value })}
+                placeholder="Relearning steps, e.g. 10m"
+                disabled={isBusy}
+              />
+              <label>
+                <input
+                  type="checkbox"
+                  checked={presetForm.enableFuzz}
+                  onChange={(event) => setPresetForm({ ...presetForm, enableFuzz: event.target.checked })}
+                  disabled={isBusy}
+                />{" "}
+                Fuzz intervals (spread out cards reviewed together)
+              </label>
+              <label>
+                <input
+                  type="checkbox"
+                  checked={presetForm.enableLoadBalance}
+                  onChange={(event) => setPresetForm({ ...presetForm, enableLoadBalance: event.target.checked })}
+                  disabled={isBusy}
+                />{" "}
+                Balance load (move reviews within the fuzz range to lighter days)
+              </label>
+              <div style={{ display: "flex", gap: 8, flexWrap: "wrap" }}>
+                <button type="button" onClick={() => void handleSavePreset(null)} disabled={isBusy}>
+                  Save as New Preset
+                </button>
+                {editDeckPresetId ? (
+                  <button type="button" onClick={() => void handleSavePreset(editDeckPresetId)} disabled={isBusy}>
+                    Update Selected Preset
+                  </button>
+                ) : null}
+              </div>
+            </fieldset>
             <div style={{ display: "flex", gap: 8 }}>
               <button type="submit" disabled={isBusy}>
                 Save
@@ -376,6 +1542,16 @@ export default function DeckWorkspacePage() {
                   if (deck) {
                     setEditDeckTitle(deck.title);
                     setEditDeckDescription(deck.description ?? "");
+                    setEditDeckParentId(deck.parentId ?? "");
+                    setEditDeckPresetId(deck.presetId ?? "");
+                    setEditNewCardsPerDay(String(deck.newCardsPerDay));
+                    setEditReviewsPerDay(String(deck.reviewsPerDay));
+                    setEditLeechThreshold(String(deck.leechThreshold));
+                    setEditLeechAction(deck.leechAction);
+                    setEditStudyPriority(String(deck.studyPriority));
+                    setEditExamDate(toDateInputValue(deck.examDate));
+                    setEditExamMinReviews(String(deck.examMinReviews));
+                    setEditSlowRecallSeconds(deck.slowRecallSeconds === null ? "" : String(deck.slowRecallSeconds));
                   }
                 }}
                 disabled={isBusy}
@@ -387,31 +1563,245 @@ export default function DeckWorkspacePage() {
         )}
       </section>
 
+      {examPlan ? (
+        <section style={{ border: "1px solid #ddd", borderRadius: 8, padding: 12, maxWidth: 860 }}>
+          <h2 style={{ marginTop: 0 }}>Exam Plan</h2>
+          {examPlan.days.length === 0 ? (
+            <p style={{ margin: 0 }}>The exam date has passed; reviews are scheduled normally again.</p>
+          ) : (
+            <>
+              <p style={{ marginTop: 0 }}>
+                {examPlan.unscheduledCount} new cards left. Introduce about {examPlan.recommendedNewCardsPerDay} per day to
+                review each one {examPlan.examMinReviews} times before the exam.
+                {examPlan.recommendedNewCardsPerDay > examPlan.newCardsPerDay
+                  ? ` Your daily limit of ${examPlan.newCardsPerDay} new cards is too low for that.`
+                  : ""}
+              </p>
+              <table style={{ borderCollapse: "collapse" }}>
+                <thead>
+                  <tr>
+                    <th style={{ textAlign: "left", paddingRight: 16 }}>Day</th>
+                    <th style={{ textAlign: "right", paddingRight: 16 }}>Reviews</th>
+                    <th style={{ textAlign: "right" }}>New</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {examPlan.days.map((day) => (
+                    <tr key={day.date}>
+                      <td style={{ paddingRight: 16 }}>{new Date(day.date).toLocaleDateString()}</td>
+                      <td style={{ textAlign: "right", paddingRight: 16 }}>{day.reviewCount}</td>
+                      <td style={{ textAlign: "right" }}>{day.newCount}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </>
+          )}
+        </section>
+      ) : null}
+
+      {leeches.length > 0 ? (
+        <section style={{ border: "1px solid #ddd", borderRadius: 8, padding: 12, maxWidth: 860 }}>
+          <h2 style={{ marginTop: 0 }}>Leeches</h2>
+          <p style={{ marginTop: 0 }}>These cards keep being forgotten. Rewriting them into clearer or smaller cards usually helps.</p>
+          <ul style={{ listStyle: "none", padding: 0, margin: 0, display: "grid", gap: 8 }}>
+            {leeches.map((card) => (
+              <li key={card.id} style={{ border: "1px solid #ddd", borderRadius: 8, padding: 10 }}>
+                <div style={{ margin: "0 0 6px 0" }}>
+                  <strong>Q:</strong> <CardContent text={card.question} format={card.format} inline />
+                </div>
+                <p style={{ margin: "0 0 8px 0" }}>
+                  {card.lapses} lapses{card.suspended ? " · suspended" : ""}
+                </p>
+                {leechRewrite?.card.id === card.id ? (
+                  <div style={{ display: "grid", gap: 8 }}>
+                    {leechRewrite.suggestions.map((suggestion, index) => (
+                      <div key={index} style={{ display: "grid", gap: 4 }}>
+                        <input
+                          value={suggestion.question}
+                          onChange={(event) => updateLeechSuggestion(index, { question: event.target.value })}
+                          placeholder="Question"
+                          disabled={isBusy}
+                        />
+                        <input
+                          value={suggestion.answer}
+                          onChange={(event) => updateLeechSuggestion(index, { answer: event.target.value })}
+                          placeholder="Answer"
+                          disabled={isBusy}
+                        />
+                      </div>
+                    ))}
+                    <div style={{ display: "flex", gap: 8 }}>
+                      <button type="button" onClick={() => void handleReplaceLeech()} disabled={isBusy}>
+                        Add Cards and Suspend Leech
+                      </button>
+                      <button type="button" onClick={() => setLeechRewrite(null)} disabled={isBusy}>
+                        Discard
+                      </button>
+                    </div>
+                  </div>
+                ) : (
+                  <button type="button" onClick={() => void handleRewriteLeech(card)} disabled={isBusy}>
+                    Rewrite with AI
+                  </button>
+                )}
+              </li>
+            ))}
+          </ul>
+        </section>
+      ) : null}
+
       <section style={{ border: "1px solid #ddd", borderRadius: 8, padding: 12, maxWidth: 860 }}>
         <h2 style={{ marginTop: 0 }}>Add Cards</h2>
         <div style={{ display: "grid", gap: 12, marginBottom: 16 }}>
           <div style={{ border: "1px solid #ddd", borderRadius: 8, padding: 10 }}>
             <h3 style={{ marginTop: 0, marginBottom: 8 }}>Manual Entry</h3>
             <form onSubmit={handleCreateCard} style={{ display: "grid", gap: 8 }}>
+              <select value={cardType} onChange={(event) => setCardType(event.target.value as CardType)} disabled={isBusy}>
+                <option value="BASIC">Basic</option>
+                <option value="CLOZE">Cloze (fill in the blank)</option>
+                <option value="MULTIPLE_CHOICE">Multiple choice</option>
+                <option value="IMAGE_OCCLUSION">Image occlusion (hide labels on a diagram)</option>
+              </select>
+              {renderFormatSelect(cardFormat, setCardFormat)}
               <textarea
+                ref={cardQuestionRef}
                 value={cardQuestion}
                 onChange={(event) => setCardQuestion(event.target.value)}
-                placeholder="Question"
+                placeholder={
+                  cardType === "CLOZE"
+                    ? "The {{c1::mitochondria}} is the {{c2::powerhouse}} of the cell"
+                    : cardType === "IMAGE_OCCLUSION"
+                      ? "Prompt, e.g. Name the highlighted structure"
+                      : "Question"
+                }
                 rows={3}
                 disabled={isBusy}
               />
-              <textarea
-                value={cardAnswer}
-                onChange={(event) => setCardAnswer(event.target.value)}
-                placeholder="Answer"
-                rows={4}
+              {cardType === "CLOZE" ? (
+                <div style={{ display: "flex", gap: 8, alignItems: "center", flexWrap: "wrap" }}>
+                  <button type="button" onClick={wrapSelectionInCloze} disabled={isBusy}>
+                    Wrap Selection in Cloze
+                  </button>
+                  <span>
+                    {getClozeIndices(cardQuestion).length} cards will be created, one per cloze number.
+                  </span>
+                </div>
+              ) : null}
+              {cardType === "IMAGE_OCCLUSION" ? renderOcclusionEditor(cardOcclusion, setCardOcclusion) : null}
+              {cardType === "MULTIPLE_CHOICE" ? (
+                renderOptionsEditor(cardOptions, cardCorrectOption, setCardOptions, setCardCorrectOption)
+              ) : (
+                <textarea
+                  value={cardAnswer}
+                  onChange={(event) => setCardAnswer(event.target.value)}
+                  placeholder={cardType === "BASIC" ? "Answer" : "Extra (optional, shown with the answer)"}
+                  rows={4}
+                  disabled={isBusy}
+                />
+              )}
+              <div style={{ display: "flex", gap: 12, flexWrap: "wrap" }}>
+                {renderMediaPicker("Image/audio in question:", (reference) =>
+                  setCardQuestion((current) => `${current}${current ? "\n" : ""}${reference}`)
+                )}
+                {cardType !== "MULTIPLE_CHOICE"
+                  ? renderMediaPicker("Image/audio in answer:", (reference) =>
+                      setCardAnswer((current) => `${current}${current ? "\n" : ""}${reference}`)
+                    )
+                  : null}
+              </div>
+              {renderMarkdownPreview(cardFormat, cardQuestion, cardType === "MULTIPLE_CHOICE" ? "" : cardAnswer)}
+              <input
+                value={cardTags}
+                onChange={(event) => setCardTags(event.target.value)}
+                placeholder="Tags (optional, space separated)"
                 disabled={isBusy}
               />
+              {cardType === "BASIC" ? (
+                <label>
+                  <input
+                    type="checkbox"
+                    checked={cardReverse}
+                    onChange={(event) => setCardReverse(event.target.checked)}
+                    disabled={isBusy}
+                  />{" "}
+                  Reverse too (also review answer → question)
+                </label>
+              ) : null}
               <button type="submit" disabled={isBusy}>
                 Add Card
               </button>
             </form>
           </div>
+          <div style={{ border: "1px solid #ddd", borderRadius: 8, padding: 10 }}>
+            <h3 style={{ marginTop: 0, marginBottom: 8 }}>Import Spreadsheet</h3>
+            <div style={{ display: "grid", gap: 8 }}>
+              <input
+                type="file"
+                accept=".csv,.tsv,.txt,text/csv,text/tab-separated-values"
+                onChange={(event) => {
+                  setSpreadsheetFile(event.target.files?.[0] ?? null);
+                  setSpreadsheetMapping(null);
+                  setSpreadsheetReport(null);
+                }}
+                disabled={isBusy}
+              />
+              {spreadsheetReport && spreadsheetMapping ? (
+                <div style={{ display: "grid", gap: 8 }}>
+                  <div style={{ display: "flex", gap: 8, flexWrap: "wrap" }}>
+                    {(["question", "answer", "dueDate", "tags"] as const).map((field) => (
+                      <label key={field} style={{ display: "grid", gap: 4 }}>
+                        {field === "dueDate" ? "Due date column" : `${field[0].toUpperCase()}${field.slice(1)} column`}
+                        <select
+                          value={spreadsheetMapping[field] === null ? "none" : String(spreadsheetMapping[field])}
+                          onChange={(event) => updateSpreadsheetMapping(field, event.target.value)}
+                          disabled={isBusy}
+                        >
+                          {field === "dueDate" || field === "tags" ? <option value="none">None</option> : null}
+                          {spreadsheetReport.columns.map((column, index) => (
+                            <option key={index} value={index}>
+                              {column}
+                            </option>
+                          ))}
+                        </select>
+                      </label>
+                    ))}
+                  </div>
+                  <p style={{ margin: 0 }}>
+                    {spreadsheetReport.validRows} of {spreadsheetReport.totalRows} rows ready to import.
+                    {spreadsheetReport.invalidRows > 0 ? ` ${spreadsheetReport.invalidRows} rows will be skipped.` : null}
+                  </p>
+                  {spreadsheetReport.errors.length > 0 ? (
+                    <ul style={{ margin: 0, paddingLeft: 18 }}>
+                      {spreadsheetReport.errors.slice(0, MAX_VISIBLE_IMPORT_ERRORS).map((error, index) => (
+                        <li key={index}>
+                          Row {error.row} ({error.field}): {error.message}
+                        </li>
+                      ))}
+                      {spreadsheetReport.errors.length > MAX_VISIBLE_IMPORT_ERRORS ? (
+                        <li>{spreadsheetReport.errors.length - MAX_VISIBLE_IMPORT_ERRORS} more errors</li>
+                      ) : null}
+                    </ul>
+                  ) : null}
+                  <button
+                    type="button"
+                    onClick={() => void handleSpreadsheetImport(false, spreadsheetMapping)}
+                    disabled={isBusy || spreadsheetReport.validRows === 0}
+                  >
+                    Import {spreadsheetReport.validRows} Cards
+                  </button>
+                </div>
+              ) : (
+                <button
+                  type="button"
+                  onClick={() => void handleSpreadsheetImport(true, null)}
+                  disabled={isBusy || !spreadsheetFile}
+                >
+                  Check File
+                </button>
+              )}
+            </div>
+          </div>
           <div style={{ border: "1px solid #ddd", borderRadius: 8, padding: 10 }}>
             <h3 style={{ marginTop: 0, marginBottom: 8 }}>Generate From Document</h3>
             <form onSubmit={handleGenerateFromDocument} style={{ display: "grid", gap: 8 }}>
@@ -434,6 +1824,15 @@ export default function DeckWorkspacePage() {
                 disabled={isGenerating}
                 placeholder="Target cards (optional 1-30)"
               />
+              <label>
+                <input
+                  type="checkbox"
+                  checked={includeMultipleChoice}
+                  onChange={(event) => setIncludeMultipleChoice(event.target.checked)}
+                  disabled={isGenerating}
+                />{" "}
+                Include multiple-choice questions
+              </label>
               <button type="submit" disabled={isGenerating || !ingestFile}>
                 {isGenerating ? "Generating..." : "Generate Cards"}
               </button>
@@ -442,31 +1841,183 @@ export default function DeckWorkspacePage() {
         </div>
 
         <h2 style={{ marginTop: 0 }}>Cards</h2>
+        <form
+          onSubmit={(event) => {
+            event.preventDefault();
+            void applyTagFilter(tagFilter);
+          }}
+          style={{ display: "flex", gap: 8, flexWrap: "wrap", marginBottom: 12 }}
+        >
+          <input
+            value={tagFilter}
+            onChange={(event) => setTagFilter(event.target.value)}
+            placeholder="Filter by tags, e.g. chapter1|chapter2 -hard"
+            disabled={isBusy}
+            style={{ flex: 1, minWidth: 240 }}
+          />
+          <select
+            value={flagFilter}
+            onChange={(event) => {
+              const flag = event.target.value as CardFlag | "";
+              setFlagFilter(flag);
+              void applyTagFilter(tagFilter, flag);
+            }}
+            disabled={isBusy}
+          >
+            <option value="">Any flag</option>
+            {cardFlagSchema.options.map((flag) => (
+              <option key={flag} value={flag}>
+                {formatFlag(flag)} flag
+              </option>
+            ))}
+          </select>
+          <button type="submit" disabled={isBusy}>
+            Filter
+          </button>
+          {appliedTagFilter || appliedFlagFilter ? (
+            <button
+              type="button"
+              onClick={() => {
+                setTagFilter("");
+                setFlagFilter("");
+                void applyTagFilter("", "");
+              }}
+              disabled={isBusy}
+            >
+              Clear
+            </button>
+          ) : null}
+          {appliedTagFilter ? (
+            <button
+              type="button"
+              onClick={() => router.push(`/dashboard/study/${deckId}?tags=${encodeURIComponent(appliedTagFilter)}`)}
+              disabled={isBusy}
+            >
+              Study Matching Cards
+            </button>
+          ) : null}
+        </form>
+
+        {noteCards.length > 0 ? (
+          <div style={{ display: "flex", gap: 8, flexWrap: "wrap", alignItems: "center", marginBottom: 12 }}>
+            <span>{selectedCardIds.size} selected</span>
+            <button
+              type="button"
+              onClick={() =>
+                setSelectedCardIds(
+                  selectedCardIds.size === noteCards.length ? new Set() : new Set(noteCards.map((card) => card.id))
+                )
+              }
+              disabled={isBusy}
+            >
+              {selectedCardIds.size === noteCards.length ? "Select None" : "Select All"}
+            </button>
+            {selectedCardIds.size > 0 ? (
+              <>
+                <button type="button" onClick={() => void handleBulkUpdate({ suspended: true })} disabled={isBusy}>
+                  Suspend
+                </button>
+                <button type="button" onClick={() => void handleBulkUpdate({ suspended: false })} disabled={isBusy}>
+                  Unsuspend
+                </button>
+                <button type="button" onClick={() => void handleBulkUpdate({ buried: true })} disabled={isBusy}>
+                  Bury Until Tomorrow
+                </button>
+                <button type="button" onClick={() => void handleBulkUpdate({ buried: false })} disabled={isBusy}>
+                  Unbury
+                </button>
+                <select
+                  value=""
+                  onChange={(event) => {
+                    const value = event.target.value;
+                    if (value) {
+                      void handleBulkUpdate({ flag: value === "NONE" ? null : (value as CardFlag) });
+                    }
+                  }}
+                  disabled={isBusy}
+                >
+                  <option value="">Set flag...</option>
+                  {cardFlagSchema.options.map((flag) => (
+                    <option key={flag} value={flag}>
+                      {formatFlag(flag)}
+                    </option>
+                  ))}
+                  <option value="NONE">Remove flag</option>
+                </select>
+              </>
+            ) : null}
+          </div>
+        ) : null}
 
         {!deck ? (
           <p>Loading cards...</p>
         ) : deck.cards.length === 0 ? (
           <p>No cards yet.</p>
+        ) : noteCards.length === 0 ? (
+          <p>No cards match this filter.</p>
         ) : (
           <ul style={{ listStyle: "none", padding: 0, margin: 0, display: "grid", gap: 8 }}>
-            {deck.cards.map((card) => (
+            {noteCards.map((card) => (
               <li key={card.id} style={{ border: "1px solid #ddd", borderRadius: 8, padding: 10 }}>
                 {editingCardId === card.id ? (
                   <div style={{ display: "grid", gap: 8 }}>
+                    {renderFormatSelect(editCardFormat, setEditCardFormat)}
                     <textarea
                       value={editCardQuestion}
                       onChange={(event) => setEditCardQuestion(event.target.value)}
                       rows={3}
                       disabled={isBusy}
                     />
-                    <textarea
-                      value={editCardAnswer}
-                      onChange={(event) => setEditCardAnswer(event.target.value)}
-                      rows={4}
+                    {card.type === "IMAGE_OCCLUSION" ? renderOcclusionEditor(editCardOcclusion, setEditCardOcclusion) : null}
+                    {card.type === "MULTIPLE_CHOICE" ? (
+                      renderOptionsEditor(
+                        editCardOptions,
+                        editCardCorrectOption,
+                        setEditCardOptions,
+                        setEditCardCorrectOption
+                      )
+                    ) : (
+                      <textarea
+                        value={editCardAnswer}
+                        onChange={(event) => setEditCardAnswer(event.target.value)}
+                        rows={4}
+                        disabled={isBusy}
+                      />
+                    )}
+                    <div style={{ display: "flex", gap: 12, flexWrap: "wrap" }}>
+                      {renderMediaPicker("Image/audio in question:", (reference) =>
+                        setEditCardQuestion((current) => `${current}${current ? "\n" : ""}${reference}`)
+                      )}
+                      {card.type !== "MULTIPLE_CHOICE"
+                        ? renderMediaPicker("Image/audio in answer:", (reference) =>
+                            setEditCardAnswer((current) => `${current}${current ? "\n" : ""}${reference}`)
+                          )
+                        : null}
+                    </div>
+                    {renderMarkdownPreview(
+                      editCardFormat,
+                      editCardQuestion,
+                      card.type === "MULTIPLE_CHOICE" ? "" : editCardAnswer
+                    )}
+                    <input
+                      value={editCardTags}
+                      onChange={(event) => setEditCardTags(event.target.value)}
+                      placeholder="Tags (space separated)"
                       disabled={isBusy}
                     />
+                    {card.type === "BASIC" ? (
+                      <label>
+                        <input
+                          type="checkbox"
+                          checked={editCardReverse}
+                          onChange={(event) => setEditCardReverse(event.target.checked)}
+                          disabled={isBusy}
+                        />{" "}
+                        Reverse too
+                      </label>
+                    ) : null}
                     <div style={{ display: "flex", gap: 8 }}>
-                      <button type="button" onClick={() => void handleUpdateCard(card.id)} disabled={isBusy}>
+                      <button type="button" onClick={() => void handleUpdateCard(card)} disabled={isBusy}>
                         Save
                       </button>
                       <button type="button" onClick={cancelCardEdit} disabled={isBusy}>
@@ -476,20 +2027,143 @@ export default function DeckWorkspacePage() {
                   </div>
                 ) : (
                   <>
-                    <p style={{ margin: "0 0 6px 0" }}>
-                      <strong>Q:</strong> {card.question}
-                    </p>
-                    <p style={{ margin: "0 0 10px 0" }}>
-                      <strong>A:</strong> {card.answer}
-                    </p>
+                    {card.type === "CLOZE" ? (
+                      <>
+                        <div style={{ margin: "0 0 6px 0" }}>
+                          <strong>Cloze ({noteCardCounts.get(card.noteId ?? "") ?? 1} cards):</strong>{" "}
+                          <CardContent text={card.question} format={card.format} inline />
+                        </div>
+                        {card.answer ? (
+                          <div style={{ margin: "0 0 10px 0" }}>
+                            <strong>Extra:</strong> <CardContent text={card.answer} format={card.format} inline />
+                          </div>
+                        ) : null}
+                      </>
+                    ) : card.type === "IMAGE_OCCLUSION" && card.occlusion ? (
+                      <>
+                        <div style={{ margin: "0 0 6px 0" }}>
+                          <strong>Image occlusion ({noteCardCounts.get(card.noteId ?? "") ?? 1} cards):</strong>{" "}
+                          <CardContent text={card.question} format={card.format} inline />
+                        </div>
+                        <div style={{ margin: "0 0 6px 0" }}>
+                          <ImageOcclusionView occlusion={card.occlusion} activeOrdinal={0} isRevealed={false} />
+                        </div>
+                        {card.answer ? (
+                          <div style={{ margin: "0 0 10px 0" }}>
+                            <strong>Extra:</strong> <CardContent text={card.answer} format={card.format} inline />
+                          </div>
+                        ) : null}
+                      </>
+                    ) : card.type === "MULTIPLE_CHOICE" ? (
+                      <>
+                        <div style={{ margin: "0 0 6px 0" }}>
+                          <strong>Q:</strong> <CardContent text={card.question} format={card.format} inline />
+                        </div>
+                        <ol style={{ margin: "0 0 10px 0", paddingLeft: 20 }}>
+                          {(card.options ?? []).map((option, index) => (
+                            <li key={index}>
+                              <CardContent text={option} format={card.format} inline />
+                              {index === card.correctOptionIndex ? <strong> (correct)</strong> : null}
+                            </li>
+                          ))}
+                        </ol>
+                      </>
+                    ) : (
+                      <>
+                        <div style={{ margin: "0 0 6px 0" }}>
+                          <strong>Q:</strong> <CardContent text={card.question} format={card.format} inline />
+                          {card.noteId ? <em> (reviewed both ways)</em> : null}
+                        </div>
+                        <div style={{ margin: "0 0 10px 0" }}>
+                          <strong>A:</strong> <CardContent text={card.answer} format={card.format} inline />
+                        </div>
+                      </>
+                    )}
+                    {card.tags.length > 0 ? (
+                      <p style={{ margin: "0 0 10px 0" }}>
+                        <strong>Tags:</strong> {card.tags.join(", ")}
+                      </p>
+                    ) : null}
+                    {card.flag || card.suspended || (card.buriedUntil && new Date(card.buriedUntil) > new Date()) ? (
+                      <p style={{ margin: "0 0 10px 0", display: "flex", gap: 8, flexWrap: "wrap" }}>
+                        {card.flag ? (
+                          <span style={{ color: FLAG_COLORS[card.flag], fontWeight: 700 }}>⚑ {formatFlag(card.flag)}</span>
+                        ) : null}
+                        {card.suspended ? <strong>Suspended</strong> : null}
+                        {card.buriedUntil && new Date(card.buriedUntil) > new Date() ? (
+                          <strong>Buried until {new Date(card.buriedUntil).toLocaleString()}</strong>
+                        ) : null}
+                      </p>
+                    ) : null}
                     <div style={{ display: "flex", gap: 8 }}>
+                      <label>
+                        <input
+                          type="checkbox"
+                          checked={selectedCardIds.has(card.id)}
+                          onChange={() => toggleCardSelection(card.id)}
+                          disabled={isBusy}
+                        />{" "}
+                        Select
+                      </label>
                       <button type="button" onClick={() => startCardEdit(card)} disabled={isBusy}>
                         Edit
                       </button>
-                      <button type="button" onClick={() => void handleDeleteCard(card.id)} disabled={isBusy}>
+                      <button type="button" onClick={() => void handleToggleCardInfo(card)} disabled={isBusy}>
+                        {cardHistory?.cardId === card.id ? "Hide Info" : "Info"}
+                      </button>
+                      <button type="button" onClick={() => void handleDeleteCard(card)} disabled={isBusy}>
                         Delete
                       </button>
                     </div>
+                    {cardHistory?.cardId === card.id ? (
+                      <div style={{ marginTop: 10, display: "grid", gap: 6 }}>
+                        {cardHistory.scheduleState ? (
+                          <p style={{ margin: 0 }}>
+                            <strong>{cardHistory.scheduleState.state ?? "Unknown"}</strong>, due{" "}
+                            {new Date(cardHistory.scheduleState.dueAt).toLocaleString()} · stability{" "}
+                            {cardHistory.scheduleState.stability?.toFixed(1) ?? "–"} days · difficulty{" "}
+                            {cardHistory.scheduleState.difficulty?.toFixed(1) ?? "–"} ·{" "}
+                            {cardHistory.scheduleState.repetitions} reviews, {cardHistory.scheduleState.lapses} lapses ·
+                            recall chance now {formatPercent(cardHistory.scheduleState.retrievability)}
+                          </p>
+                        ) : (
+                          <p style={{ margin: 0 }}>New card, not reviewed yet.</p>
+                        )}
+                        {cardHistory.reviews.length > 0 ? (
+                          <table style={{ borderCollapse: "collapse" }}>
+                            <thead>
+                              <tr>
+                                <th style={{ textAlign: "left" }}>Date</th>
+                                <th style={{ textAlign: "left" }}>Rating</th>
+                                <th style={{ textAlign: "right" }}>Time</th>
+                                <th style={{ textAlign: "right" }}>Recall chance</th>
+                                <th style={{ textAlign: "right" }}>Stability</th>
+                                <th style={{ textAlign: "right" }}>Difficulty</th>
+                                <th style={{ textAlign: "right" }}>Interval</th>
+                              </tr>
+                            </thead>
+                            <tbody>
+                              {cardHistory.reviews.map((review) => (
+                                <tr key={review.id}>
+                                  <td>{new Date(review.createdAt).toLocaleString()}</td>
+                                  <td>
+                                    {review.rating}
+                                    {review.rescheduled ? "" : " (practice)"}
+                                  </td>
+                                  <td style={{ textAlign: "right" }}>
+                                    {review.durationMs === null ? "–" : `${Math.round(review.durationMs / 1000)}s`}
+                                  </td>
+                                  <td style={{ textAlign: "right" }}>{formatPercent(review.retrievability)}</td>
+                                  <td style={{ textAlign: "right" }}>{review.stability?.toFixed(1) ?? "–"}</td>
+                                  <td style={{ textAlign: "right" }}>{review.difficulty?.toFixed(1) ?? "–"}</td>
+                                  <td style={{ textAlign: "right" }}>{formatIntervalMinutes(review.nextInterval)}</td>
+                                </tr>
+                              ))}
+                            </tbody>
+                          </table>
+                        ) : null}
+                      </div>
+                    ) : null}
                   </>
                 )}
               </li>
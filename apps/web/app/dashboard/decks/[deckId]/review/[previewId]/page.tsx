@@ -2,13 +2,19 @@
 
 import { useEffect, useState } from "react";
 import { useParams, useRouter } from "next/navigation";
+import type { CardFormat } from "@flashcards/shared";
+import { CardContent } from "@/components/card-content";
 import { DashboardShell } from "@/components/dashboard-shell";
 import { useAuth } from "@/components/auth-provider";
 
 interface PreviewCard {
   id: string;
+  type: "BASIC" | "MULTIPLE_CHOICE";
+  format: CardFormat;
   question: string;
   answer: string;
+  options: string[] | null;
+  correctOptionIndex: number | null;
   position: number;
 }
 
@@ -33,8 +39,11 @@ interface CommitPreviewResponse {
 
 interface ReviewCardDecision {
   id: string;
+  format: CardFormat;
   question: string;
   answer: string;
+  options: string[] | null;
+  correctOptionIndex: number | null;
   keep: boolean;
 }
 
@@ -89,8 +98,11 @@ export default function ReviewGeneratedCardsPage() {
       setCards(
         data.preview.cards.map((card) => ({
           id: card.id,
+          format: card.format,
           question: card.question,
           answer: card.answer,
+          options: card.type === "MULTIPLE_CHOICE" ? card.options : null,
+          correctOptionIndex: card.correctOptionIndex,
           keep: true
         }))
       );
@@ -121,7 +133,10 @@ export default function ReviewGeneratedCardsPage() {
     setCards((current) => current.map((card) => (card.id === cardId ? { ...card, keep: false } : card)));
   }
 
-  function updateCard(cardId: string, patch: Partial<Pick<ReviewCardDecision, "question" | "answer">>) {
+  function updateCard(
+    cardId: string,
+    patch: Partial<Pick<ReviewCardDecision, "format" | "question" | "answer" | "options" | "correctOptionIndex">>
+  ) {
     setCards((current) => current.map((card) => (card.id === cardId ? { ...card, ...patch } : card)));
   }
 
@@ -139,12 +154,25 @@ export default function ReviewGeneratedCardsPage() {
           "Content-Type": "application/json"
         },
         body: JSON.stringify({
-          cards: cards.map((card) => ({
-            id: card.id,
-            keep: card.keep,
-            question: card.question,
-            answer: card.answer
-          }))
+          cards: cards.map((card) =>
+            card.options && card.correctOptionIndex !== null
+              ? {
+                  id: card.id,
+                  keep: card.keep,
+                  format: card.format,
+                  question: card.question,
+                  answer: card.options[card.correctOptionIndex] ?? card.answer,
+                  options: card.options,
+                  correctOptionIndex: card.correctOptionIndex
+                }
+              : {
+                  id: card.id,
+                  keep: card.keep,
+                  format: card.format,
+                  question: card.question,
+                  answer: card.answer
+                }
+          )
         })
       });
       if (!response.ok) {
@@ -232,6 +260,14 @@ export default function ReviewGeneratedCardsPage() {
             {visibleCards.map((card) => (
               <li key={card.id} style={{ border: "1px solid #ddd", borderRadius: 8, padding: 10 }}>
                 <div style={{ display: "grid", gap: 8 }}>
+                  <select
+                    value={card.format}
+                    onChange={(event) => updateCard(card.id, { format: event.target.value as CardFormat })}
+                    disabled={isApplying}
+                  >
+                    <option value="PLAIN">Plain text</option>
+                    <option value="MARKDOWN">Markdown (math with $...$, code blocks, lists)</option>
+                  </select>
                   <textarea
                     value={card.question}
                     onChange={(event) => updateCard(card.id, { question: event.target.value })}
@@ -239,13 +275,57 @@ export default function ReviewGeneratedCardsPage() {
                     disabled={isApplying}
                     placeholder="Question"
                   />
-                  <textarea
-                    value={card.answer}
-                    onChange={(event) => updateCard(card.id, { answer: event.target.value })}
-                    rows={4}
-                    disabled={isApplying}
-                    placeholder="Answer"
-                  />
+                  {card.options ? (
+                    card.options.map((option, index) => (
+                      <label key={index} style={{ display: "flex", gap: 8, alignItems: "center" }}>
+                        <input
+                          type="radio"
+                          checked={card.correctOptionIndex === index}
+                          onChange={() => updateCard(card.id, { correctOptionIndex: index })}
+                          disabled={isApplying}
+                          title="Correct option"
+                        />
+                        <input
+                          value={option}
+                          onChange={(event) =>
+                            updateCard(card.id, {
+                              options: card.options?.map((candidate, candidateIndex) =>
+                                candidateIndex === index ? event.target.value : candidate
+                              )
+                            })
+                          }
+                          disabled={isApplying}
+                          placeholder={`Option ${index + 1}`}
+                          style={{ flex: 1 }}
+                        />
+                      </label>
+                    ))
+                  ) : (
+                    <textarea
+                      value={card.answer}
+                      onChange={(event) => updateCard(card.id, { answer: event.target.value })}
+                      rows={4}
+                      disabled={isApplying}
+                      placeholder="Answer"
+                    />
+                  )}
+                  {card.format === "MARKDOWN" ? (
+                    <div style={{ border: "1px dashed #ddd", borderRadius: 8, padding: 8, display: "grid", gap: 6 }}>
+                      <strong>Preview</strong>
+                      <CardContent text={card.question} format={card.format} />
+                      {card.options ? (
+                        <ol style={{ margin: 0, paddingLeft: 20 }}>
+                          {card.options.map((option, index) => (
+                            <li key={index}>
+                              <CardContent text={option} format={card.format} inline />
+                            </li>
+                          ))}
+                        </ol>
+                      ) : (
+                        <CardContent text={card.answer} format={card.format} />
+                      )}
+                    </div>
+                  ) : null}
                 </div>
                 <div style={{ display: "flex", gap: 8, marginTop: 10 }}>
                   <button type="button" onClick={() => deleteCard(card.id)} disabled={isApplying}>
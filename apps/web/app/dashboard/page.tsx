@@ -9,9 +9,16 @@ interface Deck {
   id: string;
   title: string;
   description: string | null;
-  _count?: {
-    cards: number;
-  };
+  parentId: string | null;
+  cardCount: number;
+  dueCount: number;
+  totalCardCount: number;
+  totalDueCount: number;
+  children: Deck[];
+}
+
+function flattenDeckTree(decks: Deck[], depth = 0): Array<{ deck: Deck; depth: number }> {
+  return decks.flatMap((deck) => [{ deck, depth }, ...flattenDeckTree(deck.children, depth + 1)]);
 }
 
 interface AiSettingsResponse {
@@ -36,6 +43,93 @@ interface AiSettingsResponse {
   };
 }
 
+interface StudySettings {
+  dayStartHour: number;
+  timeZone: string;
+  weekdayLoad: number[];
+}
+
+const WEEKDAY_NAMES = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+const WEEKDAY_LOAD_OPTIONS = [
+  { value: 1, label: "Normal" },
+  { value: 0.5, label: "Easy" },
+  { value: 0, label: "Off" }
+];
+
+interface StoredVacation {
+  startDate: string | null;
+  endDate: string | null;
+}
+
+interface VacationPreview {
+  cardCount: number;
+  days: Array<{ date: string; cardCount: number; lowestRetrievability: number | null }>;
+}
+
+function toLocalDayStartIso(value: string): string {
+  return new Date(`${value}T00:00`).toISOString();
+}
+
+interface StudyFilter {
+  id: string;
+  name: string;
+  deckIds: string[];
+  tags: string | null;
+  lapsedWithinDays: number | null;
+  minDifficulty: number | null;
+  maxDifficulty: number | null;
+  reschedule: boolean;
+  cardLimit: number;
+}
+
+interface StudyFilterForm {
+  name: string;
+  deckId: string;
+  tags: string;
+  lapsedWithinDays: string;
+  minDifficulty: string;
+  reschedule: boolean;
+}
+
+const EMPTY_STUDY_FILTER_FORM: StudyFilterForm = {
+  name: "",
+  deckId: "",
+  tags: "",
+  lapsedWithinDays: "",
+  minDifficulty: "",
+  reschedule: false
+};
+
+function describeStudyFilter(filter: StudyFilter, decks: Array<{ deck: Deck }>): string {
+  const parts = [
+    filter.deckIds.length > 0
+      ? filter.deckIds.map((deckId) => decks.find((entry) => entry.deck.id === deckId)?.deck.title ?? "Deleted deck").join(", ")
+      : "All decks"
+  ];
+  if (filter.tags) {
+    parts.push(`tags: ${filter.tags}`);
+  }
+  if (filter.lapsedWithinDays !== null) {
+    parts.push(`failed in the last ${filter.lapsedWithinDays} days`);
+  }
+  if (filter.minDifficulty !== null) {
+    parts.push(`difficulty ≥ ${filter.minDifficulty}`);
+  }
+  if (filter.maxDifficulty !== null) {
+    parts.push(`difficulty ≤ ${filter.maxDifficulty}`);
+  }
+  parts.push(filter.reschedule ? "reschedules cards" : "practice only");
+  return parts.join(" · ");
+}
+
+interface ReviewForecast {
+  overdueCount: number;
+  days: Array<{ date: string; dueCount: number }>;
+}
+
+const FORECAST_DAYS = 14;
+
 interface DeckStudySummary {
   dueNowCount: number;
   nextDueAt: string | null;
@@ -48,8 +142,17 @@ export default function DashboardPage() {
   const [decks, setDecks] = useState<Deck[]>([]);
   const [deckStudyById, setDeckStudyById] = useState<Record<string, DeckStudySummary>>({});
   const [aiSettings, setAiSettings] = useState<AiSettingsResponse | null>(null);
+  const [studySettings, setStudySettings] = useState<StudySettings | null>(null);
+  const [studyFilters, setStudyFilters] = useState<StudyFilter[]>([]);
+  const [forecast, setForecast] = useState<ReviewForecast | null>(null);
+  const [vacationStart, setVacationStart] = useState("");
+  const [vacationEnd, setVacationEnd] = useState("");
+  const [vacationPreview, setVacationPreview] = useState<VacationPreview | null>(null);
+  const [storedVacation, setStoredVacation] = useState<StoredVacation | null>(null);
+  const [studyFilterForm, setStudyFilterForm] = useState<StudyFilterForm>(EMPTY_STUDY_FILTER_FORM);
   const [deckTitle, setDeckTitle] = useState("");
   const [deckDescription, setDeckDescription] = useState("");
+  const [deckParentId, setDeckParentId] = useState("");
   const [statusMessage, setStatusMessage] = useState<string | null>(null);
   const [isBusy, setIsBusy] = useState(false);
 
@@ -73,21 +176,56 @@ export default function DashboardPage() {
   }
 
   async function loadData() {
-    const [decksResponse, aiSettingsResponse] = await Promise.all([apiFetch("/decks"), apiFetch("/ai/settings")]);
+    const [
+      decksResponse,
+      aiSettingsResponse,
+      studySettingsResponse,
+      studyFiltersResponse,
+      forecastResponse,
+      vacationResponse
+    ] = await Promise.all([
+      apiFetch("/decks"),
+      apiFetch("/ai/settings"),
+      apiFetch("/study/settings"),
+      apiFetch("/filters"),
+      apiFetch(`/study/forecast?days=${FORECAST_DAYS}`),
+      apiFetch("/study/vacation")
+    ]);
     if (!decksResponse.ok) {
       throw new Error(await readErrorMessage(decksResponse));
     }
     if (!aiSettingsResponse.ok) {
       throw new Error(await readErrorMessage(aiSettingsResponse));
     }
+    if (!studySettingsResponse.ok) {
+      throw new Error(await readErrorMessage(studySettingsResponse));
+    }
+    if (!studyFiltersResponse.ok) {
+      throw new Error(await readErrorMessage(studyFiltersResponse));
+    }
+    if (!forecastResponse.ok) {
+      throw new Error(await readErrorMessage(forecastResponse));
+    }
+    if (!vacationResponse.ok) {
+      throw new Error(await readErrorMessage(vacationResponse));
+    }
 
-    const [decksData, aiSettingsData] = await Promise.all([
-      decksResponse.json() as Promise<Deck[]>,
-      aiSettingsResponse.json() as Promise<AiSettingsResponse>
-    ]);
+    const [decksData, aiSettingsData, studySettingsData, studyFiltersData, forecastData, vacationData] =
+      await Promise.all([
+        decksResponse.json() as Promise<Deck[]>,
+        aiSettingsResponse.json() as Promise<AiSettingsResponse>,
+        studySettingsResponse.json() as Promise<StudySettings>,
+        studyFiltersResponse.json() as Promise<StudyFilter[]>,
+        forecastResponse.json() as Promise<ReviewForecast>,
+        vacationResponse.json() as Promise<StoredVacation>
+      ]);
     setDecks(decksData);
     setAiSettings(aiSettingsData);
-    await loadDeckStudySummaries(decksData);
+    setStudySettings(studySettingsData);
+    setStudyFilters(studyFiltersData);
+    setForecast(forecastData);
+    setStoredVacation(vacationData);
+    await loadDeckStudySummaries(flattenDeckTree(decksData).map((entry) => entry.deck));
   }
 
   async function loadDeckStudySummaries(nextDecks: Deck[]) {
@@ -99,7 +237,7 @@ export default function DashboardPage() {
     const summaryEntries = await Promise.all(
       nextDecks.map(async (deck) => {
         try {
-          const response = await apiFetch(`/study/decks/${deck.id}/session?limit=1`);
+          const response = await apiFetch(`/study/decks/${deck.id}/session?limit=1&includeSubdecks=true`);
           if (!response.ok) {
             return [deck.id, null] as const;
           }
@@ -164,7 +302,8 @@ export default function DashboardPage() {
         },
         body: JSON.stringify({
           title: deckTitle.trim(),
-          description: deckDescription.trim() || undefined
+          description: deckDescription.trim() || undefined,
+          parentId: deckParentId || undefined
         })
       });
 
@@ -175,6 +314,7 @@ export default function DashboardPage() {
       const created = (await response.json()) as Deck;
       setDeckTitle("");
       setDeckDescription("");
+      setDeckParentId("");
       await loadData();
       setStatusMessage("Deck created.");
       router.push(`/dashboard/decks/${created.id}`);
@@ -185,8 +325,155 @@ export default function DashboardPage() {
     }
   }
 
+  async function handleSaveStudySettings(event: FormEvent<HTMLFormElement>) {
+    event.preventDefault();
+    if (!studySettings) {
+      return;
+    }
+
+    setIsBusy(true);
+    setStatusMessage(null);
+    try {
+      const response = await apiFetch("/study/settings", {
+        method: "PATCH",
+        headers: {
+          "Content-Type": "application/json"
+        },
+        body: JSON.stringify({
+          dayStartHour: studySettings.dayStartHour,
+          timeZone: studySettings.timeZone.trim(),
+          weekdayLoad: studySettings.weekdayLoad
+        })
+      });
+      if (!response.ok) {
+        throw new Error(await readErrorMessage(response));
+      }
+
+      await loadData();
+      setStatusMessage("Study day settings saved.");
+    } catch {
+      setStatusMessage("Could not save study day settings. Use a time zone like Europe/Berlin and keep one weekday on.");
+    } finally {
+      setIsBusy(false);
+    }
+  }
+
+  async function handleVacation(apply: boolean) {
+    if (!vacationStart || !vacationEnd) {
+      setStatusMessage("Pick the first day away and the day you are back.");
+      return;
+    }
+
+    setIsBusy(true);
+    setStatusMessage(null);
+    try {
+      const response = await apiFetch(apply ? "/study/vacation" : "/study/vacation/preview", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json"
+        },
+        body: JSON.stringify({
+          startDate: toLocalDayStartIso(vacationStart),
+          endDate: toLocalDayStartIso(vacationEnd)
+        })
+      });
+      if (!response.ok) {
+        throw new Error(await readErrorMessage(response));
+      }
+
+      const data = (await response.json()) as VacationPreview;
+      if (apply) {
+        setVacationPreview(null);
+        await loadData();
+        setStatusMessage(`Postponed ${data.cardCount} reviews until after your vacation.`);
+      } else {
+        setVacationPreview(data);
+      }
+    } catch {
+      setStatusMessage("Could not plan the vacation. The return day must be after the first day away, within 90 days.");
+    } finally {
+      setIsBusy(false);
+    }
+  }
+
+  async function handleEndVacation() {
+    setIsBusy(true);
+    setStatusMessage(null);
+    try {
+      const response = await apiFetch("/study/vacation", { method: "DELETE" });
+      if (!response.ok) {
+        throw new Error(await readErrorMessage(response));
+      }
+
+      setStoredVacation({ startDate: null, endDate: null });
+      setStatusMessage("Vacation ended. New reviews can fall due on any day again.");
+    } catch {
+      setStatusMessage("Could not end the vacation.");
+    } finally {
+      setIsBusy(false);
+    }
+  }
+
+  async function handleCreateStudyFilter(event: FormEvent<HTMLFormElement>) {
+    event.preventDefault();
+    if (!studyFilterForm.name.trim()) {
+      setStatusMessage("Filter name is required.");
+      return;
+    }
+
+    setIsBusy(true);
+    setStatusMessage(null);
+    try {
+      const response = await apiFetch("/filters", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json"
+        },
+        body: JSON.stringify({
+          name: studyFilterForm.name.trim(),
+          deckIds: studyFilterForm.deckId ? [studyFilterForm.deckId] : [],
+          tags: studyFilterForm.tags.trim() || null,
+          lapsedWithinDays: studyFilterForm.lapsedWithinDays ? Number(studyFilterForm.lapsedWithinDays) : null,
+          minDifficulty: studyFilterForm.minDifficulty ? Number(studyFilterForm.minDifficulty) : null,
+          reschedule: studyFilterForm.reschedule
+        })
+      });
+      if (!response.ok) {
+        throw new Error(await readErrorMessage(response));
+      }
+
+      setStudyFilterForm(EMPTY_STUDY_FILTER_FORM);
+      await loadData();
+      setStatusMessage("Custom study filter saved.");
+    } catch {
+      setStatusMessage("Could not save custom study filter. Filter names must be unique.");
+    } finally {
+      setIsBusy(false);
+    }
+  }
+
+  async function handleDeleteStudyFilter(filterId: string) {
+    setIsBusy(true);
+    setStatusMessage(null);
+    try {
+      const response = await apiFetch(`/filters/${filterId}`, {
+        method: "DELETE"
+      });
+      if (!response.ok) {
+        throw new Error(await readErrorMessage(response));
+      }
+
+      await loadData();
+      setStatusMessage("Custom study filter deleted.");
+    } catch {
+      setStatusMessage("Could not delete custom study filter.");
+    } finally {
+      setIsBusy(false);
+    }
+  }
+
   async function handleDeleteDeck(deckId: string) {
-    if (!confirm("Delete this deck and all its cards?")) {
+    if (!confirm("Delete this deck, its sub-decks and all their cards?")) {
       return;
     }
 
@@ -273,17 +560,302 @@ export default function DashboardPage() {
             rows={3}
             disabled={isBusy}
           />
+          <select value={deckParentId} onChange={(event) => setDeckParentId(event.target.value)} disabled={isBusy}>
+            <option value="">No parent (top-level deck)</option>
+            {flattenDeckTree(decks).map(({ deck, depth }) => (
+              <option key={deck.id} value={deck.id}>
+                {`${"— ".repeat(depth)}${deck.title}`}
+              </option>
+            ))}
+          </select>
           <button type="submit" disabled={isBusy}>
             Create Deck
           </button>
         </form>
       </section>
 
+      {studySettings ? (
+        <section style={{ border: "1px solid #ddd", borderRadius: 8, padding: 12, maxWidth: 760 }}>
+          <h2 style={{ marginTop: 0 }}>Study Day</h2>
+          <form onSubmit={handleSaveStudySettings} style={{ display: "flex", gap: 8, flexWrap: "wrap", alignItems: "center" }}>
+            <label>
+              New day starts at{" "}
+              <select
+                value={studySettings.dayStartHour}
+                onChange={(event) => setStudySettings({ ...studySettings, dayStartHour: Number(event.target.value) })}
+                disabled={isBusy}
+              >
+                {Array.from({ length: 24 }, (_, hour) => (
+                  <option key={hour} value={hour}>
+                    {`${String(hour).padStart(2, "0")}:00`}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <input
+              value={studySettings.timeZone}
+              onChange={(event) => setStudySettings({ ...studySettings, timeZone: event.target.value })}
+              placeholder="Time zone, e.g. Europe/Berlin"
+              disabled={isBusy}
+            />
+            <button
+              type="button"
+              onClick={() => setStudySettings({ ...studySettings, timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone })}
+              disabled={isBusy}
+            >
+              Use My Time Zone
+            </button>
+            <button type="submit" disabled={isBusy}>
+              Save
+            </button>
+          </form>
+          <p style={{ margin: "8px 0 0 0" }}>Daily new-card and review limits reset when a new study day starts.</p>
+          <h3>Easy Days</h3>
+          <p style={{ marginTop: 0 }}>
+            Reviews are moved within their fuzz range toward normal days and away from easy days; days turned off get none.
+          </p>
+          <div style={{ display: "flex", gap: 8, flexWrap: "wrap" }}>
+            {WEEKDAY_NAMES.map((weekdayName, weekday) => (
+              <label key={weekdayName} style={{ display: "grid", gap: 4 }}>
+                <span>{weekdayName}</span>
+                <select
+                  value={studySettings.weekdayLoad[weekday]}
+                  onChange={(event) =>
+                    setStudySettings({
+                      ...studySettings,
+                      weekdayLoad: studySettings.weekdayLoad.map((weight, index) =>
+                        index === weekday ? Number(event.target.value) : weight
+                      )
+                    })
+                  }
+                  disabled={isBusy}
+                >
+                  {WEEKDAY_LOAD_OPTIONS.map((option) => (
+                    <option key={option.value} value={option.value}>
+                      {option.label}
+                    </option>
+                  ))}
+                </select>
+              </label>
+            ))}
+          </div>
+          <p style={{ margin: "8px 0 0 0" }}>Save to apply easy days together with the study day settings above.</p>
+          <h3>Vacation</h3>
+          {storedVacation?.startDate && storedVacation.endDate ? (
+            <p style={{ margin: "0 0 8px 0" }}>
+              Away from {new Date(storedVacation.startDate).toLocaleDateString()}, back on{" "}
+              {new Date(storedVacation.endDate).toLocaleDateString()}. Reviews you answer until then will not fall due
+              while you are away.{" "}
+              <button type="button" onClick={() => void handleEndVacation()} disabled={isBusy}>
+                End Vacation
+              </button>
+            </p>
+          ) : null}
+          <div style={{ display: "flex", gap: 8, flexWrap: "wrap", alignItems: "center" }}>
+            <label>
+              First day away{" "}
+              <input
+                type="date"
+                value={vacationStart}
+                onChange={(event) => {
+                  setVacationStart(event.target.value);
+                  setVacationPreview(null);
+                }}
+                disabled={isBusy}
+              />
+            </label>
+            <label>
+              Back on{" "}
+              <input
+                type="date"
+                value={vacationEnd}
+                onChange={(event) => {
+                  setVacationEnd(event.target.value);
+                  setVacationPreview(null);
+                }}
+                disabled={isBusy}
+              />
+            </label>
+            <button type="button" onClick={() => void handleVacation(false)} disabled={isBusy}>
+              Preview
+            </button>
+          </div>
+          {vacationPreview ? (
+            <div style={{ marginTop: 8 }}>
+              <p style={{ margin: "0 0 6px 0" }}>
+                {vacationPreview.cardCount} reviews fall due while you are away. They would be spread over these days,
+                least likely to be remembered first:
+              </p>
+              <ul style={{ margin: "0 0 8px 0" }}>
+                {vacationPreview.days.map((day) => (
+                  <li key={day.date}>
+                    {new Date(day.date).toLocaleDateString()}: {day.cardCount} reviews
+                    {day.lowestRetrievability !== null
+                      ? ` (lowest recall chance ${Math.round(day.lowestRetrievability * 100)}%)`
+                      : ""}
+                  </li>
+                ))}
+              </ul>
+              <button
+                type="button"
+                onClick={() => void handleVacation(true)}
+                disabled={isBusy}
+              >
+                Start Vacation
+              </button>
+            </div>
+          ) : null}
+        </section>
+      ) : null}
+
+      {forecast && decks.length > 0 ? (
+        <section style={{ border: "1px solid #ddd", borderRadius: 8, padding: 12, maxWidth: 760 }}>
+          <h2 style={{ marginTop: 0 }}>Review Forecast</h2>
+          <p style={{ marginTop: 0 }}>
+            Reviews due over the next {FORECAST_DAYS} days
+            {forecast.overdueCount > 0 ? `, including ${forecast.overdueCount} overdue today` : ""}.
+          </p>
+          <div style={{ display: "grid", gap: 4 }}>
+            {(() => {
+              const maxDueCount = Math.max(1, ...forecast.days.map((day) => day.dueCount));
+              return forecast.days.map((day, index) => (
+                <div key={day.date} style={{ display: "flex", alignItems: "center", gap: 8 }}>
+                  <span style={{ width: 110 }}>
+                    {index === 0
+                      ? "Today"
+                      : new Date(day.date).toLocaleDateString(undefined, { weekday: "short", month: "short", day: "numeric" })}
+                  </span>
+                  <div
+                    style={{
+                      height: 12,
+                      width: `${(day.dueCount / maxDueCount) * 60}%`,
+                      minWidth: day.dueCount > 0 ? 2 : 0,
+                      background: "#4a7bd0",
+                      borderRadius: 2
+                    }}
+                  />
+                  <span>{day.dueCount}</span>
+                </div>
+              ));
+            })()}
+          </div>
+        </section>
+      ) : null}
+
       {decks.length > 0 ? (
         <section style={{ border: "1px solid #ddd", borderRadius: 8, padding: 12, maxWidth: 760 }}>
-          <h2 style={{ marginTop: 0 }}>Your Decks</h2>
+          <h2 style={{ marginTop: 0 }}>Custom Study</h2>
+          <p style={{ marginTop: 0 }}>
+            Study cards matching a saved filter regardless of when they are due, e.g. cards failed in the last 7 days or
+            with difficulty above 7.
+          </p>
+          <form onSubmit={handleCreateStudyFilter} style={{ display: "grid", gap: 8 }}>
+            <input
+              value={studyFilterForm.name}
+              onChange={(event) => setStudyFilterForm({ ...studyFilterForm, name: event.target.value })}
+              placeholder="Filter name, e.g. Failed this week"
+              disabled={isBusy}
+            />
+            <select
+              value={studyFilterForm.deckId}
+              onChange={(event) => setStudyFilterForm({ ...studyFilterForm, deckId: event.target.value })}
+              disabled={isBusy}
+            >
+              <option value="">All decks</option>
+              {flattenDeckTree(decks).map(({ deck, depth }) => (
+                <option key={deck.id} value={deck.id}>
+                  {`${"— ".repeat(depth)}${deck.title}`}
+                </option>
+              ))}
+            </select>
+            <input
+              value={studyFilterForm.tags}
+              onChange={(event) => setStudyFilterForm({ ...studyFilterForm, tags: event.target.value })}
+              placeholder="Tags (optional), e.g. verbs -irregular"
+              disabled={isBusy}
+            />
+            <div style={{ display: "flex", gap: 8, flexWrap: "wrap", alignItems: "center" }}>
+              <label>
+                Failed in the last{" "}
+                <input
+                  type="number"
+                  min={1}
+                  max={365}
+                  value={studyFilterForm.lapsedWithinDays}
+                  onChange={(event) => setStudyFilterForm({ ...studyFilterForm, lapsedWithinDays: event.target.value })}
+                  style={{ width: 64 }}
+                  disabled={isBusy}
+                />{" "}
+                days
+              </label>
+              <label>
+                Difficulty at least{" "}
+                <input
+                  type="number"
+                  min={1}
+                  max={10}
+                  step={0.5}
+                  value={studyFilterForm.minDifficulty}
+                  onChange={(event) => setStudyFilterForm({ ...studyFilterForm, minDifficulty: event.target.value })}
+                  style={{ width: 64 }}
+                  disabled={isBusy}
+                />
+              </label>
+              <label>
+                <input
+                  type="checkbox"
+                  checked={studyFilterForm.reschedule}
+                  onChange={(event) => setStudyFilterForm({ ...studyFilterForm, reschedule: event.target.checked })}
+                  disabled={isBusy}
+                />{" "}
+                Reschedule cards based on my answers
+              </label>
+            </div>
+            <button type="submit" disabled={isBusy}>
+              Save Filter
+            </button>
+          </form>
+          {studyFilters.length > 0 ? (
+            <ul style={{ listStyle: "none", padding: 0, margin: "12px 0 0 0", display: "grid", gap: 8 }}>
+              {studyFilters.map((filter) => (
+                <li
+                  key={filter.id}
+                  style={{ border: "1px solid #ddd", borderRadius: 8, padding: 10, display: "flex", justifyContent: "space-between", gap: 12 }}
+                >
+                  <div>
+                    <p style={{ margin: "0 0 4px 0" }}>
+                      <strong>{filter.name}</strong>
+                    </p>
+                    <p style={{ margin: 0 }}>{describeStudyFilter(filter, flattenDeckTree(decks))}</p>
+                  </div>
+                  <div style={{ display: "flex", gap: 8, alignItems: "flex-start" }}>
+                    <button type="button" onClick={() => router.push(`/dashboard/study/filters/${filter.id}`)} disabled={isBusy}>
+                      Study
+                    </button>
+                    <button type="button" onClick={() => void handleDeleteStudyFilter(filter.id)} disabled={isBusy}>
+                      Delete
+                    </button>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          ) : null}
+        </section>
+      ) : null}
+
+      {decks.length > 0 ? (
+        <section style={{ border: "1px solid #ddd", borderRadius: 8, padding: 12, maxWidth: 760 }}>
+          <div style={{ display: "flex", justifyContent: "space-between", alignItems: "center", gap: 12, marginBottom: 12 }}>
+            <h2 style={{ margin: 0 }}>Your Decks</h2>
+            <div style={{ display: "flex", alignItems: "center", gap: 8 }}>
+              <span>Due now: {decks.reduce((total, deck) => total + deck.totalDueCount, 0)}</span>
+              <button type="button" onClick={() => router.push("/dashboard/study/all")} disabled={isBusy}>
+                Study All
+              </button>
+            </div>
+          </div>
           <ul style={{ listStyle: "none", padding: 0, margin: 0, display: "grid", gap: 8 }}>
-            {decks.map((deck) => (
+            {flattenDeckTree(decks).map(({ deck, depth }) => (
               <li
                 key={deck.id}
                 role="button"
@@ -295,7 +867,7 @@ export default function DashboardPage() {
                     router.push(`/dashboard/decks/${deck.id}`);
                   }
                 }}
-                style={{ border: "1px solid #ddd", borderRadius: 8, padding: 10, cursor: "pointer" }}
+                style={{ border: "1px solid #ddd", borderRadius: 8, padding: 10, cursor: "pointer", marginLeft: depth * 24 }}
               >
                 {(() => {
                   const study = deckStudyById[deck.id];
@@ -307,8 +879,11 @@ export default function DashboardPage() {
                     </p>
                     <p style={{ margin: "0 0 8px 0" }}>{deck.description ?? "No description"}</p>
                     <div style={{ marginTop: 14 }}>
-                      <p style={{ margin: 0 }}>Cards: {deck._count?.cards ?? 0}</p>
-                      <p style={{ margin: "4px 0 0 0" }}>Due now: {study ? study.dueNowCount : "..."}</p>
+                      <p style={{ margin: 0 }}>
+                        Cards: {deck.totalCardCount}
+                        {deck.children.length > 0 ? ` (${deck.cardCount} in this deck)` : null}
+                      </p>
+                      <p style={{ margin: "4px 0 0 0" }}>Due now: {deck.totalDueCount}</p>
                       <p style={{ margin: "4px 0 0 0" }}>
                         Next due: {study ? (study.nextDueAt ? new Date(study.nextDueAt).toLocaleString() : "No scheduled reviews") : "..."}
                       </p>
@@ -346,7 +921,11 @@ export default function DashboardPage() {
                     type="button"
                     onClick={(event) => {
                       event.stopPropagation();
-                      router.push(`/dashboard/study/${deck.id}`);
+                      router.push(
+                        deck.children.length > 0
+                          ? `/dashboard/study/${deck.id}?includeSubdecks=true`
+                          : `/dashboard/study/${deck.id}`
+                      );
                     }}
                     disabled={isBusy}
                   >
@@ -0,0 +1,398 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { DashboardShell } from "@/components/dashboard-shell";
+import { useAuth } from "@/components/auth-provider";
+
+interface Deck {
+  id: string;
+  title: string;
+  children: Deck[];
+}
+
+function flattenDeckTree(decks: Deck[], depth = 0): Array<{ deck: Deck; depth: number }> {
+  return decks.flatMap((deck) => [{ deck, depth }, ...flattenDeckTree(deck.children, depth + 1)]);
+}
+
+interface ReviewHeatmap {
+  reviewCount: number;
+  studiedDays: number;
+  currentStreak: number;
+  days: Array<{ date: string; reviewCount: number }>;
+}
+
+interface TrueRetention {
+  reviewCount: number;
+  retention: number | null;
+  buckets: Array<{ label: string; reviewCount: number; passedCount: number; retention: number | null }>;
+}
+
+interface RatingDistribution {
+  reviewCount: number;
+  ratings: Array<{ rating: "AGAIN" | "HARD" | "GOOD" | "EASY"; count: number }>;
+}
+
+interface CardStateStats {
+  cardCount: number;
+  suspendedCount: number;
+  states: Array<{ state: string; count: number }>;
+  averageStability: number | null;
+  averageDifficulty: number | null;
+}
+
+interface ReviewTimeStats {
+  reviewCount: number;
+  timedReviewCount: number;
+  totalMs: number;
+  averageMsPerReview: number | null;
+  days: Array<{ date: string; reviewCount: number; totalMs: number }>;
+  slowestCards: Array<{ cardId: string; deckId: string; question: string; reviewCount: number; averageMs: number }>;
+}
+
+interface Stats {
+  heatmap: ReviewHeatmap;
+  retention: TrueRetention;
+  ratings: RatingDistribution;
+  cards: CardStateStats;
+  time: ReviewTimeStats;
+}
+
+const STATS_PERIODS = [7, 30, 90, 365];
+const HEATMAP_COLORS = ["#eee", "#c6d7f2", "#8eb0e6", "#4a7bd0", "#2a4f91"];
+
+const RATING_COLORS: Record<RatingDistribution["ratings"][number]["rating"], string> = {
+  AGAIN: "#d04a4a",
+  HARD: "#d0954a",
+  GOOD: "#4aa05a",
+  EASY: "#4a7bd0"
+};
+
+const CARD_STATE_COLORS: Record<string, string> = {
+  New: "#8eb0e6",
+  Learning: "#d0954a",
+  Review: "#4aa05a",
+  Relearning: "#d04a4a"
+};
+
+function formatDuration(ms: number): string {
+  const seconds = Math.round(ms / 1000);
+  if (seconds < 60) {
+    return `${seconds}s`;
+  }
+  const minutes = Math.round(seconds / 60);
+  return minutes < 60 ? `${minutes}m` : `${Math.floor(minutes / 60)}h ${minutes % 60}m`;
+}
+
+function formatPercent(value: number | null): string {
+  return value === null ? "–" : `${Math.round(value * 100)}%`;
+}
+
+function getHeatmapColor(count: number, maxCount: number): string {
+  return count === 0 ? HEATMAP_COLORS[0] : HEATMAP_COLORS[Math.ceil((count / maxCount) * (HEATMAP_COLORS.length - 1))];
+}
+
+interface StatsBarProps {
+  label: string;
+  value: number;
+  max: number;
+  color: string;
+  text: string;
+}
+
+function StatsBar({ label, value, max, color, text }: StatsBarProps) {
+  return (
+    <div style={{ display: "flex", alignItems: "center", gap: 8 }}>
+      <span style={{ width: 110 }}>{label}</span>
+      <div
+        style={{
+          height: 12,
+          width: `${(value / Math.max(1, max)) * 60}%`,
+          minWidth: value > 0 ? 2 : 0,
+          background: color,
+          borderRadius: 2
+        }}
+      />
+      <span>{text}</span>
+    </div>
+  );
+}
+
+export default function StatsPage() {
+  const router = useRouter();
+  const { user, isLoading, apiFetch } = useAuth();
+
+  const [days, setDays] = useState(30);
+  const [deckId, setDeckId] = useState("");
+  const [decks, setDecks] = useState<Deck[]>([]);
+  const [stats, setStats] = useState<Stats | null>(null);
+  const [statusMessage, setStatusMessage] = useState<string | null>(null);
+
+  async function readErrorMessage(response: Response): Promise<string> {
+    try {
+      const data = (await response.json()) as { error?: string };
+      if (data.error && data.error.trim().length > 0) {
+        return data.error;
+      }
+    } catch {
+      // Fallback to status text.
+    }
+
+    return response.statusText || "Request failed";
+  }
+
+  async function loadDecks() {
+    const response = await apiFetch("/decks");
+    if (!response.ok) {
+      throw new Error(await readErrorMessage(response));
+    }
+
+    setDecks((await response.json()) as Deck[]);
+  }
+
+  async function loadStats() {
+    const deckQuery = deckId ? `&deckId=${deckId}` : "";
+    const responses = await Promise.all([
+      apiFetch(`/stats/heatmap?days=365${deckQuery}`),
+      apiFetch(`/stats/retention?days=${days}${deckQuery}`),
+      apiFetch(`/stats/ratings?days=${days}${deckQuery}`),
+      apiFetch(deckId ? `/stats/cards?deckId=${deckId}` : "/stats/cards"),
+      apiFetch(`/stats/time?days=${days}${deckQuery}`)
+    ]);
+    for (const response of responses) {
+      if (!response.ok) {
+        throw new Error(await readErrorMessage(response));
+      }
+    }
+
+    const [heatmap, retention, ratings, cards, time] = await Promise.all([
+      responses[0].json() as Promise<ReviewHeatmap>,
+      responses[1].json() as Promise<TrueRetention>,
+      responses[2].json() as Promise<RatingDistribution>,
+      responses[3].json() as Promise<CardStateStats>,
+      responses[4].json() as Promise<ReviewTimeStats>
+    ]);
+    setStats({ heatmap, retention, ratings, cards, time });
+  }
+
+  useEffect(() => {
+    if (!isLoading && !user) {
+      router.replace("/login");
+    }
+  }, [isLoading, router, user]);
+
+  useEffect(() => {
+    if (!user) {
+      return;
+    }
+
+    void (async () => {
+      try {
+        await loadDecks();
+      } catch {
+        setStatusMessage("Could not load decks.");
+      }
+    })();
+  }, [user]);
+
+  useEffect(() => {
+    if (!user) {
+      return;
+    }
+
+    void (async () => {
+      setStatusMessage(null);
+      try {
+        await loadStats();
+      } catch {
+        setStatusMessage("Could not load study statistics.");
+      }
+    })();
+  }, [user, days, deckId]);
+
+  if (isLoading || !user) {
+    return (
+      <main style={{ padding: 24, fontFamily: "sans-serif" }}>
+        <p>Loading statistics...</p>
+      </main>
+    );
+  }
+
+  return (
+    <DashboardShell title="Statistics" subtitle="How your reviews are going">
+      <p>{statusMessage ?? " "}</p>
+
+      <section style={{ border: "1px solid #ddd", borderRadius: 8, padding: 12, maxWidth: 760 }}>
+        <div style={{ display: "flex", gap: 12, flexWrap: "wrap", alignItems: "center" }}>
+          <Link href="/dashboard">Back to Dashboard</Link>
+          <label>
+            Deck{" "}
+            <select value={deckId} onChange={(event) => setDeckId(event.target.value)}>
+              <option value="">All decks</option>
+              {flattenDeckTree(decks).map(({ deck, depth }) => (
+                <option key={deck.id} value={deck.id}>
+                  {`${"— ".repeat(depth)}${deck.title}`}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label>
+            Period{" "}
+            <select value={days} onChange={(event) => setDays(Number(event.target.value))}>
+              {STATS_PERIODS.map((period) => (
+                <option key={period} value={period}>
+                  Last {period} days
+                </option>
+              ))}
+            </select>
+          </label>
+        </div>
+      </section>
+
+      {stats ? (
+        <>
+          <section style={{ border: "1px solid #ddd", borderRadius: 8, padding: 12, maxWidth: 760 }}>
+            <h2 style={{ marginTop: 0 }}>Reviews</h2>
+            <p style={{ marginTop: 0 }}>
+              {stats.heatmap.reviewCount} reviews on {stats.heatmap.studiedDays} days in the last year, current streak{" "}
+              {stats.heatmap.currentStreak} {stats.heatmap.currentStreak === 1 ? "day" : "days"}.
+            </p>
+            {(() => {
+              const maxCount = Math.max(1, ...stats.heatmap.days.map((day) => day.reviewCount));
+              const leadingDays = stats.heatmap.days.length > 0 ? new Date(stats.heatmap.days[0].date).getDay() : 0;
+              return (
+                <div
+                  style={{
+                    display: "grid",
+                    gridTemplateRows: "repeat(7, 10px)",
+                    gridAutoFlow: "column",
+                    gridAutoColumns: "10px",
+                    gap: 2,
+                    overflowX: "auto"
+                  }}
+                >
+                  {Array.from({ length: leadingDays }, (_, index) => (
+                    <div key={`padding-${index}`} />
+                  ))}
+                  {stats.heatmap.days.map((day) => (
+                    <div
+                      key={day.date}
+                      title={`${new Date(day.date).toLocaleDateString()}: ${day.reviewCount} reviews`}
+                      style={{ background: getHeatmapColor(day.reviewCount, maxCount), borderRadius: 2 }}
+                    />
+                  ))}
+                </div>
+              );
+            })()}
+          </section>
+
+          <section style={{ border: "1px solid #ddd", borderRadius: 8, padding: 12, maxWidth: 760 }}>
+            <h2 style={{ marginTop: 0 }}>True Retention</h2>
+            <p style={{ marginTop: 0 }}>
+              {formatPercent(stats.retention.retention)} of {stats.retention.reviewCount} reviews of graduated cards were
+              remembered, by the interval the card was shown at.
+            </p>
+            <div style={{ display: "grid", gap: 4 }}>
+              {stats.retention.buckets.map((bucket) => (
+                <StatsBar
+                  key={bucket.label}
+                  label={bucket.label}
+                  value={bucket.retention ?? 0}
+                  max={1}
+                  color="#4aa05a"
+                  text={`${formatPercent(bucket.retention)} of ${bucket.reviewCount}`}
+                />
+              ))}
+            </div>
+          </section>
+
+          <section style={{ border: "1px solid #ddd", borderRadius: 8, padding: 12, maxWidth: 760 }}>
+            <h2 style={{ marginTop: 0 }}>Answer Buttons</h2>
+            <div style={{ display: "grid", gap: 4 }}>
+              {stats.ratings.ratings.map((entry) => (
+                <StatsBar
+                  key={entry.rating}
+                  label={entry.rating}
+                  value={entry.count}
+                  max={stats.ratings.reviewCount}
+                  color={RATING_COLORS[entry.rating]}
+                  text={`${entry.count} (${formatPercent(
+                    stats.ratings.reviewCount > 0 ? entry.count / stats.ratings.reviewCount : null
+                  )})`}
+                />
+              ))}
+            </div>
+          </section>
+
+          <section style={{ border: "1px solid #ddd", borderRadius: 8, padding: 12, maxWidth: 760 }}>
+            <h2 style={{ marginTop: 0 }}>Cards</h2>
+            <p style={{ marginTop: 0 }}>
+              {stats.cards.cardCount} cards, {stats.cards.suspendedCount} suspended. Cards in review have an average
+              stability of {stats.cards.averageStability?.toFixed(1) ?? "–"} days and difficulty{" "}
+              {stats.cards.averageDifficulty?.toFixed(1) ?? "–"}.
+            </p>
+            <div style={{ display: "grid", gap: 4 }}>
+              {stats.cards.states.map((entry) => (
+                <StatsBar
+                  key={entry.state}
+                  label={entry.state}
+                  value={entry.count}
+                  max={stats.cards.cardCount}
+                  color={CARD_STATE_COLORS[entry.state] ?? "#4a7bd0"}
+                  text={String(entry.count)}
+                />
+              ))}
+            </div>
+          </section>
+
+          <section style={{ border: "1px solid #ddd", borderRadius: 8, padding: 12, maxWidth: 760 }}>
+            <h2 style={{ marginTop: 0 }}>Study Time</h2>
+            <p style={{ marginTop: 0 }}>
+              {formatDuration(stats.time.totalMs)} over {stats.time.reviewCount} reviews
+              {stats.time.averageMsPerReview !== null
+                ? `, ${formatDuration(stats.time.averageMsPerReview)} per card on average`
+                : ""}
+              .
+              {stats.time.timedReviewCount < stats.time.reviewCount
+                ? ` ${stats.time.reviewCount - stats.time.timedReviewCount} reviews have no recorded time.`
+                : ""}
+            </p>
+            <div style={{ display: "grid", gap: 4 }}>
+              {(() => {
+                const maxTotalMs = Math.max(1, ...stats.time.days.map((day) => day.totalMs));
+                return stats.time.days.map((day) => (
+                  <StatsBar
+                    key={day.date}
+                    label={new Date(day.date).toLocaleDateString(undefined, {
+                      weekday: "short",
+                      month: "short",
+                      day: "numeric"
+                    })}
+                    value={day.totalMs}
+                    max={maxTotalMs}
+                    color="#4a7bd0"
+                    text={`${formatDuration(day.totalMs)} · ${day.reviewCount} reviews`}
+                  />
+                ));
+              })()}
+            </div>
+            {stats.time.slowestCards.length > 0 ? (
+              <>
+                <h3>Slowest Cards</h3>
+                <ul style={{ margin: 0 }}>
+                  {stats.time.slowestCards.map((card) => (
+                    <li key={card.cardId}>
+                      <Link href={`/dashboard/decks/${card.deckId}`}>{card.question}</Link>:{" "}
+                      {formatDuration(card.averageMs)} on average over {card.reviewCount} reviews
+                    </li>
+                  ))}
+                </ul>
+              </>
+            ) : null}
+          </section>
+        </>
+      ) : null}
+    </DashboardShell>
+  );
+}
@@ -2,13 +2,23 @@
 
 import { useEffect, useMemo, useState } from "react";
 import Link from "next/link";
-import { useParams, usePathname, useRouter } from "next/navigation";
+import { useParams, usePathname, useRouter, useSearchParams } from "next/navigation";
+import type { CardFormat, ImageOcclusion } from "@flashcards/shared";
 import { useAuth } from "@/components/auth-provider";
+import { CardContent } from "@/components/card-content";
+import { ImageOcclusionView } from "@/components/image-occlusion";
 
 interface StudySessionCard {
   id: string;
+  deckId: string;
+  type: "BASIC" | "CLOZE" | "MULTIPLE_CHOICE" | "IMAGE_OCCLUSION";
+  format: CardFormat;
+  ordinal: number;
+  reversed: boolean;
   question: string;
   answer: string;
+  options: string[] | null;
+  occlusion: ImageOcclusion | null;
   scheduleState: {
     dueAt: string;
     lastReviewedAt: string | null;
@@ -18,17 +28,63 @@ interface StudySessionCard {
   } | null;
 }
 
+interface DailyAllowance {
+  limit: number;
+  done: number;
+  remaining: number;
+}
+
 interface StudySessionResponse {
-  deck: {
+  deck?: {
     id: string;
     title: string;
     description: string | null;
   };
+  filter?: {
+    id: string;
+    name: string;
+    reschedule: boolean;
+  };
+  decks?: Array<{
+    id: string;
+    title: string;
+    dueNowCount: number;
+  }>;
   dueNowCount: number;
   nextDueAt: string | null;
+  dailyLimits?: {
+    dayStartsAt: string;
+    nextDayStartsAt: string;
+    newCards: DailyAllowance;
+    reviews: DailyAllowance;
+  };
   cards: StudySessionCard[];
 }
 
+interface StudyChoiceResponse {
+  cardId: string;
+  correct: boolean;
+  correctOptionIndex: number;
+  rating: ReviewRating;
+  review: {
+    id: string;
+  };
+  leech: boolean;
+  slowRecall: boolean;
+  rescheduled: boolean;
+}
+
+interface StudyReviewResponse {
+  cardId: string;
+  rating: ReviewRating;
+  review: {
+    id: string;
+  };
+  leech: boolean;
+  slowRecall: boolean;
+  rescheduled: boolean;
+}
+
 interface AiChatMessage {
   role: "user" | "assistant";
   content: string;
@@ -43,6 +99,12 @@ interface StudyGradeResponse {
     idealAnswer: string;
     assistantReply: string;
   };
+  review: {
+    id: string;
+  };
+  leech: boolean;
+  slowRecall: boolean;
+  rescheduled: boolean;
   usage: {
     chatTurns: number;
     remainingMonthlyChatTurns: number | null;
@@ -59,13 +121,30 @@ interface StudyFollowUpResponse {
 }
 
 type StudyMode = "normal" | "ai";
+type StudyAllOrder = "due" | "deck" | "random";
+
+const STUDY_ALL_ORDERS: Array<{ value: StudyAllOrder; label: string }> = [
+  { value: "due", label: "By due date" },
+  { value: "deck", label: "By deck priority" },
+  { value: "random", label: "Mix decks randomly" }
+];
+
+const LEECH_NOTICE = " This card keeps lapsing and was marked as a leech; rewrite it from the deck workspace.";
+const UNSCHEDULED_NOTICE = " Practice only, the schedule was not changed.";
+const SLOW_RECALL_NOTICE = " That took a while to recall, so the card was tagged slow-recall.";
 type ReviewRating = "AGAIN" | "HARD" | "GOOD" | "EASY";
 
 export default function StudyDeckPage() {
-  const params = useParams<{ deckId: string }>();
+  const params = useParams<{ deckId?: string; filterId?: string }>();
   const deckId = typeof params.deckId === "string" ? params.deckId : "";
+  const filterId = typeof params.filterId === "string" ? params.filterId : "";
   const pathname = usePathname();
   const router = useRouter();
+  const searchParams = useSearchParams();
+  const tagExpression = searchParams.get("tags") ?? "";
+  const includeSubdecks = searchParams.get("includeSubdecks") === "true";
+  const isStudyAll = !deckId && !filterId;
+  const studyAllOrder = STUDY_ALL_ORDERS.find((entry) => entry.value === searchParams.get("order"))?.value ?? "due";
   const { user, isLoading, apiFetch } = useAuth();
 
   const [mode, setMode] = useState<StudyMode>("normal");
@@ -73,7 +152,10 @@ export default function StudyDeckPage() {
   const [isSessionLoading, setIsSessionLoading] = useState(true);
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [isAnswerRevealed, setIsAnswerRevealed] = useState(false);
+  const [choiceResult, setChoiceResult] = useState<(StudyChoiceResponse & { selectedIndex: number }) | null>(null);
   const [statusMessage, setStatusMessage] = useState<string | null>(null);
+  const [lastReviewId, setLastReviewId] = useState<string | null>(null);
+  const [cardShownAt, setCardShownAt] = useState(() => Date.now());
 
   const [aiAnswerInput, setAiAnswerInput] = useState("");
   const [aiFollowUpInput, setAiFollowUpInput] = useState("");
@@ -86,6 +168,11 @@ export default function StudyDeckPage() {
 
   const currentCard = useMemo(() => session?.cards[0] ?? null, [session]);
 
+  // Answer time runs from when the card is shown until it is answered, like Anki's card timer.
+  useEffect(() => {
+    setCardShownAt(Date.now());
+  }, [currentCard?.id]);
+
   function resetAiState() {
     setAiAnswerInput("");
     setAiFollowUpInput("");
@@ -111,14 +198,18 @@ export default function StudyDeckPage() {
   }
 
   async function loadSession() {
-    if (!deckId) {
-      return;
-    }
-
     setIsSessionLoading(true);
     setStatusMessage(null);
     try {
-      const response = await apiFetch(`/study/decks/${deckId}/session?limit=20`);
+      const tagQuery = tagExpression ? `&tags=${encodeURIComponent(tagExpression)}` : "";
+      const subdeckQuery = includeSubdecks ? "&includeSubdecks=true" : "";
+      const response = await apiFetch(
+        filterId
+          ? `/study/filters/${filterId}/session`
+          : isStudyAll
+            ? `/study/session?limit=20&order=${studyAllOrder}`
+            : `/study/decks/${deckId}/session?limit=20${tagQuery}${subdeckQuery}`
+      );
       if (!response.ok) {
         throw new Error(await readErrorMessage(response));
       }
@@ -126,6 +217,7 @@ export default function StudyDeckPage() {
       const data = (await response.json()) as StudySessionResponse;
       setSession(data);
       setIsAnswerRevealed(false);
+      setChoiceResult(null);
       resetAiState();
     } catch {
       setStatusMessage("Could not load study session.");
@@ -135,6 +227,21 @@ export default function StudyDeckPage() {
     }
   }
 
+  // Custom sessions ignore due dates, so reloading would serve the same card again.
+  async function goToNextCard() {
+    if (!filterId) {
+      await loadSession();
+      return;
+    }
+
+    setSession((previous) =>
+      previous ? { ...previous, dueNowCount: Math.max(0, previous.dueNowCount - 1), cards: previous.cards.slice(1) } : previous
+    );
+    setIsAnswerRevealed(false);
+    setChoiceResult(null);
+    resetAiState();
+  }
+
   async function submitReview(rating: ReviewRating) {
     if (!currentCard) {
       return;
@@ -150,15 +257,23 @@ export default function StudyDeckPage() {
         },
         body: JSON.stringify({
           cardId: currentCard.id,
-          rating
+          rating,
+          durationMs: Date.now() - cardShownAt,
+          filterId: filterId || undefined
         })
       });
       if (!response.ok) {
         throw new Error(await readErrorMessage(response));
       }
 
-      await loadSession();
-      setStatusMessage(`Saved review: ${rating}.`);
+      const data = (await response.json()) as StudyReviewResponse;
+      setLastReviewId(data.review.id);
+      await goToNextCard();
+      setStatusMessage(
+        `Saved review: ${rating}.${data.leech ? LEECH_NOTICE : ""}${data.slowRecall ? SLOW_RECALL_NOTICE : ""}${
+          data.rescheduled ? "" : UNSCHEDULED_NOTICE
+        }`
+      );
     } catch {
       setStatusMessage("Could not save this review.");
     } finally {
@@ -166,6 +281,70 @@ export default function StudyDeckPage() {
     }
   }
 
+  async function undoLastReview() {
+    if (!lastReviewId || isSubmitting) {
+      return;
+    }
+
+    setIsSubmitting(true);
+    setStatusMessage(null);
+    try {
+      const response = await apiFetch(`/study/review/${lastReviewId}/undo`, {
+        method: "POST"
+      });
+      if (!response.ok) {
+        throw new Error(await readErrorMessage(response));
+      }
+
+      setLastReviewId(null);
+      await loadSession();
+      setStatusMessage("Last review undone.");
+    } catch {
+      setStatusMessage("Could not undo the last review.");
+    } finally {
+      setIsSubmitting(false);
+    }
+  }
+
+  async function submitChoice(optionIndex: number) {
+    if (!currentCard) {
+      return;
+    }
+
+    setIsSubmitting(true);
+    setStatusMessage(null);
+    try {
+      const response = await apiFetch("/study/choice", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json"
+        },
+        body: JSON.stringify({
+          cardId: currentCard.id,
+          optionIndex,
+          durationMs: Date.now() - cardShownAt,
+          filterId: filterId || undefined
+        })
+      });
+      if (!response.ok) {
+        throw new Error(await readErrorMessage(response));
+      }
+
+      const data = (await response.json()) as StudyChoiceResponse;
+      setLastReviewId(data.review.id);
+      setChoiceResult({ ...data, selectedIndex: optionIndex });
+      setStatusMessage(
+        `${data.correct ? "Correct" : "Incorrect"}. Saved review: ${data.rating}.${data.leech ? LEECH_NOTICE : ""}${
+          data.slowRecall ? SLOW_RECALL_NOTICE : ""
+        }${data.rescheduled ? "" : UNSCHEDULED_NOTICE}`
+      );
+    } catch {
+      setStatusMessage("Could not save this answer.");
+    } finally {
+      setIsSubmitting(false);
+    }
+  }
+
   async function submitAiGrade() {
     if (!currentCard) {
       return;
@@ -188,7 +367,9 @@ export default function StudyDeckPage() {
         body: JSON.stringify({
           cardId: currentCard.id,
           userAnswer: answer,
-          history: aiMessages
+          history: aiMessages,
+          durationMs: Date.now() - cardShownAt,
+          filterId: filterId || undefined
         })
       });
       if (!response.ok) {
@@ -196,6 +377,7 @@ export default function StudyDeckPage() {
       }
 
       const data = (await response.json()) as StudyGradeResponse;
+      setLastReviewId(data.review.id);
       setAiGradeResult(data.grading);
       setAiSubmittedAnswer(answer);
       setAiRemainingTurns(data.usage.remainingMonthlyChatTurns === null ? "unlimited" : data.usage.remainingMonthlyChatTurns);
@@ -205,7 +387,11 @@ export default function StudyDeckPage() {
         { role: "assistant", content: data.grading.assistantReply }
       ]);
       setAiAnswerInput("");
-      setStatusMessage(`AI graded this answer as ${data.grading.rating} (${data.grading.score}/100).`);
+      setStatusMessage(
+        `AI graded this answer as ${data.grading.rating} (${data.grading.score}/100).${data.leech ? LEECH_NOTICE : ""}${
+          data.slowRecall ? SLOW_RECALL_NOTICE : ""
+        }${data.rescheduled ? "" : UNSCHEDULED_NOTICE}`
+      );
     } catch {
       setStatusMessage("Could not grade answer with AI.");
     } finally {
@@ -266,12 +452,28 @@ export default function StudyDeckPage() {
   }, [isLoading, router, user]);
 
   useEffect(() => {
-    if (!user || !deckId) {
+    if (!user) {
       return;
     }
 
     void loadSession();
-  }, [deckId, user]);
+  }, [deckId, filterId, studyAllOrder, tagExpression, includeSubdecks, user]);
+
+  useEffect(() => {
+    function handleKeyDown(event: KeyboardEvent) {
+      const target = event.target as HTMLElement | null;
+      if (target && (target.tagName === "INPUT" || target.tagName === "TEXTAREA")) {
+        return;
+      }
+      if ((event.ctrlKey || event.metaKey) && event.key.toLowerCase() === "z") {
+        event.preventDefault();
+        void undoLastReview();
+      }
+    }
+
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [lastReviewId, isSubmitting]);
 
   if (isLoading || !user) {
     return (
@@ -297,12 +499,14 @@ export default function StudyDeckPage() {
           >
             Dashboard
           </Link>
-          <Link
-            href={`/dashboard/decks/${deckId}`}
-            className={`dashboard-nav-link${pathname.startsWith(`/dashboard/decks/${deckId}`) ? " dashboard-nav-link--active" : ""}`}
-          >
-            Deck Workspace
-          </Link>
+          {deckId ? (
+            <Link
+              href={`/dashboard/decks/${deckId}`}
+              className={`dashboard-nav-link${pathname.startsWith(`/dashboard/decks/${deckId}`) ? " dashboard-nav-link--active" : ""}`}
+            >
+              Deck Workspace
+            </Link>
+          ) : null}
         </nav>
         <div className="dashboard-topbar-actions">
           <button
@@ -312,11 +516,54 @@ export default function StudyDeckPage() {
           >
             Refresh
           </button>
+          <button
+            type="button"
+            title="Ctrl+Z"
+            onClick={() => void undoLastReview()}
+            disabled={!lastReviewId || isSessionLoading || isSubmitting || isAiGrading || isAiFollowUpSending}
+          >
+            Undo Last Review
+          </button>
         </div>
       </div>
 
-      <h1>{session?.deck.title ? `Studying ${session.deck.title}` : "Studying"}</h1>
-      {session?.deck.description ? <p>{session.deck.description}</p> : null}
+      <h1>
+        {session?.deck?.title
+          ? `Studying ${session.deck.title}`
+          : session?.filter
+            ? `Custom Study: ${session.filter.name}`
+            : isStudyAll
+              ? "Studying All Decks"
+              : "Studying"}
+      </h1>
+      {session?.deck?.description ? <p>{session.deck.description}</p> : null}
+      {session?.filter && !session.filter.reschedule ? <p>Practice session: answers do not change card schedules.</p> : null}
+      {tagExpression ? <p>Only cards tagged: {tagExpression}</p> : null}
+      {includeSubdecks ? <p>Including cards from all sub-decks.</p> : null}
+      {isStudyAll ? (
+        <p>
+          <label>
+            Order{" "}
+            <select
+              value={studyAllOrder}
+              onChange={(event) => router.replace(`${pathname}?order=${event.target.value}`)}
+              disabled={isSessionLoading || isSubmitting}
+            >
+              {STUDY_ALL_ORDERS.map((entry) => (
+                <option key={entry.value} value={entry.value}>
+                  {entry.label}
+                </option>
+              ))}
+            </select>
+          </label>{" "}
+          {session?.decks
+            ? session.decks
+                .filter((entry) => entry.dueNowCount > 0)
+                .map((entry) => `${entry.title}: ${entry.dueNowCount}`)
+                .join(", ")
+            : null}
+        </p>
+      ) : null}
       <p>{statusMessage ?? " "}</p>
 
       <div style={{ display: "flex", gap: 8, marginBottom: 16 }}>
@@ -332,18 +579,34 @@ export default function StudyDeckPage() {
         <section style={{ border: "1px solid #ddd", borderRadius: 8, padding: 12, maxWidth: 760 }}>
           <h2 style={{ marginTop: 0 }}>AI Mode</h2>
           <p>Due now: {session?.dueNowCount ?? 0}</p>
+          {session?.dailyLimits ? (
+            <p>
+              Left today: {session.dailyLimits.newCards.remaining} new, {session.dailyLimits.reviews.remaining} reviews
+            </p>
+          ) : null}
 
           {aiRemainingTurns !== null ? <p>Remaining AI chat turns this month: {aiRemainingTurns === "unlimited" ? "Unlimited" : aiRemainingTurns}</p> : null}
 
           {isSessionLoading ? <p>Loading cards...</p> : null}
 
-          {!isSessionLoading && !currentCard ? <p>No cards due right now. Come back when more cards are due.</p> : null}
+          {!isSessionLoading && !currentCard ? (
+            <p>{filterId ? "No more cards match this filter." : "No cards due right now. Come back when more cards are due."}</p>
+          ) : null}
 
           {!isSessionLoading && currentCard ? (
             <div style={{ marginTop: 12, display: "grid", gap: 10 }}>
-              <p>
-                <strong>Question:</strong> {currentCard.question}
-              </p>
+              <div>
+                <strong>Question:</strong> <CardContent text={currentCard.question} format={currentCard.format} inline />
+                {currentCard.occlusion ? (
+                  <div style={{ marginTop: 8 }}>
+                    <ImageOcclusionView
+                      occlusion={currentCard.occlusion}
+                      activeOrdinal={currentCard.ordinal}
+                      isRevealed={aiGradeResult !== null}
+                    />
+                  </div>
+                ) : null}
+              </div>
 
               {!aiGradeResult ? (
                 <>
@@ -407,7 +670,7 @@ export default function StudyDeckPage() {
                     </button>
                     <button
                       type="button"
-                      onClick={() => void loadSession()}
+                      onClick={() => void goToNextCard()}
                       disabled={isSessionLoading || isAiGrading || isAiFollowUpSending}
                     >
                       Next Card
@@ -424,23 +687,84 @@ export default function StudyDeckPage() {
         <section style={{ border: "1px solid #ddd", borderRadius: 8, padding: 12, maxWidth: 760 }}>
           <h2 style={{ marginTop: 0 }}>Normal Mode</h2>
           <p>Due now: {session?.dueNowCount ?? 0}</p>
+          {session?.dailyLimits ? (
+            <p>
+              Left today: {session.dailyLimits.newCards.remaining} new, {session.dailyLimits.reviews.remaining} reviews
+            </p>
+          ) : null}
 
           {isSessionLoading ? <p>Loading cards...</p> : null}
 
           {!isSessionLoading && !currentCard ? (
-            <p>No cards due right now. Come back when more cards are due.</p>
+            <p>{filterId ? "No more cards match this filter." : "No cards due right now. Come back when more cards are due."}</p>
           ) : null}
 
           {!isSessionLoading && currentCard ? (
             <div style={{ marginTop: 12 }}>
+              {session?.decks ? (
+                <p style={{ margin: "0 0 6px 0" }}>
+                  From {session.decks.find((entry) => entry.id === currentCard.deckId)?.title ?? "another deck"}
+                </p>
+              ) : null}
               <div className="study-qa-box">
                 <p style={{ margin: "0 0 6px 0" }}>
-                  <strong>Question</strong>
+                  <strong>{currentCard.type === "CLOZE"
+                    ? `Fill in the blank (cloze ${currentCard.ordinal})`
+                    : currentCard.type === "MULTIPLE_CHOICE"
+                      ? "Choose the correct answer"
+                      : currentCard.type === "IMAGE_OCCLUSION"
+                        ? "Name the highlighted region"
+                        : currentCard.reversed
+                        ? "Question (reverse)"
+                        : "Question"}</strong>
                 </p>
-                <p style={{ margin: 0 }}>{currentCard.question}</p>
+                <CardContent text={currentCard.question} format={currentCard.format} />
+                {currentCard.occlusion ? (
+                  <div style={{ marginTop: 8 }}>
+                    <ImageOcclusionView
+                      occlusion={currentCard.occlusion}
+                      activeOrdinal={currentCard.ordinal}
+                      isRevealed={isAnswerRevealed}
+                    />
+                  </div>
+                ) : null}
               </div>
 
-              {!isAnswerRevealed ? (
+              {currentCard.type === "MULTIPLE_CHOICE" ? (
+                <div style={{ display: "grid", gap: 8, marginTop: 10 }}>
+                  {(currentCard.options ?? []).map((option, index) => (
+                    <button
+                      key={index}
+                      type="button"
+                      onClick={() => void submitChoice(index)}
+                      disabled={isSubmitting || choiceResult !== null}
+                      style={{
+                        textAlign: "left",
+                        fontWeight: choiceResult?.selectedIndex === index ? "bold" : undefined,
+                        background:
+                          choiceResult === null
+                            ? undefined
+                            : index === choiceResult.correctOptionIndex
+                              ? "#d4edda"
+                              : index === choiceResult.selectedIndex
+                                ? "#f8d7da"
+                                : undefined
+                      }}
+                    >
+                      <CardContent text={option} format={currentCard.format} inline />
+                    </button>
+                  ))}
+                  {choiceResult ? (
+                    <div>
+                      <button type="button" onClick={() => void goToNextCard()} disabled={isSessionLoading}>
+                        Next Card
+                      </button>
+                    </div>
+                  ) : null}
+                </div>
+              ) : null}
+
+              {currentCard.type !== "MULTIPLE_CHOICE" && !isAnswerRevealed ? (
                 <div style={{ marginTop: 10, marginBottom: 10 }}>
                   <button type="button" onClick={() => setIsAnswerRevealed(true)} disabled={isSubmitting}>
                     Reveal Answer
@@ -448,16 +772,16 @@ export default function StudyDeckPage() {
                 </div>
               ) : null}
 
-              {isAnswerRevealed ? (
+              {currentCard.type !== "MULTIPLE_CHOICE" && isAnswerRevealed ? (
                 <div className="study-qa-box" style={{ marginTop: 10 }}>
                   <p style={{ margin: "0 0 6px 0" }}>
                     <strong>Answer</strong>
                   </p>
-                  <p style={{ margin: 0 }}>{currentCard.answer}</p>
+                  <CardContent text={currentCard.answer} format={currentCard.format} />
                 </div>
               ) : null}
 
-              {isAnswerRevealed ? (
+              {currentCard.type !== "MULTIPLE_CHOICE" && isAnswerRevealed ? (
                 <div style={{ display: "flex", gap: 8, marginTop: 12, flexWrap: "wrap" }}>
                   <button type="button" onClick={() => void submitReview("AGAIN")} disabled={isSubmitting}>
                     Again
@@ -0,0 +1 @@
+export { default } from "@/app/dashboard/study/[deckId]/page";
@@ -0,0 +1,60 @@
+"use client";
+
+import ReactMarkdown, { defaultUrlTransform } from "react-markdown";
+import rehypeHighlight from "rehype-highlight";
+import rehypeKatex from "rehype-katex";
+import remarkGfm from "remark-gfm";
+import remarkMath from "remark-math";
+import { splitMediaReferences, type CardFormat } from "@flashcards/shared";
+import { MediaAttachment } from "@/components/media-attachment";
+import "katex/dist/katex.min.css";
+import "highlight.js/styles/github-dark.css";
+
+interface CardContentProps {
+  text: string;
+  format?: CardFormat;
+  inline?: boolean;
+}
+
+const MEDIA_URL_PREFIX = "media:";
+
+// Media references become markdown images with a media: URL so they can sit inside lists and tables.
+function toMarkdownWithMedia(text: string): string {
+  return splitMediaReferences(text)
+    .map((segment, index) => (index % 2 === 1 ? `![](${MEDIA_URL_PREFIX}${segment})` : segment))
+    .join("");
+}
+
+// Raw HTML in markdown is never rendered; the API also strips it before storing.
+export function CardContent({ text, format = "PLAIN", inline = false }: CardContentProps) {
+  if (format !== "MARKDOWN") {
+    const segments = splitMediaReferences(text).map((segment, index) =>
+      index % 2 === 1 ? <MediaAttachment key={index} mediaId={segment} /> : segment
+    );
+    return inline ? (
+      <span style={{ whiteSpace: "pre-wrap" }}>{segments}</span>
+    ) : (
+      <div style={{ whiteSpace: "pre-wrap" }}>{segments}</div>
+    );
+  }
+
+  return (
+    <div className={inline ? "card-markdown card-markdown--inline" : "card-markdown"}>
+      <ReactMarkdown
+        remarkPlugins={[remarkGfm, remarkMath]}
+        rehypePlugins={[rehypeKatex, rehypeHighlight]}
+        urlTransform={(url) => (url.startsWith(MEDIA_URL_PREFIX) ? url : defaultUrlTransform(url))}
+        components={{
+          img: ({ src, alt }) =>
+            typeof src === "string" && src.startsWith(MEDIA_URL_PREFIX) ? (
+              <MediaAttachment mediaId={src.slice(MEDIA_URL_PREFIX.length)} alt={alt} />
+            ) : (
+              <img src={typeof src === "string" ? src : undefined} alt={alt ?? ""} style={{ maxWidth: "100%" }} />
+            )
+        }}
+      >
+        {toMarkdownWithMedia(text)}
+      </ReactMarkdown>
+    </div>
+  );
+}
@@ -34,10 +34,18 @@ export function DashboardShell({ title, subtitle, meta, hideHeading = false, chi
             </Link>
             <Link
               href="/dashboard"
-              className={`dashboard-nav-link${pathname.startsWith("/dashboard") ? " dashboard-nav-link--active" : ""}`}
+              className={`dashboard-nav-link${
+                pathname.startsWith("/dashboard") && !pathname.startsWith("/dashboard/stats") ? " dashboard-nav-link--active" : ""
+              }`}
             >
               Dashboard
             </Link>
+            <Link
+              href="/dashboard/stats"
+              className={`dashboard-nav-link${pathname.startsWith("/dashboard/stats") ? " dashboard-nav-link--active" : ""}`}
+            >
+              Stats
+            </Link>
             {workspaceHref ? (
               <Link
                 href={workspaceHref}
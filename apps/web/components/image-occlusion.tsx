@@ -0,0 +1,189 @@
+"use client";
+
+import { PointerEvent, useState } from "react";
+import { getOcclusionOrdinals, type ImageOcclusion, type OcclusionMask } from "@flashcards/shared";
+import { MediaAttachment } from "@/components/media-attachment";
+
+interface Point {
+  x: number;
+  y: number;
+}
+
+const MIN_MASK_SIZE = 0.01;
+
+// Mask coordinates are fractions of the rendered image so they survive any display size.
+function getRelativePoint(event: PointerEvent<HTMLDivElement>): Point {
+  const bounds = event.currentTarget.getBoundingClientRect();
+  return {
+    x: Math.min(1, Math.max(0, (event.clientX - bounds.left) / bounds.width)),
+    y: Math.min(1, Math.max(0, (event.clientY - bounds.top) / bounds.height))
+  };
+}
+
+function toMaskStyle(mask: Pick<OcclusionMask, "x" | "y" | "width" | "height">) {
+  return {
+    position: "absolute" as const,
+    left: `${mask.x * 100}%`,
+    top: `${mask.y * 100}%`,
+    width: `${mask.width * 100}%`,
+    height: `${mask.height * 100}%`,
+    boxSizing: "border-box" as const,
+    borderRadius: 2
+  };
+}
+
+interface ImageOcclusionEditorProps {
+  mediaId: string;
+  masks: OcclusionMask[];
+  onChange: (masks: OcclusionMask[]) => void;
+  disabled?: boolean;
+}
+
+export function ImageOcclusionEditor({ mediaId, masks, onChange, disabled = false }: ImageOcclusionEditorProps) {
+  const [dragStart, setDragStart] = useState<Point | null>(null);
+  const [dragEnd, setDragEnd] = useState<Point | null>(null);
+
+  const draft =
+    dragStart && dragEnd
+      ? {
+          x: Math.min(dragStart.x, dragEnd.x),
+          y: Math.min(dragStart.y, dragEnd.y),
+          width: Math.abs(dragEnd.x - dragStart.x),
+          height: Math.abs(dragEnd.y - dragStart.y)
+        }
+      : null;
+
+  function updateMask(index: number, changes: Partial<OcclusionMask>) {
+    onChange(masks.map((mask, maskIndex) => (maskIndex === index ? { ...mask, ...changes } : mask)));
+  }
+
+  return (
+    <div style={{ display: "grid", gap: 8 }}>
+      <div
+        onPointerDown={(event) => {
+          if (disabled) {
+            return;
+          }
+          event.preventDefault();
+          event.currentTarget.setPointerCapture(event.pointerId);
+          const point = getRelativePoint(event);
+          setDragStart(point);
+          setDragEnd(point);
+        }}
+        onPointerMove={(event) => {
+          if (dragStart) {
+            setDragEnd(getRelativePoint(event));
+          }
+        }}
+        onPointerUp={() => {
+          if (draft && draft.width >= MIN_MASK_SIZE && draft.height >= MIN_MASK_SIZE) {
+            onChange([...masks, { ...draft, ordinal: Math.max(0, ...masks.map((mask) => mask.ordinal)) + 1 }]);
+          }
+          setDragStart(null);
+          setDragEnd(null);
+        }}
+        style={{
+          position: "relative",
+          display: "inline-block",
+          justifySelf: "start",
+          cursor: disabled ? "default" : "crosshair",
+          userSelect: "none",
+          touchAction: "none"
+        }}
+      >
+        <MediaAttachment mediaId={mediaId} alt="Image to occlude" />
+        {masks.map((mask, index) => (
+          <div
+            key={index}
+            style={{
+              ...toMaskStyle(mask),
+              background: "rgba(255, 140, 0, 0.75)",
+              border: "1px solid #b35f00",
+              color: "#fff",
+              fontSize: 12,
+              fontWeight: 700,
+              display: "flex",
+              alignItems: "center",
+              justifyContent: "center"
+            }}
+          >
+            {mask.ordinal}
+          </div>
+        ))}
+        {draft ? <div style={{ ...toMaskStyle(draft), border: "2px dashed #b35f00" }} /> : null}
+      </div>
+      <span>
+        Drag over the image to hide a region. {getOcclusionOrdinals(masks).length} cards will be created, one per group
+        number; masks sharing a number are reviewed together.
+      </span>
+      {masks.map((mask, index) => (
+        <div key={index} style={{ display: "flex", gap: 8, alignItems: "center" }}>
+          <label>
+            Group{" "}
+            <input
+              type="number"
+              min={1}
+              max={100}
+              value={mask.ordinal}
+              onChange={(event) => updateMask(index, { ordinal: Math.max(1, Math.round(Number(event.target.value) || 1)) })}
+              disabled={disabled}
+              style={{ width: 56 }}
+            />
+          </label>
+          <input
+            value={mask.label ?? ""}
+            onChange={(event) => updateMask(index, { label: event.target.value || undefined })}
+            placeholder="Hidden label (shown as the answer)"
+            disabled={disabled}
+            style={{ flex: 1 }}
+          />
+          <button
+            type="button"
+            onClick={() => onChange(masks.filter((_, maskIndex) => maskIndex !== index))}
+            disabled={disabled}
+          >
+            Remove
+          </button>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+interface ImageOcclusionViewProps {
+  occlusion: ImageOcclusion;
+  activeOrdinal: number;
+  isRevealed: boolean;
+}
+
+// Masks being asked about are highlighted and disappear on reveal; other masks stay covered as context.
+export function ImageOcclusionView({ occlusion, activeOrdinal, isRevealed }: ImageOcclusionViewProps) {
+  return (
+    <div style={{ position: "relative", display: "inline-block" }}>
+      <MediaAttachment mediaId={occlusion.mediaId} alt="Image occlusion" />
+      {occlusion.masks.map((mask, index) => {
+        const isActive = mask.ordinal === activeOrdinal;
+        if (isActive && isRevealed) {
+          return <div key={index} style={{ ...toMaskStyle(mask), border: "2px solid #b35f00" }} />;
+        }
+        return (
+          <div
+            key={index}
+            style={{
+              ...toMaskStyle(mask),
+              background: isActive ? "#ff8c00" : "#9aa0a6",
+              border: isActive ? "2px solid #b35f00" : "1px solid #6b7075",
+              color: "#fff",
+              fontWeight: 700,
+              display: "flex",
+              alignItems: "center",
+              justifyContent: "center"
+            }}
+          >
+            {isActive ? "?" : null}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
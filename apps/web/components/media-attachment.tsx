@@ -0,0 +1,61 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useAuth } from "@/components/auth-provider";
+
+interface MediaAttachmentProps {
+  mediaId: string;
+  alt?: string;
+}
+
+// Media is served behind auth, so it is fetched with the access token and shown from an object URL.
+export function MediaAttachment({ mediaId, alt }: MediaAttachmentProps) {
+  const { apiFetch } = useAuth();
+  const [media, setMedia] = useState<{ url: string; mimeType: string } | null>(null);
+  const [hasFailed, setHasFailed] = useState(false);
+
+  useEffect(() => {
+    let objectUrl: string | null = null;
+    let isCancelled = false;
+
+    void (async () => {
+      try {
+        const response = await apiFetch(`/media/${mediaId}/content`);
+        if (!response.ok) {
+          throw new Error(response.statusText);
+        }
+        const blob = await response.blob();
+        if (isCancelled) {
+          return;
+        }
+        objectUrl = URL.createObjectURL(blob);
+        setMedia({ url: objectUrl, mimeType: blob.type });
+      } catch {
+        if (!isCancelled) {
+          setHasFailed(true);
+        }
+      }
+    })();
+
+    return () => {
+      isCancelled = true;
+      if (objectUrl) {
+        URL.revokeObjectURL(objectUrl);
+      }
+    };
+  }, [apiFetch, mediaId]);
+
+  if (hasFailed) {
+    return <em>[missing attachment]</em>;
+  }
+
+  if (!media) {
+    return <em>Loading attachment...</em>;
+  }
+
+  if (media.mimeType.startsWith("audio/")) {
+    return <audio controls src={media.url} style={{ display: "block", maxWidth: "100%" }} />;
+  }
+
+  return <img src={media.url} alt={alt || "Card attachment"} style={{ display: "block", maxWidth: "100%", maxHeight: 360 }} />;
+}
@@ -10,9 +10,24 @@ export const deckIdParamsSchema = z.object({
   id: z.string().min(1)
 });
 
+// Cards reaching leechThreshold lapses are tagged "leech"; SUSPEND also takes them out of study.
+export const leechActionSchema = z.enum(["TAG", "SUSPEND"]);
+
 export const deckCreateSchema = z.object({
   title: z.string().trim().min(1).max(120),
-  description: z.string().trim().max(1000).optional()
+  description: z.string().trim().max(1000).optional(),
+  parentId: z.string().min(1).nullable().optional(),
+  presetId: z.string().min(1).nullable().optional(),
+  newCardsPerDay: z.number().int().min(0).max(9999).optional(),
+  reviewsPerDay: z.number().int().min(0).max(9999).optional(),
+  leechThreshold: z.number().int().min(1).max(99).optional(),
+  leechAction: leechActionSchema.optional(),
+  studyPriority: z.number().int().min(0).max(100).optional(),
+  // Until examDate every card's intervals are capped so it is reviewed at least examMinReviews times before it.
+  examDate: z.coerce.date().nullable().optional(),
+  examMinReviews: z.number().int().min(1).max(20).optional(),
+  // Passing answers that take longer than this are tagged as slow recalls; null turns it off.
+  slowRecallSeconds: z.number().int().min(1).max(60).nullable().optional()
 });
 
 export const deckUpdateSchema = deckCreateSchema.partial().refine((data) => Object.keys(data).length > 0, {
@@ -27,16 +42,387 @@ export const deckCardsParamsSchema = z.object({
   id: z.string().min(1)
 });
 
-export const cardCreateSchema = z.object({
-  question: z.string().trim().min(1).max(2000),
-  answer: z.string().trim().min(1).max(5000)
+export const cardTypeSchema = z.enum(["BASIC", "CLOZE", "MULTIPLE_CHOICE", "IMAGE_OCCLUSION"]);
+
+// MARKDOWN content supports GitHub-flavoured markdown, $inline$ / $$block$$ KaTeX math and fenced code.
+export const cardFormatSchema = z.enum(["PLAIN", "MARKDOWN"]);
+
+// Flag order matches Anki's flag numbers 1-7.
+export const cardFlagSchema = z.enum(["RED", "ORANGE", "GREEN", "BLUE", "PINK", "TURQUOISE", "PURPLE"]);
+
+// Tags are case-insensitive single words so they can be combined in tag expressions.
+export const tagNameSchema = z
+  .string()
+  .trim()
+  .min(1)
+  .max(50)
+  .regex(/^[^\s|,-][^\s|,]*$/, "Tags cannot contain spaces, commas or |, or start with -")
+  .transform((value) => value.toLowerCase());
+
+export const cardTagsSchema = z.array(tagNameSchema).max(20);
+
+export const tagIdParamsSchema = z.object({
+  id: z.string().min(1)
+});
+
+export const tagCreateSchema = z.object({
+  name: tagNameSchema
 });
 
-export const cardUpdateSchema = cardCreateSchema.partial().refine((data) => Object.keys(data).length > 0, {
-  message: "At least one field must be provided"
+export const tagUpdateSchema = tagCreateSchema;
+
+export const presetIdParamsSchema = z.object({
+  id: z.string().min(1)
 });
 
+export const learningStepSchema = z
+  .string()
+  .trim()
+  .regex(/^[1-9]\d*[mhd]$/, "Steps look like 1m, 10m, 6h or 1d");
+
+const schedulingPresetFieldsSchema = z.object({
+  name: z.string().trim().min(1).max(60),
+  desiredRetention: z.number().min(0.7).max(0.99),
+  maximumInterval: z.number().int().min(1).max(36500),
+  learningSteps: z.array(learningStepSchema).max(10),
+  relearningSteps: z.array(learningStepSchema).max(10),
+  enableFuzz: z.boolean(),
+  enableLoadBalance: z.boolean()
+});
+
+export const schedulingPresetCreateSchema = schedulingPresetFieldsSchema.extend({
+  desiredRetention: schedulingPresetFieldsSchema.shape.desiredRetention.default(0.9),
+  maximumInterval: schedulingPresetFieldsSchema.shape.maximumInterval.default(36500),
+  learningSteps: schedulingPresetFieldsSchema.shape.learningSteps.default(["1m", "10m"]),
+  relearningSteps: schedulingPresetFieldsSchema.shape.relearningSteps.default(["10m"]),
+  enableFuzz: schedulingPresetFieldsSchema.shape.enableFuzz.default(false),
+  enableLoadBalance: schedulingPresetFieldsSchema.shape.enableLoadBalance.default(false)
+});
+
+export const schedulingPresetUpdateSchema = schedulingPresetFieldsSchema
+  .partial()
+  .refine((data) => Object.keys(data).length > 0, {
+    message: "At least one field must be provided"
+  });
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// weekdayLoad weights each weekday's share of reviews from Sunday to Saturday: 1 is a normal day,
+// lower values make it an easy day and 0 keeps rescheduled reviews off it entirely.
+const weekdayLoadSchema = z
+  .array(z.number().min(0).max(1))
+  .length(7)
+  .refine((weights) => weights.some((weight) => weight > 0), "At least one weekday must take reviews");
+
+// The study day (and with it the daily new/review allowance) rolls over at dayStartHour local time.
+export const studySettingsUpdateSchema = z
+  .object({
+    dayStartHour: z.number().int().min(0).max(23),
+    timeZone: z.string().trim().min(1).max(64).refine(isValidTimeZone, "Unknown time zone"),
+    weekdayLoad: weekdayLoadSchema
+  })
+  .partial()
+  .refine((data) => Object.keys(data).length > 0, {
+    message: "At least one field must be provided"
+  });
+
+// Cards due from startDate until endDate, the first day back, are moved to the days after it.
+export const vacationSchema = z
+  .object({
+    startDate: z.coerce.date(),
+    endDate: z.coerce.date()
+  })
+  .refine((data) => data.endDate > data.startDate, {
+    message: "End date must be after the start date",
+    path: ["endDate"]
+  })
+  .refine((data) => data.endDate.getTime() - data.startDate.getTime() <= 90 * 24 * 60 * 60 * 1000, {
+    message: "A vacation can last at most 90 days",
+    path: ["endDate"]
+  })
+  .refine((data) => data.endDate > new Date(), {
+    message: "This vacation has already ended",
+    path: ["endDate"]
+  });
+
+export function parseTagList(value: string): string[] {
+  return value.split(/[\s,]+/).filter((tag) => tag.length > 0);
+}
+
+export interface TagExpressionTerm {
+  tags: string[];
+  negated: boolean;
+}
+
+// Space-separated terms must all match; `a|b` matches either tag and `-a` excludes it.
+// Example: `chapter1|chapter2 -hard`.
+export const tagExpressionSchema = z
+  .string()
+  .trim()
+  .min(1)
+  .max(500)
+  .transform((value, ctx): TagExpressionTerm[] => {
+    const terms: TagExpressionTerm[] = [];
+    for (const rawTerm of value.split(/\s+/)) {
+      const negated = rawTerm.startsWith("-");
+      const tags: string[] = [];
+      for (const rawTag of (negated ? rawTerm.slice(1) : rawTerm).split("|")) {
+        const parsed = tagNameSchema.safeParse(rawTag);
+        if (!parsed.success) {
+          ctx.addIssue({
+            code: z.ZodIssueCode.custom,
+            message: `Invalid tag in expression: "${rawTag}"`
+          });
+          return z.NEVER;
+        }
+        tags.push(parsed.data);
+      }
+      terms.push({ tags, negated });
+    }
+    return terms;
+  });
+
+export const studyFilterIdParamsSchema = z.object({
+  id: z.string().min(1)
+});
+
+// An empty deck list means every deck. Filters are combined, so "difficulty 7+ tagged exam" needs both.
+const studyFilterFieldsSchema = z.object({
+  name: z.string().trim().min(1).max(60),
+  deckIds: z.array(z.string().min(1)).max(100),
+  includeSubdecks: z.boolean(),
+  tags: z
+    .string()
+    .trim()
+    .refine((value) => tagExpressionSchema.safeParse(value).success, "Invalid tag expression")
+    .nullable(),
+  flag: cardFlagSchema.nullable(),
+  lapsedWithinDays: z.number().int().min(1).max(365).nullable(),
+  minDifficulty: z.number().min(1).max(10).nullable(),
+  maxDifficulty: z.number().min(1).max(10).nullable(),
+  reschedule: z.boolean(),
+  cardLimit: z.number().int().min(1).max(500)
+});
+
+export const studyFilterCreateSchema = studyFilterFieldsSchema.extend({
+  deckIds: studyFilterFieldsSchema.shape.deckIds.default([]),
+  includeSubdecks: studyFilterFieldsSchema.shape.includeSubdecks.default(true),
+  tags: studyFilterFieldsSchema.shape.tags.default(null),
+  flag: studyFilterFieldsSchema.shape.flag.default(null),
+  lapsedWithinDays: studyFilterFieldsSchema.shape.lapsedWithinDays.default(null),
+  minDifficulty: studyFilterFieldsSchema.shape.minDifficulty.default(null),
+  maxDifficulty: studyFilterFieldsSchema.shape.maxDifficulty.default(null),
+  reschedule: studyFilterFieldsSchema.shape.reschedule.default(false),
+  cardLimit: studyFilterFieldsSchema.shape.cardLimit.default(100)
+});
+
+export const studyFilterUpdateSchema = studyFilterFieldsSchema
+  .partial()
+  .refine((data) => Object.keys(data).length > 0, {
+    message: "At least one field must be provided"
+  });
+
+export const multipleChoiceOptionsSchema = z.array(z.string().trim().min(1).max(500)).min(2).max(6);
+
+export function getMultipleChoiceError(options: string[] | undefined, correctOptionIndex: number | undefined): string | null {
+  if (!options || options.length < 2) {
+    return "Multiple-choice cards need at least two options";
+  }
+  if (new Set(options.map((option) => option.toLowerCase())).size !== options.length) {
+    return "Multiple-choice options must be unique";
+  }
+  if (correctOptionIndex === undefined || correctOptionIndex < 0 || correctOptionIndex >= options.length) {
+    return "Correct option index must point to one of the options";
+  }
+  return null;
+}
+
+const clozeDeletionPattern = /\{\{c(\d+)::([\s\S]*?)(?:::([\s\S]*?))?\}\}/g;
+
+export function getClozeIndices(text: string): number[] {
+  const indices = new Set<number>();
+  for (const match of text.matchAll(clozeDeletionPattern)) {
+    const index = Number(match[1]);
+    if (index > 0) {
+      indices.add(index);
+    }
+  }
+  return [...indices].sort((left, right) => left - right);
+}
+
+export function renderClozePrompt(text: string, activeIndex: number): string {
+  return text.replace(clozeDeletionPattern, (_, index: string, answer: string, hint: string | undefined) => {
+    if (Number(index) === activeIndex) {
+      return hint ? `[${hint}]` : "[...]";
+    }
+    return answer;
+  });
+}
+
+export function renderClozeAnswer(text: string): string {
+  return text.replace(clozeDeletionPattern, (_, _index: string, answer: string) => answer);
+}
+
+// Mask rectangles are fractions of the image size so they stay aligned at any display size.
+// Masks sharing an ordinal are hidden and revealed together as one scheduled card.
+export const occlusionMaskSchema = z
+  .object({
+    ordinal: z.number().int().min(1).max(100),
+    x: z.number().min(0).max(1),
+    y: z.number().min(0).max(1),
+    width: z.number().positive().max(1),
+    height: z.number().positive().max(1),
+    label: z.string().trim().max(200).optional()
+  })
+  .refine((mask) => mask.x + mask.width <= 1.0001 && mask.y + mask.height <= 1.0001, {
+    message: "Mask must stay inside the image"
+  });
+
+export const imageOcclusionSchema = z.object({
+  mediaId: z.string().min(1),
+  masks: z.array(occlusionMaskSchema).min(1).max(100)
+});
+
+export function getOcclusionOrdinals(masks: Array<{ ordinal: number }>): number[] {
+  return [...new Set(masks.map((mask) => mask.ordinal))].sort((left, right) => left - right);
+}
+
+// Card text embeds uploaded media as [media:<id>]; clients render images and audio players in place.
+const mediaReferencePattern = /\[media:([A-Za-z0-9_-]+)\]/g;
+
+export function toMediaReference(mediaId: string): string {
+  return `[media:${mediaId}]`;
+}
+
+export function getMediaReferenceIds(text: string): string[] {
+  return [...new Set([...text.matchAll(mediaReferencePattern)].map((match) => match[1]))];
+}
+
+// Alternates text and media ids: even indices are text, odd indices are media ids.
+export function splitMediaReferences(text: string): string[] {
+  return text.split(new RegExp(mediaReferencePattern.source));
+}
+
+export const mediaIdParamsSchema = z.object({
+  id: z.string().min(1)
+});
+
+export const cardCreateSchema = z
+  .object({
+    type: cardTypeSchema.default("BASIC"),
+    format: cardFormatSchema.default("PLAIN"),
+    question: z.string().trim().min(1).max(2000),
+    answer: z.string().trim().max(5000).default(""),
+    reverse: z.boolean().default(false),
+    options: multipleChoiceOptionsSchema.optional(),
+    correctOptionIndex: z.number().int().min(0).optional(),
+    occlusion: imageOcclusionSchema.optional(),
+    tags: cardTagsSchema.optional()
+  })
+  .superRefine((data, ctx) => {
+    if (data.type === "MULTIPLE_CHOICE") {
+      const message = getMultipleChoiceError(data.options, data.correctOptionIndex);
+      if (message) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ["options"],
+          message
+        });
+      }
+    } else if (data.options !== undefined || data.correctOptionIndex !== undefined) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["options"],
+        message: "Only multiple-choice cards have options"
+      });
+    }
+    if (data.type === "BASIC" && data.answer.length === 0) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["answer"],
+        message: "Answer is required"
+      });
+    }
+    if (data.type === "CLOZE" && getClozeIndices(data.question).length === 0) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["question"],
+        message: "Cloze text must contain at least one deletion like {{c1::answer}}"
+      });
+    }
+    if (data.type === "IMAGE_OCCLUSION" && !data.occlusion) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["occlusion"],
+        message: "Image occlusion cards need an image and at least one mask"
+      });
+    } else if (data.type !== "IMAGE_OCCLUSION" && data.occlusion) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["occlusion"],
+        message: "Only image occlusion cards have masks"
+      });
+    }
+    if (data.type !== "BASIC" && data.reverse) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["reverse"],
+        message: "Only basic cards can be reversed"
+      });
+    }
+  });
+
+export const cardUpdateSchema = z
+  .object({
+    format: cardFormatSchema,
+    question: z.string().trim().min(1).max(2000),
+    answer: z.string().trim().max(5000),
+    reverse: z.boolean(),
+    options: multipleChoiceOptionsSchema,
+    correctOptionIndex: z.number().int().min(0),
+    occlusion: imageOcclusionSchema,
+    tags: cardTagsSchema
+  })
+  .partial()
+  .refine((data) => Object.keys(data).length > 0, {
+    message: "At least one field must be provided"
+  });
+
+// Buried cards stay out of study sessions until the next study day starts.
+export const cardBulkUpdateSchema = z
+  .object({
+    cardIds: z.array(z.string().min(1)).min(1).max(1000),
+    suspended: z.boolean().optional(),
+    buried: z.boolean().optional(),
+    flag: cardFlagSchema.nullable().optional()
+  })
+  .refine((data) => data.suspended !== undefined || data.buried !== undefined || data.flag !== undefined, {
+    message: "At least one of suspended, buried or flag must be provided"
+  });
+
 export type DeckCreateInput = z.infer<typeof deckCreateSchema>;
 export type DeckUpdateInput = z.infer<typeof deckUpdateSchema>;
 export type CardCreateInput = z.infer<typeof cardCreateSchema>;
 export type CardUpdateInput = z.infer<typeof cardUpdateSchema>;
+export type CardType = z.infer<typeof cardTypeSchema>;
+export type CardFormat = z.infer<typeof cardFormatSchema>;
+export type CardFlag = z.infer<typeof cardFlagSchema>;
+export type LeechAction = z.infer<typeof leechActionSchema>;
+export type CardBulkUpdateInput = z.infer<typeof cardBulkUpdateSchema>;
+export type OcclusionMask = z.infer<typeof occlusionMaskSchema>;
+export type ImageOcclusion = z.infer<typeof imageOcclusionSchema>;
+export type TagCreateInput = z.infer<typeof tagCreateSchema>;
+export type TagUpdateInput = z.infer<typeof tagUpdateSchema>;
+export type StudySettingsUpdateInput = z.infer<typeof studySettingsUpdateSchema>;
+export type VacationInput = z.infer<typeof vacationSchema>;
+export type StudyFilterCreateInput = z.infer<typeof studyFilterCreateSchema>;
+export type StudyFilterUpdateInput = z.infer<typeof studyFilterUpdateSchema>;
+export type SchedulingPresetCreateInput = z.infer<typeof schedulingPresetCreateSchema>;
+export type SchedulingPresetUpdateInput = z.infer<typeof schedulingPresetUpdateSchema>;